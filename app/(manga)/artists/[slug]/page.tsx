@@ -0,0 +1,24 @@
+/**
+ * Artist Detail Page
+ * Server component with SSR prefetch, SEO metadata, and JSON-LD schemas
+ */
+
+import type { Metadata } from "next";
+import {
+  TaxonomyDetailPage,
+  generateTaxonomyDetailMetadata,
+  type TaxonomyDetailPageProps,
+} from "@/components/taxonomy/taxonomy-detail-page";
+
+/** ISR: revalidate artist pages every hour */
+export const revalidate = 3600;
+
+export async function generateMetadata(
+  props: TaxonomyDetailPageProps
+): Promise<Metadata> {
+  return generateTaxonomyDetailMetadata("artists", props);
+}
+
+export default function ArtistDetailPage(props: TaxonomyDetailPageProps) {
+  return <TaxonomyDetailPage type="artists" {...props} />;
+}
@@ -0,0 +1,59 @@
+/**
+ * Artists Index Page
+ * Searchable, paginated list of manga artists
+ */
+
+import type { Metadata } from "next";
+import { HydrationBoundary, dehydrate } from "@tanstack/react-query";
+import { getTranslations } from "next-intl/server";
+import { generatePageMetadata } from "@/lib/seo/metadata";
+import { artistApi } from "@/lib/api/endpoints/manga";
+import { getQueryClient } from "@/lib/api/query-client";
+import { taxonomyKeys } from "@/lib/api/query-keys";
+import { PAGE_SIZES } from "@/lib/constants";
+import { parsePageParam } from "@/lib/utils/query-string";
+import { TaxonomyIndexContent } from "@/components/taxonomy/taxonomy-index-content";
+
+interface PageProps {
+  searchParams: Promise<{ q?: string; page?: string }>;
+}
+
+export async function generateMetadata({
+  searchParams,
+}: PageProps): Promise<Metadata> {
+  const params = await searchParams;
+  const t = await getTranslations("seo");
+
+  return generatePageMetadata({
+    title: t("artists.title"),
+    description: t("artists.description"),
+    path: "/artists",
+    // Search and pagination variants shouldn't be indexed
+    noindex: Object.keys(params).length > 0,
+  });
+}
+
+export default async function ArtistsPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const search = params.q || "";
+  const page = parsePageParam(params.page);
+
+  const queryClient = getQueryClient();
+  await queryClient.prefetchQuery({
+    queryKey: taxonomyKeys.list("artists", search, page),
+    queryFn: () =>
+      artistApi.getList({
+        search: search || undefined,
+        page,
+        per_page: PAGE_SIZES.TAXONOMY_LIST,
+      }),
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <HydrationBoundary state={dehydrate(queryClient)}>
+        <TaxonomyIndexContent type="artists" search={search} page={page} />
+      </HydrationBoundary>
+    </div>
+  );
+}
@@ -3,16 +3,43 @@
 /**
  * Browse Content Component
  * Client component for browse page with filters, manga grid, and pagination
+ * or infinite scroll
  */
 
+import { useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
-import { BrowseFilterBar, type FilterValues } from "@/components/browse";
+import {
+  BrowseFilterBar,
+  ListModeToggle,
+  type FilterValues,
+} from "@/components/browse";
+import { MangaCard } from "@/components/manga/manga-card";
 import { MangaGrid } from "@/components/manga/manga-grid";
+import { VirtualGrid } from "@/components/manga/virtual-grid";
+import { Button } from "@/components/ui/button";
 import { Pagination } from "@/components/ui/pagination";
-import { useBrowseManga } from "@/hooks/use-browse-manga";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  useBrowseManga,
+  useInfiniteBrowseManga,
+} from "@/hooks/use-browse-manga";
 import type { SortOption } from "@/components/browse/sort-select";
+import { useListMode } from "@/lib/store/listPreferencesStore";
+import { UI } from "@/lib/constants";
 import { formatNumber } from "@/lib/utils";
+import { parseIdList } from "@/lib/utils/query-string";
+
+const GRID_COLUMNS = {
+  default: 2,
+  sm: 3,
+  md: 4,
+  lg: 6,
+  xl: 6,
+};
+
+// Cover, title and metadata of a card at 6 columns, plus the row gap
+const ESTIMATED_ROW_HEIGHT = 340;
 
 interface BrowseContentProps {
   searchParams: {
@@ -20,7 +47,8 @@ interface BrowseContentProps {
     status?: string;
     sort?: string;
     q?: string;
-    genre?: string;
+    genre?: string; // comma-separated included genre ids
+    exclude?: string; // comma-separated excluded genre ids
   };
 }
 
@@ -36,7 +64,8 @@ function parseSearchParams(searchParams: BrowseContentProps["searchParams"]): {
       search: searchParams.q || "",
       status: searchParams.status || "all",
       sort: (searchParams.sort as SortOption) || "-updated_at",
-      genre: searchParams.genre || "all",
+      genres: parseIdList(searchParams.genre),
+      excludedGenres: parseIdList(searchParams.exclude),
     },
     page: parseInt(searchParams.page || "1", 10),
   };
@@ -64,8 +93,15 @@ function buildUrl(filters: FilterValues, page: number): string {
     params.set("q", filters.search);
   }
 
-  if (filters.genre && filters.genre !== "all") {
-    params.set("genre", filters.genre);
+  if (filters.genres.length > 0) {
+    params.set("genre", [...filters.genres].sort((a, b) => a - b).join(","));
+  }
+
+  if (filters.excludedGenres.length > 0) {
+    params.set(
+      "exclude",
+      [...filters.excludedGenres].sort((a, b) => a - b).join(",")
+    );
   }
 
   const queryString = params.toString();
@@ -81,12 +117,22 @@ export function BrowseContent({ searchParams }: BrowseContentProps) {
 
   // Parse values from URL
   const { filters, page } = parseSearchParams(searchParams);
+  const isInfinite = useListMode() === "infinite";
 
   // Fetch manga list with prefetch support
-  const { data, isLoading, error, prefetchNextPage } = useBrowseManga(
-    filters,
-    page
-  );
+  const pagedQuery = useBrowseManga(filters, page, !isInfinite);
+  const infiniteQuery = useInfiniteBrowseManga(filters, isInfinite);
+  const {
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError,
+  } = infiniteQuery;
+  const isLoading = isInfinite ? infiniteQuery.isLoading : pagedQuery.isLoading;
+  // A failed next page keeps the loaded ones on screen
+  const error = isInfinite
+    ? !isFetchNextPageError && infiniteQuery.error
+    : pagedQuery.error;
 
   // Handle filter apply
   const handleApplyFilters = (newFilters: FilterValues) => {
@@ -101,21 +147,49 @@ export function BrowseContent({ searchParams }: BrowseContentProps) {
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
-  const mangas = data?.data || [];
-  const pagination = data?.meta?.pagination;
+  // Infinite scroll: every page loaded so far, in order
+  const mangas = useMemo(
+    () =>
+      isInfinite
+        ? (infiniteQuery.data?.pages.flatMap((result) => result.data) ?? [])
+        : pagedQuery.data?.data || [],
+    [isInfinite, infiniteQuery.data, pagedQuery.data]
+  );
+  const pagination = isInfinite
+    ? infiniteQuery.data?.pages[0]?.meta?.pagination
+    : pagedQuery.data?.meta?.pagination;
   const totalPages = pagination?.last_page || 1;
   const totalCount = pagination?.total || 0;
 
+  // Failed pages wait for the retry button instead of refetching on scroll
+  const handleEndReached = () => {
+    if (hasNextPage && !isFetchingNextPage && !isFetchNextPageError) {
+      fetchNextPage();
+    }
+  };
+
+  const emptyMessage = (
+    <div className="text-center">
+      <p className="text-lg font-medium">{t("noResults")}</p>
+      <p className="text-sm text-muted-foreground mt-2">
+        {t("noResultsDescription")}
+      </p>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Page Title */}
-      <div className="space-y-2">
-        <h1 className="text-3xl font-bold">{t("title")}</h1>
-        {!isLoading && totalCount > 0 && (
-          <p className="text-muted-foreground">
-            {t("totalResults", { count: formatNumber(totalCount) })}
-          </p>
-        )}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">{t("title")}</h1>
+          {!isLoading && totalCount > 0 && (
+            <p className="text-muted-foreground">
+              {t("totalResults", { count: formatNumber(totalCount) })}
+            </p>
+          )}
+        </div>
+        <ListModeToggle />
       </div>
 
       {/* Filter Bar */}
@@ -131,31 +205,57 @@ export function BrowseContent({ searchParams }: BrowseContentProps) {
         </div>
       )}
 
+      {/* Infinite Scroll - skeleton and empty state come from MangaGrid */}
+      {!error && isInfinite && !isLoading && mangas.length > 0 && (
+        <>
+          <VirtualGrid
+            items={mangas}
+            getKey={(manga) => manga.id}
+            renderItem={(manga, index) => (
+              <MangaCard
+                manga={manga}
+                priority={index < UI.PRIORITY_IMAGE_COUNT}
+              />
+            )}
+            columns={GRID_COLUMNS}
+            estimateRowHeight={ESTIMATED_ROW_HEIGHT}
+            scrollKey={buildUrl(filters, 1)}
+            onEndReached={handleEndReached}
+          />
+
+          <div className="flex justify-center py-4 text-sm text-muted-foreground">
+            {isFetchingNextPage ? (
+              <Spinner size="sm" />
+            ) : isFetchNextPageError ? (
+              <div className="flex items-center gap-3">
+                {t("loadMoreFailed")}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fetchNextPage()}
+                >
+                  {t("retry")}
+                </Button>
+              </div>
+            ) : (
+              !hasNextPage && t("endOfList")
+            )}
+          </div>
+        </>
+      )}
+
       {/* Manga Grid */}
-      {!error && (
+      {!error && (!isInfinite || isLoading || mangas.length === 0) && (
         <>
           <MangaGrid
             mangas={mangas}
             isLoading={isLoading}
-            columns={{
-              default: 2,
-              sm: 3,
-              md: 4,
-              lg: 6,
-              xl: 6,
-            }}
-            emptyMessage={
-              <div className="text-center">
-                <p className="text-lg font-medium">{t("noResults")}</p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  {t("noResultsDescription")}
-                </p>
-              </div>
-            }
+            columns={GRID_COLUMNS}
+            emptyMessage={emptyMessage}
           />
 
           {/* Pagination */}
-          {!isLoading && totalPages > 1 && (
+          {!isInfinite && !isLoading && totalPages > 1 && (
             <Pagination
               currentPage={page}
               totalPages={totalPages}
@@ -19,6 +19,7 @@ import { BrowseSkeleton } from "@/components/browse/browse-skeleton";
 import type { SortOption } from "@/components/browse/sort-select";
 import { API_BASE_URL } from "@/lib/api/config";
 import { getTranslations } from "next-intl/server";
+import { parseIdList } from "@/lib/utils/query-string";
 
 /**
  * Generate metadata for browse page
@@ -30,6 +31,7 @@ interface BrowsePageProps {
     sort?: string;
     q?: string;
     genre?: string;
+    exclude?: string;
   }>;
 }
 
@@ -95,7 +97,8 @@ async function prefetchBrowseData(
     search: params.q || "",
     status: params.status || "all",
     sort: (params.sort as SortOption) || "-updated_at",
-    genre: params.genre || "all",
+    genres: parseIdList(params.genre),
+    excludedGenres: parseIdList(params.exclude),
   };
   const page = parseInt(params.page || "1", 10);
 
@@ -115,8 +118,12 @@ async function prefetchBrowseData(
     mangaParams.set("filter[status]", filters.status);
   }
 
-  if (filters.genre && filters.genre !== "all") {
-    mangaParams.set("filter[accept_genres]", filters.genre);
+  if (filters.genres.length > 0) {
+    mangaParams.set("filter[accept_genres]", filters.genres.join(","));
+  }
+
+  if (filters.excludedGenres.length > 0) {
+    mangaParams.set("filter[reject_genres]", filters.excludedGenres.join(","));
   }
 
   // Parallel prefetch - manga list + genres
@@ -0,0 +1,131 @@
+/**
+ * Genre Detail Page
+ * Server component with SSR prefetch, SEO metadata, and JSON-LD schemas
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { HydrationBoundary, dehydrate } from "@tanstack/react-query";
+
+/** ISR: revalidate genre pages every hour */
+export const revalidate = 3600;
+
+import { generateGenreMetadata } from "@/lib/seo/metadata";
+import {
+  generateBreadcrumbSchema,
+  generateCollectionPageSchema,
+  combineSchemas,
+  safeJsonLdStringify,
+} from "@/lib/seo/json-ld";
+import { genreApi } from "@/lib/api/endpoints/manga";
+import { getQueryClient } from "@/lib/api/query-client";
+import { genreKeys } from "@/lib/api/query-keys";
+import { PAGE_SIZES } from "@/lib/constants";
+import { GenreDetailContent } from "@/components/genres/genre-detail-content";
+import { GENRE_SORT_OPTIONS, type GenreSortOption } from "@/types/manga";
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ sort?: string; page?: string }>;
+}
+
+// Deduplicate the fetch between generateMetadata and the page component
+const getGenreDetail = cache(async (slug: string) => {
+  return genreApi.getDetail(slug);
+});
+
+function parseSort(sort?: string): GenreSortOption {
+  return GENRE_SORT_OPTIONS.includes(sort as GenreSortOption)
+    ? (sort as GenreSortOption)
+    : "-updated_at";
+}
+
+export async function generateMetadata({
+  params,
+  searchParams,
+}: PageProps): Promise<Metadata> {
+  try {
+    const { slug } = await params;
+    const query = await searchParams;
+    const genre = await getGenreDetail(slug);
+    const metadata = await generateGenreMetadata(genre);
+
+    // Sorted and paginated variants shouldn't be indexed
+    return Object.keys(query).length > 0
+      ? { ...metadata, robots: { index: false, follow: true } }
+      : metadata;
+  } catch {
+    return {
+      title: "Genre Not Found",
+      description: "The requested genre could not be found.",
+    };
+  }
+}
+
+export default async function GenreDetailPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { slug } = await params;
+  const query = await searchParams;
+  const sort = parseSort(query.sort);
+  const page = parseInt(query.page || "1", 10);
+
+  let genre;
+  try {
+    genre = await getGenreDetail(slug);
+  } catch {
+    notFound();
+  }
+
+  const queryClient = getQueryClient();
+  queryClient.setQueryData(genreKeys.detail(slug), genre);
+
+  // Non-blocking - client fetches the grid if this fails
+  let mangas;
+  try {
+    mangas = await genreApi.getMangas(slug, {
+      sort,
+      page,
+      per_page: PAGE_SIZES.MANGA_GRID,
+    });
+    queryClient.setQueryData(genreKeys.mangas(slug, sort, page), mangas);
+  } catch {
+    // Client will fetch mangas if prefetch fails
+  }
+
+  const schemas = combineSchemas([
+    generateBreadcrumbSchema([
+      { name: "Home", url: "/" },
+      { name: "Genres", url: "/genres" },
+      { name: genre.name, url: `/genres/${genre.slug}` },
+    ]),
+    generateCollectionPageSchema({
+      name: genre.name,
+      description: genre.description,
+      url: `/genres/${genre.slug}`,
+      items: mangas?.data.map((manga) => ({
+        name: manga.name,
+        url: `/manga/${manga.slug}`,
+        image: manga.cover_full_url,
+      })),
+    }),
+  ]);
+
+  return (
+    <>
+      {/* JSON-LD Schemas */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: safeJsonLdStringify(schemas) }}
+      />
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <HydrationBoundary state={dehydrate(queryClient)}>
+          <GenreDetailContent slug={slug} sort={sort} page={page} />
+        </HydrationBoundary>
+      </div>
+    </>
+  );
+}
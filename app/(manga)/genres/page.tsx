@@ -0,0 +1,95 @@
+/**
+ * Genres Index Page
+ * All genres with color accents, descriptions and manga counts
+ */
+
+import type { Metadata } from "next";
+import { getTranslations } from "next-intl/server";
+
+/** ISR: revalidate the genre index every hour */
+export const revalidate = 3600;
+
+import { generatePageMetadata } from "@/lib/seo/metadata";
+import {
+  generateBreadcrumbSchema,
+  generateCollectionPageSchema,
+  combineSchemas,
+  safeJsonLdStringify,
+} from "@/lib/seo/json-ld";
+import { genreApi } from "@/lib/api/endpoints/manga";
+import { formatNumber } from "@/lib/utils";
+import { GenreCard } from "@/components/genres/genre-card";
+import type { Genre } from "@/types/manga";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations("seo");
+
+  return generatePageMetadata({
+    title: t("genres.title"),
+    description: t("genres.description"),
+    path: "/genres",
+  });
+}
+
+export default async function GenresPage() {
+  const t = await getTranslations("genres");
+  const tSeo = await getTranslations("seo");
+
+  let genres: Genre[] = [];
+  let loadFailed = false;
+  try {
+    const response = await genreApi.getList({ per_page: 100 });
+    genres = [...response.data].sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    loadFailed = true;
+  }
+
+  const schemas = combineSchemas([
+    generateBreadcrumbSchema([
+      { name: "Home", url: "/" },
+      { name: "Genres", url: "/genres" },
+    ]),
+    generateCollectionPageSchema({
+      name: tSeo("genres.title"),
+      description: tSeo("genres.description"),
+      url: "/genres",
+    }),
+  ]);
+
+  return (
+    <>
+      {/* JSON-LD Schemas */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: safeJsonLdStringify(schemas) }}
+      />
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl space-y-6">
+        <div className="space-y-1">
+          <h1 className="text-2xl sm:text-3xl font-bold">{t("title")}</h1>
+          <p className="text-sm text-muted-foreground">{t("subtitle")}</p>
+        </div>
+
+        {loadFailed ? (
+          <p className="text-center py-12 text-destructive">{t("loadError")}</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+            {genres.map((genre) => (
+              <GenreCard
+                key={genre.id}
+                genre={genre}
+                mangasCountLabel={
+                  genre.mangas_count !== undefined
+                    ? t("mangasCount", {
+                        count: formatNumber(genre.mangas_count),
+                      })
+                    : undefined
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -18,6 +18,9 @@ interface PageProps {
     slug: string;
     chapter: string;
   }>;
+  searchParams: Promise<{
+    page?: string;
+  }>;
 }
 
 // Cache chapter fetch to deduplicate between generateMetadata and page component
@@ -55,8 +58,11 @@ export async function generateMetadata({
  * Chapter Reader Page Component
  * Prefetches chapter data + images on server and passes to client via HydrationBoundary
  */
-export default async function ChapterPage({ params }: PageProps) {
+export default async function ChapterPage({ params, searchParams }: PageProps) {
   const { slug, chapter } = await params;
+  const { page } = await searchParams;
+  const initialPage = Number(page) > 0 ? Math.floor(Number(page)) : undefined;
+  const fromEnd = page === "last";
 
   // Prefetch chapter data into QueryClient for instant client hydration
   const queryClient = getQueryClient();
@@ -71,7 +77,13 @@ export default async function ChapterPage({ params }: PageProps) {
 
   return (
     <HydrationBoundary state={dehydratedState}>
-      <ReaderView key={chapter} mangaSlug={slug} chapterSlug={chapter} />
+      <ReaderView
+        key={chapter}
+        mangaSlug={slug}
+        chapterSlug={chapter}
+        initialPage={initialPage}
+        fromEnd={fromEnd}
+      />
     </HydrationBoundary>
   );
 }
@@ -3,20 +3,54 @@
 /**
  * Chapter list section for manga detail page
  * Extracted from manga-detail-content.tsx for modularity
+ * Long lists are split into collapsible ranges of chapter numbers, and only
+ * the rows scrolled into view are rendered
  */
 
-import { useState, useMemo, useCallback } from "react";
+import {
+  useState,
+  useMemo,
+  useCallback,
+  useEffect,
+  useRef,
+  type FormEvent,
+} from "react";
 import { useTranslations } from "next-intl";
 import Link from "next/link";
-import { Search, ArrowUpDown } from "lucide-react";
+import { Search, ArrowUpDown, Check, ChevronRight } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { DownloadChapterButton } from "@/components/offline/download-chapter-button";
+import { useColumnCount } from "@/hooks/use-virtual-grid";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { cn } from "@/lib/utils";
+import {
+  findChapterByNumber,
+  getChapterGroupIndex,
+  groupChapters,
+  type ChapterGroup,
+} from "@/lib/utils/chapter-groups";
 import type { ChapterListItem } from "@/types/chapter";
 
+const GRID_COLUMNS = { default: 1, md: 2, lg: 3 };
+
+// Fixed row heights let the list place every row without measuring
+const GROUP_ROW_HEIGHT = 40;
+const CHAPTER_ROW_HEIGHT = 56;
+
+type ChapterListRow =
+  | {
+      type: "group";
+      group: ChapterGroup<ChapterListItem>;
+      isExpanded: boolean;
+      readCount: number;
+    }
+  | { type: "chapters"; chapters: ChapterListItem[] };
+
 interface MangaChapterListProps {
   mangaSlug: string;
   chapters: ChapterListItem[];
@@ -25,6 +59,8 @@ interface MangaChapterListProps {
   onSortChange: (order: "newest" | "oldest") => void;
   /** Current reading chapter slug for highlighting */
   currentChapterSlug?: string;
+  /** Slugs of the chapters shown as read */
+  readChapterSlugs?: string[];
 }
 
 export function MangaChapterList({
@@ -34,10 +70,20 @@ export function MangaChapterList({
   sortOrder,
   onSortChange,
   currentChapterSlug,
+  readChapterSlugs,
 }: MangaChapterListProps) {
   const t = useTranslations("manga");
   const tChapter = useTranslations("chapter");
   const [searchTerm, setSearchTerm] = useState("");
+  const [jumpNumber, setJumpNumber] = useState("");
+  const [jumpTargetId, setJumpTargetId] = useState<number | null>(null);
+  // Ranges the reader opened or closed - null until they do
+  const [expandedGroups, setExpandedGroups] = useState<Set<number> | null>(
+    null
+  );
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pendingJumpRef = useRef(false);
+  const columnCount = useColumnCount(GRID_COLUMNS);
 
   const filteredChapters = useMemo(() => {
     if (!searchTerm) return chapters;
@@ -49,10 +95,214 @@ export function MangaChapterList({
     );
   }, [chapters, searchTerm]);
 
+  const groups = useMemo(() => groupChapters(chapters), [chapters]);
+  const isGrouped = !searchTerm && groups.length > 1;
+
+  // Until then, open the range being read (or the first one)
+  const openGroups = useMemo(() => {
+    if (expandedGroups) return expandedGroups;
+    const current = chapters.find((c) => c.slug === currentChapterSlug);
+    const index = current
+      ? getChapterGroupIndex(current.chapter_number)
+      : groups[0]?.index;
+    return new Set(index === undefined ? [] : [index]);
+  }, [expandedGroups, chapters, currentChapterSlug, groups]);
+
+  const readSlugs = useMemo(
+    () => new Set(readChapterSlugs),
+    [readChapterSlugs]
+  );
+  const isRead = useCallback(
+    (chapter: ChapterListItem) => readSlugs.has(chapter.slug),
+    [readSlugs]
+  );
+
+  const rows = useMemo<ChapterListRow[]>(() => {
+    const toRows = (items: ChapterListItem[]): ChapterListRow[] => {
+      const result: ChapterListRow[] = [];
+      for (let i = 0; i < items.length; i += columnCount) {
+        result.push({
+          type: "chapters",
+          chapters: items.slice(i, i + columnCount),
+        });
+      }
+      return result;
+    };
+
+    if (!isGrouped) return toRows(filteredChapters);
+
+    return groups.flatMap((group): ChapterListRow[] => {
+      const isExpanded = openGroups.has(group.index);
+      const header: ChapterListRow = {
+        type: "group",
+        group,
+        isExpanded,
+        readCount: group.chapters.filter(isRead).length,
+      };
+      return isExpanded ? [header, ...toRows(group.chapters)] : [header];
+    });
+  }, [isGrouped, filteredChapters, groups, openGroups, columnCount, isRead]);
+
+  const rowHeights = useMemo(
+    () =>
+      rows.map((row) =>
+        row.type === "group" ? GROUP_ROW_HEIGHT : CHAPTER_ROW_HEIGHT
+      ),
+    [rows]
+  );
+
+  const { startIndex, endIndex, offsetTop, totalHeight, scrollToIndex } =
+    useVirtualList({ scrollRef, rowHeights });
+
+  // Scroll to a jumped-to chapter once its range is open
+  useEffect(() => {
+    if (!pendingJumpRef.current || jumpTargetId === null) return;
+    pendingJumpRef.current = false;
+    scrollToIndex(
+      rows.findIndex(
+        (row) =>
+          row.type === "chapters" &&
+          row.chapters.some((chapter) => chapter.id === jumpTargetId)
+      )
+    );
+  }, [jumpTargetId, rows, scrollToIndex]);
+
   const handleSortChange = useCallback(() => {
     onSortChange(sortOrder === "newest" ? "oldest" : "newest");
   }, [sortOrder, onSortChange]);
 
+  const toggleGroup = (index: number) => {
+    const next = new Set(openGroups);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setExpandedGroups(next);
+  };
+
+  // Closest chapter when the number doesn't exist (e.g. 12 when only 12.5)
+  const handleJump = (event: FormEvent) => {
+    event.preventDefault();
+    const number = Number.parseFloat(jumpNumber);
+    const target = Number.isNaN(number)
+      ? undefined
+      : findChapterByNumber(chapters, number);
+    if (!target) return;
+
+    setSearchTerm("");
+    setExpandedGroups(
+      new Set(openGroups).add(getChapterGroupIndex(target.chapter_number))
+    );
+    setJumpTargetId(target.id);
+    pendingJumpRef.current = true;
+  };
+
+  const renderChapter = (chapter: ChapterListItem) => (
+    <div
+      key={chapter.id}
+      className={cn(
+        "flex items-center border-b border-border/40 hover:bg-secondary/20 transition-all duration-200 rounded-sm",
+        chapter.id === jumpTargetId && "bg-primary/10"
+      )}
+      style={{ height: CHAPTER_ROW_HEIGHT }}
+    >
+      <Link
+        href={`/manga/${mangaSlug}/${chapter.slug}`}
+        className="flex flex-1 min-w-0 h-full items-center justify-between hover:pl-2 transition-all duration-200"
+      >
+        <div className="min-w-0 pr-2 flex items-center gap-2">
+          <div className="min-w-0">
+            <div
+              className={cn(
+                "text-sm font-medium text-foreground/90 group-hover:text-primary truncate",
+                isRead(chapter) && "text-muted-foreground"
+              )}
+            >
+              {tChapter("chapter")} {chapter.chapter_number}
+            </div>
+            {chapter.name &&
+              chapter.name !== `Chapter ${chapter.chapter_number}` && (
+                <div className="text-[11px] text-muted-foreground truncate">
+                  {chapter.name}
+                </div>
+              )}
+          </div>
+          {currentChapterSlug === chapter.slug ? (
+            <Badge
+              variant="secondary"
+              className="text-[10px] px-1.5 h-4 bg-primary/10 text-primary flex-shrink-0"
+            >
+              {t("detail.reading")}
+            </Badge>
+          ) : (
+            isRead(chapter) && (
+              <Check
+                className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground"
+                aria-label={t("detail.read")}
+              />
+            )
+          )}
+        </div>
+        <div className="text-[10px] text-muted-foreground whitespace-nowrap font-mono flex-shrink-0">
+          {new Date(chapter.created_at).toLocaleDateString("vi-VN", {
+            day: "2-digit",
+            month: "2-digit",
+          })}
+        </div>
+      </Link>
+      <DownloadChapterButton
+        mangaSlug={mangaSlug}
+        chapterSlug={chapter.slug}
+        className="h-7 w-7 flex-shrink-0 text-muted-foreground"
+      />
+    </div>
+  );
+
+  const renderRow = (row: ChapterListRow) => {
+    if (row.type === "group") {
+      const { group, isExpanded, readCount } = row;
+      return (
+        <button
+          key={`group-${group.index}`}
+          type="button"
+          onClick={() => toggleGroup(group.index)}
+          aria-expanded={isExpanded}
+          className="flex w-full items-center justify-between gap-2 border-b border-border/40 px-1 text-sm font-semibold hover:text-primary transition-colors"
+          style={{ height: GROUP_ROW_HEIGHT }}
+        >
+          <span className="flex items-center gap-1.5">
+            <ChevronRight
+              className={cn(
+                "h-4 w-4 transition-transform",
+                isExpanded && "rotate-90"
+              )}
+            />
+            {tChapter("range", { start: group.start, end: group.end })}
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {t("detail.rangeRead", {
+              read: readCount,
+              total: group.chapters.length,
+            })}
+          </span>
+        </button>
+      );
+    }
+
+    return (
+      <div
+        key={`chapters-${row.chapters[0].id}`}
+        className="grid gap-x-6"
+        style={{
+          gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`,
+        }}
+      >
+        {row.chapters.map(renderChapter)}
+      </div>
+    );
+  };
+
   return (
     <Card>
       <CardContent className="px-4 sm:px-6">
@@ -93,8 +343,36 @@ export function MangaChapterList({
             </div>
           </div>
 
+          {/* Jump To Chapter - only worth it once there are ranges */}
+          {groups.length > 1 && (
+            <form onSubmit={handleJump} className="flex items-center gap-2">
+              <Input
+                type="number"
+                inputMode="decimal"
+                step="any"
+                placeholder={t("detail.jumpToChapter")}
+                aria-label={t("detail.jumpToChapter")}
+                className="h-8 w-40 text-xs rounded-full bg-secondary/30 border-transparent focus:bg-background focus:border-primary"
+                value={jumpNumber}
+                onChange={(e) => setJumpNumber(e.target.value)}
+              />
+              <Button
+                type="submit"
+                variant="secondary"
+                size="sm"
+                className="h-8 rounded-full"
+                disabled={!jumpNumber}
+              >
+                {t("detail.jump")}
+              </Button>
+            </form>
+          )}
+
           {/* Chapter Grid */}
-          <div className="max-h-[500px] overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-muted-foreground/20 scrollbar-track-transparent">
+          <div
+            ref={scrollRef}
+            className="max-h-[500px] overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-muted-foreground/20 scrollbar-track-transparent"
+          >
             {isLoading ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1">
                 {Array.from({ length: 12 }).map((_, i) => (
@@ -110,47 +388,11 @@ export function MangaChapterList({
                   </div>
                 ))}
               </div>
-            ) : filteredChapters.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-1 transition-opacity duration-200">
-                {filteredChapters.map((chapter) => (
-                  <Link
-                    key={chapter.id}
-                    href={`/manga/${mangaSlug}/${chapter.slug}`}
-                    className="flex justify-between py-2.5 border-b border-border/40 hover:bg-secondary/20 hover:pl-2 transition-all duration-200 rounded-sm"
-                  >
-                    <div className="min-w-0 pr-2 flex items-center gap-2">
-                      <div>
-                        <div className="text-sm font-medium text-foreground/90 group-hover:text-primary truncate">
-                          {tChapter("chapter")} {chapter.chapter_number}
-                        </div>
-                        {chapter.name &&
-                          chapter.name !==
-                            `Chapter ${chapter.chapter_number}` && (
-                            <div className="text-[11px] text-muted-foreground truncate">
-                              {chapter.name}
-                            </div>
-                          )}
-                      </div>
-                      {currentChapterSlug === chapter.slug && (
-                        <Badge
-                          variant="secondary"
-                          className="text-[10px] px-1.5 h-4 bg-primary/10 text-primary flex-shrink-0"
-                        >
-                          {t("detail.reading")}
-                        </Badge>
-                      )}
-                    </div>
-                    <div className="text-[10px] text-muted-foreground whitespace-nowrap font-mono flex-shrink-0">
-                      {new Date(chapter.created_at).toLocaleDateString(
-                        "vi-VN",
-                        {
-                          day: "2-digit",
-                          month: "2-digit",
-                        }
-                      )}
-                    </div>
-                  </Link>
-                ))}
+            ) : rows.length > 0 ? (
+              <div className="relative" style={{ height: totalHeight }}>
+                <div style={{ transform: `translateY(${offsetTop}px)` }}>
+                  {rows.slice(startIndex, endIndex + 1).map(renderRow)}
+                </div>
               </div>
             ) : (
               <div className="col-span-full py-10 text-center text-sm text-muted-foreground">
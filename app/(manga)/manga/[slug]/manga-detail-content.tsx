@@ -7,7 +7,7 @@
 
 import { useQuery } from "@tanstack/react-query";
 import { useTranslations } from "next-intl";
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import dynamic from "next/dynamic";
 import { toast } from "sonner";
 
@@ -17,8 +17,8 @@ import { MangaDetailSkeleton } from "@/components/layout/loading/detail-skeleton
 import { CommentsSkeleton } from "@/components/comments/comments-skeleton";
 import { LazyCommentWrapper } from "@/components/comments/lazy-comment-wrapper";
 import { useMangaComments, useAddMangaComment } from "@/lib/hooks/use-comments";
+import { useMangaChapters } from "@/lib/hooks/use-manga-chapters";
 import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
-import { STALE_TIMES } from "@/lib/constants";
 import { Breadcrumb, MangaDetailHeader } from "./manga-detail-header";
 import { MangaChapterList } from "./manga-chapter-list";
 
@@ -38,8 +38,6 @@ interface MangaDetailContentProps {
   slug: string;
 }
 
-const CHAPTERS_PER_PAGE = 999;
-
 export function MangaDetailContent({ slug }: MangaDetailContentProps) {
   const tErrors = useTranslations("errors");
   const tComment = useTranslations("comment");
@@ -51,6 +49,7 @@ export function MangaDetailContent({ slug }: MangaDetailContentProps) {
 
   // Reading progress
   const readingProgress = useReadingProgressStore((s) => s.getProgress(slug));
+  const readChapterSlugs = useReadingProgressStore((s) => s.readChapters[slug]);
 
   // Manga detail query - uses hydrated data from server prefetch
   const {
@@ -62,19 +61,17 @@ export function MangaDetailContent({ slug }: MangaDetailContentProps) {
     queryFn: () => mangaApi.getDetail(slug),
   });
 
-  // Chapters query
-  const { data: chaptersResponse, isLoading: isChaptersLoading } = useQuery({
-    queryKey: ["manga", slug, "chapters", sortOrder],
-    queryFn: () =>
-      mangaApi.getChapters(slug, {
-        per_page: CHAPTERS_PER_PAGE,
-        sort: sortOrder === "newest" ? "desc" : "asc",
-      }),
-    enabled: !!manga,
-    staleTime: STALE_TIMES.LONG,
-  });
+  // Chapters query - every chapter, shared with the reader
+  const { data: allChapters, isLoading: isChaptersLoading } = useMangaChapters(
+    slug,
+    !!manga
+  );
 
-  const chapters = chaptersResponse?.data || [];
+  // Sorting is client-side, the list is always complete
+  const chapters = useMemo(() => {
+    const list = allChapters ?? [];
+    return sortOrder === "newest" ? [...list].reverse() : list;
+  }, [allChapters, sortOrder]);
 
   const handleSortOrderChange = useCallback((order: "newest" | "oldest") => {
     setSortOrder(order);
@@ -127,6 +124,7 @@ export function MangaDetailContent({ slug }: MangaDetailContentProps) {
           sortOrder={sortOrder}
           onSortChange={handleSortOrderChange}
           currentChapterSlug={readingProgress?.chapterSlug}
+          readChapterSlugs={readChapterSlugs}
         />
 
         {/* Comments Section */}
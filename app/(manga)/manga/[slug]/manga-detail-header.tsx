@@ -15,6 +15,8 @@ import {
   Eye,
   CalendarDays,
   User,
+  Users,
+  Layers,
   PawPrint,
   BookOpen,
 } from "lucide-react";
@@ -22,7 +24,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
-import { BookmarkButton } from "@/components/manga/bookmark-button";
+import { ShelfPicker } from "@/components/manga/shelf-picker";
 import { StarRating } from "@/components/manga/star-rating";
 import { cn, formatNumber } from "@/lib/utils";
 import {
@@ -41,10 +43,11 @@ import type { ChapterListItem } from "@/types/chapter";
 interface MetaItemProps {
   icon: ComponentType<{ className?: string }>;
   text: string;
+  href?: string;
   className?: string;
 }
 
-const MetaItem = ({ icon: Icon, text, className }: MetaItemProps) => (
+const MetaItem = ({ icon: Icon, text, href, className }: MetaItemProps) => (
   <div
     className={cn(
       "flex items-center gap-1.5 text-xs text-muted-foreground",
@@ -52,7 +55,16 @@ const MetaItem = ({ icon: Icon, text, className }: MetaItemProps) => (
     )}
   >
     <Icon className="h-3.5 w-3.5" />
-    <span className="line-clamp-1">{text}</span>
+    {href ? (
+      <Link
+        href={href}
+        className="line-clamp-1 hover:text-primary hover:underline transition-colors"
+      >
+        {text}
+      </Link>
+    ) : (
+      <span className="line-clamp-1">{text}</span>
+    )}
   </div>
 );
 
@@ -253,7 +265,25 @@ export function MangaDetailHeader({ manga, chapters }: MangaDetailHeaderProps) {
             {/* Author / Updated */}
             <div className="flex flex-col gap-1 mt-1">
               {manga.artist && (
-                <MetaItem icon={User} text={manga.artist.name} />
+                <MetaItem
+                  icon={User}
+                  text={manga.artist.name}
+                  href={`/artists/${manga.artist.slug}`}
+                />
+              )}
+              {manga.group && (
+                <MetaItem
+                  icon={Users}
+                  text={manga.group.name}
+                  href={`/groups/${manga.group.slug}`}
+                />
+              )}
+              {manga.doujinshi && (
+                <MetaItem
+                  icon={Layers}
+                  text={manga.doujinshi.name}
+                  href={`/doujinshis/${manga.doujinshi.slug}`}
+                />
               )}
               <MetaItem
                 icon={CalendarDays}
@@ -269,8 +299,9 @@ export function MangaDetailHeader({ manga, chapters }: MangaDetailHeaderProps) {
                     key={g.id}
                     variant="secondary"
                     className="text-[10px] px-1.5 h-5 font-normal hover:bg-secondary-foreground/10 cursor-pointer"
+                    asChild
                   >
-                    {g.name}
+                    <Link href={`/genres/${g.slug}`}>{g.name}</Link>
                   </Badge>
                 ))}
                 {manga.genres.length > 5 && (
@@ -340,8 +371,15 @@ export function MangaDetailHeader({ manga, chapters }: MangaDetailHeaderProps) {
                 </Button>
               )}
 
-              <BookmarkButton
-                manga={{ id: manga.id, name: manga.name }}
+              <ShelfPicker
+                manga={{
+                  id: manga.id,
+                  uuid: manga.uuid,
+                  name: manga.name,
+                  name_alt: manga.name_alt,
+                  slug: manga.slug,
+                  cover_full_url: manga.cover_full_url,
+                }}
                 size="sm"
                 showText={false}
                 variant="outline"
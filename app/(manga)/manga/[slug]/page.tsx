@@ -20,7 +20,8 @@ import {
 } from "@/lib/seo/json-ld";
 import { mangaApi } from "@/lib/api/endpoints/manga";
 import { getQueryClient } from "@/lib/api/query-client";
-import { mangaKeys } from "@/lib/api/query-keys";
+import { chapterKeys, mangaKeys } from "@/lib/api/query-keys";
+import { CHAPTER_LIST } from "@/lib/constants";
 import { MangaDetailContent } from "./manga-detail-content";
 
 interface PageProps {
@@ -70,13 +71,20 @@ export default async function MangaDetailPage({ params }: PageProps) {
   const queryClient = getQueryClient();
   queryClient.setQueryData(mangaKeys.detail(slug), manga);
 
-  // Prefetch chapters list in parallel (non-blocking — don't fail page if this errors)
+  // Prefetch the newest page of chapters (non-blocking — don't fail page if
+  // this errors). A longer list is marked stale so the client loads the rest.
   try {
-    const chapters = await mangaApi.getChapters(slug, {
-      per_page: 999,
+    const newest = await mangaApi.getChapters(slug, {
+      page: 1,
+      per_page: CHAPTER_LIST.PER_PAGE,
       sort: "desc",
     });
-    queryClient.setQueryData(["manga", slug, "chapters", "newest"], chapters);
+    const complete = newest.meta.pagination.last_page <= 1;
+    queryClient.setQueryData(
+      chapterKeys.list(slug),
+      [...newest.data].sort((a, b) => a.chapter_number - b.chapter_number),
+      complete ? undefined : { updatedAt: 0 }
+    );
   } catch {
     // Client will fetch chapters if prefetch fails
   }
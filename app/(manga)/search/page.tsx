@@ -0,0 +1,64 @@
+/**
+ * Search Page
+ * Server component for full search results with advanced filters
+ * Target of the header SearchBar and the WebSite SearchAction schema
+ */
+
+import type { Metadata } from "next";
+import { HydrationBoundary, dehydrate } from "@tanstack/react-query";
+import { getTranslations } from "next-intl/server";
+import {
+  generatePageMetadata,
+  generateSearchMetadata,
+} from "@/lib/seo/metadata";
+import { getQueryClient } from "@/lib/api/query-client";
+import { searchKeys } from "@/lib/api/query-keys";
+import {
+  parseSearchUrlParams,
+  type SearchUrlParams,
+} from "@/lib/utils/search-filters";
+import { fetchSearchResults } from "@/hooks/use-search-manga";
+import { SearchContent } from "./search-content";
+
+interface SearchPageProps {
+  searchParams: Promise<SearchUrlParams>;
+}
+
+export async function generateMetadata({
+  searchParams,
+}: SearchPageProps): Promise<Metadata> {
+  const { q } = await searchParams;
+
+  if (q?.trim()) {
+    return generateSearchMetadata(q.trim());
+  }
+
+  const t = await getTranslations("search");
+  return generatePageMetadata({
+    title: t("searchResults"),
+    description: t("searchPlaceholder"),
+    path: "/search",
+    noindex: true,
+  });
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const params = await searchParams;
+  const { query, filters, page } = parseSearchUrlParams(params);
+
+  const queryClient = getQueryClient();
+  if (query.length >= 2) {
+    await queryClient.prefetchQuery({
+      queryKey: searchKeys.results(query, filters, page),
+      queryFn: () => fetchSearchResults(query, filters, page),
+    });
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <HydrationBoundary state={dehydrate(queryClient)}>
+        <SearchContent key={query} searchParams={params} />
+      </HydrationBoundary>
+    </div>
+  );
+}
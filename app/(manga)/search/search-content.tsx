@@ -0,0 +1,154 @@
+"use client";
+
+/**
+ * Search Content Component
+ * Client component for the search results page with filters and pagination
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Pagination } from "@/components/ui/pagination";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SearchFilters, SearchResultCard } from "@/components/search";
+import { useSearchManga } from "@/hooks/use-search-manga";
+import { formatNumber } from "@/lib/utils";
+import { UI } from "@/lib/constants";
+import {
+  buildSearchUrl,
+  parseSearchUrlParams,
+  type SearchFilterValues,
+  type SearchUrlParams,
+} from "@/lib/utils/search-filters";
+
+interface SearchContentProps {
+  searchParams: SearchUrlParams;
+}
+
+export function SearchContent({ searchParams }: SearchContentProps) {
+  const t = useTranslations("search");
+  const router = useRouter();
+
+  // Parse values from URL
+  const { query, filters, page } = parseSearchUrlParams(searchParams);
+  const [input, setInput] = useState(query);
+
+  const { data, isLoading, isFetching, error } = useSearchManga(
+    query,
+    filters,
+    page
+  );
+
+  const results = data?.data || [];
+  const pagination = data?.meta?.pagination;
+  const totalPages = pagination?.last_page || 1;
+  const totalCount = pagination?.total || 0;
+  const canSearch = query.length >= 2;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    router.push(buildSearchUrl(input.trim(), filters, 1));
+  };
+
+  const handleApplyFilters = (newFilters: SearchFilterValues) => {
+    router.push(buildSearchUrl(query, newFilters, 1));
+  };
+
+  const handlePageChange = (newPage: number) => {
+    router.push(buildSearchUrl(query, filters, newPage));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Title */}
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">
+          {query ? t("searchFor", { query }) : t("searchResults")}
+        </h1>
+        {canSearch && !isLoading && (
+          <p className="text-muted-foreground">
+            {t("resultsFound", { count: formatNumber(totalCount) })}
+          </p>
+        )}
+      </div>
+
+      {/* Search Input */}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+          <Input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t("searchPlaceholder")}
+            className="pl-9"
+            autoFocus={!query}
+          />
+        </div>
+        <Button type="submit">{t("search")}</Button>
+      </form>
+
+      {/* Filters - keyed by URL so local state resets on navigation */}
+      <SearchFilters
+        key={JSON.stringify(filters)}
+        initialValues={filters}
+        onApply={handleApplyFilters}
+      />
+
+      {/* Results */}
+      {!canSearch ? (
+        <p className="text-center py-12 text-muted-foreground">
+          {t("minCharacters")}
+        </p>
+      ) : error ? (
+        <p className="text-center py-12 text-destructive">{t("loadError")}</p>
+      ) : isLoading ? (
+        <div className="grid gap-3 md:grid-cols-2">
+          {Array.from({ length: 8 }).map((_, i) => (
+            <Skeleton key={i} className="h-36 rounded-lg" />
+          ))}
+        </div>
+      ) : results.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-lg font-medium">{t("noResultsTitle")}</p>
+          <p className="text-sm text-muted-foreground mt-2">
+            {t("noResultsMessage")}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div
+            className={
+              isFetching
+                ? "grid gap-3 md:grid-cols-2 opacity-60 transition-opacity"
+                : "grid gap-3 md:grid-cols-2 transition-opacity"
+            }
+          >
+            {results.map((manga, index) => (
+              <SearchResultCard
+                key={manga.id}
+                manga={manga}
+                query={query}
+                priority={index < UI.PRIORITY_IMAGE_COUNT}
+              />
+            ))}
+          </div>
+
+          {totalPages > 1 && (
+            <Pagination
+              currentPage={page}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+              className="mt-8"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
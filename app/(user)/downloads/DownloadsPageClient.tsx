@@ -0,0 +1,194 @@
+"use client";
+
+import { useMemo } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { HardDrive, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EmptyState } from "@/components/library/empty-state";
+import {
+  useDownloadedChapters,
+  useRemoveDownloadedChapter,
+  useStorageEstimate,
+} from "@/lib/hooks/use-offline-chapters";
+import type { DownloadedChapter } from "@/lib/offline/chapter-downloads";
+import { isUnoptimizedImage } from "@/lib/utils/image-placeholder";
+import { formatBytes } from "@/lib/utils";
+
+interface MangaDownloads {
+  mangaSlug: string;
+  mangaName: string;
+  coverUrl?: string;
+  chapters: DownloadedChapter[];
+  bytes: number;
+}
+
+export default function DownloadsPageClient() {
+  const t = useTranslations("offline");
+  const { data: downloads, isLoading } = useDownloadedChapters();
+  const { data: storage } = useStorageEstimate();
+  const removeDownload = useRemoveDownloadedChapter();
+
+  // Group downloads by manga, chapters in reading order
+  const groups = useMemo<MangaDownloads[]>(() => {
+    const byManga = new Map<string, MangaDownloads>();
+
+    downloads?.forEach((record) => {
+      const group = byManga.get(record.mangaSlug) ?? {
+        mangaSlug: record.mangaSlug,
+        mangaName: record.chapter.manga?.name ?? record.mangaSlug,
+        coverUrl: record.chapter.manga?.cover_full_url,
+        chapters: [],
+        bytes: 0,
+      };
+      group.chapters.push(record);
+      group.bytes += record.bytes;
+      byManga.set(record.mangaSlug, group);
+    });
+
+    return Array.from(byManga.values()).map((group) => ({
+      ...group,
+      chapters: [...group.chapters].sort(
+        (a, b) => a.chapter.chapter_number - b.chapter.chapter_number
+      ),
+    }));
+  }, [downloads]);
+
+  const totalBytes = groups.reduce((sum, group) => sum + group.bytes, 0);
+
+  const handleRemove = (record: DownloadedChapter) => {
+    removeDownload.mutate(
+      { mangaSlug: record.mangaSlug, chapterSlug: record.chapterSlug },
+      {
+        onSuccess: () => toast.success(t("removed")),
+        onError: () => toast.error(t("removeFailed")),
+      }
+    );
+  };
+
+  return (
+    <div className="container mx-auto max-w-5xl space-y-6 px-4 py-8">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("subtitle")}</p>
+      </div>
+
+      {/* Storage Summary */}
+      <Card>
+        <CardContent className="flex items-center gap-3 px-4 sm:px-6">
+          <HardDrive className="h-5 w-5 text-muted-foreground" />
+          <div className="text-sm">
+            <p className="font-medium">
+              {t("storage.downloaded", {
+                count: downloads?.length ?? 0,
+                size: formatBytes(totalBytes),
+              })}
+            </p>
+            {storage && storage.quota > 0 && (
+              <p className="text-muted-foreground">
+                {t("storage.usage", {
+                  usage: formatBytes(storage.usage),
+                  quota: formatBytes(storage.quota),
+                })}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Downloads */}
+      {isLoading ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full rounded-xl" />
+          ))}
+        </div>
+      ) : groups.length === 0 ? (
+        <EmptyState
+          variant="downloads"
+          title={t("empty.title")}
+          description={t("empty.description")}
+          actionLabel={t("empty.action")}
+          actionHref="/browse"
+        />
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <Card key={group.mangaSlug}>
+              <CardContent className="flex gap-4 px-4 sm:px-6">
+                {group.coverUrl && (
+                  <Link
+                    href={`/manga/${group.mangaSlug}`}
+                    className="relative hidden aspect-[3/4] w-20 flex-shrink-0 overflow-hidden rounded-md bg-muted sm:block"
+                  >
+                    <Image
+                      src={group.coverUrl}
+                      alt={group.mangaName}
+                      fill
+                      sizes="80px"
+                      className="object-cover"
+                      unoptimized={isUnoptimizedImage(group.coverUrl)}
+                    />
+                  </Link>
+                )}
+
+                <div className="min-w-0 flex-1 space-y-2">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <Link
+                      href={`/manga/${group.mangaSlug}`}
+                      className="truncate font-semibold capitalize hover:text-primary"
+                    >
+                      {group.mangaName}
+                    </Link>
+                    <span className="flex-shrink-0 text-xs text-muted-foreground">
+                      {formatBytes(group.bytes)}
+                    </span>
+                  </div>
+
+                  <ul className="divide-y divide-border/40">
+                    {group.chapters.map((record) => (
+                      <li
+                        key={record.key}
+                        className="flex items-center justify-between gap-2 py-1.5"
+                      >
+                        <Link
+                          href={`/manga/${record.mangaSlug}/${record.chapterSlug}`}
+                          className="min-w-0 flex-1 truncate text-sm hover:text-primary"
+                        >
+                          {t("chapterLabel", {
+                            number: record.chapter.chapter_number,
+                          })}
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {t("pages", {
+                              count: record.chapter.content?.length ?? 0,
+                            })}
+                          </span>
+                        </Link>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          onClick={() => handleRemove(record)}
+                          disabled={removeDownload.isPending}
+                          aria-label={t("removeDownload")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
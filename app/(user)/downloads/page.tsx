@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { getTranslations } from "next-intl/server";
+import DownloadsPageClient from "./DownloadsPageClient";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations("offline");
+
+  return {
+    title: t("title"),
+    description: t("subtitle"),
+    robots: {
+      index: false, // Device-local content
+      follow: false,
+    },
+  };
+}
+
+export default function DownloadsPage() {
+  return <DownloadsPageClient />;
+}
@@ -1,54 +1,50 @@
-"use client";
-
-import { Suspense } from "react";
-import { useSearchParams, useRouter } from "next/navigation";
-import { useTranslations } from "next-intl";
-import { useAuth } from "@/lib/hooks/use-auth";
-import { ProtectedRoute } from "@/components/auth/protected-route";
-import { LibraryTabs } from "@/components/library/library-tabs";
-import { LibrarySkeleton } from "@/components/library/library-skeleton";
-
-function LibraryPageContent() {
-  const t = useTranslations("user.library");
-  const { user, isAuthenticated } = useAuth();
-  const searchParams = useSearchParams();
-  const router = useRouter();
-
-  // Get current tab from URL or default to "continue"
-  const currentTab = searchParams.get("tab") || "continue";
-
-  // Handle tab change - update URL
-  const handleTabChange = (value: string) => {
-    const params = new URLSearchParams(searchParams.toString());
-    params.set("tab", value);
-    router.push(`/library?${params.toString()}`, { scroll: false });
+import type { Metadata } from "next";
+import { getTranslations } from "next-intl/server";
+import { HydrationBoundary, dehydrate } from "@tanstack/react-query";
+import { getSessionToken } from "@/lib/auth/session";
+import { userHistoryApi } from "@/lib/api/endpoints/user";
+import { getQueryClient } from "@/lib/api/query-client";
+import { libraryKeys } from "@/lib/api/query-keys";
+import LibraryPageClient from "./LibraryPageClient";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations("user.library");
+
+  return {
+    title: t("title"),
+    description: t("subtitle"),
+    robots: {
+      index: false, // Private user pages
+      follow: false,
+    },
   };
+}
 
-  // Loading state (shouldn't happen on protected route)
-  if (!isAuthenticated || !user) {
-    return <LibrarySkeleton />;
+/**
+ * Library Page Component
+ * Prefetches the default tab (continue reading) with the session cookie so
+ * it renders without a client round trip
+ */
+export default async function LibraryPage() {
+  const queryClient = getQueryClient();
+  const token = await getSessionToken();
+
+  if (token) {
+    try {
+      // Same page as useContinueReading
+      const history = await userHistoryApi.getList(
+        { per_page: 5, page: 1 },
+        { token }
+      );
+      queryClient.setQueryData(libraryKeys.continueReading(), history);
+    } catch {
+      // Client will fetch history if prefetch fails
+    }
   }
 
   return (
-    <div className="container mx-auto max-w-7xl space-y-6 px-4 py-8">
-      {/* Page Header */}
-      <div>
-        <h1 className="text-3xl font-bold">{t("title")}</h1>
-        <p className="text-muted-foreground">{t("subtitle")}</p>
-      </div>
-
-      {/* Tabs Container */}
-      <LibraryTabs activeTab={currentTab} onTabChange={handleTabChange} />
-    </div>
-  );
-}
-
-export default function LibraryPage() {
-  return (
-    <ProtectedRoute>
-      <Suspense fallback={<LibrarySkeleton />}>
-        <LibraryPageContent />
-      </Suspense>
-    </ProtectedRoute>
+    <HydrationBoundary state={dehydrate(queryClient)}>
+      <LibraryPageClient />
+    </HydrationBoundary>
   );
 }
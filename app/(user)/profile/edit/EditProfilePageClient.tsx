@@ -8,6 +8,8 @@ import { Separator } from "@/components/ui/separator";
 import { Spinner } from "@/components/ui/spinner";
 import { useAuth } from "@/lib/hooks/use-auth";
 import { useUploadAvatar } from "@/lib/hooks/use-profile";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import type { ApiClientError } from "@/lib/api/errors";
 import { EditProfileForm } from "@/components/user/edit-profile-form";
 import { ChangePasswordForm } from "@/components/user/change-password-form";
 import { AvatarUpload } from "@/components/user/avatar-upload";
@@ -24,6 +26,7 @@ export default function EditProfilePageClient() {
     isLoading: avatarLoading,
     error: avatarError,
   } = useUploadAvatar();
+  const getErrorMessage = useApiErrorMessage();
 
   // Use useEffect for redirect to avoid SSR issues
   const [isClient, setIsClient] = useState(false);
@@ -66,6 +69,10 @@ export default function EditProfilePageClient() {
     toast.success(t("passwordForm.success"));
   };
 
+  // Prefer the backend's message for the avatar field (size, type)
+  const getAvatarErrorMessage = (error?: ApiClientError) =>
+    error?.errors?.avatar?.[0] ?? getErrorMessage(error);
+
   // Handle avatar upload with error handling
   const handleAvatarUpload = async (file: File) => {
     const result = await uploadAvatar(file);
@@ -73,7 +80,7 @@ export default function EditProfilePageClient() {
       toast.success(t("editForm.success"));
     } else {
       toast.error(t("editForm.avatarUploadError"), {
-        description: result.error,
+        description: getAvatarErrorMessage(result.error),
       });
     }
   };
@@ -106,7 +113,7 @@ export default function EditProfilePageClient() {
         currentAvatar={user.avatar_full_url}
         onUpload={handleAvatarUpload}
         isLoading={avatarLoading}
-        error={avatarError}
+        error={avatarError && getAvatarErrorMessage(avatarError)}
       />
 
       {/* Profile Edit Form */}
@@ -5,6 +5,9 @@ import { useAuth } from "@/lib/hooks/use-auth";
 import { ProfileHeader } from "@/components/user/profile-header";
 import { ProfileStats } from "@/components/user/profile-stats";
 import { ProfileAchievements } from "@/components/user/profile-achievements";
+import { ProfileCollection } from "@/components/user/profile-collection";
+import { ProfileReports } from "@/components/user/profile-reports";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card } from "@/components/ui/card";
 import { ProtectedRoute } from "@/components/auth/protected-route";
@@ -27,19 +30,46 @@ function ProfilePageContent() {
 
       <ProfileHeader user={user} />
 
-      <div>
-        <h2 className="mb-4 text-xl font-semibold">
-          {t("sections.statistics")}
-        </h2>
-        <ProfileStats user={user} />
-      </div>
+      <Tabs defaultValue="overview">
+        <TabsList className="grid w-full grid-cols-3 h-auto p-1 sm:w-auto sm:inline-grid">
+          <TabsTrigger value="overview" className="h-10 px-6">
+            {t("tabs.overview")}
+          </TabsTrigger>
+          <TabsTrigger value="collection" className="h-10 px-6">
+            {t("tabs.collection")}
+          </TabsTrigger>
+          <TabsTrigger value="reports" className="h-10 px-6">
+            {t("tabs.reports")}
+          </TabsTrigger>
+        </TabsList>
 
-      <div>
-        <h2 className="mb-4 text-xl font-semibold">
-          {t("sections.achievements")}
-        </h2>
-        <ProfileAchievements pet={user.pet} achievement={user.achievement} />
-      </div>
+        <TabsContent value="overview" className="mt-6 space-y-6">
+          <div>
+            <h2 className="mb-4 text-xl font-semibold">
+              {t("sections.statistics")}
+            </h2>
+            <ProfileStats user={user} />
+          </div>
+
+          <div>
+            <h2 className="mb-4 text-xl font-semibold">
+              {t("sections.achievements")}
+            </h2>
+            <ProfileAchievements
+              pet={user.pet}
+              achievement={user.achievement}
+            />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="collection" className="mt-6">
+          <ProfileCollection />
+        </TabsContent>
+
+        <TabsContent value="reports" className="mt-6">
+          <ProfileReports />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -0,0 +1,20 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { NotificationSettings } from "@/components/settings/notification-settings";
+
+export default function SettingsPageClient() {
+  const t = useTranslations("settings");
+
+  return (
+    <div className="container mx-auto max-w-3xl space-y-6 px-4 py-8">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("subtitle")}</p>
+      </div>
+
+      <NotificationSettings />
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { getTranslations } from "next-intl/server";
+import SettingsPageClient from "./SettingsPageClient";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getTranslations("settings");
+
+  return {
+    title: t("title"),
+    description: t("subtitle"),
+    robots: {
+      index: false, // Private user pages
+      follow: false,
+    },
+  };
+}
+
+export default function SettingsPage() {
+  return <SettingsPageClient />;
+}
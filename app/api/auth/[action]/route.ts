@@ -0,0 +1,180 @@
+/**
+ * Auth Session Route Handler
+ * Proxies the auth endpoints to the backend and keeps the API and refresh
+ * tokens in httpOnly cookies instead of handing them to client scripts
+ *
+ * POST /api/auth/login | /api/auth/register | /api/auth/google
+ * POST /api/auth/refresh | /api/auth/logout
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { API_BASE_URL, DEFAULT_HEADERS } from "@/lib/api/config";
+import {
+  AUTH_COOKIE,
+  REFRESH_COOKIE,
+  getAuthCookieOptions,
+  getRefreshCookieOptions,
+} from "@/lib/auth/session-cookie";
+
+const CREDENTIAL_ACTIONS = ["login", "register", "google"];
+
+interface RouteContext {
+  params: Promise<{ action: string }>;
+}
+
+function forwardHeaders(request: NextRequest, token?: string): HeadersInit {
+  const headers: Record<string, string> = { ...DEFAULT_HEADERS };
+
+  const acceptLanguage = request.headers.get("accept-language");
+  if (acceptLanguage) {
+    headers["Accept-Language"] = acceptLanguage;
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Respond with the backend auth payload, moving its tokens into cookies
+ * Fails with 502 if the backend answered OK without a token
+ */
+async function sessionResponse(upstream: Response) {
+  const payload = await upstream.json().catch(() => null);
+
+  if (!upstream.ok || !payload?.data?.token) {
+    return NextResponse.json(
+      payload ?? { success: false, message: upstream.statusText },
+      { status: upstream.ok ? 502 : upstream.status }
+    );
+  }
+
+  // Strip the tokens from the body - they only travel in httpOnly cookies
+  const { token, refresh_token, ...data } = payload.data;
+  const response = NextResponse.json({ ...payload, data });
+  response.cookies.set(AUTH_COOKIE, token, getAuthCookieOptions());
+  if (refresh_token) {
+    response.cookies.set(
+      REFRESH_COOKIE,
+      refresh_token,
+      getRefreshCookieOptions()
+    );
+  }
+
+  return response;
+}
+
+function clearSession(response: NextResponse) {
+  response.cookies.delete(AUTH_COOKIE);
+  response.cookies.set(REFRESH_COOKIE, "", {
+    ...getRefreshCookieOptions(),
+    maxAge: 0,
+  });
+  return response;
+}
+
+/**
+ * Exchange the refresh token for a new API token
+ * The client only asks after the backend rejected the API token, so without
+ * a refresh token the session is over - the cookies are cleared and the
+ * client is told it can't be refreshed. They're also cleared when the
+ * backend rejects the refresh token.
+ */
+async function refresh(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+
+  if (!refreshToken) {
+    return clearSession(
+      NextResponse.json(
+        { success: false, message: "Session can't be refreshed" },
+        { status: 400 }
+      )
+    );
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${API_BASE_URL}/auth/refresh`, {
+      method: "POST",
+      headers: forwardHeaders(request),
+      body: JSON.stringify({ refresh_token: refreshToken }),
+      cache: "no-store",
+    });
+  } catch (error) {
+    console.error("[Auth] refresh request failed:", error);
+    return NextResponse.json(
+      { success: false, message: "Authentication service unavailable" },
+      { status: 502 }
+    );
+  }
+
+  const response = await sessionResponse(upstream);
+  return upstream.status === 401 ? clearSession(response) : response;
+}
+
+/**
+ * Revoke the token on the backend and clear the cookies
+ * The cookies are cleared even if the backend call fails
+ */
+async function logout(request: NextRequest) {
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+
+  if (token) {
+    try {
+      await fetch(`${API_BASE_URL}/auth/logout`, {
+        method: "POST",
+        headers: forwardHeaders(request, token),
+        cache: "no-store",
+      });
+    } catch (error) {
+      console.error("[Auth] Failed to revoke token on logout:", error);
+    }
+  }
+
+  return clearSession(
+    NextResponse.json({
+      success: true,
+      message: "Logged out",
+      data: null,
+    })
+  );
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { action } = await params;
+
+  if (action === "logout") {
+    return logout(request);
+  }
+
+  if (action === "refresh") {
+    return refresh(request);
+  }
+
+  if (!CREDENTIAL_ACTIONS.includes(action)) {
+    return NextResponse.json(
+      { success: false, message: "Not found" },
+      { status: 404 }
+    );
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${API_BASE_URL}/auth/${action}`, {
+      method: "POST",
+      headers: forwardHeaders(request),
+      body: await request.text(),
+      cache: "no-store",
+    });
+  } catch (error) {
+    console.error(`[Auth] ${action} request failed:`, error);
+    return NextResponse.json(
+      { success: false, message: "Authentication service unavailable" },
+      { status: 502 }
+    );
+  }
+
+  return sessionResponse(upstream);
+}
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { GET } from "../route";
+
+jest.mock("@/lib/api/config", () => ({
+  API_BASE_URL: "https://api.example.com/api/v1",
+}));
+
+function proxyGet(path: string[], cookie?: string) {
+  const request = new NextRequest(
+    `http://localhost/api/backend/${path.join("/")}`,
+    { headers: cookie ? { cookie } : {} }
+  );
+  return GET(request, { params: Promise.resolve({ path }) });
+}
+
+describe("backend proxy", () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it("should attach the session token", async () => {
+    fetchMock.mockResolvedValue(new Response("{}", { status: 200 }));
+
+    await proxyGet(["user", "histories"], "auth-token=secret");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.example.com/api/v1/user/histories");
+    expect(new Headers(init.headers).get("authorization")).toBe(
+      "Bearer secret"
+    );
+  });
+
+  it("should pass rate limit headers back", async () => {
+    fetchMock.mockResolvedValue(
+      new Response("{}", {
+        status: 429,
+        headers: {
+          "Content-Type": "application/json",
+          "Retry-After": "30",
+          "X-RateLimit-Remaining": "0",
+          "Set-Cookie": "backend=1",
+        },
+      })
+    );
+
+    const response = await proxyGet(["mangas"]);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).toBe("30");
+    expect(response.headers.get("x-ratelimit-remaining")).toBe("0");
+    expect(response.headers.get("set-cookie")).toBeNull();
+  });
+});
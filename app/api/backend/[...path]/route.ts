@@ -0,0 +1,80 @@
+/**
+ * Backend Proxy Route Handler
+ * Forwards authenticated browser requests to the backend API, attaching the
+ * bearer token from the httpOnly auth cookie
+ *
+ * /api/backend/{path} -> {API_BASE_URL}/{path}
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { API_BASE_URL } from "@/lib/api/config";
+import { AUTH_COOKIE } from "@/lib/auth/session-cookie";
+
+/** Request headers passed through to the backend */
+const FORWARDED_HEADERS = ["accept", "accept-language", "content-type"];
+
+/** Response headers passed back - rate limits feed the client's retries */
+const RETURNED_HEADERS = [
+  "content-type",
+  "content-disposition",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+];
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+async function proxy(request: NextRequest, { params }: RouteContext) {
+  const { path } = await params;
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+
+  const url = `${API_BASE_URL}/${path.map(encodeURIComponent).join("/")}${request.nextUrl.search}`;
+
+  const headers = new Headers();
+  FORWARDED_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      cache: "no-store",
+    });
+  } catch (error) {
+    console.error("[Proxy] Backend request failed:", error);
+    return NextResponse.json(
+      { success: false, message: "Backend unavailable" },
+      { status: 502 }
+    );
+  }
+
+  const responseHeaders = new Headers({ "Content-Type": "application/json" });
+  RETURNED_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  // A 401 leaves the cookie alone - the client tries /api/auth/refresh,
+  // which clears it if the session can't be renewed
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: responseHeaders,
+  });
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
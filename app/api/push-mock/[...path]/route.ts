@@ -0,0 +1,151 @@
+/**
+ * Mock Push API Route Handler
+ * In-memory stand-in for the backend push endpoints, for local development
+ * and testing. Enabled on the client with NEXT_PUBLIC_PUSH_MOCK=true and
+ * unavailable in production builds.
+ *
+ * GET    /api/push-mock/push/vapid-public-key
+ * POST   /api/push-mock/user/push/subscriptions
+ * DELETE /api/push-mock/user/push/subscriptions?endpoint=...
+ * GET    /api/push-mock/user/push/preferences
+ * PUT    /api/push-mock/user/push/preferences
+ *
+ * Nothing is actually delivered through a push service - use the "send test
+ * notification" button on /settings to run a payload through the worker.
+ */
+
+import { generateKeyPairSync } from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { AUTH_COOKIE } from "@/lib/auth/session-cookie";
+import type { PushPreferences, PushSubscriptionRequest } from "@/types/user";
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>;
+}
+
+interface MockPushStore {
+  publicKey: string;
+  subscriptions: Map<string, PushSubscriptionRequest & { user: string }>;
+  preferences: Map<string, PushPreferences>;
+}
+
+const DEFAULT_PREFERENCES: PushPreferences = {
+  all_bookmarks: true,
+  manga_ids: [],
+};
+
+/**
+ * Generate a P-256 key pair and return the public key in the uncompressed
+ * base64url form PushManager.subscribe expects
+ */
+function createPublicKey(): string {
+  const { publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const { x, y } = publicKey.export({ format: "jwk" });
+  const raw = Buffer.concat([
+    Buffer.from([0x04]),
+    Buffer.from(x!, "base64url"),
+    Buffer.from(y!, "base64url"),
+  ]);
+  return raw.toString("base64url");
+}
+
+// Kept on globalThis so dev server reloads don't drop subscriptions
+const globalStore = globalThis as typeof globalThis & {
+  mockPushStore?: MockPushStore;
+};
+
+function getStore(): MockPushStore {
+  globalStore.mockPushStore ??= {
+    publicKey: createPublicKey(),
+    subscriptions: new Map(),
+    preferences: new Map(),
+  };
+  return globalStore.mockPushStore;
+}
+
+function ok<T>(data: T, message = "OK") {
+  return NextResponse.json({ success: true, message, data });
+}
+
+function fail(status: number, message: string) {
+  return NextResponse.json({ success: false, message }, { status });
+}
+
+function isSubscription(body: unknown): body is PushSubscriptionRequest {
+  const subscription = body as Partial<PushSubscriptionRequest> | null;
+  return (
+    typeof subscription?.endpoint === "string" &&
+    typeof subscription.keys?.p256dh === "string" &&
+    typeof subscription.keys?.auth === "string"
+  );
+}
+
+function isPreferences(body: unknown): body is PushPreferences {
+  const preferences = body as Partial<PushPreferences> | null;
+  return (
+    typeof preferences?.all_bookmarks === "boolean" &&
+    Array.isArray(preferences.manga_ids) &&
+    preferences.manga_ids.every(Number.isInteger)
+  );
+}
+
+async function mockPushApi(request: NextRequest, { params }: RouteContext) {
+  if (process.env.NODE_ENV === "production") {
+    return fail(404, "Not found");
+  }
+
+  const { path } = await params;
+  const route = `${request.method} /${path.join("/")}`;
+  const store = getStore();
+
+  if (route === "GET /push/vapid-public-key") {
+    return ok({ public_key: store.publicKey });
+  }
+
+  // The auth cookie value is enough to tell mock users apart
+  const user = request.cookies.get(AUTH_COOKIE)?.value;
+  if (!user) {
+    return fail(401, "Unauthenticated.");
+  }
+
+  switch (route) {
+    case "POST /user/push/subscriptions": {
+      const body = await request.json().catch(() => null);
+      if (!isSubscription(body)) {
+        return fail(422, "Invalid push subscription.");
+      }
+      store.subscriptions.set(body.endpoint, { ...body, user });
+      return ok({ endpoint: body.endpoint }, "Subscribed");
+    }
+
+    case "DELETE /user/push/subscriptions": {
+      const endpoint = request.nextUrl.searchParams.get("endpoint") ?? "";
+      store.subscriptions.delete(endpoint);
+      return ok({ endpoint }, "Unsubscribed");
+    }
+
+    case "GET /user/push/preferences":
+      return ok(store.preferences.get(user) ?? DEFAULT_PREFERENCES);
+
+    case "PUT /user/push/preferences": {
+      const body = await request.json().catch(() => null);
+      if (!isPreferences(body)) {
+        return fail(422, "Invalid push preferences.");
+      }
+      const preferences = {
+        all_bookmarks: body.all_bookmarks,
+        manga_ids: [...new Set(body.manga_ids)],
+      };
+      store.preferences.set(user, preferences);
+      return ok(preferences, "Preferences updated");
+    }
+
+    default:
+      return fail(404, "Not found");
+  }
+}
+
+export const GET = mockPushApi;
+export const POST = mockPushApi;
+export const PUT = mockPushApi;
+export const DELETE = mockPushApi;
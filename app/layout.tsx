@@ -5,15 +5,18 @@ import { ThemeProvider } from "@/components/providers/theme-provider";
 import { GoogleOAuthProvider } from "@/components/providers/google-oauth-provider";
 import { ReactQueryProvider } from "@/components/providers/query-client-provider";
 import { Toaster } from "@/components/ui/sonner";
+import { SessionExpiredDialog } from "@/components/auth/session-expired-dialog";
 import { Navbar } from "@/components/layout/header/navbar";
 import { Footer } from "@/components/layout/footer";
 import { NextIntlClientProvider } from "next-intl";
-import { getMessages } from "next-intl/server";
+import { getLocale, getMessages } from "next-intl/server";
 import { generateDefaultMetadata } from "@/lib/seo/metadata";
 import { generateWebsiteSchema } from "@/lib/seo/json-ld";
-import { DEFAULT_LOCALE, TIMEZONE } from "@/lib/i18n/config";
+import { TIMEZONE } from "@/lib/i18n/config";
 import { GoogleAnalytics } from "@/components/providers/google-analytics";
 import { SwRegister } from "@/components/service-worker/sw-register";
+import { OfflineIndicator } from "@/components/service-worker/offline-indicator";
+import { ReadingProgressSync } from "@/components/library/reading-progress-sync";
 
 const notoSans = Noto_Sans({
   variable: "--font-sans",
@@ -43,11 +46,11 @@ export default async function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  // Get messages for the current locale from next-intl
-  const messages = await getMessages();
+  // Locale is resolved per request in i18n/request.ts
+  const [locale, messages] = await Promise.all([getLocale(), getMessages()]);
 
   return (
-    <html lang={DEFAULT_LOCALE} suppressHydrationWarning>
+    <html lang={locale} suppressHydrationWarning>
       <head>
         {/* Google Analytics */}
         <GoogleAnalytics />
@@ -78,7 +81,7 @@ export default async function RootLayout({
       <body className={`${notoSans.variable} ${roadRage.variable} antialiased`}>
         <NextIntlClientProvider
           messages={messages}
-          locale={DEFAULT_LOCALE}
+          locale={locale}
           timeZone={TIMEZONE}
           now={new Date()}
         >
@@ -95,7 +98,10 @@ export default async function RootLayout({
                   <Footer />
                 </div>
                 <Toaster />
+                <SessionExpiredDialog />
+                <ReadingProgressSync />
                 <SwRegister />
+                <OfflineIndicator />
               </ThemeProvider>
             </GoogleOAuthProvider>
           </ReactQueryProvider>
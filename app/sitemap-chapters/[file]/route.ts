@@ -0,0 +1,59 @@
+/**
+ * Chapter Sitemap Route Handler
+ * Serves sitemaps for chapter reader pages at /sitemap-chapters/{n}.xml,
+ * each covering whole mangas and under `SITEMAP.URLS_PER_FILE` chapters
+ */
+
+import { siteConfig } from "@/lib/seo/config";
+import {
+  getChapterSitemapFiles,
+  getSitemapChaptersFor,
+  parseDate,
+  parseSitemapFile,
+  sitemapResponse,
+} from "@/lib/seo/sitemap-helpers";
+import { SITEMAP } from "@/lib/constants";
+
+// Revalidate weekly (7 days)
+export const revalidate = 604800;
+
+// Files are generated on first request, then cached
+export function generateStaticParams() {
+  return [];
+}
+
+interface RouteContext {
+  params: Promise<{ file: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const file = parseSitemapFile((await params).file);
+  if (!file) return new Response(null, { status: 404 });
+
+  const baseUrl = siteConfig.url;
+
+  let mangaChapters;
+  try {
+    const files = await getChapterSitemapFiles();
+    // File 1 always exists so the index never points at nothing
+    if (file > 1 && file > files.length) {
+      return new Response(null, { status: 404 });
+    }
+    mangaChapters = await getSitemapChaptersFor(files[file - 1] ?? []);
+  } catch (error) {
+    // Rethrow so the last good sitemap keeps being served
+    console.error("Error generating chapter sitemap:", error);
+    throw error;
+  }
+
+  const chapterRoutes = mangaChapters.flatMap(({ manga, chapters }) =>
+    chapters.map((chapter) => ({
+      url: `${baseUrl}/manga/${manga.slug}/${chapter.slug}`,
+      lastModified: parseDate(chapter.updated_at).toISOString(),
+      changeFrequency: "monthly",
+      priority: 0.7,
+    }))
+  );
+
+  return sitemapResponse(chapterRoutes, SITEMAP.CHAPTERS_REVALIDATE);
+}
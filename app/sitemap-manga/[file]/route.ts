@@ -0,0 +1,56 @@
+/**
+ * Manga Sitemap Route Handler
+ * Serves sitemaps for manga detail pages at /sitemap-manga/{n}.xml, one per
+ * `SITEMAP.URLS_PER_FILE` mangas
+ */
+
+import { siteConfig } from "@/lib/seo/config";
+import {
+  getSitemapListFile,
+  parseDate,
+  parseSitemapFile,
+  sitemapResponse,
+} from "@/lib/seo/sitemap-helpers";
+import { SITEMAP } from "@/lib/constants";
+
+// Revalidate daily (24 hours)
+export const revalidate = 86400;
+
+// Files are generated on first request, then cached
+export function generateStaticParams() {
+  return [];
+}
+
+interface RouteContext {
+  params: Promise<{ file: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const file = parseSitemapFile((await params).file);
+  if (!file) return new Response(null, { status: 404 });
+
+  const baseUrl = siteConfig.url;
+
+  let mangas;
+  try {
+    mangas = await getSitemapListFile("mangas", file);
+  } catch (error) {
+    // Rethrow so the last good sitemap keeps being served
+    console.error("[Sitemap] Error generating manga sitemap:", error);
+    throw error;
+  }
+
+  // File 1 always exists so the index never points at nothing
+  if (file > 1 && mangas.length === 0) {
+    return new Response(null, { status: 404 });
+  }
+
+  const mangaRoutes = mangas.map((manga) => ({
+    url: `${baseUrl}/manga/${manga.slug}`,
+    lastModified: parseDate(manga.updated_at).toISOString(),
+    changeFrequency: "weekly",
+    priority: 0.8,
+  }));
+
+  return sitemapResponse(mangaRoutes, SITEMAP.REVALIDATE);
+}
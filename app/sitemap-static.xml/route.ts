@@ -4,10 +4,21 @@
  */
 
 import { siteConfig } from "@/lib/seo/config";
+import { genreApi } from "@/lib/api/endpoints/manga";
+import type { Genre } from "@/types/manga";
 
 export async function GET() {
   const baseUrl = siteConfig.url;
 
+  // Genre pages are few and rarely change - list them alongside static routes
+  let genres: Genre[] = [];
+  try {
+    const response = await genreApi.getList({ per_page: 100 });
+    genres = response.data;
+  } catch (error) {
+    console.error("Error fetching genres for static sitemap:", error);
+  }
+
   const staticRoutes = [
     {
       url: baseUrl,
@@ -21,6 +32,18 @@ export async function GET() {
       changeFrequency: "daily",
       priority: 0.9,
     },
+    ...["genres", "artists", "groups", "doujinshis"].map((segment) => ({
+      url: `${baseUrl}/${segment}`,
+      lastModified: new Date().toISOString(),
+      changeFrequency: "weekly",
+      priority: 0.6,
+    })),
+    ...genres.map((genre) => ({
+      url: `${baseUrl}/genres/${genre.slug}`,
+      lastModified: genre.updated_at || new Date().toISOString(),
+      changeFrequency: "daily",
+      priority: 0.7,
+    })),
   ];
 
   // Generate XML
@@ -0,0 +1,67 @@
+/**
+ * Taxonomy Sitemap Route Handler
+ * Serves sitemaps for artist, group and doujinshi pages at
+ * /sitemap-taxonomies/{n}.xml, one per `SITEMAP.URLS_PER_FILE` pages
+ */
+
+import { siteConfig } from "@/lib/seo/config";
+import {
+  SITEMAP_TAXONOMY_TYPES,
+  getSitemapChunk,
+  getSitemapTaxonomies,
+  parseDate,
+  parseSitemapFile,
+  sitemapResponse,
+  type SitemapEntry,
+} from "@/lib/seo/sitemap-helpers";
+import { SITEMAP } from "@/lib/constants";
+
+// Revalidate daily (24 hours)
+export const revalidate = 86400;
+
+// Files are generated on first request, then cached
+export function generateStaticParams() {
+  return [];
+}
+
+interface RouteContext {
+  params: Promise<{ file: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const file = parseSitemapFile((await params).file);
+  if (!file) return new Response(null, { status: 404 });
+
+  const baseUrl = siteConfig.url;
+
+  // Sequential to stay gentle on the API
+  const routes: SitemapEntry[] = [];
+
+  for (const type of SITEMAP_TAXONOMY_TYPES) {
+    let items;
+    try {
+      items = await getSitemapTaxonomies(type);
+    } catch (error) {
+      // Rethrow so the last good sitemap keeps being served
+      console.error(`[Sitemap] Error fetching ${type}:`, error);
+      throw error;
+    }
+    items.forEach((item) => {
+      routes.push({
+        url: `${baseUrl}/${type}/${item.slug}`,
+        lastModified: parseDate(item.updated_at).toISOString(),
+        changeFrequency: "weekly",
+        priority: 0.6,
+      });
+    });
+  }
+
+  const chunk = getSitemapChunk(routes, file);
+
+  // File 1 always exists so the index never points at nothing
+  if (file > 1 && chunk.length === 0) {
+    return new Response(null, { status: 404 });
+  }
+
+  return sitemapResponse(chunk, SITEMAP.REVALIDATE);
+}
@@ -1,27 +1,64 @@
 /**
  * Sitemap Index
- * Root sitemap that references all sub-sitemaps
+ * Root sitemap that references all sub-sitemaps, including every numbered
+ * manga, chapter and taxonomy file
  */
 
 import type { MetadataRoute } from "next";
 import { siteConfig } from "@/lib/seo/config";
+import {
+  SITEMAP_TAXONOMY_TYPES,
+  getChapterSitemapFiles,
+  getSitemapFileCount,
+  getSitemapListTotal,
+} from "@/lib/seo/sitemap-helpers";
 
-export default function sitemap(): MetadataRoute.Sitemap {
+// Revalidate daily (24 hours)
+export const revalidate = 86400;
+
+/**
+ * Numbered files of a split sitemap - a single file when the catalog
+ * can't be read, which the file route still serves
+ */
+async function countFiles(getCount: () => Promise<number>): Promise<number> {
+  try {
+    return Math.max(1, await getCount());
+  } catch (error) {
+    console.error("[Sitemap] Error counting sitemap files:", error);
+    return 1;
+  }
+}
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = siteConfig.url;
   const now = new Date();
 
+  const [mangaFiles, chapterFiles, taxonomyFiles] = await Promise.all([
+    countFiles(async () =>
+      getSitemapFileCount(await getSitemapListTotal("mangas"))
+    ),
+    countFiles(async () => (await getChapterSitemapFiles()).length),
+    countFiles(async () => {
+      const totals = await Promise.all(
+        SITEMAP_TAXONOMY_TYPES.map((type) => getSitemapListTotal(type))
+      );
+      return getSitemapFileCount(totals.reduce((sum, n) => sum + n, 0));
+    }),
+  ]);
+
+  const numbered = (name: string, count: number) =>
+    Array.from({ length: count }, (_, index) => ({
+      url: `${baseUrl}/${name}/${index + 1}.xml`,
+      lastModified: now,
+    }));
+
   return [
     {
       url: `${baseUrl}/sitemap-static.xml`,
       lastModified: now,
     },
-    {
-      url: `${baseUrl}/sitemap-manga.xml`,
-      lastModified: now,
-    },
-    {
-      url: `${baseUrl}/sitemap-chapters.xml`,
-      lastModified: now,
-    },
+    ...numbered("sitemap-manga", mangaFiles),
+    ...numbered("sitemap-chapters", chapterFiles),
+    ...numbered("sitemap-taxonomies", taxonomyFiles),
   ];
 }
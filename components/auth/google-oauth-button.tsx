@@ -9,12 +9,14 @@
 import { Suspense } from "react";
 import { useGoogleLogin } from "@react-oauth/google";
 import { useGoogleAuth } from "@/lib/hooks/use-auth";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
 import { useGoogleOAuthAvailable } from "@/components/providers/google-oauth-provider";
 import { Button } from "@/components/ui/button";
 import { Spinner } from "@/components/ui/spinner";
 import { toast } from "sonner";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useTranslations } from "next-intl";
+import { getSafeRedirect } from "@/lib/auth/routes";
 
 interface GoogleOAuthButtonProps {
   onSuccess?: () => void;
@@ -49,6 +51,7 @@ function GoogleOAuthButtonInner({
   const searchParams = useSearchParams();
   const { googleAuth, isLoading } = useGoogleAuth();
   const t = useTranslations();
+  const getErrorMessage = useApiErrorMessage();
 
   const login = useGoogleLogin({
     onSuccess: async (tokenResponse) => {
@@ -61,14 +64,15 @@ function GoogleOAuthButtonInner({
         if (result.success) {
           toast.success(t("auth.googleAuthSuccess"));
 
-          // Redirect to previous page or homepage (validate to prevent open redirect)
-          const rawRedirect = searchParams.get("redirect") || "/";
-          const redirectTo = rawRedirect.startsWith("/") ? rawRedirect : "/";
+          // Redirect to previous page or homepage (validated to prevent open redirect)
+          const redirectTo = getSafeRedirect(searchParams.get("redirect"));
           router.push(redirectTo);
 
           onSuccess?.();
         } else {
-          toast.error(result.error || t("auth.googleAuthFailed"));
+          toast.error(t("auth.googleAuthFailed"), {
+            description: getErrorMessage(result.error),
+          });
         }
       } catch (err) {
         const errorMessage =
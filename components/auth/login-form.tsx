@@ -14,6 +14,8 @@ import Link from "next/link";
 import { toast } from "sonner";
 
 import { useLogin } from "@/lib/hooks/use-auth";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { applyFieldErrors } from "@/lib/api/errors";
 import { loginSchema, type LoginFormData } from "@/lib/validators/auth";
 
 import { Button } from "@/components/ui/button";
@@ -37,6 +39,7 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { GoogleOAuthButton } from "./google-oauth-button";
+import { getSafeRedirect } from "@/lib/auth/routes";
 
 function LoginFormContent() {
   const router = useRouter();
@@ -44,6 +47,7 @@ function LoginFormContent() {
   const { login, isLoading } = useLogin();
   const [showPassword, setShowPassword] = useState(false);
   const t = useTranslations();
+  const getErrorMessage = useApiErrorMessage();
 
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -61,14 +65,17 @@ function LoginFormContent() {
         description: t("auth.signedInSuccess"),
       });
 
-      // Redirect to previous page or homepage (validate to prevent open redirect)
-      const rawRedirect = searchParams.get("redirect") || "/";
-      const redirectTo = rawRedirect.startsWith("/") ? rawRedirect : "/";
+      // Redirect to previous page or homepage (validated to prevent open redirect)
+      const redirectTo = getSafeRedirect(searchParams.get("redirect"));
       router.push(redirectTo);
-    } else {
-      // Error toast is shown automatically from the hook
+    } else if (
+      !applyFieldErrors(result.error, form.setError, ["email", "password"])
+    ) {
       toast.error(t("auth.loginFailed"), {
-        description: result.error || t("auth.invalidEmailOrPassword"),
+        description:
+          result.error?.kind === "auth"
+            ? t("auth.invalidEmailOrPassword")
+            : getErrorMessage(result.error),
       });
     }
   }
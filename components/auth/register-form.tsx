@@ -14,6 +14,8 @@ import Link from "next/link";
 import { toast } from "sonner";
 
 import { useRegister } from "@/lib/hooks/use-auth";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { applyFieldErrors } from "@/lib/api/errors";
 import { registerSchema, type RegisterFormData } from "@/lib/validators/auth";
 
 import { Button } from "@/components/ui/button";
@@ -39,6 +41,7 @@ import {
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { GoogleOAuthButton } from "./google-oauth-button";
+import { getSafeRedirect } from "@/lib/auth/routes";
 
 function RegisterFormContent() {
   const router = useRouter();
@@ -47,6 +50,7 @@ function RegisterFormContent() {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const t = useTranslations();
+  const getErrorMessage = useApiErrorMessage();
 
   const form = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
@@ -71,13 +75,22 @@ function RegisterFormContent() {
         description: t("auth.accountCreatedSuccess"),
       });
 
-      // Redirect to previous page or homepage (validate to prevent open redirect)
-      const rawRedirect = searchParams.get("redirect") || "/";
-      const redirectTo = rawRedirect.startsWith("/") ? rawRedirect : "/";
+      // Redirect to previous page or homepage (validated to prevent open redirect)
+      const redirectTo = getSafeRedirect(searchParams.get("redirect"));
       router.push(redirectTo);
-    } else {
+    } else if (
+      !applyFieldErrors(result.error, form.setError, [
+        "name",
+        "email",
+        "password",
+        "password_confirmation",
+      ])
+    ) {
       toast.error(t("auth.registerFailed"), {
-        description: result.error || t("auth.unableToCreateAccount"),
+        description:
+          result.error?.kind === "validation"
+            ? t("auth.unableToCreateAccount")
+            : getErrorMessage(result.error),
       });
     }
   }
@@ -0,0 +1,58 @@
+"use client";
+
+/**
+ * Session Expired Dialog
+ * Shown when the session can't be refreshed - offers to log in again and
+ * come back to the current page. Mounted once in the root layout.
+ */
+
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuthStore } from "@/lib/store/authStore";
+import {
+  DEFAULT_UNAUTHENTICATED_REDIRECT,
+  isAuthRoute,
+} from "@/lib/auth/routes";
+
+export function SessionExpiredDialog() {
+  const t = useTranslations("auth.sessionExpired");
+  const router = useRouter();
+  const sessionExpired = useAuthStore((state) => state.sessionExpired);
+  const dismiss = useAuthStore((state) => state.dismissSessionExpired);
+
+  const handleLogin = () => {
+    const { pathname, search } = window.location;
+    dismiss();
+
+    if (isAuthRoute(pathname)) return;
+
+    const redirect = encodeURIComponent(`${pathname}${search}`);
+    router.push(`${DEFAULT_UNAUTHENTICATED_REDIRECT}?redirect=${redirect}`);
+  };
+
+  return (
+    <Dialog open={sessionExpired} onOpenChange={(open) => !open && dismiss()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={dismiss}>
+            {t("dismiss")}
+          </Button>
+          <Button onClick={handleLogin}>{t("login")}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,13 +15,14 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { StatusFilter } from "./status-filter";
 import { SortSelect, type SortOption } from "./sort-select";
-import { GenreSelect } from "./genre-select";
+import { GenreSelect, type GenreSelectValue } from "./genre-select";
 
 export interface FilterValues {
   search: string;
   status: string; // "all" | "1" | "2"
   sort: SortOption;
-  genre: string; // "all" | genre_id
+  genres: number[]; // genre ids that must all be present
+  excludedGenres: number[]; // genre ids that must not be present
 }
 
 export interface BrowseFilterBarProps {
@@ -49,10 +50,19 @@ export function BrowseFilterBar({
   const [search, setSearch] = useState(initialValues.search);
   const [status, setStatus] = useState(initialValues.status);
   const [sort, setSort] = useState(initialValues.sort);
-  const [genre, setGenre] = useState(initialValues.genre || "all");
+  const [genres, setGenres] = useState<GenreSelectValue>({
+    included: initialValues.genres,
+    excluded: initialValues.excludedGenres,
+  });
 
   const handleApply = () => {
-    onApply({ search, status, sort, genre });
+    onApply({
+      search,
+      status,
+      sort,
+      genres: genres.included,
+      excludedGenres: genres.excluded,
+    });
   };
 
   const handleClear = () => {
@@ -60,12 +70,13 @@ export function BrowseFilterBar({
       search: "",
       status: "all",
       sort: "-updated_at",
-      genre: "all",
+      genres: [],
+      excludedGenres: [],
     };
     setSearch(clearedValues.search);
     setStatus(clearedValues.status);
     setSort(clearedValues.sort);
-    setGenre(clearedValues.genre);
+    setGenres({ included: [], excluded: [] });
     onApply(clearedValues);
   };
 
@@ -73,7 +84,8 @@ export function BrowseFilterBar({
     search !== "" ||
     status !== "all" ||
     sort !== "-updated_at" ||
-    genre !== "all";
+    genres.included.length > 0 ||
+    genres.excluded.length > 0;
 
   return (
     <Card className={className}>
@@ -111,7 +123,7 @@ export function BrowseFilterBar({
 
             {/* Genre Filter */}
             <div className="w-full sm:w-40">
-              <GenreSelect value={genre} onChange={setGenre} hideLabel />
+              <GenreSelect value={genres} onChange={setGenres} hideLabel />
             </div>
 
             {/* Action Buttons */}
@@ -2,35 +2,42 @@
 
 /**
  * Genre Select Component
- * Dropdown for selecting manga genre
+ * Popover for picking genres to include and exclude
+ * Each genre cycles: neutral -> include -> exclude -> neutral
  */
 
 import { useQuery } from "@tanstack/react-query";
 import { useTranslations } from "next-intl";
+import { ChevronDown, EyeOff, Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { genreApi } from "@/lib/api/endpoints/manga";
 import { genreKeys } from "@/lib/api/query-keys";
 import { STALE_TIMES } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+export interface GenreSelectValue {
+  included: number[];
+  excluded: number[];
+}
 
 export interface GenreSelectProps {
-  value: string; // "all" or genre id
-  onChange: (value: string) => void;
+  value: GenreSelectValue;
+  onChange: (value: GenreSelectValue) => void;
   className?: string;
   hideLabel?: boolean;
 }
 
 /**
- * Genre select component for browse page
+ * Genre include/exclude select for browse page
  *
- * @param value - Current selected genre ID or "all"
- * @param onChange - Callback when genre changes
+ * @param value - Included and excluded genre IDs
+ * @param onChange - Callback when the genre sets change
  * @param className - Optional additional CSS classes
  * @param hideLabel - Hide the label (useful for compact layouts)
  */
@@ -41,6 +48,7 @@ export function GenreSelect({
   hideLabel = false,
 }: GenreSelectProps) {
   const t = useTranslations("navigation");
+  const tBrowse = useTranslations("browse.genres");
 
   const { data, isLoading } = useQuery({
     queryKey: genreKeys.all,
@@ -49,27 +57,127 @@ export function GenreSelect({
   });
 
   const genres = data?.data || [];
+  const nsfwIds = genres.filter((g) => g.is_nsfw).map((g) => g.id);
+  const { included, excluded } = value;
+
+  const cycleGenre = (id: number) => {
+    if (included.includes(id)) {
+      onChange({
+        included: included.filter((g) => g !== id),
+        excluded: [...excluded, id],
+      });
+    } else if (excluded.includes(id)) {
+      onChange({ included, excluded: excluded.filter((g) => g !== id) });
+    } else {
+      onChange({ included: [...included, id], excluded });
+    }
+  };
+
+  const hideNsfw = () => {
+    onChange({
+      included: included.filter((id) => !nsfwIds.includes(id)),
+      excluded: Array.from(new Set([...excluded, ...nsfwIds])),
+    });
+  };
+
+  const triggerLabel =
+    included.length === 0 && excluded.length === 0
+      ? t("allGenres")
+      : [
+          included.length > 0 && `+${included.length}`,
+          excluded.length > 0 && `−${excluded.length}`,
+        ]
+          .filter(Boolean)
+          .join(" ");
 
   return (
     <div className={className}>
       {!hideLabel && (
         <Label className="text-sm font-medium mb-2 block">{t("genres")}</Label>
       )}
-      <Select value={value} onValueChange={onChange} disabled={isLoading}>
-        <SelectTrigger className="w-full">
-          <SelectValue
-            placeholder={isLoading ? t("loadingGenres") : t("genres")}
-          />
-        </SelectTrigger>
-        <SelectContent>
-          <SelectItem value="all">{t("allGenres")}</SelectItem>
-          {genres.map((genre) => (
-            <SelectItem key={genre.id} value={String(genre.id)}>
-              {genre.name}
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className="w-full justify-between font-normal"
+            disabled={isLoading}
+          >
+            <span className="truncate">
+              {isLoading ? t("loadingGenres") : triggerLabel}
+            </span>
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">{tBrowse("hint")}</p>
+            {(included.length > 0 || excluded.length > 0) && (
+              <button
+                type="button"
+                onClick={() => onChange({ included: [], excluded: [] })}
+                className="text-xs font-medium text-primary hover:underline"
+              >
+                {tBrowse("reset")}
+              </button>
+            )}
+          </div>
+
+          <div className="flex max-h-64 flex-wrap gap-1.5 overflow-y-auto">
+            {genres.map((genre) => {
+              const state = included.includes(genre.id)
+                ? "include"
+                : excluded.includes(genre.id)
+                  ? "exclude"
+                  : "none";
+
+              return (
+                <button
+                  key={genre.id}
+                  type="button"
+                  onClick={() => cycleGenre(genre.id)}
+                  aria-label={
+                    state === "none"
+                      ? genre.name
+                      : tBrowse(state === "include" ? "included" : "excluded", {
+                          name: genre.name,
+                        })
+                  }
+                  className={cn(
+                    "inline-flex h-7 items-center gap-1 rounded-full border px-2.5 text-xs transition-colors",
+                    state === "include" &&
+                      "border-primary bg-primary text-primary-foreground",
+                    state === "exclude" &&
+                      "border-destructive bg-destructive/10 text-destructive line-through",
+                    state === "none" && "hover:bg-accent"
+                  )}
+                >
+                  {state === "include" && <Plus className="h-3 w-3" />}
+                  {state === "exclude" && <Minus className="h-3 w-3" />}
+                  {genre.name}
+                  {genre.is_nsfw && (
+                    <span className="text-[10px] font-semibold opacity-70">
+                      18+
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {nsfwIds.length > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={hideNsfw}
+              className="mt-2 w-full"
+            >
+              <EyeOff className="h-4 w-4 mr-2" />
+              {tBrowse("hideNsfw")}
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
     </div>
   );
 }
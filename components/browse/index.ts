@@ -6,3 +6,4 @@
 export * from "./status-filter";
 export * from "./sort-select";
 export * from "./browse-filter-bar";
+export * from "./list-mode-toggle";
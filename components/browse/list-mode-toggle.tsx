@@ -0,0 +1,63 @@
+"use client";
+
+/**
+ * List Mode Toggle Component
+ * Switches manga lists between page numbers and infinite scroll
+ * The choice is saved for browse and library alike
+ */
+
+import { useTranslations } from "next-intl";
+import {
+  Infinity as InfinityIcon,
+  ListOrdered,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  useListMode,
+  useListPreferencesStore,
+  type ListMode,
+} from "@/lib/store/listPreferencesStore";
+
+const MODE_OPTIONS: { value: ListMode; icon: LucideIcon }[] = [
+  { value: "paged", icon: ListOrdered },
+  { value: "infinite", icon: InfinityIcon },
+];
+
+export interface ListModeToggleProps {
+  className?: string;
+}
+
+/**
+ * List mode toggle for browse and library lists
+ *
+ * @param className - Optional additional CSS classes
+ */
+export function ListModeToggle({ className }: ListModeToggleProps) {
+  const t = useTranslations("browse.listMode");
+  const listMode = useListMode();
+  const setListMode = useListPreferencesStore((state) => state.setListMode);
+
+  return (
+    <div
+      role="group"
+      aria-label={t("label")}
+      className={cn("inline-flex rounded-md border p-0.5", className)}
+    >
+      {MODE_OPTIONS.map(({ value, icon: Icon }) => (
+        <Button
+          key={value}
+          variant={listMode === value ? "secondary" : "ghost"}
+          size="sm"
+          className="h-8 gap-1.5 px-2.5"
+          aria-pressed={listMode === value}
+          onClick={() => setListMode(value)}
+        >
+          <Icon className="h-4 w-4" />
+          <span className="hidden sm:inline">{t(value)}</span>
+        </Button>
+      ))}
+    </div>
+  );
+}
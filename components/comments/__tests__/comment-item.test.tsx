@@ -33,8 +33,25 @@ jest.mock("../comment-reply-form", () => ({
   ),
 }));
 
+// Mock CommentEditForm
+jest.mock("../comment-edit-form", () => ({
+  CommentEditForm: ({
+    initialContent,
+    onCancel,
+  }: {
+    initialContent: string;
+    onCancel: () => void;
+  }) => (
+    <div data-testid="comment-edit-form">
+      <span>Editing {initialContent}</span>
+      <button onClick={onCancel}>Cancel Edit</button>
+    </div>
+  ),
+}));
+
 // Mock next-intl
 jest.mock("next-intl", () => ({
+  useLocale: () => "en",
   useTranslations:
     (key: string) => (subKey: string, params?: Record<string, unknown>) => {
       const translations: Record<
@@ -52,6 +69,9 @@ jest.mock("next-intl", () => ({
           showReplies: (params: Record<string, unknown>) =>
             `Show ${params.count} replies`,
           replyHint: "Press Ctrl+Enter to submit",
+          edit: "Edit",
+          delete: "Delete",
+          edited: "edited",
           unknownTime: "2 hours ago",
           badge: {
             manga: "MG",
@@ -333,6 +353,51 @@ describe("CommentItem", () => {
     });
   });
 
+  describe("Edit and delete", () => {
+    it("should not show edit or delete buttons without permission", () => {
+      render(<CommentItem {...defaultProps} />);
+
+      expect(screen.queryByText("Edit")).not.toBeInTheDocument();
+      expect(screen.queryByText("Delete")).not.toBeInTheDocument();
+    });
+
+    it("should show edit form in place of content when edit is clicked", () => {
+      const comment = createMockComment({ can_edit: true });
+      render(<CommentItem {...defaultProps} comment={comment} />);
+
+      fireEvent.click(screen.getByText("Edit"));
+
+      expect(screen.getByTestId("comment-edit-form")).toBeInTheDocument();
+      expect(screen.queryByText("Edit")).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText("Cancel Edit"));
+      expect(screen.queryByTestId("comment-edit-form")).not.toBeInTheDocument();
+      expect(screen.getByText("Test comment content")).toBeInTheDocument();
+    });
+
+    it("should show delete button when comment can be deleted", () => {
+      const comment = createMockComment({ can_delete: true });
+      render(<CommentItem {...defaultProps} comment={comment} />);
+
+      expect(screen.getByText("Delete")).toBeInTheDocument();
+    });
+
+    it("should show edited marker when updated_at differs from created_at", () => {
+      const comment = createMockComment({
+        updated_at: "2024-01-02T00:00:00Z",
+      });
+      render(<CommentItem {...defaultProps} comment={comment} />);
+
+      expect(screen.getByText("(edited)")).toBeInTheDocument();
+    });
+
+    it("should not show edited marker for unedited comments", () => {
+      render(<CommentItem {...defaultProps} />);
+
+      expect(screen.queryByText("(edited)")).not.toBeInTheDocument();
+    });
+  });
+
   describe("Content handling", () => {
     it("should preserve whitespace in comment content", () => {
       const comment = createMockComment({
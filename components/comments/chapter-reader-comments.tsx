@@ -1,14 +1,18 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useTranslations } from "next-intl";
 import { CommentTabs } from "./comment-tabs";
 import { CommentSection } from "./comment-section";
 import { TabContent } from "./tab-content";
 import { mangaApi } from "@/lib/api/endpoints/manga";
 import { chapterApi } from "@/lib/api/endpoints/chapter";
-import { commentKeys } from "@/lib/hooks/use-comments";
+import {
+  commentKeys,
+  useChapterComments,
+  useMangaComments,
+} from "@/lib/hooks/use-comments";
 
 interface ChapterReaderCommentsProps {
   mangaSlug: string;
@@ -28,52 +32,32 @@ export function ChapterReaderComments({
   const [, setActiveTab] = useState("chapter");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
 
-  // Fetch chapter comments (uses shared commentKeys for cache consistency)
-  const { data: chapterCommentsData, isLoading: isLoadingChapterComments } =
-    useQuery({
-      queryKey: commentKeys.chapter(mangaSlug, chapterSlug, {
-        sort: sortOrder,
-        per_page: 20,
-      }),
-      queryFn: async () => {
-        const response = await chapterApi.getComments(mangaSlug, chapterSlug, {
-          sort: sortOrder,
-          per_page: 20,
-        });
-        return {
-          comments: response.data || [],
-          totalCount: response.meta?.pagination?.total || 0,
-          hasMore:
-            (response.meta?.pagination?.current_page || 1) <
-            (response.meta?.pagination?.last_page || 1),
-        };
-      },
+  // Same hooks (and cache entries) as the manga page, so edits and
+  // deletes update both
+  const { data: chapterComments, isLoading: isLoadingChapterComments } =
+    useChapterComments(mangaSlug, chapterSlug, {
+      sort: sortOrder,
+      per_page: 20,
     });
-
-  // Fetch manga comments (uses shared commentKeys for cache consistency)
-  const { data: mangaCommentsData, isLoading: isLoadingMangaComments } =
-    useQuery({
-      queryKey: commentKeys.manga(mangaSlug, {
-        type: "manga",
-        sort: sortOrder,
-        per_page: 20,
-      }),
-      queryFn: async () => {
-        const response = await mangaApi.getComments(mangaSlug, {
-          type: "manga",
-          sort: sortOrder,
-          per_page: 20,
-        });
-        return {
-          comments: response.data || [],
-          totalCount: response.meta?.pagination?.total || 0,
-          hasMore:
-            (response.meta?.pagination?.current_page || 1) <
-            (response.meta?.pagination?.last_page || 1),
-        };
-      },
+  const { data: mangaComments, isLoading: isLoadingMangaComments } =
+    useMangaComments(mangaSlug, {
+      type: "manga",
+      sort: sortOrder,
+      per_page: 20,
     });
 
+  const chapterCommentsData = chapterComments && {
+    comments: chapterComments.items,
+    totalCount: chapterComments.pagination.total,
+    hasMore:
+      chapterComments.pagination.current_page <
+      chapterComments.pagination.last_page,
+  };
+  const mangaCommentsData = mangaComments && {
+    comments: mangaComments.items,
+    totalCount: mangaComments.pagination.total,
+  };
+
   // Add comment mutation
   const addCommentMutation = useMutation({
     mutationFn: async ({
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useTranslations } from "next-intl";
+import { Check, Loader2, Smile } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import dynamic from "next/dynamic";
+
+// Lazy load emoji picker (1000+ lines) - only load when popover opens
+const EmojiPickerComponent = dynamic(
+  () =>
+    import("@/components/ui/emoji-picker").then((mod) => ({
+      default: mod.EmojiPickerComponent,
+    })),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="p-4 text-sm text-muted-foreground">Loading...</div>
+    ),
+  }
+);
+import { useEmojiInsertion } from "@/hooks/use-emoji-insertion";
+
+interface CommentEditFormProps {
+  initialContent: string;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function CommentEditForm({
+  initialContent,
+  onSubmit,
+  onCancel,
+}: CommentEditFormProps) {
+  const t = useTranslations("comment");
+  const [content, setContent] = useState(initialContent);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const { handleEmojiSelect } = useEmojiInsertion(content, setContent);
+
+  const trimmed = content.trim();
+  const isUnchanged = trimmed === initialContent.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || isSubmitting) return;
+
+    if (isUnchanged) {
+      onCancel();
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(trimmed);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === "Enter") {
+      handleSubmit(e);
+    }
+    if (e.key === "Escape") {
+      onCancel();
+    }
+  };
+
+  const handleEmojiSelectWithClose = (emoji: string) => {
+    handleEmojiSelect(emoji, textareaRef.current);
+    setShowEmojiPicker(false);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-1 space-y-2"
+      data-testid="comment-edit-form"
+    >
+      <Textarea
+        ref={textareaRef}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={t("placeholder")}
+        className="min-h-[60px] resize-none text-sm"
+        disabled={isSubmitting}
+        aria-label={t("edit")}
+        autoFocus
+      />
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Popover open={showEmojiPicker} onOpenChange={setShowEmojiPicker}>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+              >
+                <Smile className="h-3 w-3" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <EmojiPickerComponent
+                onEmojiSelect={handleEmojiSelectWithClose}
+              />
+            </PopoverContent>
+          </Popover>
+          <span className="text-xs text-muted-foreground">
+            {t("submitHint")}
+          </span>
+        </div>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            {t("cancel")}
+          </Button>
+          <Button type="submit" size="sm" disabled={!trimmed || isSubmitting}>
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <Check className="h-4 w-4 mr-1" />
+                {t("save")}
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
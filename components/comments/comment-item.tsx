@@ -1,15 +1,25 @@
 "use client";
 
 import { useState } from "react";
-import { useTranslations } from "next-intl";
-import { Reply, ChevronDown, ChevronUp } from "lucide-react";
+import { useLocale, useTranslations } from "next-intl";
+import { Reply, ChevronDown, ChevronUp, Pencil, Trash2 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useAuthStore } from "@/lib/store/authStore";
+import { useDeleteComment, useUpdateComment } from "@/lib/hooks/use-comments";
 import { cn } from "@/lib/utils";
 import { sanitizeText } from "@/lib/utils/sanitize";
 import { useRelativeTime } from "@/hooks/use-relative-time";
 import { CommentReplyForm } from "./comment-reply-form";
+import { CommentEditForm } from "./comment-edit-form";
 import type { Comment } from "@/types/comment";
 
 const MAX_DEPTH = 1; // API only supports comment (depth 0) and reply (depth 1)
@@ -22,9 +32,15 @@ interface CommentItemProps {
 
 export function CommentItem({ comment, depth, onReply }: CommentItemProps) {
   const t = useTranslations("comment");
+  const locale = useLocale();
   const { isAuthenticated } = useAuthStore();
   const [isReplying, setIsReplying] = useState(false);
   const [showReplies, setShowReplies] = useState(depth < 2);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  const updateComment = useUpdateComment();
+  const deleteComment = useDeleteComment();
 
   // Runtime validation to prevent infinite recursion
   const hasReplies =
@@ -37,10 +53,24 @@ export function CommentItem({ comment, depth, onReply }: CommentItemProps) {
     setIsReplying(false);
   };
 
+  // Cache is updated optimistically, so close the editor right away
+  const handleEdit = async (content: string) => {
+    setIsEditing(false);
+    updateComment.mutate({ id: comment.id, content });
+  };
+
+  const handleDelete = () => {
+    setShowDeleteDialog(false);
+    deleteComment.mutate(comment.id);
+  };
+
+  const isEdited =
+    !!comment.updated_at && comment.updated_at !== comment.created_at;
+
   // Calculate relative time using custom hook (client-side only)
   const timeAgo =
     useRelativeTime(comment.created_at || new Date().toISOString(), {
-      locale: "vi",
+      locale,
     }) || t("unknownTime");
 
   // Determine if this is a chapter comment and get chapter name
@@ -75,11 +105,24 @@ export function CommentItem({ comment, depth, onReply }: CommentItemProps) {
               </span>
             )}
             <span className="text-xs text-muted-foreground">{timeAgo}</span>
+            {isEdited && (
+              <span className="text-xs italic text-muted-foreground">
+                ({t("edited")})
+              </span>
+            )}
           </div>
 
-          <p className="text-sm mt-1 whitespace-pre-wrap break-words">
-            {sanitizeText(comment.content)}
-          </p>
+          {isEditing ? (
+            <CommentEditForm
+              initialContent={comment.content}
+              onSubmit={handleEdit}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <p className="text-sm mt-1 whitespace-pre-wrap break-words">
+              {sanitizeText(comment.content)}
+            </p>
+          )}
 
           {/* Actions */}
           <div className="flex items-center gap-2 mt-2">
@@ -94,8 +137,59 @@ export function CommentItem({ comment, depth, onReply }: CommentItemProps) {
                 {t("reply")}
               </Button>
             )}
+            {comment.can_edit && !isEditing && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setIsEditing(true)}
+              >
+                <Pencil className="h-3 w-3 mr-1" />
+                {t("edit")}
+              </Button>
+            )}
+            {comment.can_delete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+                onClick={() => setShowDeleteDialog(true)}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                {t("delete")}
+              </Button>
+            )}
           </div>
 
+          {/* Delete Confirmation */}
+          {comment.can_delete && (
+            <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{t("deleteConfirm.title")}</DialogTitle>
+                  <DialogDescription>
+                    {comment.replies_count > 0
+                      ? t("deleteConfirm.descriptionWithReplies", {
+                          count: comment.replies_count,
+                        })
+                      : t("deleteConfirm.description")}
+                  </DialogDescription>
+                </DialogHeader>
+                <DialogFooter>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowDeleteDialog(false)}
+                  >
+                    {t("cancel")}
+                  </Button>
+                  <Button variant="destructive" onClick={handleDelete}>
+                    {t("delete")}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+
           {/* Reply Form */}
           {isReplying && (
             <div className="mt-3">
@@ -0,0 +1,53 @@
+/**
+ * Genre Card Component
+ * Links to a genre page with its color accent, description and manga count
+ */
+
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import type { Genre } from "@/types/manga";
+
+export interface GenreCardProps {
+  genre: Genre;
+  /** Localized manga count, e.g. "1.2K manga" */
+  mangasCountLabel?: string;
+  className?: string;
+}
+
+export function GenreCard({
+  genre,
+  mangasCountLabel,
+  className,
+}: GenreCardProps) {
+  return (
+    <Link
+      href={`/genres/${genre.slug}`}
+      className={cn(
+        "group flex flex-col gap-1 rounded-lg border border-l-4 bg-card p-4 transition-colors hover:border-primary/50 hover:bg-accent/40",
+        className
+      )}
+      style={genre.color ? { borderLeftColor: genre.color } : undefined}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="font-semibold truncate group-hover:text-primary transition-colors">
+          {genre.name}
+        </h2>
+        {genre.is_nsfw && (
+          <span className="text-[10px] font-semibold text-muted-foreground">
+            18+
+          </span>
+        )}
+      </div>
+      {genre.description && (
+        <p className="text-xs text-muted-foreground line-clamp-2">
+          {genre.description}
+        </p>
+      )}
+      {mangasCountLabel && (
+        <p className="mt-auto pt-1 text-xs text-muted-foreground">
+          {mangasCountLabel}
+        </p>
+      )}
+    </Link>
+  );
+}
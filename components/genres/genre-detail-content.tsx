@@ -0,0 +1,179 @@
+"use client";
+
+/**
+ * Genre Detail Content
+ * Genre header with a sortable, paginated manga grid
+ */
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { ChevronRight } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Pagination } from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MangaGrid } from "@/components/manga/manga-grid";
+import { useGenreDetail, useGenreMangas } from "@/hooks/use-genre";
+import { formatNumber } from "@/lib/utils";
+import { GENRE_SORT_OPTIONS, type GenreSortOption } from "@/types/manga";
+
+const SORT_LABEL_KEYS: Record<GenreSortOption, string> = {
+  "-updated_at": "latest",
+  views: "views",
+  rating: "rating",
+  name: "name",
+};
+
+interface GenreDetailContentProps {
+  slug: string;
+  sort: GenreSortOption;
+  page: number;
+}
+
+/**
+ * Build genre page URL - default sort and first page are omitted
+ */
+function buildUrl(slug: string, sort: GenreSortOption, page: number): string {
+  const params = new URLSearchParams();
+
+  if (sort !== "-updated_at") {
+    params.set("sort", sort);
+  }
+
+  if (page > 1) {
+    params.set("page", String(page));
+  }
+
+  const queryString = params.toString();
+  return queryString ? `/genres/${slug}?${queryString}` : `/genres/${slug}`;
+}
+
+export function GenreDetailContent({
+  slug,
+  sort,
+  page,
+}: GenreDetailContentProps) {
+  const t = useTranslations("genres");
+  const tSort = useTranslations("browse.sort");
+  const tNav = useTranslations("navigation");
+  const router = useRouter();
+
+  const { data: genre, isLoading: genreLoading } = useGenreDetail(slug);
+  const { data, isLoading, error } = useGenreMangas(slug, sort, page);
+
+  const mangas = data?.data || [];
+  const pagination = data?.meta?.pagination;
+  const totalPages = pagination?.last_page || 1;
+  const totalCount = pagination?.total ?? genre?.mangas_count ?? 0;
+
+  const handleSortChange = (value: string) => {
+    router.push(buildUrl(slug, value as GenreSortOption, 1));
+  };
+
+  const handlePageChange = (newPage: number) => {
+    router.push(buildUrl(slug, sort, newPage));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <nav className="flex items-center text-xs sm:text-sm text-muted-foreground overflow-hidden whitespace-nowrap">
+        <Link href="/" className="hover:text-primary transition-colors">
+          {tNav("home")}
+        </Link>
+        <ChevronRight className="h-3 w-3 mx-1 flex-shrink-0" />
+        <Link href="/genres" className="hover:text-primary transition-colors">
+          {tNav("genres")}
+        </Link>
+        <ChevronRight className="h-3 w-3 mx-1 flex-shrink-0" />
+        <span className="font-medium text-foreground truncate">
+          {genre?.name ?? slug}
+        </span>
+      </nav>
+
+      {/* Header */}
+      <Card
+        className="border-l-4"
+        style={genre?.color ? { borderLeftColor: genre.color } : undefined}
+      >
+        <CardContent className="space-y-2 px-4 sm:px-6">
+          {genreLoading ? (
+            <>
+              <Skeleton className="h-8 w-48" />
+              <Skeleton className="h-4 w-72" />
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl sm:text-3xl font-bold">
+                {t("detailTitle", { name: genre?.name ?? slug })}
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                {t("mangasCount", { count: formatNumber(totalCount) })}
+              </p>
+              {genre?.description && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line">
+                  {genre.description}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sort */}
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-sm text-muted-foreground">{tSort("label")}</span>
+        <Select value={sort} onValueChange={handleSortChange}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GENRE_SORT_OPTIONS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {tSort(SORT_LABEL_KEYS[option])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Manga Grid */}
+      {error ? (
+        <p className="text-center py-12 text-destructive">{t("loadError")}</p>
+      ) : (
+        <>
+          <MangaGrid
+            mangas={mangas}
+            isLoading={isLoading}
+            columns={{
+              default: 2,
+              sm: 3,
+              md: 4,
+              lg: 6,
+              xl: 6,
+            }}
+            emptyMessage={t("noMangas")}
+          />
+
+          {!isLoading && totalPages > 1 && (
+            <Pagination
+              currentPage={page}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+              className="mt-8"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -33,6 +33,8 @@ export function Footer() {
     { href: "/", label: tNav("home") },
     { href: "/browse?sort=-views", label: tNav("hot") },
     { href: "/browse", label: tNav("recent") },
+    { href: "/artists", label: tNav("artists") },
+    { href: "/groups", label: tNav("groups") },
     { href: "/library", label: tNav("library") },
   ];
 
@@ -53,7 +53,15 @@ export function GenresDropdown({ className }: GenresDropdownProps) {
         align="start"
         className="w-64 max-h-[400px] overflow-y-auto"
       >
-        <DropdownMenuLabel>{tNav("allGenres")}</DropdownMenuLabel>
+        <DropdownMenuLabel className="flex items-center justify-between">
+          {tNav("allGenres")}
+          <Link
+            href="/genres"
+            className="text-xs font-normal text-primary hover:underline"
+          >
+            {tNav("viewAllGenres")}
+          </Link>
+        </DropdownMenuLabel>
         <DropdownMenuSeparator />
 
         {isLoading && (
@@ -82,7 +90,7 @@ export function GenresDropdown({ className }: GenresDropdownProps) {
             {genres.map((genre) => (
               <DropdownMenuItem key={genre.id} asChild>
                 <Link
-                  href={`/browse?genre=${genre.id}`}
+                  href={`/genres/${genre.slug}`}
                   className="flex items-center justify-between cursor-pointer"
                 >
                   <span>{genre.name}</span>
@@ -0,0 +1,73 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Languages } from "lucide-react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import {
+  useLocaleSwitcher,
+  useSyncUserLocale,
+} from "@/lib/hooks/use-locale-switcher";
+import {
+  LOCALE_NAMES,
+  SUPPORTED_LOCALES,
+  type SupportedLocale,
+} from "@/lib/i18n/config";
+
+/**
+ * Radio items for every supported locale, shared by the navbar switcher
+ * and the user menu submenu
+ */
+export function LocaleRadioItems() {
+  const { locale, switchLocale, isPending } = useLocaleSwitcher();
+
+  return (
+    <DropdownMenuRadioGroup
+      value={locale}
+      onValueChange={(value) => switchLocale(value as SupportedLocale)}
+    >
+      {SUPPORTED_LOCALES.map((option) => (
+        <DropdownMenuRadioItem
+          key={option}
+          value={option}
+          disabled={isPending}
+          lang={option}
+          className="cursor-pointer"
+        >
+          {LOCALE_NAMES[option]}
+        </DropdownMenuRadioItem>
+      ))}
+    </DropdownMenuRadioGroup>
+  );
+}
+
+export function LanguageSwitcher() {
+  const t = useTranslations("navigation");
+
+  // Signed-in users get their saved language applied on this device
+  useSyncUserLocale();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label={t("language")}>
+          <Languages className="h-5 w-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-44">
+        <DropdownMenuLabel>{t("language")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <LocaleRadioItems />
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -21,6 +21,7 @@ import {
   Home,
   Flame,
   Clock,
+  Download,
   Library,
   User,
   Settings,
@@ -69,6 +70,7 @@ export function MobileNav() {
     { href: "/", label: t("navigation.home"), icon: Home },
     { href: "/browse?sort=-views", label: t("navigation.hot"), icon: Flame },
     { href: "/browse", label: t("navigation.recent"), icon: Clock },
+    { href: "/downloads", label: t("navigation.downloads"), icon: Download },
   ];
 
   return (
@@ -141,9 +143,18 @@ export function MobileNav() {
 
           {/* Genres Section */}
           <div className="space-y-2">
-            <h3 className="px-3 text-sm font-semibold text-muted-foreground">
-              {t("navigation.allGenres")}
-            </h3>
+            <div className="flex items-center justify-between px-3">
+              <h3 className="text-sm font-semibold text-muted-foreground">
+                {t("navigation.allGenres")}
+              </h3>
+              <Link
+                href="/genres"
+                onClick={() => setOpen(false)}
+                className="text-xs text-primary hover:underline"
+              >
+                {t("navigation.viewAllGenres")}
+              </Link>
+            </div>
 
             {isLoadingGenres ? (
               <div className="flex items-center justify-center py-4">
@@ -155,7 +166,7 @@ export function MobileNav() {
                   {genres.map((genre) => (
                     <Link
                       key={genre.id}
-                      href={`/browse?genre=${genre.id}`}
+                      href={`/genres/${genre.slug}`}
                       onClick={() => setOpen(false)}
                       className="flex items-center justify-between rounded-lg border bg-card px-3 py-2 text-sm transition-colors hover:bg-accent hover:text-accent-foreground"
                     >
@@ -10,6 +10,7 @@ import { UserMenu } from "./user-menu";
 import { MobileNav } from "./mobile-nav";
 import { GenresDropdown } from "./genres-dropdown";
 import { ResponsiveSearch } from "./responsive-search";
+import { LanguageSwitcher } from "./language-switcher";
 import { Moon, Sun } from "lucide-react";
 import Image from "next/image";
 
@@ -59,11 +60,14 @@ export function Navbar() {
             </nav>
           </div>
 
-          {/* Right: Search + Theme Toggle + User Menu */}
+          {/* Right: Search + Language + Theme Toggle + User Menu */}
           <div className="flex items-center gap-2">
             {/* Responsive Search Bar */}
             <ResponsiveSearch />
 
+            {/* Language Switcher */}
+            <LanguageSwitcher />
+
             {/* Theme Toggle */}
             <Button
               variant="ghost"
@@ -62,11 +62,14 @@ export function SearchBar({ className, placeholder }: SearchBarProps) {
   // Fetch search results
   const { data, isLoading } = useQuery({
     queryKey: ["manga-search", debouncedQuery],
-    queryFn: async () => {
-      const response = await mangaApi.search({
-        q: debouncedQuery,
-        per_page: 10,
-      });
+    queryFn: async ({ signal }) => {
+      const response = await mangaApi.search(
+        {
+          q: debouncedQuery,
+          per_page: 10,
+        },
+        signal
+      );
       return response;
     },
     enabled: debouncedQuery.length >= 2,
@@ -107,7 +110,7 @@ export function SearchBar({ className, placeholder }: SearchBarProps) {
         inputRef.current?.blur();
       } else if (query.trim()) {
         // Navigate to search page
-        router.push(`/browse?q=${encodeURIComponent(query.trim())}`);
+        router.push(`/search?q=${encodeURIComponent(query.trim())}`);
         setManuallyClosedDropdown(true);
         inputRef.current?.blur();
       }
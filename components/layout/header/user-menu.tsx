@@ -9,17 +9,31 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { useAuth, useLogout } from "@/lib/hooks/use-auth";
-import { User, Library, Settings, LogOut, LogIn } from "lucide-react";
+import { useLibraryUpdates } from "@/lib/hooks/use-library-updates";
+import {
+  User,
+  Library,
+  Download,
+  Settings,
+  LogOut,
+  LogIn,
+  Languages,
+} from "lucide-react";
 import { toast } from "sonner";
+import { LocaleRadioItems } from "./language-switcher";
 
 export function UserMenu() {
   const { user, isAuthenticated } = useAuth();
   const { logout } = useLogout();
+  const { totalUnread } = useLibraryUpdates();
   const router = useRouter();
   const t = useTranslations();
 
@@ -58,6 +72,16 @@ export function UserMenu() {
             <AvatarImage src={user.avatar_full_url} alt={user.name} />
             <AvatarFallback>{initials}</AvatarFallback>
           </Avatar>
+          {totalUnread > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-primary-foreground ring-2 ring-background"
+              aria-label={t("user.library.updates.unreadBadge", {
+                count: totalUnread,
+              })}
+            >
+              {totalUnread > 99 ? "99+" : totalUnread}
+            </span>
+          )}
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-56">
@@ -82,9 +106,23 @@ export function UserMenu() {
           </Link>
         </DropdownMenuItem>
         <DropdownMenuItem asChild>
-          <Link href="/library" className="cursor-pointer">
+          <Link
+            href={totalUnread > 0 ? "/library?tab=updates" : "/library"}
+            className="cursor-pointer"
+          >
             <Library className="mr-2 h-4 w-4" />
             {t("navigation.library")}
+            {totalUnread > 0 && (
+              <span className="ml-auto text-xs font-semibold text-primary">
+                {totalUnread > 99 ? "99+" : totalUnread}
+              </span>
+            )}
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/downloads" className="cursor-pointer">
+            <Download className="mr-2 h-4 w-4" />
+            {t("navigation.downloads")}
           </Link>
         </DropdownMenuItem>
         <DropdownMenuItem asChild>
@@ -93,6 +131,15 @@ export function UserMenu() {
             {t("navigation.settings")}
           </Link>
         </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger className="cursor-pointer">
+            <Languages className="mr-2 h-4 w-4" />
+            {t("navigation.language")}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <LocaleRadioItems />
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleLogout} className="cursor-pointer">
           <LogOut className="mr-2 h-4 w-4" />
@@ -1,24 +1,133 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo } from "react";
 import { useTranslations } from "next-intl";
 import { toast } from "sonner";
 
-import { useFavorites } from "@/lib/hooks/use-library";
-import { useRemoveBookmark } from "@/lib/hooks/use-library";
+import {
+  useAllFavorites,
+  useBulkRemoveBookmarks,
+  useFavorites,
+  useRemoveBookmark,
+} from "@/lib/hooks/use-library";
+import { useLibraryUpdates } from "@/lib/hooks/use-library-updates";
+import { useLibraryListControls } from "@/lib/hooks/use-library-list";
+import { useUndoableRemoval } from "@/lib/hooks/use-undoable-removal";
+import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
+import {
+  applyLibraryOptions,
+  paginateItems,
+  type LibrarySortOption,
+} from "@/lib/utils/library-filters";
 import { LibraryMangaCard } from "./library-manga-card";
 import { EmptyState } from "./empty-state";
 import { TabContentSkeleton } from "./library-skeleton";
 import { LibraryPagination } from "./library-pagination";
+import { LibraryGrid } from "./library-grid";
+import { LibraryToolbar } from "./library-toolbar";
+import { BulkActionBar } from "./bulk-action-bar";
+import { ShelfFilterBar } from "./shelf-filter-bar";
+import { ShelfGrid } from "./shelf-grid";
 
-export function BookmarksTab() {
+const SORT_OPTIONS: LibrarySortOption[] = [
+  "recent",
+  "oldest",
+  "title",
+  "last_read",
+];
+
+interface BookmarksTabProps {
+  /** Shelf to filter by, null for all bookmarks */
+  activeShelf: string | null;
+  onShelfChange: (shelfId: string | null) => void;
+}
+
+export function BookmarksTab({
+  activeShelf,
+  onShelfChange,
+}: BookmarksTabProps) {
   const t = useTranslations("user.library");
   const tNotify = useTranslations("notifications");
-  const [page, setPage] = useState(1);
   const perPage = 20;
 
-  const { data, isLoading, error } = useFavorites({ page, per_page: perPage });
+  const {
+    page,
+    setPage,
+    options,
+    setOptions,
+    isCustomView,
+    isInfinite,
+    isWholeList,
+    isSelecting,
+    setIsSelecting,
+    selectedIds,
+    setSelectedIds,
+    toggleSelected,
+  } = useLibraryListControls();
+
+  const isAllBookmarks = activeShelf === null;
+  const pagedQuery = useFavorites({
+    page,
+    per_page: perPage,
+    enabled: !isWholeList,
+  });
+  const allQuery = useAllFavorites(isAllBookmarks && isWholeList);
   const removeMutation = useRemoveBookmark();
+  const bulkRemoveMutation = useBulkRemoveBookmarks();
+  const { unreadCounts } = useLibraryUpdates();
+  const progress = useReadingProgressStore((state) => state.progress);
+
+  const { pendingIds, remove } = useUndoableRemoval({
+    commit: (ids) =>
+      bulkRemoveMutation.mutate(ids, {
+        onSuccess: ({ failed }) => {
+          if (failed.length > 0) {
+            toast.error(t("bulk.removeFailed", { count: failed.length }));
+          }
+        },
+      }),
+  });
+
+  // Sorted/filtered views page through the whole list client-side, infinite
+  // scroll shows it as a single page
+  const data = useMemo(() => {
+    const isVisible = (manga: { id: number }) => !pendingIds.has(manga.id);
+
+    if (!isWholeList) {
+      return (
+        pagedQuery.data && {
+          ...pagedQuery.data,
+          items: pagedQuery.data.items.filter(isVisible),
+        }
+      );
+    }
+    if (!allQuery.data) return undefined;
+
+    const items = applyLibraryOptions(
+      allQuery.data.filter(isVisible),
+      options,
+      {
+        manga: (manga) => manga,
+        lastReadAt: (manga) => progress[manga.slug]?.timestamp,
+      }
+    );
+    return paginateItems(
+      items,
+      page,
+      isInfinite ? Math.max(items.length, 1) : perPage
+    );
+  }, [
+    isInfinite,
+    isWholeList,
+    pagedQuery.data,
+    allQuery.data,
+    pendingIds,
+    options,
+    progress,
+    page,
+  ]);
+
+  const { isLoading, error } = isWholeList ? allQuery : pagedQuery;
 
   const handleRemove = async (mangaId: number, mangaName: string) => {
     try {
@@ -31,19 +140,49 @@ export function BookmarksTab() {
     }
   };
 
-  if (isLoading) {
-    return <TabContentSkeleton showStats gridCount={perPage} />;
+  const handleBulkRemove = () => {
+    remove(
+      [...selectedIds],
+      t("bulk.removedBookmarks", { count: selectedIds.size })
+    );
+    setIsSelecting(false);
+  };
+
+  const shelfFilter = (
+    <ShelfFilterBar activeShelf={activeShelf} onShelfChange={onShelfChange} />
+  );
+
+  if (!isAllBookmarks) {
+    return (
+      <div className="space-y-6">
+        {shelfFilter}
+        <ShelfGrid shelfId={activeShelf} unreadCounts={unreadCounts} />
+      </div>
+    );
   }
 
-  if (error) {
+  // First load of the default view - nothing to filter yet
+  if (!isCustomView && isLoading) {
     return (
-      <div className="text-center py-12 text-destructive">
-        {t("errors.loadFailed")}
+      <div className="space-y-6">
+        {shelfFilter}
+        <TabContentSkeleton showStats gridCount={perPage} />
       </div>
     );
   }
 
-  if (!data || data.items.length === 0) {
+  if (!isCustomView && error) {
+    return (
+      <div className="space-y-6">
+        {shelfFilter}
+        <div className="text-center py-12 text-destructive">
+          {t("errors.loadFailed")}
+        </div>
+      </div>
+    );
+  }
+
+  if (!isCustomView && data?.pagination.total === 0) {
     return (
       <EmptyState
         variant="bookmarks"
@@ -57,33 +196,77 @@ export function BookmarksTab() {
 
   return (
     <div className="space-y-6">
-      {/* Stats */}
-      <div className="text-sm text-muted-foreground">
-        {t("stats.totalBookmarks", { count: data.pagination.total })}
-      </div>
+      {shelfFilter}
 
-      {/* Grid */}
-      <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-        {data.items.map((manga, index) => (
-          <LibraryMangaCard
-            key={manga.id}
-            manga={manga}
-            index={index}
-            showRemove
-            onRemove={() => handleRemove(manga.id, manga.name)}
-            isRemoving={removeMutation.isPending}
-          />
-        ))}
-      </div>
+      <LibraryToolbar
+        options={options}
+        onOptionsChange={setOptions}
+        sortOptions={SORT_OPTIONS}
+        isSelecting={isSelecting}
+        onSelectingChange={setIsSelecting}
+      />
 
-      {/* Pagination */}
-      {data.pagination.last_page > 1 && (
-        <LibraryPagination
-          currentPage={page}
-          totalPages={data.pagination.last_page}
-          onPageChange={setPage}
+      {isSelecting && (
+        <BulkActionBar
+          pageIds={data?.items.map((manga) => manga.id) ?? []}
+          selectedIds={selectedIds}
+          onSelectedChange={setSelectedIds}
+          onRemove={handleBulkRemove}
+          onCancel={() => setIsSelecting(false)}
+          removeLabel={t("bulk.removeBookmarks")}
         />
       )}
+
+      {isLoading ? (
+        <TabContentSkeleton showStats gridCount={perPage} />
+      ) : error ? (
+        <div className="text-center py-12 text-destructive">
+          {t("errors.loadFailed")}
+        </div>
+      ) : !data || data.items.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {t("toolbar.noMatches")}
+        </div>
+      ) : (
+        <>
+          {/* Stats */}
+          <div className="text-sm text-muted-foreground">
+            {t("stats.totalBookmarks", { count: data.pagination.total })}
+          </div>
+
+          {/* Grid */}
+          <LibraryGrid
+            items={data.items}
+            getKey={(manga) => manga.id}
+            isInfinite={isInfinite}
+            scrollKey="library:bookmarks"
+            renderItem={(manga, index) => (
+              <LibraryMangaCard
+                manga={manga}
+                index={index}
+                unreadCount={unreadCounts.get(manga.id)}
+                showRemove
+                onRemove={() => handleRemove(manga.id, manga.name)}
+                isRemoving={removeMutation.isPending}
+                selectable={isSelecting}
+                selected={selectedIds.has(manga.id)}
+                onSelectedChange={(selected) =>
+                  toggleSelected(manga.id, selected)
+                }
+              />
+            )}
+          />
+
+          {/* Pagination */}
+          {!isInfinite && data.pagination.last_page > 1 && (
+            <LibraryPagination
+              currentPage={data.pagination.current_page}
+              totalPages={data.pagination.last_page}
+              onPageChange={setPage}
+            />
+          )}
+        </>
+      )}
     </div>
   );
 }
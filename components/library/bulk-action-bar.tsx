@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * Bulk Action Bar
+ * Select-all-on-page, selection count and bulk remove while the library
+ * grid is in selection mode
+ */
+
+import { useTranslations } from "next-intl";
+import { Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface BulkActionBarProps {
+  /** Ids of the items shown on the current page */
+  pageIds: number[];
+  selectedIds: Set<number>;
+  onSelectedChange: (ids: Set<number>) => void;
+  onRemove: () => void;
+  onCancel: () => void;
+  removeLabel: string;
+}
+
+export function BulkActionBar({
+  pageIds,
+  selectedIds,
+  onSelectedChange,
+  onRemove,
+  onCancel,
+  removeLabel,
+}: BulkActionBarProps) {
+  const t = useTranslations("user.library.bulk");
+  const tCommon = useTranslations("common");
+
+  const selectedOnPage = pageIds.filter((id) => selectedIds.has(id)).length;
+  const allOnPage = pageIds.length > 0 && selectedOnPage === pageIds.length;
+
+  const handleSelectPage = (checked: boolean) => {
+    const next = new Set(selectedIds);
+    pageIds.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+    onSelectedChange(next);
+  };
+
+  return (
+    <div className="sticky top-16 z-20 flex flex-wrap items-center gap-3 rounded-lg border bg-background/95 px-3 py-2 shadow-sm backdrop-blur">
+      <label className="flex items-center gap-2 text-sm">
+        <Checkbox
+          checked={
+            allOnPage ? true : selectedOnPage > 0 ? "indeterminate" : false
+          }
+          onCheckedChange={(checked) => handleSelectPage(checked === true)}
+        />
+        {t("selectPage")}
+      </label>
+
+      <span className="text-sm text-muted-foreground">
+        {t("selected", { count: selectedIds.size })}
+      </span>
+
+      <div className="ml-auto flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          {tCommon("cancel")}
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          className="gap-2"
+          disabled={selectedIds.size === 0}
+          onClick={onRemove}
+        >
+          <Trash2 className="h-4 w-4" />
+          {removeLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
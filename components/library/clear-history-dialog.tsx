@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * Clear History Dialog
+ * Confirms before removing every manga from reading history
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useClearHistory } from "@/lib/hooks/use-library";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+
+export function ClearHistoryDialog() {
+  const t = useTranslations("user.library.bulk");
+  const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
+  const clearHistory = useClearHistory();
+  const [open, setOpen] = useState(false);
+
+  const handleClear = () => {
+    clearHistory.mutate(undefined, {
+      onSuccess: ({ removed, failed }) => {
+        setOpen(false);
+        if (failed.length > 0) {
+          toast.error(t("removeFailed", { count: failed.length }));
+        } else {
+          toast.success(t("historyCleared", { count: removed.length }));
+        }
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    });
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-9 gap-2 text-destructive hover:text-destructive"
+        onClick={() => setOpen(true)}
+      >
+        <Trash2 className="h-4 w-4" />
+        {t("clearHistory")}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("clearHistoryTitle")}</DialogTitle>
+            <DialogDescription>
+              {t("clearHistoryDescription")}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleClear}
+              disabled={clearHistory.isPending}
+            >
+              {t("clearHistoryConfirm")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -6,6 +6,7 @@ import { ArrowRight } from "lucide-react";
 import { MangaStatus } from "@/types/manga";
 
 import { useContinueReading } from "@/lib/hooks/use-library";
+import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
 import { LibraryMangaCard } from "./library-manga-card";
 import { EmptyState } from "./empty-state";
 import { ContinueReadingSkeleton } from "./library-skeleton";
@@ -41,6 +42,7 @@ function transformMangaReferenceToMangaListItem(
 export function ContinueReadingSection() {
   const t = useTranslations("user.library");
   const { data, isLoading, error } = useContinueReading();
+  const getPagePosition = useReadingProgressStore((s) => s.getPagePosition);
 
   if (isLoading) {
     return <ContinueReadingSkeleton />;
@@ -78,8 +80,20 @@ export function ContinueReadingSection() {
               item.last_read_at
             )}
             index={index}
-            lastReadChapter={item.last_read_chapter}
+            lastReadChapter={{
+              ...item.last_read_chapter,
+              // Progress saved before chapter names were recorded
+              name:
+                item.last_read_chapter.name ||
+                t("card.progress", {
+                  current: item.last_read_chapter.chapter_number,
+                }),
+            }}
             lastReadAt={item.last_read_at}
+            resumePageIndex={
+              getPagePosition(item.manga.slug, item.last_read_chapter.slug)
+                ?.pageIndex
+            }
           />
         ))}
       </div>
@@ -1,12 +1,24 @@
 "use client";
 
 import Link from "next/link";
-import { BookOpen, Bookmark, History, type LucideIcon } from "lucide-react";
+import {
+  BookOpen,
+  Bookmark,
+  Download,
+  History,
+  Sparkles,
+  type LucideIcon,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
-type EmptyStateVariant = "continue" | "bookmarks" | "history";
+type EmptyStateVariant =
+  | "continue"
+  | "bookmarks"
+  | "history"
+  | "downloads"
+  | "updates";
 
 interface EmptyStateProps {
   variant: EmptyStateVariant;
@@ -33,6 +45,14 @@ const variantConfig: Record<
     icon: History,
     iconColor: "text-purple-500",
   },
+  downloads: {
+    icon: Download,
+    iconColor: "text-emerald-500",
+  },
+  updates: {
+    icon: Sparkles,
+    iconColor: "text-rose-500",
+  },
 };
 
 export function EmptyState({
@@ -1,14 +1,30 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo } from "react";
 import { useTranslations } from "next-intl";
 import { toast } from "sonner";
 
-import { useHistory, useRemoveFromHistory } from "@/lib/hooks/use-library";
+import {
+  useAllHistory,
+  useBulkRemoveFromHistory,
+  useHistory,
+  useRemoveFromHistory,
+} from "@/lib/hooks/use-library";
+import { useLibraryListControls } from "@/lib/hooks/use-library-list";
+import { useUndoableRemoval } from "@/lib/hooks/use-undoable-removal";
+import {
+  applyLibraryOptions,
+  paginateItems,
+  type LibrarySortOption,
+} from "@/lib/utils/library-filters";
 import { LibraryMangaCard } from "./library-manga-card";
 import { EmptyState } from "./empty-state";
 import { TabContentSkeleton } from "./library-skeleton";
 import { LibraryPagination } from "./library-pagination";
+import { LibraryGrid } from "./library-grid";
+import { LibraryToolbar } from "./library-toolbar";
+import { BulkActionBar } from "./bulk-action-bar";
+import { ClearHistoryDialog } from "./clear-history-dialog";
 import { MangaStatus } from "@/types/manga";
 import type { MangaReference } from "@/types/chapter";
 import type { MangaListItem } from "@/types/manga";
@@ -25,7 +41,7 @@ function transformMangaReferenceToMangaListItem(
     name_alt: mangaRef.name_alt,
     slug: mangaRef.slug,
     cover_full_url: mangaRef.cover_full_url,
-    status: MangaStatus.ONGOING, // Default to ongoing since we don't have this info
+    status: mangaRef.status ?? MangaStatus.ONGOING, // Older responses omit status
     views: 0,
     views_week: undefined,
     views_day: undefined,
@@ -38,13 +54,87 @@ function transformMangaReferenceToMangaListItem(
   };
 }
 
+const SORT_OPTIONS: LibrarySortOption[] = ["recent", "oldest", "title"];
+
 export function HistoryTab() {
   const t = useTranslations("user.library");
-  const [page, setPage] = useState(1);
   const perPage = 20;
 
-  const { data, isLoading, error } = useHistory({ page, per_page: perPage });
+  const {
+    page,
+    setPage,
+    options,
+    setOptions,
+    isCustomView,
+    isInfinite,
+    isWholeList,
+    isSelecting,
+    setIsSelecting,
+    selectedIds,
+    setSelectedIds,
+    toggleSelected,
+  } = useLibraryListControls();
+
+  const pagedQuery = useHistory({
+    page,
+    per_page: perPage,
+    enabled: !isWholeList,
+  });
+  const allQuery = useAllHistory(isWholeList);
   const removeMutation = useRemoveFromHistory();
+  const bulkRemoveMutation = useBulkRemoveFromHistory();
+
+  const { pendingIds, remove } = useUndoableRemoval({
+    commit: (ids) =>
+      bulkRemoveMutation.mutate(ids, {
+        onSuccess: ({ failed }) => {
+          if (failed.length > 0) {
+            toast.error(t("bulk.removeFailed", { count: failed.length }));
+          }
+        },
+      }),
+  });
+
+  // Sorted/filtered views page through the whole list client-side, infinite
+  // scroll shows it as a single page
+  const data = useMemo(() => {
+    const isVisible = (item: { manga: { id: number } }) =>
+      !pendingIds.has(item.manga.id);
+
+    if (!isWholeList) {
+      return (
+        pagedQuery.data && {
+          ...pagedQuery.data,
+          items: pagedQuery.data.items.filter(isVisible),
+        }
+      );
+    }
+    if (!allQuery.data) return undefined;
+
+    const items = applyLibraryOptions(
+      allQuery.data.filter(isVisible),
+      options,
+      {
+        manga: (item) => item.manga,
+        lastReadAt: (item) => Date.parse(item.last_read_at),
+      }
+    );
+    return paginateItems(
+      items,
+      page,
+      isInfinite ? Math.max(items.length, 1) : perPage
+    );
+  }, [
+    isInfinite,
+    isWholeList,
+    pagedQuery.data,
+    allQuery.data,
+    pendingIds,
+    options,
+    page,
+  ]);
+
+  const { isLoading, error } = isWholeList ? allQuery : pagedQuery;
 
   const handleRemove = async (mangaId: number, mangaName: string) => {
     try {
@@ -57,11 +147,20 @@ export function HistoryTab() {
     }
   };
 
-  if (isLoading) {
+  const handleBulkRemove = () => {
+    remove(
+      [...selectedIds],
+      t("bulk.removedFromHistory", { count: selectedIds.size })
+    );
+    setIsSelecting(false);
+  };
+
+  // First load of the default view - nothing to filter yet
+  if (!isCustomView && isLoading) {
     return <TabContentSkeleton showStats gridCount={perPage} />;
   }
 
-  if (error) {
+  if (!isCustomView && error) {
     return (
       <div className="text-center py-12 text-destructive">
         {t("errors.loadFailed")}
@@ -69,7 +168,7 @@ export function HistoryTab() {
     );
   }
 
-  if (!data || data.items.length === 0) {
+  if (!isCustomView && data?.pagination.total === 0) {
     return (
       <EmptyState
         variant="history"
@@ -83,37 +182,80 @@ export function HistoryTab() {
 
   return (
     <div className="space-y-6">
-      {/* Stats */}
-      <div className="text-sm text-muted-foreground">
-        {t("stats.totalHistory", { count: data.pagination.total })}
-      </div>
+      <LibraryToolbar
+        options={options}
+        onOptionsChange={setOptions}
+        sortOptions={SORT_OPTIONS}
+        isSelecting={isSelecting}
+        onSelectingChange={setIsSelecting}
+      >
+        <ClearHistoryDialog />
+      </LibraryToolbar>
+
+      {isSelecting && (
+        <BulkActionBar
+          pageIds={data?.items.map((item) => item.manga.id) ?? []}
+          selectedIds={selectedIds}
+          onSelectedChange={setSelectedIds}
+          onRemove={handleBulkRemove}
+          onCancel={() => setIsSelecting(false)}
+          removeLabel={t("bulk.removeFromHistory")}
+        />
+      )}
+
+      {isLoading ? (
+        <TabContentSkeleton showStats gridCount={perPage} />
+      ) : error ? (
+        <div className="text-center py-12 text-destructive">
+          {t("errors.loadFailed")}
+        </div>
+      ) : !data || data.items.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          {t("toolbar.noMatches")}
+        </div>
+      ) : (
+        <>
+          {/* Stats */}
+          <div className="text-sm text-muted-foreground">
+            {t("stats.totalHistory", { count: data.pagination.total })}
+          </div>
 
-      {/* Grid */}
-      <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-        {data.items.map((item, index) => (
-          <LibraryMangaCard
-            key={item.manga.id}
-            manga={transformMangaReferenceToMangaListItem(
-              item.manga,
-              item.last_read_at
+          {/* Grid */}
+          <LibraryGrid
+            items={data.items}
+            getKey={(item) => item.manga.id}
+            isInfinite={isInfinite}
+            scrollKey="library:history"
+            renderItem={(item, index) => (
+              <LibraryMangaCard
+                manga={transformMangaReferenceToMangaListItem(
+                  item.manga,
+                  item.last_read_at
+                )}
+                index={index}
+                lastReadChapter={item.last_read_chapter}
+                lastReadAt={item.last_read_at}
+                showRemove
+                onRemove={() => handleRemove(item.manga.id, item.manga.name)}
+                isRemoving={removeMutation.isPending}
+                selectable={isSelecting}
+                selected={selectedIds.has(item.manga.id)}
+                onSelectedChange={(selected) =>
+                  toggleSelected(item.manga.id, selected)
+                }
+              />
             )}
-            index={index}
-            lastReadChapter={item.last_read_chapter}
-            lastReadAt={item.last_read_at}
-            showRemove
-            onRemove={() => handleRemove(item.manga.id, item.manga.name)}
-            isRemoving={removeMutation.isPending}
           />
-        ))}
-      </div>
 
-      {/* Pagination */}
-      {data.pagination.last_page > 1 && (
-        <LibraryPagination
-          currentPage={page}
-          totalPages={data.pagination.last_page}
-          onPageChange={setPage}
-        />
+          {/* Pagination */}
+          {!isInfinite && data.pagination.last_page > 1 && (
+            <LibraryPagination
+              currentPage={data.pagination.current_page}
+              totalPages={data.pagination.last_page}
+              onPageChange={setPage}
+            />
+          )}
+        </>
       )}
     </div>
   );
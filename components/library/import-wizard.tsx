@@ -0,0 +1,335 @@
+"use client";
+
+/**
+ * Import Wizard
+ * Upload a backup (this site's JSON, MAL XML, Tachiyomi JSON), match titles
+ * against the catalog, review the matches, then bulk-add them to bookmarks
+ */
+
+import { useRef, useState, type ChangeEvent } from "react";
+import { useTranslations } from "next-intl";
+import Image from "next/image";
+import { FileUp } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useImportFavorites,
+  useMatchImportEntries,
+  type ImportResult,
+} from "@/lib/hooks/use-library-transfer";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { BackupParseError, parseBackup } from "@/lib/backup/formats";
+import type { ImportMatch } from "@/lib/backup/matching";
+import { isUnoptimizedImage } from "@/lib/utils/image-placeholder";
+import { LIBRARY_TRANSFER } from "@/lib/constants";
+
+type WizardStep = "select" | "matching" | "review" | "done";
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportWizard({ open, onOpenChange }: ImportWizardProps) {
+  const t = useTranslations("user.library.transfer");
+  const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
+
+  const matchEntries = useMatchImportEntries();
+  const importFavorites = useImportFavorites();
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [step, setStep] = useState<WizardStep>("select");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [matches, setMatches] = useState<ImportMatch[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  // Reset when closed, cancelling any matching still running
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      abortRef.current?.abort();
+      setStep("select");
+      setFileError(null);
+      setMatches([]);
+      setSelected(new Set());
+      setResult(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    let entries;
+    try {
+      entries = parseBackup(await file.text()).entries;
+    } catch (error) {
+      const kind = error instanceof BackupParseError ? error.kind : "invalid";
+      setFileError(t(`fileErrors.${kind}`));
+      return;
+    }
+
+    if (entries.length > LIBRARY_TRANSFER.MAX_IMPORT_ENTRIES) {
+      toast.warning(
+        t("truncated", { count: LIBRARY_TRANSFER.MAX_IMPORT_ENTRIES })
+      );
+      entries = entries.slice(0, LIBRARY_TRANSFER.MAX_IMPORT_ENTRIES);
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFileError(null);
+    setProgress({ done: 0, total: entries.length });
+    setStep("matching");
+
+    try {
+      const found = await matchEntries.mutateAsync({
+        entries,
+        signal: controller.signal,
+        onProgress: (done) => setProgress((current) => ({ ...current, done })),
+      });
+      setMatches(found);
+      // Only exact matches are picked by default - partial ones need a look
+      setSelected(
+        new Set(
+          found.flatMap((match, index) =>
+            match.confidence === "exact" ? [index] : []
+          )
+        )
+      );
+      setStep("review");
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      toast.error(getErrorMessage(error));
+      setStep("select");
+    }
+  };
+
+  const toggleSelected = (index: number, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(index);
+      } else {
+        next.delete(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await importFavorites.mutateAsync(
+        matches.filter((_, index) => selected.has(index))
+      );
+      setResult(imported);
+      setStep("done");
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const matchedCount = matches.filter((match) => match.manga).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("importTitle")}</DialogTitle>
+          <DialogDescription>{t(`steps.${step}`)}</DialogDescription>
+        </DialogHeader>
+
+        {step === "select" && (
+          <div className="space-y-3">
+            <label
+              htmlFor="library-import-file"
+              className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed border-muted-foreground/30 p-8 text-center transition-colors hover:border-primary/50"
+            >
+              <FileUp className="h-8 w-8 text-muted-foreground" />
+              <span className="font-medium">{t("chooseFile")}</span>
+              <span className="text-sm text-muted-foreground">
+                {t("supportedFormats")}
+              </span>
+            </label>
+            <input
+              id="library-import-file"
+              type="file"
+              accept=".json,.xml,application/json,application/xml,text/xml"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            {fileError && (
+              <p className="text-sm text-destructive">{fileError}</p>
+            )}
+          </div>
+        )}
+
+        {step === "matching" && (
+          <div className="space-y-2 py-4">
+            <div className="h-2 overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{
+                  width: `${(progress.done / Math.max(1, progress.total)) * 100}%`,
+                }}
+              />
+            </div>
+            <p className="text-center text-sm text-muted-foreground">
+              {t("matchingProgress", progress)}
+            </p>
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {t("reviewSummary", {
+                matched: matchedCount,
+                unmatched: matches.length - matchedCount,
+              })}
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-muted text-left">
+                  <tr>
+                    <th className="w-10 p-2" />
+                    <th className="p-2 font-medium">{t("columns.source")}</th>
+                    <th className="p-2 font-medium">{t("columns.match")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map((match, index) => (
+                    <ImportMatchRow
+                      key={index}
+                      match={match}
+                      checked={selected.has(index)}
+                      onCheckedChange={(checked) =>
+                        toggleSelected(index, checked)
+                      }
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && result && (
+          <div className="space-y-3">
+            <p>{t("importedCount", { count: result.added })}</p>
+            {result.failed.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm text-destructive">
+                  {t("failedCount", { count: result.failed.length })}
+                </p>
+                <ul className="max-h-40 list-disc overflow-y-auto pl-5 text-sm text-muted-foreground">
+                  {result.failed.map((match, index) => (
+                    <li key={index}>{match.entry.title}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "review" ? (
+            <>
+              <Button variant="outline" onClick={() => setStep("select")}>
+                {t("back")}
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={selected.size === 0 || importFavorites.isPending}
+              >
+                {t("addSelected", { count: selected.size })}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              {step === "done" ? t("close") : tCommon("cancel")}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ImportMatchRowProps {
+  match: ImportMatch;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}
+
+function ImportMatchRow({
+  match,
+  checked,
+  onCheckedChange,
+}: ImportMatchRowProps) {
+  const t = useTranslations("user.library.transfer");
+  const { entry, manga, confidence } = match;
+
+  return (
+    <tr className="border-t align-top">
+      <td className="p-2">
+        <Checkbox
+          checked={checked}
+          onCheckedChange={(value) => onCheckedChange(value === true)}
+          disabled={!manga}
+          aria-label={entry.title}
+        />
+      </td>
+      <td className="p-2">
+        <p className="line-clamp-2">{entry.title}</p>
+        {entry.chaptersRead !== undefined && (
+          <p className="text-xs text-muted-foreground">
+            {t("chaptersRead", { count: entry.chaptersRead })}
+          </p>
+        )}
+      </td>
+      <td className="p-2">
+        {manga ? (
+          <div className="flex items-start gap-2">
+            <div className="relative h-12 w-9 shrink-0 overflow-hidden rounded bg-muted">
+              <Image
+                src={manga.cover_full_url}
+                alt={manga.name}
+                fill
+                sizes="36px"
+                className="object-cover"
+                unoptimized={isUnoptimizedImage(manga.cover_full_url)}
+              />
+            </div>
+            <div className="min-w-0 space-y-1">
+              <p className="line-clamp-2">{manga.name}</p>
+              <Badge
+                variant={confidence === "exact" ? "secondary" : "outline"}
+                className="text-[10px]"
+              >
+                {t(`confidence.${confidence}`)}
+              </Badge>
+            </div>
+          </div>
+        ) : (
+          <span className="text-muted-foreground">{t("noMatch")}</span>
+        )}
+      </td>
+    </tr>
+  );
+}
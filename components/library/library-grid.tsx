@@ -0,0 +1,59 @@
+"use client";
+
+/**
+ * Library Grid
+ * Card grid of the bookmarks and history tabs - a plain grid for one page,
+ * or a virtualized one when the whole list scrolls infinitely
+ */
+
+import { Fragment } from "react";
+import { VirtualGrid } from "@/components/manga/virtual-grid";
+
+const GRID_COLUMNS = {
+  default: 2,
+  sm: 3,
+  md: 4,
+  lg: 5,
+};
+
+// Cover, title and chapter line of a card at 5 columns, plus the row gap
+const ESTIMATED_ROW_HEIGHT = 330;
+
+interface LibraryGridProps<T> {
+  items: T[];
+  getKey: (item: T) => number;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Virtualize instead of rendering every item */
+  isInfinite: boolean;
+  /** Restores the infinite scroll position on back navigation */
+  scrollKey: string;
+}
+
+export function LibraryGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  isInfinite,
+  scrollKey,
+}: LibraryGridProps<T>) {
+  if (isInfinite) {
+    return (
+      <VirtualGrid
+        items={items}
+        getKey={getKey}
+        renderItem={renderItem}
+        columns={GRID_COLUMNS}
+        estimateRowHeight={ESTIMATED_ROW_HEIGHT}
+        scrollKey={scrollKey}
+      />
+    );
+  }
+
+  return (
+    <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+      {items.map((item, index) => (
+        <Fragment key={getKey(item)}>{renderItem(item, index)}</Fragment>
+      ))}
+    </div>
+  );
+}
@@ -7,24 +7,35 @@ import Link from "next/link";
 import { X, Play } from "lucide-react";
 
 import type { MangaListItem } from "@/types/manga";
-import type { ChapterListItem } from "@/types/chapter";
+import type { ChapterListItem, MangaReference } from "@/types/chapter";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { cn } from "@/lib/utils";
 import { isUnoptimizedImage } from "@/lib/utils/image-placeholder";
 
 export interface LibraryMangaCardProps {
-  manga: MangaListItem;
+  /** Shelf entries only carry a MangaReference, so list extras are optional */
+  manga: MangaReference &
+    Partial<Pick<MangaListItem, "is_hot" | "latest_chapter">>;
   /** Last read chapter info */
   lastReadChapter?: ChapterListItem;
   /** Last read timestamp */
   lastReadAt?: string;
+  /** 0-based page to resume the last read chapter at */
+  resumePageIndex?: number;
+  /** New chapters since the last read one */
+  unreadCount?: number;
   /** Show remove button */
   showRemove?: boolean;
   /** Remove handler */
   onRemove?: () => void;
   /** Is remove action pending */
   isRemoving?: boolean;
+  /** Selection mode - shows a checkbox instead of the remove button */
+  selectable?: boolean;
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
   /** Card index for image priority loading (first N cards get priority) */
   index?: number;
   /** Custom className */
@@ -35,9 +46,14 @@ export const LibraryMangaCard = memo(function LibraryMangaCard({
   manga,
   lastReadChapter,
   lastReadAt,
+  resumePageIndex,
+  unreadCount = 0,
   showRemove = false,
   onRemove,
   isRemoving = false,
+  selectable = false,
+  selected = false,
+  onSelectedChange,
   index,
   className,
 }: LibraryMangaCardProps) {
@@ -46,11 +62,19 @@ export const LibraryMangaCard = memo(function LibraryMangaCard({
 
   // Build continue reading URL
   const continueUrl = lastReadChapter
-    ? `/manga/${manga.slug}/${lastReadChapter.slug}`
+    ? `/manga/${manga.slug}/${lastReadChapter.slug}${
+        resumePageIndex ? `?page=${resumePageIndex + 1}` : ""
+      }`
     : `/manga/${manga.slug}`;
 
   return (
-    <div className={cn("group relative flex flex-col space-y-1.5", className)}>
+    <div
+      className={cn(
+        "group relative flex flex-col space-y-1.5",
+        selected && "rounded-lg ring-2 ring-primary ring-offset-2",
+        className
+      )}
+    >
       {/* Cover Image Container */}
       <Link
         href={continueUrl}
@@ -78,6 +102,15 @@ export const LibraryMangaCard = memo(function LibraryMangaCard({
           </div>
         )}
 
+        {/* Unread Chapters Badge */}
+        {unreadCount > 0 && (
+          <div className="absolute bottom-2 left-2 z-10">
+            <Badge className="bg-primary text-primary-foreground border-0 text-xs">
+              {t("unread", { count: unreadCount })}
+            </Badge>
+          </div>
+        )}
+
         {/* Continue Reading Overlay (on hover) */}
         <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
           <div className="flex items-center gap-2 text-white text-sm font-medium">
@@ -87,8 +120,29 @@ export const LibraryMangaCard = memo(function LibraryMangaCard({
         </div>
       </Link>
 
+      {/* Selection Checkbox (absolute positioned) */}
+      {selectable && (
+        // Covers the links so a click anywhere on the card toggles it
+        <button
+          type="button"
+          tabIndex={-1}
+          aria-hidden
+          className="absolute inset-0 z-10 cursor-pointer"
+          onClick={() => onSelectedChange?.(!selected)}
+        />
+      )}
+      {selectable && (
+        <div className="absolute top-1.5 left-1.5 z-20 rounded bg-background/90 p-1">
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectedChange?.(checked === true)}
+            aria-label={manga.name}
+          />
+        </div>
+      )}
+
       {/* Remove Button (absolute positioned) */}
-      {showRemove && onRemove && (
+      {showRemove && onRemove && !selectable && (
         <Button
           variant="ghost"
           size="icon"
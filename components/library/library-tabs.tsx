@@ -7,21 +7,33 @@ import { useLibraryPrefetch } from "@/lib/hooks/use-library";
 import { ContinueReadingSection } from "./continue-reading-section";
 import { BookmarksTab } from "./bookmarks-tab";
 import { HistoryTab } from "./history-tab";
-import { BookOpen, Bookmark, History } from "lucide-react";
+import { UpdatesTab } from "./updates-tab";
+import { useLibraryUpdates } from "@/lib/hooks/use-library-updates";
+import { Badge } from "@/components/ui/badge";
+import { BookOpen, Bookmark, History, Sparkles } from "lucide-react";
 
 interface LibraryTabsProps {
   activeTab: string;
   onTabChange: (value: string) => void;
+  /** Shelf filter for the bookmarks tab, null for all bookmarks */
+  activeShelf: string | null;
+  onShelfChange: (shelfId: string | null) => void;
 }
 
 // Valid tab values for type safety
-const TAB_VALUES = ["continue", "bookmarks", "history"] as const;
+const TAB_VALUES = ["continue", "updates", "bookmarks", "history"] as const;
 type TabValue = (typeof TAB_VALUES)[number];
 
-export function LibraryTabs({ activeTab, onTabChange }: LibraryTabsProps) {
+export function LibraryTabs({
+  activeTab,
+  onTabChange,
+  activeShelf,
+  onShelfChange,
+}: LibraryTabsProps) {
   const t = useTranslations("user.library.tabs");
   const { prefetchFavorites, prefetchHistory, prefetchContinueReading } =
     useLibraryPrefetch();
+  const { totalUnread } = useLibraryUpdates();
 
   // Validate tab value - default to "continue" if invalid
   const validTab: TabValue = TAB_VALUES.includes(activeTab as TabValue)
@@ -42,7 +54,7 @@ export function LibraryTabs({ activeTab, onTabChange }: LibraryTabsProps) {
 
   return (
     <Tabs value={validTab} onValueChange={onTabChange}>
-      <TabsList className="grid w-full grid-cols-3 h-auto p-1">
+      <TabsList className="grid w-full grid-cols-4 h-auto p-1">
         <TabsTrigger
           value="continue"
           className="h-10 gap-2"
@@ -53,6 +65,17 @@ export function LibraryTabs({ activeTab, onTabChange }: LibraryTabsProps) {
           <span className="sm:hidden">{t("continueShort")}</span>
         </TabsTrigger>
 
+        <TabsTrigger value="updates" className="h-10 gap-2">
+          <Sparkles className="h-4 w-4" />
+          <span className="hidden sm:inline">{t("updates")}</span>
+          <span className="sm:hidden">{t("updatesShort")}</span>
+          {totalUnread > 0 && (
+            <Badge className="h-5 min-w-5 px-1.5 text-[10px]">
+              {totalUnread > 99 ? "99+" : totalUnread}
+            </Badge>
+          )}
+        </TabsTrigger>
+
         <TabsTrigger
           value="bookmarks"
           className="h-10 gap-2"
@@ -79,8 +102,15 @@ export function LibraryTabs({ activeTab, onTabChange }: LibraryTabsProps) {
           <ContinueReadingSection />
         </TabsContent>
 
+        <TabsContent value="updates" className="mt-0">
+          <UpdatesTab />
+        </TabsContent>
+
         <TabsContent value="bookmarks" className="mt-0">
-          <BookmarksTab />
+          <BookmarksTab
+            activeShelf={activeShelf}
+            onShelfChange={onShelfChange}
+          />
         </TabsContent>
 
         <TabsContent value="history" className="mt-0">
@@ -0,0 +1,107 @@
+"use client";
+
+/**
+ * Library Toolbar
+ * Title search, status filter and sort for the bookmarks and history tabs,
+ * plus the list mode toggle and the button that switches the grid into
+ * selection mode
+ */
+
+import type { ReactNode } from "react";
+import { useTranslations } from "next-intl";
+import { ListChecks, Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatusFilter } from "@/components/browse/status-filter";
+import { ListModeToggle } from "@/components/browse/list-mode-toggle";
+import type {
+  LibraryListOptions,
+  LibrarySortOption,
+} from "@/lib/utils/library-filters";
+
+interface LibraryToolbarProps {
+  options: LibraryListOptions;
+  onOptionsChange: (options: LibraryListOptions) => void;
+  sortOptions: LibrarySortOption[];
+  isSelecting: boolean;
+  onSelectingChange: (selecting: boolean) => void;
+  /** Extra actions, e.g. clear history */
+  children?: ReactNode;
+}
+
+export function LibraryToolbar({
+  options,
+  onOptionsChange,
+  sortOptions,
+  isSelecting,
+  onSelectingChange,
+  children,
+}: LibraryToolbarProps) {
+  const t = useTranslations("user.library.toolbar");
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative min-w-48 flex-1">
+        <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          value={options.query}
+          onChange={(event) =>
+            onOptionsChange({ ...options, query: event.target.value })
+          }
+          placeholder={t("searchPlaceholder")}
+          aria-label={t("searchPlaceholder")}
+          className="h-9 pl-8"
+        />
+      </div>
+
+      <StatusFilter
+        value={options.status}
+        onChange={(status) => onOptionsChange({ ...options, status })}
+        className="w-36"
+        hideLabel
+      />
+
+      <Select
+        value={options.sort}
+        onValueChange={(sort) =>
+          onOptionsChange({ ...options, sort: sort as LibrarySortOption })
+        }
+      >
+        <SelectTrigger className="w-40" aria-label={t("sortLabel")}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sortOptions.map((sort) => (
+            <SelectItem key={sort} value={sort}>
+              {t(`sort.${sort}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <ListModeToggle />
+
+      <Button
+        variant={isSelecting ? "secondary" : "outline"}
+        size="sm"
+        className="h-9 gap-2"
+        onClick={() => onSelectingChange(!isSelecting)}
+        aria-pressed={isSelecting}
+      >
+        <ListChecks className="h-4 w-4" />
+        {t("select")}
+      </Button>
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * Library Transfer Menu
+ * Export the library in one of the backup formats, or open the import wizard
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { ArrowDownUp, Download, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLibraryExport } from "@/lib/hooks/use-library-transfer";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import type { BackupFormat } from "@/lib/backup/formats";
+import { ImportWizard } from "./import-wizard";
+
+const EXPORT_FORMATS: BackupFormat[] = ["json", "mal", "tachiyomi"];
+
+export function LibraryTransferMenu() {
+  const t = useTranslations("user.library.transfer");
+  const getErrorMessage = useApiErrorMessage();
+  const exportLibrary = useLibraryExport();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  const handleExport = (format: BackupFormat) => {
+    exportLibrary.mutate(format, {
+      onSuccess: (counts) => toast.success(t("exported", counts)),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={exportLibrary.isPending}
+          >
+            <ArrowDownUp className="h-4 w-4" />
+            {t("menu")}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>{t("export")}</DropdownMenuLabel>
+          {EXPORT_FORMATS.map((format) => (
+            <DropdownMenuItem
+              key={format}
+              onSelect={() => handleExport(format)}
+            >
+              <Download className="h-4 w-4" />
+              {t(`formats.${format}`)}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4" />
+            {t("import")}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ImportWizard open={isImportOpen} onOpenChange={setIsImportOpen} />
+    </>
+  );
+}
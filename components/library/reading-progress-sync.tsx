@@ -0,0 +1,12 @@
+"use client";
+
+import { useReadingProgressSync } from "@/lib/hooks/use-reading-progress-sync";
+
+/**
+ * Keeps reading progress on this device in sync with server history
+ * Rendered once in the root layout
+ */
+export function ReadingProgressSync() {
+  useReadingProgressSync();
+  return null;
+}
@@ -0,0 +1,182 @@
+"use client";
+
+/**
+ * Shelf Filter Bar
+ * Chips for filtering the bookmarks tab by shelf, plus custom shelf
+ * management. Chips are drop targets for cards dragged out of a ShelfGrid.
+ */
+
+import { useState, type DragEvent } from "react";
+import { useTranslations } from "next-intl";
+import { MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  useDeleteShelf,
+  useMoveShelfManga,
+  useShelfLabel,
+  useShelves,
+} from "@/lib/hooks/use-shelves";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { cn } from "@/lib/utils";
+import type { Shelf } from "@/types/user";
+import { ShelfNameDialog } from "./shelf-name-dialog";
+import { hasShelfDrag, readShelfDrag } from "./shelf-grid";
+
+interface ShelfFilterBarProps {
+  /** Selected shelf id, null for all bookmarks */
+  activeShelf: string | null;
+  onShelfChange: (shelfId: string | null) => void;
+}
+
+export function ShelfFilterBar({
+  activeShelf,
+  onShelfChange,
+}: ShelfFilterBarProps) {
+  const t = useTranslations("user.library.shelves");
+  const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
+  const getShelfLabel = useShelfLabel();
+
+  const { data: shelves = [] } = useShelves();
+  const deleteShelf = useDeleteShelf();
+  const moveManga = useMoveShelfManga();
+
+  const [dialogShelf, setDialogShelf] = useState<Shelf | undefined>();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const openDialog = (shelf?: Shelf) => {
+    setDialogShelf(shelf);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (shelf: Shelf) => {
+    deleteShelf.mutate(shelf.id, {
+      onSuccess: () => {
+        toast.success(t("deleted"), { description: shelf.name });
+        if (activeShelf === shelf.id) onShelfChange(null);
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    });
+  };
+
+  const handleDragOver = (event: DragEvent, shelfId: string) => {
+    if (!hasShelfDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setDropTarget(shelfId);
+  };
+
+  const handleDrop = (event: DragEvent, shelf: Shelf) => {
+    const data = readShelfDrag(event);
+    setDropTarget(null);
+    if (!data || data.shelfId === shelf.id) return;
+    event.preventDefault();
+
+    moveManga.mutate(
+      { fromId: data.shelfId, toId: shelf.id, mangaId: data.mangaId },
+      {
+        onSuccess: () =>
+          toast.success(t("movedTo", { shelf: getShelfLabel(shelf) })),
+        onError: (error) => toast.error(getErrorMessage(error)),
+      }
+    );
+  };
+
+  const activeCustomShelf = shelves.find(
+    (shelf) => shelf.id === activeShelf && !shelf.system
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button
+        size="sm"
+        variant={activeShelf === null ? "default" : "outline"}
+        className="h-8 rounded-full"
+        onClick={() => onShelfChange(null)}
+      >
+        {t("all")}
+      </Button>
+
+      {shelves.map((shelf) => (
+        <Button
+          key={shelf.id}
+          size="sm"
+          variant={activeShelf === shelf.id ? "default" : "outline"}
+          className={cn(
+            "h-8 max-w-48 gap-1.5 rounded-full",
+            dropTarget === shelf.id && "ring-2 ring-primary ring-offset-2"
+          )}
+          onClick={() => onShelfChange(shelf.id)}
+          onDragOver={(event) => handleDragOver(event, shelf.id)}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(event) => handleDrop(event, shelf)}
+        >
+          <span className="truncate">{getShelfLabel(shelf)}</span>
+          {shelf.manga_count > 0 && (
+            <Badge
+              variant="secondary"
+              className="h-5 min-w-5 px-1.5 text-[10px]"
+            >
+              {shelf.manga_count}
+            </Badge>
+          )}
+        </Button>
+      ))}
+
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-8 gap-1 rounded-full"
+        onClick={() => openDialog()}
+      >
+        <Plus className="h-4 w-4" />
+        {t("create")}
+      </Button>
+
+      {activeCustomShelf && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 rounded-full"
+              aria-label={t("manage")}
+            >
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => openDialog(activeCustomShelf)}>
+              <Pencil className="h-4 w-4" />
+              {t("rename")}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              variant="destructive"
+              onSelect={() => handleDelete(activeCustomShelf)}
+            >
+              <Trash2 className="h-4 w-4" />
+              {tCommon("delete")}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <ShelfNameDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        shelf={dialogShelf}
+        onSaved={(shelf) => onShelfChange(shelf.id)}
+      />
+    </div>
+  );
+}
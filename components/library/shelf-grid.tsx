@@ -0,0 +1,176 @@
+"use client";
+
+/**
+ * Shelf Grid
+ * Manga on one shelf, in the user's order. Cards can be dragged to reorder
+ * the shelf, or dropped on a shelf chip (ShelfFilterBar) to move them.
+ */
+
+import { useState, type DragEvent } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+
+import {
+  useMoveShelfManga,
+  useShelfEntries,
+  useToggleShelfManga,
+} from "@/lib/hooks/use-shelves";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { cn } from "@/lib/utils";
+import { LibraryMangaCard } from "./library-manga-card";
+import { EmptyState } from "./empty-state";
+import { TabContentSkeleton } from "./library-skeleton";
+
+/** DataTransfer type for dragged shelf entries */
+const SHELF_DRAG_TYPE = "application/x-shelf-entry";
+
+interface ShelfDragData {
+  shelfId: string;
+  mangaId: number;
+}
+
+export function hasShelfDrag(event: DragEvent) {
+  return event.dataTransfer.types.includes(SHELF_DRAG_TYPE);
+}
+
+export function readShelfDrag(event: DragEvent): ShelfDragData | null {
+  try {
+    return JSON.parse(event.dataTransfer.getData(SHELF_DRAG_TYPE));
+  } catch {
+    return null;
+  }
+}
+
+interface ShelfGridProps {
+  shelfId: string;
+  unreadCounts: Map<number, number>;
+}
+
+export function ShelfGrid({ shelfId, unreadCounts }: ShelfGridProps) {
+  const t = useTranslations("user.library");
+  const getErrorMessage = useApiErrorMessage();
+
+  const { data: entries, isLoading, error } = useShelfEntries(shelfId);
+  const moveManga = useMoveShelfManga();
+  const toggleShelf = useToggleShelfManga();
+
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const handleDragStart = (event: DragEvent, mangaId: number) => {
+    const data: ShelfDragData = { shelfId, mangaId };
+    event.dataTransfer.setData(SHELF_DRAG_TYPE, JSON.stringify(data));
+    event.dataTransfer.effectAllowed = "move";
+    setDraggingId(mangaId);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setOverIndex(null);
+  };
+
+  const handleDragOver = (event: DragEvent, index: number) => {
+    if (!hasShelfDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setOverIndex(index);
+  };
+
+  const handleDrop = (event: DragEvent, index: number) => {
+    const data = readShelfDrag(event);
+    setOverIndex(null);
+    if (!data) return;
+    event.preventDefault();
+
+    moveManga.mutate(
+      {
+        fromId: data.shelfId,
+        toId: shelfId,
+        mangaId: data.mangaId,
+        position: index,
+      },
+      { onError: (err) => toast.error(getErrorMessage(err)) }
+    );
+  };
+
+  const handleRemove = (entryIndex: number) => {
+    const entry = entries?.[entryIndex];
+    if (!entry) return;
+
+    toggleShelf.mutate(
+      { shelfId, manga: entry.manga, add: false },
+      {
+        onSuccess: () =>
+          toast.success(t("shelves.removed"), {
+            description: entry.manga.name,
+          }),
+        onError: (err) => toast.error(getErrorMessage(err)),
+      }
+    );
+  };
+
+  if (isLoading) {
+    return <TabContentSkeleton gridCount={10} />;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12 text-destructive">
+        {t("errors.loadFailed")}
+      </div>
+    );
+  }
+
+  if (!entries || entries.length === 0) {
+    return (
+      <EmptyState
+        variant="bookmarks"
+        title={t("shelves.empty.title")}
+        description={t("shelves.empty.description")}
+        actionLabel={t("emptyStates.bookmarks.action")}
+        actionHref="/manga"
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Stats */}
+      <div className="text-sm text-muted-foreground">
+        {t("shelves.count", { count: entries.length })}
+        <span className="hidden sm:inline"> · {t("shelves.dragHint")}</span>
+      </div>
+
+      {/* Grid */}
+      <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+        {entries.map((entry, index) => (
+          <div
+            key={entry.manga.id}
+            draggable
+            onDragStart={(event) => handleDragStart(event, entry.manga.id)}
+            onDragEnd={handleDragEnd}
+            onDragOver={(event) => handleDragOver(event, index)}
+            onDragLeave={() => setOverIndex(null)}
+            onDrop={(event) => handleDrop(event, index)}
+            className={cn(
+              "rounded-lg transition-opacity cursor-grab active:cursor-grabbing",
+              draggingId === entry.manga.id && "opacity-40",
+              overIndex === index &&
+                draggingId !== entry.manga.id &&
+                "ring-2 ring-primary ring-offset-2 ring-offset-background"
+            )}
+          >
+            <LibraryMangaCard
+              manga={entry.manga}
+              index={index}
+              unreadCount={unreadCounts.get(entry.manga.id)}
+              showRemove
+              onRemove={() => handleRemove(index)}
+              isRemoving={toggleShelf.isPending}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
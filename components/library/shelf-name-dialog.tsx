@@ -0,0 +1,132 @@
+"use client";
+
+/**
+ * Shelf Name Dialog
+ * Creates a custom shelf, or renames one when `shelf` is passed
+ */
+
+import { useEffect } from "react";
+import { useTranslations } from "next-intl";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCreateShelf, useRenameShelf } from "@/lib/hooks/use-shelves";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { applyFieldErrors } from "@/lib/api/errors";
+import {
+  shelfNameSchema,
+  type ShelfNameInput,
+} from "@/lib/validators/user-schemas";
+import type { Shelf } from "@/types/user";
+
+interface ShelfNameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Shelf to rename - omit to create a new one */
+  shelf?: Shelf;
+  onSaved?: (shelf: Shelf) => void;
+}
+
+export function ShelfNameDialog({
+  open,
+  onOpenChange,
+  shelf,
+  onSaved,
+}: ShelfNameDialogProps) {
+  const t = useTranslations("user.library.shelves");
+  const tRoot = useTranslations();
+  const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
+
+  const createShelf = useCreateShelf();
+  const renameShelf = useRenameShelf();
+  const isPending = createShelf.isPending || renameShelf.isPending;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<ShelfNameInput>({
+    resolver: zodResolver(shelfNameSchema),
+    defaultValues: { name: shelf?.name ?? "" },
+  });
+
+  // Start from the current name each time the dialog opens
+  useEffect(() => {
+    if (open) reset({ name: shelf?.name ?? "" });
+  }, [open, shelf, reset]);
+
+  const onSubmit = async ({ name }: ShelfNameInput) => {
+    try {
+      const saved = shelf
+        ? await renameShelf.mutateAsync({ id: shelf.id, name })
+        : await createShelf.mutateAsync(name);
+      toast.success(shelf ? t("renamed") : t("created"));
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error) {
+      if (!applyFieldErrors(error, setError, ["name"])) {
+        toast.error(getErrorMessage(error));
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {shelf ? t("renameTitle") : t("createTitle")}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="shelf-name">{t("name")}</Label>
+            <Input
+              id="shelf-name"
+              {...register("name")}
+              placeholder={t("namePlaceholder")}
+              disabled={isPending}
+              autoFocus
+            />
+            {errors.name?.message && (
+              <p className="text-sm text-destructive">
+                {/* Server messages are already localized, schema ones are keys */}
+                {errors.name.type === "server"
+                  ? errors.name.message
+                  : tRoot(errors.name.message)}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              {tCommon("cancel")}
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {tCommon("save")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { CheckCheck } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  useLibraryUpdates,
+  useMarkAsRead,
+} from "@/lib/hooks/use-library-updates";
+import { LibraryMangaCard } from "./library-manga-card";
+import { EmptyState } from "./empty-state";
+import { TabContentSkeleton } from "./library-skeleton";
+
+export function UpdatesTab() {
+  const t = useTranslations("user.library");
+  const { updates, totalUnread, isLoading, error } = useLibraryUpdates();
+  const { markAsRead, markAllAsRead } = useMarkAsRead();
+
+  const handleMarkAllRead = () => {
+    markAllAsRead(updates);
+    toast.success(t("updates.allMarkedRead"));
+  };
+
+  if (isLoading) {
+    return <TabContentSkeleton showStats gridCount={10} />;
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12 text-destructive">
+        {t("errors.loadFailed")}
+      </div>
+    );
+  }
+
+  if (updates.length === 0) {
+    return (
+      <EmptyState
+        variant="updates"
+        title={t("emptyStates.updates.title")}
+        description={t("emptyStates.updates.description")}
+        actionLabel={t("emptyStates.updates.action")}
+        actionHref="/library?tab=bookmarks"
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Stats & Actions */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-muted-foreground">
+          {t("stats.totalUpdates", {
+            count: totalUnread,
+            manga: updates.length,
+          })}
+        </div>
+        <Button variant="outline" size="sm" onClick={handleMarkAllRead}>
+          <CheckCheck className="mr-2 h-4 w-4" />
+          {t("updates.markAllRead")}
+        </Button>
+      </div>
+
+      {/* Grid - newest chapter first */}
+      <div className="grid gap-4 grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+        {updates.map(({ manga, unreadCount }, index) => (
+          <div key={manga.id} className="space-y-1">
+            <LibraryMangaCard
+              manga={manga}
+              index={index}
+              unreadCount={unreadCount}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-full text-xs text-muted-foreground"
+              onClick={() => markAsRead(manga)}
+            >
+              <CheckCheck className="mr-1 h-3.5 w-3.5" />
+              {t("updates.markRead")}
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
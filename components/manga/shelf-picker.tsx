@@ -1,44 +1,73 @@
 "use client";
 
 /**
- * Bookmark Button Component
- * Allows authenticated users to add/remove manga from their favorites
+ * Shelf Picker Component
+ * Lets authenticated users bookmark a manga and file it on shelves
+ * (Reading, Plan to read, custom...). Putting a manga on a shelf also
+ * bookmarks it, and removing the bookmark takes it off every shelf.
  */
 
+import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useTranslations } from "next-intl";
-import { Bookmark, BookmarkCheck } from "lucide-react";
+import { Bookmark, BookmarkCheck, Plus } from "lucide-react";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ShelfNameDialog } from "@/components/library/shelf-name-dialog";
 import { useAuthStore } from "@/lib/store/authStore";
 import { userFavoritesApi } from "@/lib/api/endpoints/user";
+import {
+  useMangaShelves,
+  useShelfLabel,
+  useShelves,
+  useToggleShelfManga,
+} from "@/lib/hooks/use-shelves";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
 import { cn } from "@/lib/utils";
 import { STALE_TIMES } from "@/lib/constants";
-import type { Manga } from "@/types/manga";
+import type { MangaReference } from "@/types/chapter";
+import type { Shelf } from "@/types/user";
 
-interface BookmarkButtonProps {
-  manga: Pick<Manga, "id" | "name">;
+interface ShelfPickerProps {
+  manga: MangaReference;
   variant?: "default" | "outline" | "ghost";
   size?: "default" | "sm" | "lg" | "icon";
   showText?: boolean;
   className?: string;
 }
 
-export function BookmarkButton({
+export function ShelfPicker({
   manga,
   variant = "outline",
   size = "default",
   showText = true,
   className,
-}: BookmarkButtonProps) {
+}: ShelfPickerProps) {
   const t = useTranslations("manga");
+  const tShelves = useTranslations("user.library.shelves");
   const tCommon = useTranslations("common");
   const tErrors = useTranslations("errors");
   const tNotifications = useTranslations("notifications");
+  const getErrorMessage = useApiErrorMessage();
+  const getShelfLabel = useShelfLabel();
 
   const { isAuthenticated } = useAuthStore();
   const queryClient = useQueryClient();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const { data: shelves = [] } = useShelves();
+  const { data: mangaShelfIds = [] } = useMangaShelves(manga.id);
+  const toggleShelf = useToggleShelfManga();
 
   // Use React Query to manage bookmark status - single source of truth
   const { data: favoriteStatus } = useQuery({
@@ -165,23 +194,45 @@ export function BookmarkButton({
   });
 
   const isLoading = addMutation.isPending || removeMutation.isPending;
+  const isFiled = isBookmarked || mangaShelfIds.length > 0;
 
-  const handleClick = () => {
-    if (!isAuthenticated) {
-      toast.error(tErrors("unauthorized"), {
-        description: t("addToBookmarks"),
-      });
+  const handleBookmarkChange = (checked: boolean) => {
+    if (checked) {
+      addMutation.mutate();
       return;
     }
 
-    if (isBookmarked) {
-      removeMutation.mutate();
-    } else {
+    removeMutation.mutate();
+    // Shelves are subsets of bookmarks
+    mangaShelfIds.forEach((shelfId) =>
+      toggleShelf.mutate({ shelfId, manga, add: false })
+    );
+  };
+
+  const handleShelfChange = (shelf: Shelf, add: boolean) => {
+    toggleShelf.mutate(
+      { shelfId: shelf.id, manga, add },
+      {
+        onSuccess: () => {
+          toast.success(
+            tShelves(add ? "addedTo" : "removedFrom", {
+              shelf: getShelfLabel(shelf),
+            }),
+            { description: manga.name }
+          );
+        },
+        onError: (error) => {
+          toast.error(getErrorMessage(error));
+        },
+      }
+    );
+
+    if (add && !isBookmarked) {
       addMutation.mutate();
     }
   };
 
-  const buttonText = isBookmarked
+  const buttonText = isFiled
     ? showText
       ? t("bookmarked")
       : ""
@@ -189,17 +240,25 @@ export function BookmarkButton({
       ? tCommon("bookmark")
       : "";
 
-  const Icon = isBookmarked ? BookmarkCheck : Bookmark;
+  const Icon = isFiled ? BookmarkCheck : Bookmark;
 
-  return (
+  const button = (
     <Button
-      onClick={handleClick}
+      onClick={
+        isAuthenticated
+          ? undefined
+          : () =>
+              toast.error(tErrors("unauthorized"), {
+                description: t("addToBookmarks"),
+              })
+      }
       variant={variant}
       size={size}
       disabled={isLoading}
+      aria-label={tShelves("picker")}
       className={cn(
         "border-2 transition-all",
-        isBookmarked
+        isFiled
           ? "border-primary/30 hover:border-primary/50 bg-primary/10"
           : "border-muted-foreground/30 hover:border-primary/40",
         className
@@ -209,4 +268,50 @@ export function BookmarkButton({
       {buttonText && <span className="ml-2">{buttonText}</span>}
     </Button>
   );
+
+  if (!isAuthenticated) {
+    return button;
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>{button}</DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuCheckboxItem
+            checked={isBookmarked}
+            onCheckedChange={handleBookmarkChange}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {tCommon("bookmark")}
+          </DropdownMenuCheckboxItem>
+
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>{tShelves("title")}</DropdownMenuLabel>
+          {shelves.map((shelf) => (
+            <DropdownMenuCheckboxItem
+              key={shelf.id}
+              checked={mangaShelfIds.includes(shelf.id)}
+              onCheckedChange={(checked) => handleShelfChange(shelf, checked)}
+              onSelect={(event) => event.preventDefault()}
+            >
+              <span className="truncate">{getShelfLabel(shelf)}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsCreateOpen(true)}>
+            <Plus className="h-4 w-4" />
+            {tShelves("create")}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ShelfNameDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onSaved={(shelf) => handleShelfChange(shelf, true)}
+      />
+    </>
+  );
 }
@@ -0,0 +1,100 @@
+"use client";
+
+/**
+ * VirtualGrid Component
+ * Responsive card grid for infinite scroll lists - only rows near the
+ * viewport are mounted, so thousands of items scroll smoothly
+ */
+
+import { Fragment, useEffect, useRef } from "react";
+
+import { useVirtualGrid, type GridColumns } from "@/hooks/use-virtual-grid";
+import { useScrollRestoration } from "@/hooks/use-scroll-restoration";
+import { VIRTUAL_GRID } from "@/lib/constants";
+
+export interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => React.Key;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Columns per breakpoint, like MangaGrid - must be stable */
+  columns: GridColumns;
+  /** Row height (cards plus gap) until a row is measured */
+  estimateRowHeight: number;
+  /** Restores the scroll position on back navigation when set */
+  scrollKey?: string;
+  /** Called while the last rows are near the viewport */
+  onEndReached?: () => void;
+  className?: string;
+}
+
+/**
+ * VirtualGrid component for long, window-scrolled lists of cards
+ *
+ * @param items - Every loaded item
+ * @param renderItem - Renders one card
+ * @param columns - Column configuration for different breakpoints
+ * @param scrollKey - Identifies the list (with its filters) for scroll
+ *   restoration
+ * @param onEndReached - Load the next page here
+ */
+export function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  columns,
+  estimateRowHeight,
+  scrollKey,
+  onEndReached,
+  className,
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { columnCount, firstRow, lastRow, totalRows, rowHeight, measureRow } =
+    useVirtualGrid({
+      containerRef,
+      itemCount: items.length,
+      columns,
+      estimateRowHeight,
+      cacheKey: scrollKey,
+    });
+
+  useScrollRestoration(scrollKey ?? "", !!scrollKey && items.length > 0);
+
+  const isNearEnd = lastRow >= totalRows - 1 - VIRTUAL_GRID.LOAD_MORE_ROWS;
+  useEffect(() => {
+    if (isNearEnd && items.length > 0) onEndReached?.();
+  }, [isNearEnd, items.length, onEndReached]);
+
+  const rows: number[] = [];
+  for (let row = firstRow; row <= lastRow; row++) rows.push(row);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={{
+        paddingTop: firstRow * rowHeight,
+        paddingBottom: Math.max(0, totalRows - lastRow - 1) * rowHeight,
+      }}
+    >
+      {rows.map((row) => {
+        const start = row * columnCount;
+        return (
+          <div
+            key={row}
+            ref={row === firstRow ? measureRow : undefined}
+            className="grid gap-4 pb-4"
+            style={{
+              gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`,
+            }}
+          >
+            {items.slice(start, start + columnCount).map((item, offset) => (
+              <Fragment key={getKey(item)}>
+                {renderItem(item, start + offset)}
+              </Fragment>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { CheckCircle2, Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  useDownloadChapter,
+  useDownloadedChapters,
+  useRemoveDownloadedChapter,
+} from "@/lib/hooks/use-offline-chapters";
+import { cn } from "@/lib/utils";
+import type { ChapterWithNavigation } from "@/types/chapter";
+
+interface DownloadChapterButtonProps {
+  mangaSlug: string;
+  chapterSlug: string;
+  /** Already loaded chapter (reader) - skips refetching details and images */
+  chapter?: ChapterWithNavigation;
+  className?: string;
+}
+
+/**
+ * Toggle offline download of a chapter
+ * Shows progress while downloading; clicking a downloaded chapter removes it
+ */
+export function DownloadChapterButton({
+  mangaSlug,
+  chapterSlug,
+  chapter,
+  className,
+}: DownloadChapterButtonProps) {
+  const t = useTranslations("offline");
+  const { data: downloaded } = useDownloadedChapters(mangaSlug);
+  const download = useDownloadChapter(mangaSlug);
+  const remove = useRemoveDownloadedChapter();
+
+  const isDownloaded = downloaded?.some((d) => d.chapterSlug === chapterSlug);
+  const isBusy = download.isPending || remove.isPending;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (isDownloaded) {
+      remove.mutate(
+        { mangaSlug, chapterSlug },
+        {
+          onSuccess: () => toast.success(t("removed")),
+          onError: () => toast.error(t("removeFailed")),
+        }
+      );
+      return;
+    }
+
+    download.mutate(chapter ?? chapterSlug, {
+      onSuccess: () => toast.success(t("downloaded")),
+      onError: () => toast.error(t("downloadFailed")),
+    });
+  };
+
+  const label = download.isPending
+    ? t("downloading", {
+        completed: download.progress?.completed ?? 0,
+        total: download.progress?.total ?? 0,
+      })
+    : isDownloaded
+      ? t("removeDownload")
+      : t("download");
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn(className, isDownloaded && "text-primary")}
+            onClick={handleClick}
+            disabled={isBusy}
+            aria-label={label}
+          >
+            {isBusy ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : isDownloaded ? (
+              <CheckCircle2 className="h-4 w-4" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>{label}</TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
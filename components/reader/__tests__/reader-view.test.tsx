@@ -22,7 +22,7 @@ jest.mock('@/lib/api/endpoints/chapter', () => ({
 
 jest.mock('@/lib/api/endpoints/manga', () => ({
   mangaApi: {
-    getChapters: jest.fn(),
+    getAllChapters: jest.fn(),
   },
 }));
 
@@ -101,7 +101,7 @@ describe('ReaderView Navigation', () => {
 
     chapterApi.getDetail.mockResolvedValue(mockChapter);
     chapterApi.getImages.mockResolvedValue({ images: mockChapter.content });
-    mangaApi.getChapters.mockResolvedValue(mockChapterList);
+    mangaApi.getAllChapters.mockResolvedValue(mockChapterList.data);
 
     renderReaderView();
 
@@ -116,7 +116,7 @@ describe('ReaderView Navigation', () => {
 
     chapterApi.getDetail.mockResolvedValue(mockChapter);
     chapterApi.getImages.mockResolvedValue({ images: mockChapter.content });
-    mangaApi.getChapters.mockResolvedValue(mockChapterList);
+    mangaApi.getAllChapters.mockResolvedValue(mockChapterList.data);
 
     renderReaderView();
 
@@ -141,7 +141,7 @@ describe('ReaderView Navigation', () => {
 
     chapterApi.getDetail.mockResolvedValue(mockChapter);
     chapterApi.getImages.mockResolvedValue({ images: mockChapter.content });
-    mangaApi.getChapters.mockResolvedValue(mockChapterList);
+    mangaApi.getAllChapters.mockResolvedValue(mockChapterList.data);
 
     renderReaderView();
 
@@ -169,7 +169,7 @@ describe('ReaderView Navigation', () => {
 
     chapterApi.getDetail.mockResolvedValue(mockChapter);
     chapterApi.getImages.mockResolvedValue({ images: mockChapter.content });
-    mangaApi.getChapters.mockResolvedValue(mockChapterList);
+    mangaApi.getAllChapters.mockResolvedValue(mockChapterList.data);
 
     renderReaderView();
 
@@ -201,7 +201,7 @@ describe('ReaderView Navigation', () => {
 
     chapterApi.getDetail.mockResolvedValue(mockChapter);
     chapterApi.getImages.mockResolvedValue({ images: mockChapter.content });
-    mangaApi.getChapters.mockResolvedValue(mockChapterList);
+    mangaApi.getAllChapters.mockResolvedValue(mockChapterList.data);
 
     renderReaderView();
 
@@ -226,7 +226,7 @@ describe('ReaderView Navigation', () => {
 
     chapterApi.getDetail.mockResolvedValue(mockChapter);
     chapterApi.getImages.mockResolvedValue({ images: mockChapter.content });
-    mangaApi.getChapters.mockResolvedValue(mockChapterList);
+    mangaApi.getAllChapters.mockResolvedValue(mockChapterList.data);
 
     // Mock window.scrollBy
     const scrollBySpy = jest.spyOn(window, 'scrollBy').mockImplementation();
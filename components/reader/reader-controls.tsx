@@ -1,11 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -24,9 +26,13 @@ import {
 } from "lucide-react";
 import Link from "next/link";
 import { useTranslations } from "next-intl";
-import { ChapterNavigation } from "@/types/chapter";
+import { ChapterNavigation, ChapterWithNavigation } from "@/types/chapter";
 import { cn } from "@/lib/utils";
+import { groupChapters } from "@/lib/utils/chapter-groups";
+import type { ReadingDirection, ReadingMode } from "@/lib/store/readerStore";
 import dynamic from "next/dynamic";
+import { DownloadChapterButton } from "@/components/offline/download-chapter-button";
+import { ReportChapterDialog } from "./report-chapter-dialog";
 
 const ReaderSettingsPanel = dynamic(
   () =>
@@ -43,8 +49,11 @@ interface ReaderControlsProps {
   mangaSlug: string;
   mangaName?: string;
   currentChapterSlug: string;
+  /** Sorted by chapter number, lowest first */
   chapterList?: { slug: string; name: string; chapter_number: number }[];
   navigation?: ChapterNavigation;
+  /** Loaded chapter, reused for offline download */
+  chapter?: ChapterWithNavigation;
 
   zoom: number;
   onZoomChange: (zoom: number) => void;
@@ -52,6 +61,10 @@ interface ReaderControlsProps {
   onBackgroundColorChange: (color: string) => void;
   imageSpacing: number;
   onImageSpacingChange: (spacing: number) => void;
+  readingMode: ReadingMode;
+  onReadingModeChange: (mode: ReadingMode) => void;
+  readingDirection: ReadingDirection;
+  onReadingDirectionChange: (direction: ReadingDirection) => void;
   currentChapterNumber?: number;
   showControls: boolean;
   onNavigateChapter: (slug: string) => void;
@@ -63,18 +76,30 @@ export function ReaderControls({
   currentChapterSlug,
   chapterList,
   navigation,
+  chapter,
   zoom,
   onZoomChange,
   backgroundColor,
   onBackgroundColorChange,
   imageSpacing,
   onImageSpacingChange,
+  readingMode,
+  onReadingModeChange,
+  readingDirection,
+  onReadingDirectionChange,
   currentChapterNumber,
   showControls,
   onNavigateChapter,
 }: ReaderControlsProps) {
   const [settingsOpen, setSettingsOpen] = useState(false);
   const t = useTranslations("reader");
+  const tChapter = useTranslations("chapter");
+
+  // Newest first, in the same ranges as the manga page's chapter list
+  const chapterGroups = useMemo(
+    () => chapterList && groupChapters([...chapterList].reverse()),
+    [chapterList]
+  );
 
   return (
     <TooltipProvider>
@@ -107,6 +132,16 @@ export function ReaderControls({
         </div>
 
         <div className="flex items-center gap-2">
+          <DownloadChapterButton
+            mangaSlug={mangaSlug}
+            chapterSlug={currentChapterSlug}
+            chapter={chapter}
+          />
+          <ReportChapterDialog
+            mangaSlug={mangaSlug}
+            chapterSlug={currentChapterSlug}
+            pageCount={chapter?.content?.length}
+          />
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -148,10 +183,17 @@ export function ReaderControls({
               <SelectValue placeholder={t("chapterReader")} />
             </SelectTrigger>
             <SelectContent>
-              {chapterList?.map((chapter) => (
-                <SelectItem key={chapter.slug} value={chapter.slug}>
-                  {t("chapterTitle", { number: chapter.chapter_number })}
-                </SelectItem>
+              {chapterGroups?.map((group) => (
+                <SelectGroup key={group.index}>
+                  <SelectLabel>
+                    {tChapter("range", { start: group.start, end: group.end })}
+                  </SelectLabel>
+                  {group.chapters.map((chapter) => (
+                    <SelectItem key={chapter.slug} value={chapter.slug}>
+                      {t("chapterTitle", { number: chapter.chapter_number })}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
               ))}
               {/* Fallback for current chapter if not in list (e.g. due to pagination) */}
               {chapterList &&
@@ -181,18 +223,22 @@ export function ReaderControls({
             <ArrowRight className="h-4 w-4" />
           </Button>
 
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => window.scrollTo({ top: 0, behavior: "smooth" })}
-              >
-                <ArrowUp className="h-4 w-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>{t("backToTop")}</TooltipContent>
-          </Tooltip>
+          {readingMode === "long-strip" && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    window.scrollTo({ top: 0, behavior: "smooth" })
+                  }
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{t("backToTop")}</TooltipContent>
+            </Tooltip>
+          )}
         </div>
       </div>
 
@@ -206,6 +252,10 @@ export function ReaderControls({
         onBackgroundColorChange={onBackgroundColorChange}
         imageSpacing={imageSpacing}
         onImageSpacingChange={onImageSpacingChange}
+        readingMode={readingMode}
+        onReadingModeChange={onReadingModeChange}
+        readingDirection={readingDirection}
+        onReadingDirectionChange={onReadingDirectionChange}
       />
     </TooltipProvider>
   );
@@ -12,6 +12,8 @@ interface ReaderImageProps {
   /** First few images should load eagerly (above-the-fold) */
   priority?: boolean;
   className?: string;
+  /** Extra classes for the <img> itself (e.g. fit-to-height in paged mode) */
+  imageClassName?: string;
   style?: React.CSSProperties;
   onLoad?: () => void;
 }
@@ -22,6 +24,7 @@ export const ReaderImage = memo(function ReaderImage({
   index,
   priority = false,
   className,
+  imageClassName,
   style,
   onLoad,
 }: ReaderImageProps) {
@@ -90,7 +93,8 @@ export const ReaderImage = memo(function ReaderImage({
           fetchPriority={priority ? "high" : "auto"}
           className={cn(
             "h-auto w-full block transition-opacity duration-300",
-            isLoading ? "opacity-0" : "opacity-100"
+            isLoading ? "opacity-0" : "opacity-100",
+            imageClassName
           )}
           onLoad={handleLoad}
           onError={handleError}
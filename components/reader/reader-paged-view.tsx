@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState, useCallback, useMemo } from "react";
+import { useTranslations } from "next-intl";
+import { ReaderImage } from "./reader-image";
+import type { ReadingDirection } from "@/lib/store/readerStore";
+import { cn } from "@/lib/utils";
+
+interface ReaderPagedViewProps {
+  images: string[];
+  /** "double" shows a two-page spread per step */
+  mode: "single" | "double";
+  direction: ReadingDirection;
+  zoom: number;
+  backgroundColor: string;
+  showControls: boolean;
+  onToggleControls: () => void;
+  /** Called when paging backwards past the first page */
+  onPreviousChapter?: () => void;
+  /** Called when paging forwards past the last page */
+  onNextChapter?: () => void;
+  /** Page index to open on (e.g. resumed reading position) */
+  initialPage?: number;
+  onPageChange?: (pageIndex: number) => void;
+}
+
+/**
+ * Paged reader - one page (or spread) at a time
+ * Tap zones and arrow keys follow the reading direction:
+ * in RTL mode the left side advances, like a printed manga
+ */
+export function ReaderPagedView({
+  images,
+  mode,
+  direction,
+  zoom,
+  backgroundColor,
+  showControls,
+  onToggleControls,
+  onPreviousChapter,
+  onNextChapter,
+  initialPage = 0,
+  onPageChange,
+}: ReaderPagedViewProps) {
+  const t = useTranslations("reader");
+  const [currentPage, setCurrentPage] = useState(() =>
+    Math.min(Math.max(0, initialPage), Math.max(0, images.length - 1))
+  );
+
+  const step = mode === "double" ? 2 : 1;
+  const totalPages = images.length;
+
+  const goForward = useCallback(() => {
+    if (currentPage + step < totalPages) {
+      setCurrentPage(currentPage + step);
+    } else {
+      onNextChapter?.();
+    }
+  }, [currentPage, step, totalPages, onNextChapter]);
+
+  const goBack = useCallback(() => {
+    if (currentPage > 0) {
+      setCurrentPage(Math.max(0, currentPage - step));
+    } else {
+      onPreviousChapter?.();
+    }
+  }, [currentPage, step, onPreviousChapter]);
+
+  const goLeft = direction === "rtl" ? goForward : goBack;
+  const goRight = direction === "rtl" ? goBack : goForward;
+
+  // Arrow keys - ignore while typing (e.g. in the comment form below)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.("input, textarea, [contenteditable='true']")) {
+        return;
+      }
+
+      if (e.key === "ArrowLeft") {
+        goLeft();
+      } else if (e.key === "ArrowRight") {
+        goRight();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [goLeft, goRight]);
+
+  // Keep the page in view and warm up the next spread
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+    onPageChange?.(currentPage);
+
+    images.slice(currentPage + step, currentPage + step * 2).forEach((src) => {
+      const img = new Image();
+      img.src = src;
+    });
+  }, [currentPage, step, images, onPageChange]);
+
+  // Tap zones: left third, right third, middle toggles controls
+  const handleClick = useCallback(
+    (e: React.MouseEvent<HTMLElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      const x = (e.clientX - rect.left) / rect.width;
+
+      if (x < 1 / 3) {
+        goLeft();
+      } else if (x > 2 / 3) {
+        goRight();
+      } else {
+        onToggleControls();
+      }
+    },
+    [goLeft, goRight, onToggleControls]
+  );
+
+  const visiblePages = useMemo(() => {
+    const pages = images
+      .slice(currentPage, currentPage + step)
+      .map((src, offset) => ({ src, index: currentPage + offset }));
+    // Spreads are laid out right-to-left in RTL mode
+    return direction === "rtl" ? pages.reverse() : pages;
+  }, [images, currentPage, step, direction]);
+
+  const lastVisible = Math.min(currentPage + step, totalPages);
+  const pageLabel =
+    lastVisible - currentPage > 1
+      ? `${currentPage + 1}-${lastVisible}`
+      : `${currentPage + 1}`;
+
+  return (
+    <main
+      className="relative z-0 flex min-h-screen cursor-pointer select-none items-center justify-center overflow-hidden"
+      onClick={handleClick}
+      style={{ backgroundColor }}
+    >
+      <div
+        className="flex h-screen w-full items-center justify-center"
+        style={{
+          transform: `scale(${zoom / 100})`,
+          transformOrigin: "center center",
+        }}
+      >
+        {visiblePages.map(({ src, index }, position) => (
+          <ReaderImage
+            key={src}
+            src={src}
+            alt={`Page ${index + 1}`}
+            index={index}
+            priority
+            className={cn(
+              "flex h-full items-center",
+              // Spread halves meet in the middle like an open book
+              step === 1 && "w-full justify-center",
+              step > 1 && "w-1/2",
+              step > 1 && (position === 0 ? "justify-end" : "justify-start")
+            )}
+            imageClassName="h-auto max-h-screen w-auto max-w-full object-contain"
+          />
+        ))}
+      </div>
+
+      {/* Page Indicator */}
+      {totalPages > 0 && (
+        <div
+          className={cn(
+            "pointer-events-none fixed left-1/2 z-40 -translate-x-1/2 rounded-full bg-background/80 px-3 py-1 text-xs font-medium backdrop-blur transition-all duration-300",
+            showControls ? "bottom-20" : "bottom-4"
+          )}
+        >
+          {t("pageIndicator", { current: pageLabel, total: totalPages })}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -7,6 +7,7 @@ import { X } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import type { ReadingDirection, ReadingMode } from "@/lib/store/readerStore";
 
 interface ReaderSettingsPanelProps {
   open: boolean;
@@ -18,8 +19,10 @@ interface ReaderSettingsPanelProps {
   onBackgroundColorChange: (color: string) => void;
   imageSpacing: number;
   onImageSpacingChange: (spacing: number) => void;
-  readingDirection?: "ltr" | "rtl";
-  onReadingDirectionChange?: (direction: "ltr" | "rtl") => void;
+  readingMode?: ReadingMode;
+  onReadingModeChange?: (mode: ReadingMode) => void;
+  readingDirection?: ReadingDirection;
+  onReadingDirectionChange?: (direction: ReadingDirection) => void;
 }
 
 const BACKGROUND_COLORS = [
@@ -30,6 +33,12 @@ const BACKGROUND_COLORS = [
   { value: "#f5f5f5", label: "Light" },
 ];
 
+const READING_MODES = [
+  { value: "long-strip", key: "longStrip" },
+  { value: "single", key: "single" },
+  { value: "double", key: "double" },
+] as const;
+
 export function ReaderSettingsPanel({
   open,
   onOpenChange,
@@ -39,6 +48,8 @@ export function ReaderSettingsPanel({
   onBackgroundColorChange,
   imageSpacing,
   onImageSpacingChange,
+  readingMode = "long-strip",
+  onReadingModeChange,
   readingDirection = "ltr",
   onReadingDirectionChange,
 }: ReaderSettingsPanelProps) {
@@ -78,6 +89,43 @@ export function ReaderSettingsPanel({
 
         {/* Content */}
         <div className="space-y-6 p-6">
+          {/* Reading Mode */}
+          {onReadingModeChange && (
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">
+                {t("readingMode.label")}
+              </Label>
+              <RadioGroup
+                value={readingMode}
+                onValueChange={(value) =>
+                  onReadingModeChange(value as ReadingMode)
+                }
+                className="grid grid-cols-3 gap-2"
+              >
+                {READING_MODES.map((mode) => (
+                  <div key={mode.value}>
+                    <RadioGroupItem
+                      value={mode.value}
+                      id={`mode-${mode.value}`}
+                      className="peer sr-only"
+                    />
+                    <Label
+                      htmlFor={`mode-${mode.value}`}
+                      className="flex h-full flex-col items-center justify-between rounded-md border-2 border-muted bg-popover p-3 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
+                    >
+                      <span className="text-sm font-medium">
+                        {t(`readingMode.${mode.key}`)}
+                      </span>
+                      <span className="text-xs text-muted-foreground text-center mt-1">
+                        {t(`readingMode.${mode.key}Desc`)}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
           {/* Reading Direction */}
           {onReadingDirectionChange && (
             <div className="space-y-3">
@@ -87,7 +135,7 @@ export function ReaderSettingsPanel({
               <RadioGroup
                 value={readingDirection}
                 onValueChange={(value) =>
-                  onReadingDirectionChange(value as "ltr" | "rtl")
+                  onReadingDirectionChange(value as ReadingDirection)
                 }
                 className="grid grid-cols-2 gap-4"
               >
@@ -1,20 +1,27 @@
 "use client";
 
-import { useEffect, useState, useCallback, useMemo } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
 import { chapterApi } from "@/lib/api/endpoints/chapter";
-import { mangaApi } from "@/lib/api/endpoints/manga";
 import { ReaderControls } from "./reader-controls";
 import { ReaderImage } from "./reader-image";
+import { ReaderPagedView } from "./reader-paged-view";
 import { ChapterWithNavigation } from "@/types/chapter";
 import { Loader2 } from "lucide-react";
 import dynamic from "next/dynamic";
 import { CommentsSkeleton } from "@/components/comments/comments-skeleton";
 import { LazyCommentWrapper } from "@/components/comments/lazy-comment-wrapper";
-import { useReaderStore } from "@/lib/store/readerStore";
+import {
+  useReaderStore,
+  type ReadingDirection,
+  type ReadingMode,
+} from "@/lib/store/readerStore";
 import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
 import { useTranslations } from "next-intl";
+import { usePageTracking } from "@/hooks/use-page-tracking";
+import { getDownloadedChapter } from "@/lib/offline/chapter-downloads";
+import { useMangaChapters } from "@/lib/hooks/use-manga-chapters";
 
 const ChapterReaderComments = dynamic(
   () =>
@@ -32,9 +39,18 @@ import { cn } from "@/lib/utils";
 interface ReaderViewProps {
   mangaSlug: string;
   chapterSlug: string;
+  /** 1-based page to open on (from `?page=`), overrides the saved position */
+  initialPage?: number;
+  /** Open on the last page (from `?page=last`) when paging back from the next chapter */
+  fromEnd?: boolean;
 }
 
-export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
+export function ReaderView({
+  mangaSlug,
+  chapterSlug,
+  initialPage,
+  fromEnd = false,
+}: ReaderViewProps) {
   const router = useRouter();
   const queryClient = useQueryClient();
   const t = useTranslations("reader");
@@ -45,10 +61,23 @@ export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
   // Store for persistent settings - use selectors to prevent unnecessary re-renders
   const preferences = useReaderStore((s) => s.preferences);
   const updatePreference = useReaderStore((s) => s.updatePreference);
-  const { zoom, backgroundColor, imageSpacing } = preferences;
+  const { zoom, backgroundColor, imageSpacing, readingMode, readingDirection } =
+    preferences;
 
   // Reading progress store
   const setReadingProgress = useReadingProgressStore((s) => s.setProgress);
+  const setPagePosition = useReadingProgressStore((s) => s.setPagePosition);
+
+  // Saved position is read once per chapter - later updates come from this view
+  const [savedPosition] = useState(() =>
+    initialPage
+      ? { pageIndex: initialPage - 1, pageOffset: 0 }
+      : useReadingProgressStore
+          .getState()
+          .getPagePosition(mangaSlug, chapterSlug)
+  );
+
+  const stripRef = useRef<HTMLDivElement>(null);
 
   const setZoom = useCallback(
     (value: number) => {
@@ -71,6 +100,20 @@ export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
     [updatePreference]
   );
 
+  const setReadingMode = useCallback(
+    (value: ReadingMode) => {
+      updatePreference("readingMode", value);
+    },
+    [updatePreference]
+  );
+
+  const setReadingDirection = useCallback(
+    (value: ReadingDirection) => {
+      updatePreference("readingDirection", value);
+    },
+    [updatePreference]
+  );
+
   // Fetch Chapter Details
   const {
     data: chapter,
@@ -79,78 +122,50 @@ export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
   } = useQuery({
     queryKey: ["chapter", mangaSlug, chapterSlug],
     queryFn: async () => {
-      const [chapterData, imagesData] = await Promise.all([
-        chapterApi.getDetail(mangaSlug, chapterSlug),
-        chapterApi.getImages(mangaSlug, chapterSlug),
-      ]);
-
-      return {
-        ...chapterData,
-        content: imagesData.images,
-      } as ChapterWithNavigation;
-    },
-  });
-
-  // Fetch Chapter List (for dropdown and navigation)
-  const { data: chapterList } = useQuery({
-    queryKey: ["manga-chapters", mangaSlug],
-
-    queryFn: async () => {
-      const perPage = 100; // Safe limit
-      const initial = await mangaApi.getChapters(mangaSlug, {
-        page: 1,
-        per_page: perPage,
-      });
-
-      let allData = [...initial.data];
-      const lastPage = initial.meta?.pagination?.last_page || 1;
-
-      if (lastPage > 1) {
-        const promises = [];
-        for (let i = 2; i <= lastPage; i++) {
-          promises.push(
-            mangaApi.getChapters(mangaSlug, { page: i, per_page: perPage })
-          );
-        }
-
-        const results = await Promise.all(promises);
-        results.forEach((res) => {
-          allData = [...allData, ...res.data];
-        });
+      // Offline: use the downloaded copy without waiting for network retries
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        const offline = await getDownloadedChapter(mangaSlug, chapterSlug);
+        if (offline) return offline.chapter;
       }
 
-      // Sort by chapter number (descending for list usually, but navigation uses ascending)
-      // The navigation Memo sorts it ascending.
-      // Let's just return the full data.
-      return {
-        ...initial,
-        data: allData,
-      };
+      try {
+        const [chapterData, imagesData] = await Promise.all([
+          chapterApi.getDetail(mangaSlug, chapterSlug),
+          chapterApi.getImages(mangaSlug, chapterSlug),
+        ]);
+
+        return {
+          ...chapterData,
+          content: imagesData.images,
+        } as ChapterWithNavigation;
+      } catch (err) {
+        const offline = await getDownloadedChapter(
+          mangaSlug,
+          chapterSlug
+        ).catch(() => null);
+        if (offline) return offline.chapter;
+        throw err;
+      }
     },
-    enabled: !!mangaSlug,
   });
 
+  // Fetch Chapter List (for dropdown and navigation)
+  const { data: chapterList } = useMangaChapters(mangaSlug);
+
   // Calculate navigation from chapter list
   const navigation = useMemo(() => {
-    if (!chapterList?.data || !chapter) return undefined;
-
-    // Sort chapters by chapter_number ascending
-    const sortedChapters = [...chapterList.data].sort(
-      (a, b) => a.chapter_number - b.chapter_number
-    );
+    if (!chapterList || !chapter) return undefined;
 
-    // Find current chapter index
-    const currentIndex = sortedChapters.findIndex(
-      (ch) => ch.slug === chapterSlug
-    );
+    // Find current chapter index (the list is sorted by chapter_number)
+    const currentIndex = chapterList.findIndex((ch) => ch.slug === chapterSlug);
 
     if (currentIndex === -1) return undefined;
 
     const previousChapter =
-      currentIndex > 0 ? sortedChapters[currentIndex - 1] : null;
+      currentIndex > 0 ? chapterList[currentIndex - 1] : null;
     const nextChapter =
-      currentIndex < sortedChapters.length - 1
-        ? sortedChapters[currentIndex + 1]
+      currentIndex < chapterList.length - 1
+        ? chapterList[currentIndex + 1]
         : null;
 
     return {
@@ -185,10 +200,50 @@ export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
   // Save reading progress when chapter loads
   useEffect(() => {
     if (chapter && mangaSlug) {
-      setReadingProgress(mangaSlug, chapterSlug, chapter.chapter_number);
+      setReadingProgress(
+        mangaSlug,
+        chapterSlug,
+        chapter.chapter_number,
+        chapter.name
+      );
     }
   }, [chapter, mangaSlug, chapterSlug, setReadingProgress]);
 
+  const pageCount = chapter?.content?.length ?? 0;
+
+  // Don't resume a chapter that was read to the last page - start it over,
+  // unless we got here by paging back from the next chapter
+  const resumePosition = useMemo(() => {
+    if (pageCount === 0) return null;
+    if (fromEnd) return { pageIndex: pageCount - 1, pageOffset: 0 };
+    if (!savedPosition) return null;
+    if (!initialPage && savedPosition.pageIndex >= pageCount - 1) return null;
+    return savedPosition;
+  }, [savedPosition, pageCount, initialPage, fromEnd]);
+
+  const handlePositionChange = useCallback(
+    ({ pageIndex, pageOffset }: { pageIndex: number; pageOffset: number }) => {
+      setPagePosition(mangaSlug, chapterSlug, pageIndex, pageOffset);
+    },
+    [mangaSlug, chapterSlug, setPagePosition]
+  );
+
+  const handlePageChange = useCallback(
+    (pageIndex: number) => {
+      setPagePosition(mangaSlug, chapterSlug, pageIndex);
+    },
+    [mangaSlug, chapterSlug, setPagePosition]
+  );
+
+  // Track the visible page in long-strip mode
+  usePageTracking({
+    containerRef: stripRef,
+    pageCount,
+    enabled: readingMode === "long-strip",
+    initialPosition: resumePosition,
+    onPositionChange: handlePositionChange,
+  });
+
   // Prefetch adjacent chapters when current chapter loads
   useEffect(() => {
     if (navigation?.next?.slug) {
@@ -244,11 +299,34 @@ export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
     [imageSpacing]
   );
 
+  // Paging back past the first page continues from the previous chapter's end
+  const goToPreviousChapter = useMemo(
+    () =>
+      navigation?.previous
+        ? () =>
+            router.push(
+              `/manga/${mangaSlug}/${navigation.previous!.slug}?page=last`
+            )
+        : undefined,
+    [navigation, router, mangaSlug]
+  );
+
+  const goToNextChapter = useMemo(
+    () =>
+      navigation?.next
+        ? () => handleNavigateChapter(navigation.next!.slug)
+        : undefined,
+    [navigation, handleNavigateChapter]
+  );
+
   // Keyboard Shortcuts
+  // In paged modes the arrow keys turn pages (handled by ReaderPagedView)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === "Escape") {
         setShowControls((prev) => !prev);
+      } else if (readingMode !== "long-strip") {
+        return;
       } else if (e.key === "ArrowLeft") {
         if (navigation?.previous?.slug) {
           handleNavigateChapter(navigation.previous.slug);
@@ -262,7 +340,7 @@ export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [navigation, handleNavigateChapter]);
+  }, [navigation, handleNavigateChapter, readingMode]);
 
   if (isLoading) {
     return (
@@ -298,51 +376,74 @@ export function ReaderView({ mangaSlug, chapterSlug }: ReaderViewProps) {
         mangaName={chapter.manga?.name ?? ""}
         currentChapterSlug={chapterSlug}
         currentChapterNumber={chapter.chapter_number}
-        chapterList={chapterList?.data}
+        chapterList={chapterList}
         navigation={navigation}
+        chapter={chapter}
         zoom={zoom}
         onZoomChange={setZoom}
         backgroundColor={backgroundColor}
         onBackgroundColorChange={setBackgroundColor}
         imageSpacing={imageSpacing}
         onImageSpacingChange={setImageSpacing}
+        readingMode={readingMode}
+        onReadingModeChange={setReadingMode}
+        readingDirection={readingDirection}
+        onReadingDirectionChange={setReadingDirection}
         showControls={showControls}
         onNavigateChapter={handleNavigateChapter}
       />
 
       {/* Main Content */}
-      <main
-        className={cn(
-          "relative z-0 mx-auto min-h-screen transition-all duration-300",
-          showControls ? "pt-16 pb-16" : "py-0"
-        )}
-        onClick={toggleControls}
-        style={{
-          width: "100%",
-          maxWidth: "100%",
-          backgroundColor,
-        }}
-      >
-        <div
-          className="mx-auto flex flex-col items-center justify-center"
+      {readingMode === "long-strip" ? (
+        <main
+          className={cn(
+            "relative z-0 mx-auto min-h-screen transition-all duration-300",
+            showControls ? "pt-16 pb-16" : "py-0"
+          )}
+          onClick={toggleControls}
           style={{
-            transform: `scale(${zoom / 100})`,
-            transformOrigin: "top center",
+            width: "100%",
+            maxWidth: "100%",
+            backgroundColor,
           }}
         >
-          {images.map((src, index) => (
-            <ReaderImage
-              key={src}
-              src={src}
-              alt={`Page ${index + 1}`}
-              index={index}
-              priority={index < EAGER_COUNT}
-              className="w-full max-w-4xl"
-              style={imageSpacingStyle}
-            />
-          ))}
-        </div>
-      </main>
+          <div
+            ref={stripRef}
+            className="mx-auto flex flex-col items-center justify-center"
+            style={{
+              transform: `scale(${zoom / 100})`,
+              transformOrigin: "top center",
+            }}
+          >
+            {images.map((src, index) => (
+              <ReaderImage
+                key={src}
+                src={src}
+                alt={`Page ${index + 1}`}
+                index={index}
+                priority={index < EAGER_COUNT}
+                className="w-full max-w-4xl"
+                style={imageSpacingStyle}
+              />
+            ))}
+          </div>
+        </main>
+      ) : (
+        <ReaderPagedView
+          key={chapterSlug}
+          images={images}
+          mode={readingMode}
+          direction={readingDirection}
+          zoom={zoom}
+          backgroundColor={backgroundColor}
+          showControls={showControls}
+          onToggleControls={toggleControls}
+          onPreviousChapter={goToPreviousChapter}
+          onNextChapter={goToNextChapter}
+          initialPage={resumePosition?.pageIndex}
+          onPageChange={handlePageChange}
+        />
+      )}
 
       {/* Comments Section */}
       <div className="relative z-0 mx-auto w-full max-w-4xl bg-background px-4 py-8">
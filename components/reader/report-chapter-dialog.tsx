@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Flag, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import {
+  useChapterReportTypes,
+  useCreateChapterReport,
+} from "@/lib/hooks/use-chapter-reports";
+import { useAuthStore } from "@/lib/store/authStore";
+import { cn } from "@/lib/utils";
+import type { ChapterReportType } from "@/types/chapter";
+
+/** Keep in sync with the backend validation rule */
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+interface ReportChapterDialogProps {
+  mangaSlug: string;
+  chapterSlug: string;
+  /** Number of pages in the chapter, enables the broken-page picker */
+  pageCount?: number;
+}
+
+/**
+ * Report a problem with the current chapter (broken images, wrong order...)
+ * Renders its own trigger button for the reader top bar
+ */
+export function ReportChapterDialog({
+  mangaSlug,
+  chapterSlug,
+  pageCount = 0,
+}: ReportChapterDialogProps) {
+  const t = useTranslations("reader.report");
+  const tErrors = useTranslations("errors");
+  const { isAuthenticated } = useAuthStore();
+
+  const [open, setOpen] = useState(false);
+  const [reportType, setReportType] = useState<ChapterReportType | "">("");
+  const [description, setDescription] = useState("");
+  const [pages, setPages] = useState<number[]>([]);
+
+  const { data: types, isLoading: typesLoading } = useChapterReportTypes(
+    open && isAuthenticated
+  );
+  const createReport = useCreateChapterReport(mangaSlug, chapterSlug);
+
+  const reset = () => {
+    setReportType("");
+    setDescription("");
+    setPages([]);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) reset();
+  };
+
+  const togglePage = (page: number) => {
+    setPages((prev) =>
+      prev.includes(page)
+        ? prev.filter((p) => p !== page)
+        : [...prev, page].sort((a, b) => a - b)
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reportType) return;
+
+    createReport.mutate(
+      {
+        report_type: reportType,
+        description: description.trim() || undefined,
+        page_numbers: pages.length > 0 ? pages : undefined,
+      },
+      {
+        onSuccess: () => {
+          toast.success(t("success"));
+          handleOpenChange(false);
+        },
+        onError: (error) => {
+          toast.error(t("error"), {
+            description:
+              error instanceof Error ? error.message : tErrors("general"),
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setOpen(true)}
+            aria-label={t("trigger")}
+          >
+            <Flag className="h-4 w-4" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>{t("trigger")}</TooltipContent>
+      </Tooltip>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t("title")}</DialogTitle>
+            <DialogDescription>{t("description")}</DialogDescription>
+          </DialogHeader>
+
+          {!isAuthenticated ? (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">
+                {t("loginRequired")}
+              </p>
+              <Button asChild>
+                <Link href="/login">{t("login")}</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              {/* Report Type */}
+              <div className="space-y-3">
+                <Label>{t("typeLabel")}</Label>
+                {typesLoading ? (
+                  <div className="space-y-2">
+                    {Array.from({ length: 4 }).map((_, i) => (
+                      <Skeleton key={i} className="h-5 w-40" />
+                    ))}
+                  </div>
+                ) : (
+                  <RadioGroup
+                    value={reportType}
+                    onValueChange={(value) =>
+                      setReportType(value as ChapterReportType)
+                    }
+                  >
+                    {types &&
+                      Object.entries(types).map(([value, label]) => (
+                        <div key={value} className="flex items-center gap-2">
+                          <RadioGroupItem
+                            value={value}
+                            id={`report-${value}`}
+                          />
+                          <Label
+                            htmlFor={`report-${value}`}
+                            className="font-normal"
+                          >
+                            {label}
+                          </Label>
+                        </div>
+                      ))}
+                  </RadioGroup>
+                )}
+              </div>
+
+              {/* Broken Pages */}
+              {pageCount > 0 && (
+                <div className="space-y-2">
+                  <Label>{t("pagesLabel")}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t("pagesHint")}
+                  </p>
+                  <div className="flex max-h-32 flex-wrap gap-1.5 overflow-y-auto">
+                    {Array.from({ length: pageCount }, (_, i) => i + 1).map(
+                      (page) => {
+                        const selected = pages.includes(page);
+                        return (
+                          <button
+                            key={page}
+                            type="button"
+                            onClick={() => togglePage(page)}
+                            aria-pressed={selected}
+                            className={cn(
+                              "h-8 min-w-8 rounded-md border px-2 text-xs transition-colors",
+                              selected
+                                ? "border-primary bg-primary text-primary-foreground"
+                                : "hover:bg-accent"
+                            )}
+                          >
+                            {page}
+                          </button>
+                        );
+                      }
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Description */}
+              <div className="space-y-2">
+                <Label htmlFor="report-description">
+                  {t("descriptionLabel")}
+                </Label>
+                <Textarea
+                  id="report-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder={t("descriptionPlaceholder")}
+                  maxLength={MAX_DESCRIPTION_LENGTH}
+                  rows={3}
+                />
+                <p className="text-right text-xs text-muted-foreground">
+                  {description.length}/{MAX_DESCRIPTION_LENGTH}
+                </p>
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                >
+                  {t("cancel")}
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={!reportType || createReport.isPending}
+                >
+                  {createReport.isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {t("submit")}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
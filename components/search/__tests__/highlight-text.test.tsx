@@ -0,0 +1,43 @@
+import { render, screen } from "@testing-library/react";
+import { HighlightText, findMatchRanges } from "../highlight-text";
+
+describe("findMatchRanges", () => {
+  it("should match case-insensitively", () => {
+    expect(findMatchRanges("One Piece", "piece")).toEqual([[4, 9]]);
+  });
+
+  it("should ignore Vietnamese diacritics", () => {
+    expect(findMatchRanges("Đảo Hải Tặc", "dao tac")).toEqual([
+      [0, 3],
+      [8, 11],
+    ]);
+  });
+
+  it("should merge overlapping matches", () => {
+    expect(findMatchRanges("Naruto", "nar aru")).toEqual([[0, 4]]);
+  });
+
+  it("should return no ranges for an empty query", () => {
+    expect(findMatchRanges("Naruto", "  ")).toEqual([]);
+  });
+});
+
+describe("HighlightText", () => {
+  it("should wrap matched parts in mark elements", () => {
+    const { container } = render(
+      <HighlightText text="Đảo Hải Tặc" query="hai" />
+    );
+
+    expect(screen.getByText("Hải").tagName).toBe("MARK");
+    expect(container.textContent).toBe("Đảo Hải Tặc");
+  });
+
+  it("should render plain text when nothing matches", () => {
+    const { container } = render(
+      <HighlightText text="Bleach" query="naruto" />
+    );
+
+    expect(container.querySelector("mark")).toBeNull();
+    expect(container.textContent).toBe("Bleach");
+  });
+});
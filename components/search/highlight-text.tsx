@@ -0,0 +1,118 @@
+/**
+ * HighlightText Component
+ * Wraps parts of a text matching the search terms in <mark>
+ * Matching ignores case and Vietnamese diacritics ("dao" matches "Đảo")
+ */
+
+import { Fragment, useMemo } from "react";
+import { cn } from "@/lib/utils";
+
+interface HighlightTextProps {
+  text: string;
+  query: string;
+  className?: string;
+}
+
+/**
+ * Fold a single character for comparison - lowercase, no diacritics
+ */
+function foldChar(char: string): string {
+  return char
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase();
+}
+
+/**
+ * Find [start, end) ranges in `text` matching any search term
+ * Overlapping ranges are merged
+ */
+export function findMatchRanges(
+  text: string,
+  query: string
+): Array<[number, number]> {
+  const terms = Array.from(
+    new Set(
+      query
+        .split(/\s+/)
+        .map((term) => Array.from(term).map(foldChar).join(""))
+        .filter(Boolean)
+    )
+  );
+  if (terms.length === 0 || !text) return [];
+
+  // Folded text plus a map from folded index back to original index
+  const chars = Array.from(text);
+  let folded = "";
+  const indexMap: number[] = [];
+  let offset = 0;
+  chars.forEach((char) => {
+    const f = foldChar(char);
+    for (let i = 0; i < f.length; i++) indexMap.push(offset);
+    folded += f;
+    offset += char.length;
+  });
+  indexMap.push(offset);
+
+  const ranges: Array<[number, number]> = [];
+  terms.forEach((term) => {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      ranges.push([indexMap[from], indexMap[from + term.length]]);
+      from = folded.indexOf(term, from + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+}
+
+export function HighlightText({ text, query, className }: HighlightTextProps) {
+  const parts = useMemo(() => {
+    const ranges = findMatchRanges(text, query);
+    const result: Array<{ text: string; match: boolean }> = [];
+    let cursor = 0;
+
+    ranges.forEach(([start, end]) => {
+      if (start > cursor) {
+        result.push({ text: text.slice(cursor, start), match: false });
+      }
+      result.push({ text: text.slice(start, end), match: true });
+      cursor = end;
+    });
+    if (cursor < text.length) {
+      result.push({ text: text.slice(cursor), match: false });
+    }
+
+    return result;
+  }, [text, query]);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className={cn(
+              "rounded-sm bg-primary/20 px-0.5 text-foreground",
+              "dark:bg-primary/30"
+            )}
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part.text}</Fragment>
+        )
+      )}
+    </span>
+  );
+}
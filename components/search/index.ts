@@ -0,0 +1,8 @@
+/**
+ * Search Components
+ * Barrel export for search results page components
+ */
+
+export * from "./highlight-text";
+export * from "./search-filters";
+export * from "./search-result-card";
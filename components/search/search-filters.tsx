@@ -0,0 +1,179 @@
+"use client";
+
+/**
+ * Search Filters Component
+ * Advanced filter panel for the /search page: status, sort, genres
+ * Like BrowseFilterBar, filters are only applied with the Apply button
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslations } from "next-intl";
+import { Check, Search, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { StatusFilter } from "@/components/browse/status-filter";
+import { genreApi } from "@/lib/api/endpoints/manga";
+import { genreKeys } from "@/lib/api/query-keys";
+import { STALE_TIMES } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_SEARCH_FILTERS,
+  SEARCH_SORT_OPTIONS,
+  type SearchFilterValues,
+  type SearchSortOption,
+} from "@/lib/utils/search-filters";
+
+const SORT_LABEL_KEYS: Record<SearchSortOption, string> = {
+  relevance: "relevance",
+  "-updated_at": "latest",
+  "-views": "views",
+  "-rating": "rating",
+  name: "name",
+};
+
+export interface SearchFiltersProps {
+  initialValues: SearchFilterValues;
+  onApply: (values: SearchFilterValues) => void;
+  className?: string;
+}
+
+export function SearchFilters({
+  initialValues,
+  onApply,
+  className,
+}: SearchFiltersProps) {
+  const t = useTranslations("search");
+  const tBrowse = useTranslations("browse");
+
+  const [status, setStatus] = useState(initialValues.status);
+  const [sort, setSort] = useState(initialValues.sort);
+  const [genres, setGenres] = useState(initialValues.genres);
+
+  const { data: genreData, isLoading: genresLoading } = useQuery({
+    queryKey: genreKeys.all,
+    queryFn: () => genreApi.getList({ per_page: 100 }),
+    staleTime: STALE_TIMES.LONG,
+  });
+
+  const toggleGenre = (id: number) => {
+    setGenres((prev) =>
+      prev.includes(id) ? prev.filter((g) => g !== id) : [...prev, id]
+    );
+  };
+
+  const handleApply = () => {
+    onApply({ status, sort, genres });
+  };
+
+  const handleClear = () => {
+    setStatus(DEFAULT_SEARCH_FILTERS.status);
+    setSort(DEFAULT_SEARCH_FILTERS.sort);
+    setGenres(DEFAULT_SEARCH_FILTERS.genres);
+    onApply(DEFAULT_SEARCH_FILTERS);
+  };
+
+  const hasFilters =
+    status !== DEFAULT_SEARCH_FILTERS.status ||
+    sort !== DEFAULT_SEARCH_FILTERS.sort ||
+    genres.length > 0;
+
+  return (
+    <Card className={className}>
+      <div className="space-y-5 px-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {/* Sort */}
+          <div>
+            <Label className="text-sm font-medium mb-2 block">
+              {t("sortBy")}
+            </Label>
+            <Select
+              value={sort}
+              onValueChange={(value) => setSort(value as SearchSortOption)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEARCH_SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`sort.${SORT_LABEL_KEYS[option]}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Status */}
+          <StatusFilter value={status} onChange={setStatus} />
+        </div>
+
+        {/* Genres */}
+        <div>
+          <Label className="text-sm font-medium mb-2 block">
+            {t("filterByGenre")}
+            {genres.length > 0 && (
+              <span className="ml-1 text-muted-foreground">
+                ({genres.length})
+              </span>
+            )}
+          </Label>
+          {genresLoading ? (
+            <div className="flex flex-wrap gap-1.5">
+              {Array.from({ length: 12 }).map((_, i) => (
+                <Skeleton key={i} className="h-7 w-20 rounded-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="flex max-h-40 flex-wrap gap-1.5 overflow-y-auto">
+              {genreData?.data.map((genre) => {
+                const selected = genres.includes(genre.id);
+                return (
+                  <button
+                    key={genre.id}
+                    type="button"
+                    onClick={() => toggleGenre(genre.id)}
+                    aria-pressed={selected}
+                    className={cn(
+                      "inline-flex h-7 items-center gap-1 rounded-full border px-3 text-xs transition-colors",
+                      selected
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "hover:bg-accent"
+                    )}
+                  >
+                    {selected && <Check className="h-3 w-3" />}
+                    {genre.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex justify-end gap-2">
+          {hasFilters && (
+            <Button variant="outline" onClick={handleClear}>
+              <X className="h-4 w-4 mr-2" />
+              {t("clearFilters")}
+            </Button>
+          )}
+          <Button onClick={handleApply}>
+            <Search className="h-4 w-4 mr-2" />
+            {tBrowse("applyFilters")}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+/**
+ * SearchResultCard Component
+ * Search result row with cover, highlighted names, genres and latest chapter
+ */
+
+import { memo } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { Eye } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { StarRating } from "@/components/manga/star-rating";
+import { formatNumber } from "@/lib/utils";
+import {
+  getShimmerPlaceholder,
+  isUnoptimizedImage,
+} from "@/lib/utils/image-placeholder";
+import { MangaStatus, type MangaListItem } from "@/types/manga";
+import { HighlightText } from "./highlight-text";
+
+export interface SearchResultCardProps {
+  manga: MangaListItem;
+  query: string;
+  priority?: boolean;
+}
+
+export const SearchResultCard = memo(function SearchResultCard({
+  manga,
+  query,
+  priority,
+}: SearchResultCardProps) {
+  const t = useTranslations("homepage.mangaCard");
+
+  return (
+    <Link
+      href={`/manga/${manga.slug}`}
+      className="group flex gap-4 rounded-lg border bg-card p-3 transition-colors hover:border-primary/50 hover:bg-accent/40"
+    >
+      {/* Cover */}
+      <div className="relative aspect-[3/4] w-20 flex-shrink-0 overflow-hidden rounded-md bg-muted sm:w-24">
+        <Image
+          src={manga.cover_full_url}
+          alt={manga.name}
+          fill
+          sizes="96px"
+          className="object-cover"
+          placeholder="blur"
+          blurDataURL={getShimmerPlaceholder()}
+          priority={priority}
+          unoptimized={isUnoptimizedImage(manga.cover_full_url)}
+        />
+      </div>
+
+      {/* Content */}
+      <div className="min-w-0 flex-1 space-y-1">
+        <h2 className="font-semibold capitalize leading-snug line-clamp-2 group-hover:text-primary transition-colors">
+          <HighlightText text={manga.name} query={query} />
+        </h2>
+
+        {manga.name_alt && (
+          <p className="text-xs text-muted-foreground line-clamp-1">
+            <HighlightText text={manga.name_alt} query={query} />
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+          <span>
+            {manga.status === MangaStatus.COMPLETED
+              ? t("completed")
+              : t("ongoing")}
+          </span>
+          <span className="flex items-center gap-1">
+            <Eye className="h-3 w-3" />
+            {formatNumber(manga.views)}
+          </span>
+          {manga.average_rating > 0 && (
+            <StarRating
+              value={manga.average_rating}
+              readonly={true}
+              size="sm"
+              showValue={true}
+            />
+          )}
+        </div>
+
+        {manga.latest_chapter && (
+          <p className="text-xs text-muted-foreground truncate">
+            {manga.latest_chapter.name}
+          </p>
+        )}
+
+        {manga.genres && manga.genres.length > 0 && (
+          <div className="hidden flex-wrap gap-1 pt-1 sm:flex">
+            {manga.genres.slice(0, 5).map((genre) => (
+              <Badge
+                key={genre.id}
+                variant="secondary"
+                className="h-5 px-1.5 text-[10px] font-normal"
+              >
+                {genre.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </Link>
+  );
+});
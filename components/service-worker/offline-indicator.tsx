@@ -0,0 +1,27 @@
+"use client";
+
+/**
+ * Offline Indicator
+ * Banner shown while offline, noting when pages are showing cached data
+ */
+
+import { useTranslations } from "next-intl";
+import { WifiOff } from "lucide-react";
+import { useOfflineStatus } from "@/lib/hooks/use-offline-status";
+
+export function OfflineIndicator() {
+  const t = useTranslations("offline.status");
+  const { isOffline, showingCachedData } = useOfflineStatus();
+
+  if (!isOffline && !showingCachedData) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 z-50 flex -translate-x-1/2 items-center gap-2 rounded-full border bg-background/95 px-4 py-2 text-sm shadow-lg backdrop-blur"
+    >
+      <WifiOff className="h-4 w-4 text-muted-foreground" />
+      <span>{showingCachedData ? t("cachedData") : t("offline")}</span>
+    </div>
+  );
+}
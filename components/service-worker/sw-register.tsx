@@ -1,6 +1,13 @@
 "use client";
 
 import { useEffect } from "react";
+import {
+  SERVICE_WORKER_URL,
+  isServiceWorkerMessage,
+  type ServiceWorkerCommand,
+} from "@/sw/protocol";
+import { syncPushSubscription } from "@/lib/push/subscription";
+import { useAuthStore } from "@/lib/store/authStore";
 
 const DEBUG = process.env.NODE_ENV === "development";
 
@@ -15,9 +22,12 @@ export function SwRegister() {
     // Defer registration to not block initial load
     const registerSW = async () => {
       try {
-        const registration = await navigator.serviceWorker.register("/sw.js", {
-          scope: "/",
-        });
+        // Module worker compiled from sw/ - its imports must not be served
+        // from the HTTP cache or updates could mix versions
+        const registration = await navigator.serviceWorker.register(
+          SERVICE_WORKER_URL,
+          { scope: "/", type: "module", updateViaCache: "none" }
+        );
 
         if (DEBUG) console.log("[SW] Registered:", registration.scope);
 
@@ -33,12 +43,28 @@ export function SwRegister() {
                 if (DEBUG)
                   console.log("[SW] New version available - activating");
                 // Auto-activate new service worker
-                newWorker.postMessage({ type: "SKIP_WAITING" });
+                newWorker.postMessage({
+                  type: "SKIP_WAITING",
+                } satisfies ServiceWorkerCommand);
               }
             });
           }
         });
 
+        // The worker resubscribed after the push service rotated the
+        // subscription - the backend needs the new endpoint
+        navigator.serviceWorker.addEventListener("message", (event) => {
+          if (
+            isServiceWorkerMessage(event.data) &&
+            event.data.type === "PUSH_SUBSCRIPTION_CHANGED" &&
+            useAuthStore.getState().isAuthenticated
+          ) {
+            syncPushSubscription().catch((error) => {
+              if (DEBUG) console.error("[SW] Push resubscribe failed:", error);
+            });
+          }
+        });
+
         // Auto-reload when new SW takes control
         navigator.serviceWorker.addEventListener("controllerchange", () => {
           if (DEBUG) console.log("[SW] New version activated - reloading");
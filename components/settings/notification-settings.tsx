@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * Notification Settings Component
+ * Opt in to new chapter push notifications for all bookmarks or selected manga
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Bell, BellOff, Send } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LibraryPagination } from "@/components/library/library-pagination";
+import { useFavorites } from "@/lib/hooks/use-library";
+import {
+  usePushPreferences,
+  usePushSubscription,
+  useTogglePushSubscription,
+  useUpdatePushPreferences,
+} from "@/lib/hooks/use-push-notifications";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { postToServiceWorker } from "@/lib/offline/service-worker";
+import { PUSH_MOCK_URL } from "@/lib/api/config";
+import type { PushPreferences } from "@/types/user";
+
+const BOOKMARKS_PER_PAGE = 20;
+
+export function NotificationSettings() {
+  const t = useTranslations("settings.notifications");
+  const getErrorMessage = useApiErrorMessage();
+  const [page, setPage] = useState(1);
+
+  const { data: subscription, isLoading: subscriptionLoading } =
+    usePushSubscription();
+  const toggleSubscription = useTogglePushSubscription();
+  const { data: preferences } = usePushPreferences();
+  const updatePreferences = useUpdatePushPreferences();
+
+  const subscribed = subscription?.subscribed ?? false;
+  const selectedOnly = preferences ? !preferences.all_bookmarks : false;
+  const { data: favorites, isLoading: favoritesLoading } = useFavorites({
+    page,
+    per_page: BOOKMARKS_PER_PAGE,
+    // The mock test notification uses a real bookmark so the link works
+    enabled: subscribed && (selectedOnly || !!PUSH_MOCK_URL),
+  });
+
+  const handleToggle = () => {
+    toggleSubscription.mutate(!subscribed, {
+      onSuccess: (permission) => {
+        if (subscribed) {
+          toast.success(t("disabled"));
+        } else if (permission === "granted") {
+          toast.success(t("enabled"));
+        } else {
+          toast.error(t("permissionDenied"));
+        }
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    });
+  };
+
+  const savePreferences = (next: PushPreferences) => {
+    updatePreferences.mutate(next, {
+      onError: (error) => toast.error(getErrorMessage(error)),
+    });
+  };
+
+  const handleMangaToggle = (mangaId: number, checked: boolean) => {
+    if (!preferences) return;
+    savePreferences({
+      ...preferences,
+      manga_ids: checked
+        ? [...preferences.manga_ids, mangaId]
+        : preferences.manga_ids.filter((id) => id !== mangaId),
+    });
+  };
+
+  // Development only: run a payload through the worker's push handler
+  const handleSendTest = () => {
+    const manga = favorites?.items.find((item) => item.latest_chapter);
+    postToServiceWorker({
+      type: "SIMULATE_PUSH",
+      payload: {
+        type: "NEW_CHAPTER",
+        manga: {
+          id: manga?.id ?? 0,
+          slug: manga?.slug ?? "test",
+          name: manga?.name ?? t("testTitle"),
+          cover_url: manga?.cover_full_url,
+        },
+        chapter: {
+          slug: manga?.latest_chapter?.slug ?? "chapter-1",
+          name: manga?.latest_chapter?.name ?? t("testBody"),
+        },
+      },
+    });
+  };
+
+  if (subscriptionLoading) {
+    return <Skeleton className="h-40 w-full rounded-xl" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+        <CardDescription>{t("description")}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {!subscription?.supported ? (
+          <p className="text-sm text-muted-foreground">{t("unsupported")}</p>
+        ) : subscription.permission === "denied" ? (
+          <p className="text-sm text-muted-foreground">{t("blocked")}</p>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm">
+              {subscribed ? t("deviceEnabled") : t("deviceDisabled")}
+            </p>
+            <div className="flex gap-2">
+              {subscribed && PUSH_MOCK_URL && (
+                <Button variant="ghost" size="sm" onClick={handleSendTest}>
+                  <Send className="mr-2 h-4 w-4" />
+                  {t("sendTest")}
+                </Button>
+              )}
+              <Button
+                variant={subscribed ? "outline" : "default"}
+                size="sm"
+                onClick={handleToggle}
+                disabled={toggleSubscription.isPending}
+              >
+                {subscribed ? (
+                  <BellOff className="mr-2 h-4 w-4" />
+                ) : (
+                  <Bell className="mr-2 h-4 w-4" />
+                )}
+                {subscribed ? t("disable") : t("enable")}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {subscribed && preferences && (
+          <div className="space-y-4">
+            <RadioGroup
+              value={selectedOnly ? "selected" : "all"}
+              onValueChange={(value) =>
+                savePreferences({
+                  ...preferences,
+                  all_bookmarks: value === "all",
+                })
+              }
+            >
+              <div className="flex items-start gap-3">
+                <RadioGroupItem
+                  value="all"
+                  id="notify-all"
+                  className="mt-0.5"
+                />
+                <Label htmlFor="notify-all" className="flex-col items-start">
+                  <span>{t("scope.all")}</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {t("scope.allDesc")}
+                  </span>
+                </Label>
+              </div>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem
+                  value="selected"
+                  id="notify-selected"
+                  className="mt-0.5"
+                />
+                <Label
+                  htmlFor="notify-selected"
+                  className="flex-col items-start"
+                >
+                  <span>{t("scope.selected")}</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {t("scope.selectedDesc")}
+                  </span>
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {selectedOnly &&
+              (favoritesLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 4 }).map((_, i) => (
+                    <Skeleton key={i} className="h-8 w-full" />
+                  ))}
+                </div>
+              ) : !favorites?.items.length ? (
+                <p className="text-sm text-muted-foreground">
+                  {t("noBookmarks")}
+                </p>
+              ) : (
+                <>
+                  <ul className="divide-y divide-border/40 rounded-md border">
+                    {favorites.items.map((manga) => (
+                      <li
+                        key={manga.id}
+                        className="flex items-center gap-3 px-3 py-2"
+                      >
+                        <Checkbox
+                          id={`notify-manga-${manga.id}`}
+                          checked={preferences.manga_ids.includes(manga.id)}
+                          onCheckedChange={(checked) =>
+                            handleMangaToggle(manga.id, checked === true)
+                          }
+                        />
+                        <Label
+                          htmlFor={`notify-manga-${manga.id}`}
+                          className="min-w-0 flex-1 truncate font-normal capitalize"
+                        >
+                          {manga.name}
+                        </Label>
+                      </li>
+                    ))}
+                  </ul>
+                  {favorites.pagination.last_page > 1 && (
+                    <LibraryPagination
+                      currentPage={page}
+                      totalPages={favorites.pagination.last_page}
+                      onPageChange={setPage}
+                    />
+                  )}
+                </>
+              ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * Taxonomy Detail Content
+ * Artist, group or doujinshi header with a paginated manga grid
+ */
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { ChevronRight } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Pagination } from "@/components/ui/pagination";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MangaGrid } from "@/components/manga/manga-grid";
+import { useTaxonomyDetail, useTaxonomyMangas } from "@/hooks/use-taxonomy";
+import { formatNumber } from "@/lib/utils";
+import type { TaxonomyType } from "@/types/manga";
+
+interface TaxonomyDetailContentProps {
+  type: TaxonomyType;
+  slug: string;
+  page: number;
+}
+
+export function TaxonomyDetailContent({
+  type,
+  slug,
+  page,
+}: TaxonomyDetailContentProps) {
+  const t = useTranslations("taxonomy");
+  const tNav = useTranslations("navigation");
+  const router = useRouter();
+
+  const { data: entity, isLoading: entityLoading } = useTaxonomyDetail(
+    type,
+    slug
+  );
+  const { data, isLoading, error } = useTaxonomyMangas(type, slug, page);
+
+  const mangas = data?.data || [];
+  const pagination = data?.meta?.pagination;
+  const totalPages = pagination?.last_page || 1;
+  const totalCount = pagination?.total ?? entity?.mangas_count ?? 0;
+
+  const handlePageChange = (newPage: number) => {
+    router.push(
+      newPage > 1 ? `/${type}/${slug}?page=${newPage}` : `/${type}/${slug}`
+    );
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <nav className="flex items-center text-xs sm:text-sm text-muted-foreground overflow-hidden whitespace-nowrap">
+        <Link href="/" className="hover:text-primary transition-colors">
+          {tNav("home")}
+        </Link>
+        <ChevronRight className="h-3 w-3 mx-1 flex-shrink-0" />
+        <Link
+          href={`/${type}`}
+          className="hover:text-primary transition-colors"
+        >
+          {tNav(type)}
+        </Link>
+        <ChevronRight className="h-3 w-3 mx-1 flex-shrink-0" />
+        <span className="font-medium text-foreground truncate capitalize">
+          {entity?.name ?? slug}
+        </span>
+      </nav>
+
+      {/* Header */}
+      <Card>
+        <CardContent className="space-y-2 px-4 sm:px-6">
+          {entityLoading ? (
+            <>
+              <Skeleton className="h-8 w-64" />
+              <Skeleton className="h-4 w-32" />
+            </>
+          ) : (
+            <>
+              <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {t(`${type}.label`)}
+              </p>
+              <h1 className="text-2xl sm:text-3xl font-bold capitalize">
+                {entity?.name ?? slug}
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                {t("mangasCount", { count: formatNumber(totalCount) })}
+              </p>
+              {entity?.description && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line">
+                  {entity.description}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Manga Grid */}
+      {error ? (
+        <p className="text-center py-12 text-destructive">{t("loadError")}</p>
+      ) : (
+        <>
+          <MangaGrid
+            mangas={mangas}
+            isLoading={isLoading}
+            columns={{
+              default: 2,
+              sm: 3,
+              md: 4,
+              lg: 6,
+              xl: 6,
+            }}
+            emptyMessage={t("noMangas")}
+          />
+
+          {!isLoading && totalPages > 1 && (
+            <Pagination
+              currentPage={page}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+              className="mt-8"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
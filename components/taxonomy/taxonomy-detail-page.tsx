@@ -0,0 +1,211 @@
+/**
+ * Taxonomy Detail Page
+ * Server side of the artist, group and doujinshi detail routes - SSR
+ * prefetch, SEO metadata, and JSON-LD schemas
+ */
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { HydrationBoundary, dehydrate } from "@tanstack/react-query";
+
+import {
+  generateArtistMetadata,
+  generateDoujinshiMetadata,
+  generateGroupMetadata,
+} from "@/lib/seo/metadata";
+import {
+  generatePersonSchema,
+  generateGroupSchema,
+  generateCollectionPageSchema,
+  generateBreadcrumbSchema,
+  generateItemListSchema,
+  combineSchemas,
+  safeJsonLdStringify,
+} from "@/lib/seo/json-ld";
+import { taxonomyApi } from "@/lib/api/endpoints/manga";
+import { getQueryClient } from "@/lib/api/query-client";
+import { taxonomyKeys } from "@/lib/api/query-keys";
+import { PAGE_SIZES } from "@/lib/constants";
+import { parsePageParam } from "@/lib/utils/query-string";
+import type { PaginatedResponse } from "@/types/api";
+import type { MangaListItem, TaxonomyType } from "@/types/manga";
+import { TaxonomyDetailContent } from "./taxonomy-detail-content";
+
+export interface TaxonomyDetailPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+interface TaxonomyEntity {
+  name: string;
+  slug: string;
+  description?: string;
+}
+
+interface TaxonomyPageConfig {
+  /** Not-found label */
+  label: string;
+  /** Breadcrumb label of the index page */
+  indexLabel: string;
+  generateMetadata: (entity: TaxonomyEntity) => Promise<Metadata>;
+  /** Schemas describing the entity and the mangas on this page */
+  generateSchemas: (
+    entity: TaxonomyEntity,
+    mangas?: MangaListItem[]
+  ) => Array<Record<string, unknown>>;
+}
+
+/**
+ * Artists and groups list their mangas as an ItemList
+ */
+function mangaItemListSchemas(
+  entity: TaxonomyEntity,
+  mangas?: MangaListItem[]
+): Array<Record<string, unknown>> {
+  return mangas?.length
+    ? [
+        generateItemListSchema({
+          name: entity.name,
+          items: mangas.map((manga, index) => ({
+            position: index + 1,
+            name: manga.name,
+            url: `/manga/${manga.slug}`,
+            image: manga.cover_full_url,
+          })),
+        }),
+      ]
+    : [];
+}
+
+const TAXONOMY_PAGES: Record<TaxonomyType, TaxonomyPageConfig> = {
+  artists: {
+    label: "Artist",
+    indexLabel: "Artists",
+    generateMetadata: generateArtistMetadata,
+    generateSchemas: (artist, mangas) => [
+      generatePersonSchema(artist),
+      ...mangaItemListSchemas(artist, mangas),
+    ],
+  },
+  groups: {
+    label: "Group",
+    indexLabel: "Groups",
+    generateMetadata: generateGroupMetadata,
+    generateSchemas: (group, mangas) => [
+      generateGroupSchema(group),
+      ...mangaItemListSchemas(group, mangas),
+    ],
+  },
+  doujinshis: {
+    label: "Doujinshi",
+    indexLabel: "Doujinshi",
+    generateMetadata: generateDoujinshiMetadata,
+    generateSchemas: (doujinshi, mangas) => [
+      generateCollectionPageSchema({
+        name: doujinshi.name,
+        description: doujinshi.description,
+        url: `/doujinshis/${doujinshi.slug}`,
+        items: mangas?.map((manga) => ({
+          name: manga.name,
+          url: `/manga/${manga.slug}`,
+          image: manga.cover_full_url,
+        })),
+      }),
+    ],
+  },
+};
+
+// Deduplicate the fetch between generateMetadata and the page component
+const getTaxonomyDetail = cache(
+  async (type: TaxonomyType, slug: string): Promise<TaxonomyEntity> => {
+    return taxonomyApi[type].getDetail(slug);
+  }
+);
+
+/**
+ * Metadata for a taxonomy detail route - pages past the first aren't indexed
+ */
+export async function generateTaxonomyDetailMetadata(
+  type: TaxonomyType,
+  { params, searchParams }: TaxonomyDetailPageProps
+): Promise<Metadata> {
+  const { label } = TAXONOMY_PAGES[type];
+
+  try {
+    const { slug } = await params;
+    const { page } = await searchParams;
+    const entity = await getTaxonomyDetail(type, slug);
+    const metadata = await TAXONOMY_PAGES[type].generateMetadata(entity);
+
+    return parsePageParam(page) > 1
+      ? { ...metadata, robots: { index: false, follow: true } }
+      : metadata;
+  } catch {
+    return {
+      title: `${label} Not Found`,
+      description: `The requested ${label.toLowerCase()} could not be found.`,
+    };
+  }
+}
+
+interface TaxonomyDetailPageComponentProps extends TaxonomyDetailPageProps {
+  type: TaxonomyType;
+}
+
+export async function TaxonomyDetailPage({
+  type,
+  params,
+  searchParams,
+}: TaxonomyDetailPageComponentProps) {
+  const { slug } = await params;
+  const page = parsePageParam((await searchParams).page);
+  const { indexLabel, generateSchemas } = TAXONOMY_PAGES[type];
+
+  let entity;
+  try {
+    entity = await getTaxonomyDetail(type, slug);
+  } catch {
+    notFound();
+  }
+
+  const queryClient = getQueryClient();
+  queryClient.setQueryData(taxonomyKeys.detail(type, slug), entity);
+
+  // Non-blocking - client fetches the grid if this fails
+  let mangas: PaginatedResponse<MangaListItem> | undefined;
+  try {
+    mangas = await taxonomyApi[type].getMangas(slug, {
+      page,
+      per_page: PAGE_SIZES.MANGA_GRID,
+    });
+    queryClient.setQueryData(taxonomyKeys.mangas(type, slug, page), mangas);
+  } catch {
+    // Client will fetch mangas if prefetch fails
+  }
+
+  const schemas = combineSchemas([
+    generateBreadcrumbSchema([
+      { name: "Home", url: "/" },
+      { name: indexLabel, url: `/${type}` },
+      { name: entity.name, url: `/${type}/${entity.slug}` },
+    ]),
+    ...generateSchemas(entity, mangas?.data),
+  ]);
+
+  return (
+    <>
+      {/* JSON-LD Schemas */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: safeJsonLdStringify(schemas) }}
+      />
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <HydrationBoundary state={dehydrate(queryClient)}>
+          <TaxonomyDetailContent type={type} slug={slug} page={page} />
+        </HydrationBoundary>
+      </div>
+    </>
+  );
+}
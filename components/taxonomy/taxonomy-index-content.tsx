@@ -0,0 +1,161 @@
+"use client";
+
+/**
+ * Taxonomy Index Content
+ * Searchable, paginated list of artists, groups or doujinshi categories
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { Search } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Pagination } from "@/components/ui/pagination";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTaxonomyList } from "@/hooks/use-taxonomy";
+import { formatNumber } from "@/lib/utils";
+import type { TaxonomyType } from "@/types/manga";
+
+interface TaxonomyIndexContentProps {
+  type: TaxonomyType;
+  search: string;
+  page: number;
+}
+
+/**
+ * Build index URL with search params
+ */
+function buildUrl(type: TaxonomyType, search: string, page: number): string {
+  const params = new URLSearchParams();
+
+  if (search) {
+    params.set("q", search);
+  }
+
+  if (page > 1) {
+    params.set("page", String(page));
+  }
+
+  const queryString = params.toString();
+  return queryString ? `/${type}?${queryString}` : `/${type}`;
+}
+
+export function TaxonomyIndexContent({
+  type,
+  search,
+  page,
+}: TaxonomyIndexContentProps) {
+  const t = useTranslations("taxonomy");
+  const router = useRouter();
+  const [query, setQuery] = useState(search);
+
+  const { data, isLoading, error } = useTaxonomyList(type, search, page);
+
+  const items = data?.data || [];
+  const pagination = data?.meta?.pagination;
+  const totalPages = pagination?.last_page || 1;
+  const totalCount = pagination?.total || 0;
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    router.push(buildUrl(type, query.trim(), 1));
+  };
+
+  const handlePageChange = (newPage: number) => {
+    router.push(buildUrl(type, search, newPage));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Title */}
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">{t(`${type}.title`)}</h1>
+        <p className="text-muted-foreground">
+          {!isLoading && totalCount > 0
+            ? t("totalResults", { count: formatNumber(totalCount) })
+            : t(`${type}.subtitle`)}
+        </p>
+      </div>
+
+      {/* Search */}
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t(`${type}.searchPlaceholder`)}
+            className="pl-9"
+          />
+        </div>
+        <Button type="submit">{t("search")}</Button>
+      </form>
+
+      {/* Error State */}
+      {error && (
+        <p className="text-center py-12 text-destructive">{t("loadError")}</p>
+      )}
+
+      {/* List */}
+      {!error &&
+        (isLoading ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {Array.from({ length: 9 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 rounded-xl" />
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-lg font-medium">{t("noResults")}</p>
+            {search && (
+              <p className="text-sm text-muted-foreground mt-2">
+                {t("noResultsDescription", { query: search })}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {items.map((item) => (
+              <Link key={item.id} href={`/${type}/${item.slug}`}>
+                <Card className="h-full transition-colors hover:border-primary/50 hover:bg-accent/40">
+                  <CardContent className="space-y-1 px-4">
+                    <div className="flex items-baseline justify-between gap-2">
+                      <h2 className="truncate font-semibold capitalize">
+                        {item.name}
+                      </h2>
+                      {item.mangas_count !== undefined && (
+                        <span className="flex-shrink-0 text-xs text-muted-foreground">
+                          {t("mangasCount", { count: item.mangas_count })}
+                        </span>
+                      )}
+                    </div>
+                    {item.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {item.description}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ))}
+
+      {/* Pagination */}
+      {!isLoading && totalPages > 1 && (
+        <Pagination
+          currentPage={page}
+          totalPages={totalPages}
+          onPageChange={handlePageChange}
+          className="mt-8"
+        />
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useUpdatePassword } from "@/lib/hooks/use-profile";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { applyFieldErrors } from "@/lib/api/errors";
 import { changePasswordSchema } from "@/lib/validators/user-schemas";
 import type { z } from "zod";
 
@@ -27,11 +29,13 @@ export function ChangePasswordForm({
   const tCommon = useTranslations("common");
 
   const { updatePassword, isLoading } = useUpdatePassword();
+  const getErrorMessage = useApiErrorMessage();
 
   const {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors },
   } = useForm<FormData>({
     resolver: zodResolver(changePasswordSchema),
@@ -44,9 +48,15 @@ export function ChangePasswordForm({
       toast.success(t("success"));
       reset(); // Clear form
       onSuccess?.();
-    } else {
+    } else if (
+      !applyFieldErrors(result.error, setError, [
+        "current_password",
+        "password",
+        "password_confirmation",
+      ])
+    ) {
       toast.error(t("error"), {
-        description: result.error,
+        description: getErrorMessage(result.error),
       });
     }
   };
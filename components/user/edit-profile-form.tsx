@@ -9,6 +9,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useUpdateProfile } from "@/lib/hooks/use-profile";
+import { useApiErrorMessage } from "@/lib/hooks/use-api-error";
+import { applyFieldErrors } from "@/lib/api/errors";
 import { updateProfileSchema } from "@/lib/validators/user-schemas";
 import type { User } from "@/types/user";
 import type { z } from "zod";
@@ -30,10 +32,12 @@ export function EditProfileForm({
   const tCommon = useTranslations("common");
 
   const { updateProfile, isLoading } = useUpdateProfile();
+  const getErrorMessage = useApiErrorMessage();
 
   const {
     register,
     handleSubmit,
+    setError,
     formState: { errors },
   } = useForm<FormData>({
     resolver: zodResolver(updateProfileSchema),
@@ -49,9 +53,9 @@ export function EditProfileForm({
     if (result.success) {
       toast.success(t("success"));
       onSuccess?.(result.data!);
-    } else {
+    } else if (!applyFieldErrors(result.error, setError, ["name", "email"])) {
       toast.error(t("error"), {
-        description: result.error,
+        description: getErrorMessage(result.error),
       });
     }
   };
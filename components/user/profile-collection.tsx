@@ -0,0 +1,404 @@
+"use client";
+
+/**
+ * Profile Collection
+ * Gallery of every achievement and pet - unlocked/owned ones can be equipped,
+ * locked ones show what it takes to get them. Without the full catalog it
+ * falls back to the items the user has.
+ */
+
+import Image from "next/image";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Check, Loader2, Lock, RefreshCw } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useAchievementCatalog,
+  useEquipAchievement,
+  useEquipPet,
+  useMyAchievements,
+  useMyPets,
+  usePetCatalog,
+} from "@/lib/hooks/use-collection";
+import { COLLECTION_EQUIP_ENABLED } from "@/lib/api/config";
+import { cn } from "@/lib/utils";
+import type { Achievement, Pet } from "@/types/user";
+
+type ItemStatus = "equipped" | "owned" | "locked";
+
+function getStatus(
+  id: number,
+  currentId: number | undefined,
+  ownedIds: Set<number>
+): ItemStatus {
+  if (id === currentId) return "equipped";
+  return ownedIds.has(id) ? "owned" : "locked";
+}
+
+/**
+ * The user's own items, for when the catalog can't be loaded
+ */
+function ownedItems<T extends { id: number }>(
+  current: T | null | undefined,
+  owned: T[] | undefined
+): T[] {
+  const items = [...(owned ?? [])];
+  if (current && !items.some((item) => item.id === current.id)) {
+    items.unshift(current);
+  }
+  return items;
+}
+
+/**
+ * Sort equipped first, then owned, then locked by point cost
+ */
+function sortByStatus<T extends { id: number; points: number }>(
+  items: T[],
+  statusOf: (item: T) => ItemStatus
+): T[] {
+  const rank: Record<ItemStatus, number> = { equipped: 0, owned: 1, locked: 2 };
+  return [...items].sort(
+    (a, b) => rank[statusOf(a)] - rank[statusOf(b)] || a.points - b.points
+  );
+}
+
+function ProgressBar({ value, max }: { value: number; max: number }) {
+  const percent = max > 0 ? Math.min(100, (value / max) * 100) : 0;
+
+  return (
+    <div
+      className="h-2 w-full overflow-hidden rounded-full bg-muted"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={max}
+      aria-valuenow={value}
+    >
+      <div
+        className="h-full rounded-full bg-primary transition-all"
+        style={{ width: `${percent}%` }}
+      />
+    </div>
+  );
+}
+
+/**
+ * Achievement icons are emoji in the API, but may also be image paths
+ */
+function AchievementIcon({ icon, name }: { icon: string; name: string }) {
+  if (icon.startsWith("/") || icon.startsWith("http")) {
+    return (
+      <Image
+        src={icon}
+        alt={name}
+        width={48}
+        height={48}
+        className="rounded-lg"
+      />
+    );
+  }
+
+  return (
+    <span className="text-4xl leading-none" role="img" aria-label={name}>
+      {icon}
+    </span>
+  );
+}
+
+interface CollectionItemCardProps {
+  media: React.ReactNode;
+  name: string;
+  description: string;
+  status: ItemStatus;
+  isEquipping: boolean;
+  onEquip: () => void;
+  /** Shown instead of the equip button while the item is locked */
+  lockedHint: React.ReactNode;
+}
+
+function CollectionItemCard({
+  media,
+  name,
+  description,
+  status,
+  isEquipping,
+  onEquip,
+  lockedHint,
+}: CollectionItemCardProps) {
+  const t = useTranslations("user.profile.collection");
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col items-center gap-2 rounded-lg border p-4 text-center",
+        status === "equipped" && "border-primary bg-primary/5",
+        status === "locked" && "bg-muted/30"
+      )}
+    >
+      <div
+        className={cn(
+          "relative flex h-14 w-14 items-center justify-center",
+          status === "locked" && "opacity-40 grayscale"
+        )}
+      >
+        {media}
+        {status === "locked" && (
+          <Lock className="absolute -bottom-1 -right-1 h-4 w-4 text-muted-foreground" />
+        )}
+      </div>
+      <div className="min-w-0 space-y-0.5">
+        <h4 className="font-semibold text-sm truncate">{name}</h4>
+        <p className="text-xs text-muted-foreground line-clamp-2">
+          {description}
+        </p>
+      </div>
+
+      <div className="mt-auto w-full pt-1">
+        {status === "equipped" && (
+          <Badge className="w-full justify-center">
+            <Check className="h-3 w-3" />
+            {t("equipped")}
+          </Badge>
+        )}
+        {status === "owned" && !COLLECTION_EQUIP_ENABLED && (
+          <Badge variant="outline" className="w-full justify-center">
+            {t("owned")}
+          </Badge>
+        )}
+        {status === "owned" && COLLECTION_EQUIP_ENABLED && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={onEquip}
+            disabled={isEquipping}
+          >
+            {isEquipping && <Loader2 className="h-3 w-3 animate-spin" />}
+            {t("equip")}
+          </Button>
+        )}
+        {status === "locked" && lockedHint}
+      </div>
+    </div>
+  );
+}
+
+function GallerySkeleton() {
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-5">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <Skeleton key={i} className="h-44" />
+      ))}
+    </div>
+  );
+}
+
+function GalleryError({ onRetry }: { onRetry: () => void }) {
+  const t = useTranslations("user.profile.collection");
+
+  return (
+    <div className="flex flex-col items-center gap-3 py-8 text-center">
+      <p className="text-sm text-destructive">{t("loadError")}</p>
+      <Button size="sm" variant="outline" onClick={onRetry}>
+        <RefreshCw className="h-3 w-3" />
+        {t("retry")}
+      </Button>
+    </div>
+  );
+}
+
+function AchievementsGallery() {
+  const t = useTranslations("user.profile.collection");
+  const { data: catalog, isLoading: catalogLoading } = useAchievementCatalog();
+  const {
+    data: mine,
+    isLoading: mineLoading,
+    isError: mineError,
+    refetch: refetchMine,
+  } = useMyAchievements();
+  const equip = useEquipAchievement();
+
+  const points = mine?.achievements_points ?? 0;
+  const limit = mine?.limit_achievement_points ?? 0;
+  const currentId = mine?.current_achievement?.id;
+  const unlockedIds = new Set(
+    (mine?.unlocked_achievements ?? []).map((a) => a.id)
+  );
+  const statusOf = (a: Achievement) => getStatus(a.id, currentId, unlockedIds);
+  const achievements = sortByStatus(
+    catalog ??
+      ownedItems(mine?.current_achievement, mine?.unlocked_achievements),
+    statusOf
+  );
+
+  const handleEquip = (achievement: Achievement) => {
+    equip.mutate(achievement.id, {
+      onSuccess: () =>
+        toast.success(t("equipSuccess", { name: achievement.name })),
+      onError: () => toast.error(t("equipError")),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-2">
+        <CardTitle>{t("achievements")}</CardTitle>
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {catalog
+                ? t("unlockedCount", {
+                    unlocked: unlockedIds.size,
+                    total: catalog.length,
+                  })
+                : t("ownedCount", { count: achievements.length })}
+            </span>
+            <span>{t("pointsProgress", { value: points, max: limit })}</span>
+          </div>
+          <ProgressBar value={points} max={limit} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {catalogLoading || mineLoading ? (
+          <GallerySkeleton />
+        ) : mineError ? (
+          <GalleryError onRetry={() => refetchMine()} />
+        ) : achievements.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-5">
+            {achievements.map((achievement) => (
+              <CollectionItemCard
+                key={achievement.id}
+                media={
+                  <AchievementIcon
+                    icon={achievement.icon}
+                    name={achievement.name}
+                  />
+                }
+                name={achievement.name}
+                description={achievement.description}
+                status={statusOf(achievement)}
+                isEquipping={
+                  equip.isPending && equip.variables === achievement.id
+                }
+                onEquip={() => handleEquip(achievement)}
+                lockedHint={
+                  <div className="space-y-1">
+                    <ProgressBar value={points} max={achievement.points} />
+                    <p className="text-[11px] text-muted-foreground">
+                      {t("pointsProgress", {
+                        value: Math.min(points, achievement.points),
+                        max: achievement.points,
+                      })}
+                    </p>
+                  </div>
+                }
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PetsGallery() {
+  const t = useTranslations("user.profile.collection");
+  const { data: catalog, isLoading: catalogLoading } = usePetCatalog();
+  const {
+    data: mine,
+    isLoading: mineLoading,
+    isError: mineError,
+    refetch: refetchMine,
+  } = useMyPets();
+  const equip = useEquipPet();
+
+  const available = mine?.available_points ?? 0;
+  const used = mine?.used_points ?? 0;
+  const limit = mine?.limit_pet_points ?? 0;
+  const currentId = mine?.current_pet?.id;
+  const ownedIds = new Set((mine?.owned_pets ?? []).map((p) => p.id));
+  const statusOf = (p: Pet) => getStatus(p.id, currentId, ownedIds);
+  const pets = sortByStatus(
+    catalog ?? ownedItems(mine?.current_pet, mine?.owned_pets),
+    statusOf
+  );
+
+  const handleEquip = (pet: Pet) => {
+    equip.mutate(pet.id, {
+      onSuccess: () => toast.success(t("equipSuccess", { name: pet.name })),
+      onError: () => toast.error(t("equipError")),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-2">
+        <CardTitle>{t("pets")}</CardTitle>
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{t("availablePoints", { points: available })}</span>
+            <span>{t("pointsProgress", { value: used, max: limit })}</span>
+          </div>
+          <ProgressBar value={used} max={limit} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {catalogLoading || mineLoading ? (
+          <GallerySkeleton />
+        ) : mineError ? (
+          <GalleryError onRetry={() => refetchMine()} />
+        ) : pets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-5">
+            {pets.map((pet) => (
+              <CollectionItemCard
+                key={pet.id}
+                media={
+                  <Image
+                    src={pet.image}
+                    alt={pet.name}
+                    width={56}
+                    height={56}
+                    className="rounded-lg"
+                  />
+                }
+                name={pet.name}
+                description={pet.description}
+                status={statusOf(pet)}
+                isEquipping={equip.isPending && equip.variables === pet.id}
+                onEquip={() => handleEquip(pet)}
+                lockedHint={
+                  <div className="space-y-0.5 text-[11px]">
+                    <p className="font-medium">
+                      {t("cost", { points: pet.points })}
+                    </p>
+                    {pet.points > available && (
+                      <p className="text-muted-foreground">
+                        {t("needMore", { points: pet.points - available })}
+                      </p>
+                    )}
+                  </div>
+                }
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ProfileCollection() {
+  return (
+    <div className="space-y-6">
+      <AchievementsGallery />
+      <PetsGallery />
+    </div>
+  );
+}
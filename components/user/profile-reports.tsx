@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useFormatter, useTranslations } from "next-intl";
+import { Flag } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { LibraryPagination } from "@/components/library/library-pagination";
+import { useMyChapterReports } from "@/lib/hooks/use-chapter-reports";
+
+const REPORTS_PER_PAGE = 10;
+
+/**
+ * List of chapter problem reports submitted by the current user
+ */
+export function ProfileReports() {
+  const t = useTranslations("user.profile.reports");
+  const format = useFormatter();
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, isError } = useMyChapterReports({
+    page,
+    per_page: REPORTS_PER_PAGE,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-24 w-full rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <p className="py-8 text-center text-sm text-destructive">
+        {t("loadError")}
+      </p>
+    );
+  }
+
+  if (!data || data.items.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-12 text-center">
+        <Flag className="h-10 w-10 text-muted-foreground" />
+        <p className="font-medium">{t("empty.title")}</p>
+        <p className="text-sm text-muted-foreground">
+          {t("empty.description")}
+        </p>
+      </div>
+    );
+  }
+
+  const { items, pagination } = data;
+
+  return (
+    <div className="space-y-3">
+      {items.map((report) => (
+        <Card key={report.id}>
+          <CardContent className="space-y-2 px-4 sm:px-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Badge variant="secondary">{report.report_type_label}</Badge>
+              <time
+                dateTime={report.created_at}
+                className="text-xs text-muted-foreground"
+              >
+                {format.dateTime(new Date(report.created_at), {
+                  dateStyle: "medium",
+                })}
+              </time>
+            </div>
+
+            {report.manga && report.chapter && (
+              <p className="text-sm">
+                <Link
+                  href={`/manga/${report.manga.slug}`}
+                  className="font-medium capitalize hover:text-primary"
+                >
+                  {report.manga.name}
+                </Link>
+                <span className="text-muted-foreground"> · </span>
+                <Link
+                  href={`/manga/${report.manga.slug}/${report.chapter.slug}`}
+                  className="hover:text-primary"
+                >
+                  {report.chapter.name}
+                </Link>
+              </p>
+            )}
+
+            {report.page_numbers && report.page_numbers.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {t("pages", { pages: report.page_numbers.join(", ") })}
+              </p>
+            )}
+
+            {report.description && (
+              <p className="text-sm text-muted-foreground whitespace-pre-line">
+                {report.description}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      {pagination.last_page > 1 && (
+        <LibraryPagination
+          currentPage={page}
+          totalPages={pagination.last_page}
+          onPageChange={setPage}
+        />
+      )}
+    </div>
+  );
+}
@@ -30,6 +30,8 @@ const eslintConfig = defineConfig([
     ".claude/**",
     // Coverage report
     "coverage/**",
+    // Compiled service worker (built from sw/)
+    "public/sw/**",
   ]),
 ]);
 
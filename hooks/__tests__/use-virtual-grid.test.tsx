@@ -0,0 +1,55 @@
+import { renderHook } from "@testing-library/react";
+import { getColumnCount, useVirtualGrid } from "../use-virtual-grid";
+
+const columns = { default: 2, sm: 3, md: 4, lg: 6 };
+
+describe("getColumnCount", () => {
+  it("should use the largest breakpoint the width reaches", () => {
+    expect(getColumnCount(columns, 320)).toBe(2);
+    expect(getColumnCount(columns, 640)).toBe(3);
+    expect(getColumnCount(columns, 1023)).toBe(4);
+    expect(getColumnCount(columns, 1440)).toBe(6);
+  });
+
+  it("should fall back to smaller breakpoints when one is not set", () => {
+    expect(getColumnCount({ default: 2, md: 4 }, 700)).toBe(2);
+    expect(getColumnCount({ sm: 3 }, 500)).toBe(1);
+  });
+});
+
+describe("useVirtualGrid", () => {
+  it("should render the first rows before measuring the viewport", () => {
+    const containerRef = { current: null };
+    const { result } = renderHook(() =>
+      useVirtualGrid({
+        containerRef,
+        itemCount: 100,
+        columns,
+        estimateRowHeight: 300,
+      })
+    );
+
+    expect(result.current).toMatchObject({
+      columnCount: 2,
+      firstRow: 0,
+      totalRows: 50,
+      rowHeight: 300,
+    });
+    expect(result.current.lastRow).toBeLessThan(10);
+  });
+
+  it("should clamp the row range to the items", () => {
+    const containerRef = { current: null };
+    const { result } = renderHook(() =>
+      useVirtualGrid({
+        containerRef,
+        itemCount: 3,
+        columns,
+        estimateRowHeight: 300,
+      })
+    );
+
+    expect(result.current.totalRows).toBe(2);
+    expect(result.current.lastRow).toBe(1);
+  });
+});
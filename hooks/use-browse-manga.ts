@@ -1,14 +1,20 @@
 /**
  * useBrowseManga Hook
- * Data fetching hook for browse page with prefetch support
+ * Data fetching hooks for browse page - paged with prefetch support, or
+ * infinite scroll
  */
 
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { useCallback, useEffect } from "react";
 import { mangaApi } from "@/lib/api/endpoints/manga";
 import { mangaKeys } from "@/lib/api/query-keys";
 import type { FilterValues } from "@/components/browse/browse-filter-bar";
-import type { MangaListParams } from "@/types/manga";
+import type { MangaListItem, MangaListParams } from "@/types/manga";
+import type { PaginatedResponse } from "@/types/api";
 
 /**
  * Build API params from filter values and page
@@ -29,8 +35,12 @@ function buildApiParams(filters: FilterValues, page: number): MangaListParams {
     params["filter[status]"] = parseInt(filters.status, 10) as 1 | 2;
   }
 
-  if (filters.genre && filters.genre !== "all") {
-    params["filter[accept_genres]"] = parseInt(filters.genre, 10);
+  if (filters.genres.length > 0) {
+    params["filter[accept_genres]"] = filters.genres.join(",");
+  }
+
+  if (filters.excludedGenres.length > 0) {
+    params["filter[reject_genres]"] = filters.excludedGenres.join(",");
   }
 
   return params;
@@ -41,15 +51,22 @@ function buildApiParams(filters: FilterValues, page: number): MangaListParams {
  *
  * @param filters - Filter values for the manga list
  * @param page - Current page number
+ * @param enabled - Off while the browse page scrolls infinitely
  * @returns Query result with prefetchNextPage function
  */
-export function useBrowseManga(filters: FilterValues, page: number) {
+export function useBrowseManga(
+  filters: FilterValues,
+  page: number,
+  enabled = true
+) {
   const queryClient = useQueryClient();
 
   const query = useQuery({
     queryKey: mangaKeys.list(filters, page),
-    queryFn: () => mangaApi.getList(buildApiParams(filters, page)),
+    queryFn: ({ signal }) =>
+      mangaApi.getList(buildApiParams(filters, page), signal),
     staleTime: 60_000, // 1 min fresh
+    enabled,
   });
 
   const prefetchNextPage = useCallback(() => {
@@ -77,3 +94,37 @@ export function useBrowseManga(filters: FilterValues, page: number) {
 
   return { ...query, prefetchNextPage };
 }
+
+/**
+ * Hook for loading browse results page after page (infinite scroll)
+ * Starts from the server-prefetched first page when there is one
+ *
+ * @param filters - Filter values for the manga list
+ * @param enabled - Off while the browse page uses page numbers
+ */
+export function useInfiniteBrowseManga(filters: FilterValues, enabled = true) {
+  const queryClient = useQueryClient();
+  const firstPageKey = mangaKeys.list(filters, 1);
+
+  return useInfiniteQuery({
+    queryKey: mangaKeys.infiniteList(filters),
+    queryFn: ({ pageParam, signal }) =>
+      mangaApi.getList(buildApiParams(filters, pageParam), signal),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage: PaginatedResponse<MangaListItem>) => {
+      const { current_page, last_page } = lastPage.meta.pagination;
+      return current_page < last_page ? current_page + 1 : undefined;
+    },
+    initialData: () => {
+      const firstPage =
+        queryClient.getQueryData<PaginatedResponse<MangaListItem>>(
+          firstPageKey
+        );
+      return firstPage && { pages: [firstPage], pageParams: [1] };
+    },
+    initialDataUpdatedAt: () =>
+      queryClient.getQueryState(firstPageKey)?.dataUpdatedAt,
+    staleTime: 60_000, // 1 min fresh
+    enabled,
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * useGenre Hooks
+ * Data fetching hooks for genre detail pages
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { genreApi } from "@/lib/api/endpoints/manga";
+import { genreKeys } from "@/lib/api/query-keys";
+import { PAGE_SIZES, STALE_TIMES } from "@/lib/constants";
+import type { GenreSortOption } from "@/types/manga";
+
+/**
+ * Hook for fetching a single genre
+ */
+export function useGenreDetail(slug: string) {
+  return useQuery({
+    queryKey: genreKeys.detail(slug),
+    queryFn: () => genreApi.getDetail(slug),
+    staleTime: STALE_TIMES.LONG,
+  });
+}
+
+/**
+ * Hook for fetching a sorted page of mangas in a genre
+ */
+export function useGenreMangas(
+  slug: string,
+  sort: GenreSortOption,
+  page: number
+) {
+  return useQuery({
+    queryKey: genreKeys.mangas(slug, sort, page),
+    queryFn: () =>
+      genreApi.getMangas(slug, {
+        sort,
+        page,
+        per_page: PAGE_SIZES.MANGA_GRID,
+      }),
+    staleTime: STALE_TIMES.DEFAULT,
+  });
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from "react";
+
+interface PageTrackingPosition {
+  pageIndex: number;
+  /** Fraction (0-1) of the page scrolled past the viewport center */
+  pageOffset: number;
+}
+
+interface UsePageTrackingOptions {
+  /** Element whose direct children are the pages, in order */
+  containerRef: RefObject<HTMLElement | null>;
+  pageCount: number;
+  enabled?: boolean;
+  /** Position to scroll back to once pages are rendered */
+  initialPosition?: PageTrackingPosition | null;
+  onPositionChange: (position: PageTrackingPosition) => void;
+  /** Debounce for reporting scroll position (ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Track which page of a long-strip list is at the viewport center
+ * and restore a previously saved page/offset on mount
+ */
+export function usePageTracking({
+  containerRef,
+  pageCount,
+  enabled = true,
+  initialPosition,
+  onPositionChange,
+  debounceMs = 500,
+}: UsePageTrackingOptions) {
+  const currentPageRef = useRef(0);
+  const restoredRef = useRef(false);
+
+  // Keep latest callback without re-subscribing observers
+  const onPositionChangeRef = useRef(onPositionChange);
+  useEffect(() => {
+    onPositionChangeRef.current = onPositionChange;
+  }, [onPositionChange]);
+
+  // Restore saved position (once)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container || restoredRef.current || pageCount === 0) {
+      return;
+    }
+    restoredRef.current = true;
+
+    if (!initialPosition || initialPosition.pageIndex <= 0) return;
+
+    const page = container.children[
+      Math.min(initialPosition.pageIndex, pageCount - 1)
+    ] as HTMLElement | undefined;
+    if (!page) return;
+
+    const scrollToPage = () => {
+      const rect = page.getBoundingClientRect();
+      window.scrollTo({
+        top:
+          window.scrollY +
+          rect.top +
+          rect.height * initialPosition.pageOffset -
+          window.innerHeight / 2,
+      });
+    };
+
+    scrollToPage();
+
+    // Lazy images above/at the target change height as they load - re-align once
+    const img = page.querySelector("img");
+    if (img && !img.complete) {
+      img.addEventListener("load", scrollToPage, { once: true });
+      return () => img.removeEventListener("load", scrollToPage);
+    }
+  }, [containerRef, enabled, pageCount, initialPosition]);
+
+  // Observe pages crossing the viewport center line
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container || pageCount === 0) return;
+
+    const pages = Array.from(container.children);
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            currentPageRef.current = pages.indexOf(entry.target);
+          }
+        });
+      },
+      { rootMargin: "-50% 0px -50% 0px" }
+    );
+
+    pages.forEach((page) => observer.observe(page));
+    return () => observer.disconnect();
+  }, [containerRef, enabled, pageCount]);
+
+  // Report position on scroll (debounced) and when leaving
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container || pageCount === 0) return;
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const report = () => {
+      const pageIndex = currentPageRef.current;
+      const page = container.children[pageIndex];
+      if (!page) return;
+
+      const rect = page.getBoundingClientRect();
+      const offset =
+        rect.height > 0 ? (window.innerHeight / 2 - rect.top) / rect.height : 0;
+
+      onPositionChangeRef.current({
+        pageIndex,
+        pageOffset: Math.min(1, Math.max(0, offset)),
+      });
+    };
+
+    const handleScroll = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(report, debounceMs);
+    };
+
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    window.addEventListener("pagehide", report);
+    return () => {
+      clearTimeout(timeoutId);
+      window.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("pagehide", report);
+    };
+  }, [containerRef, enabled, pageCount, debounceMs]);
+}
@@ -0,0 +1,69 @@
+"use client";
+
+/**
+ * useScrollRestoration Hook
+ * Returns the window to its last scroll position when a long list is
+ * reached again with the browser's back/forward buttons
+ */
+
+import { useEffect, useRef } from "react";
+import { VIRTUAL_GRID } from "@/lib/constants";
+
+const STORAGE_PREFIX = "scroll-position:";
+
+// Set by back/forward navigation and cleared by any click, so a list
+// opened from a link starts at the top
+let isHistoryNavigation = false;
+
+if (typeof window !== "undefined") {
+  window.addEventListener("popstate", () => {
+    isHistoryNavigation = true;
+  });
+  document.addEventListener(
+    "click",
+    () => {
+      isHistoryNavigation = false;
+    },
+    true
+  );
+}
+
+/**
+ * Save and restore the window scroll position for a list
+ *
+ * @param key - Identifies the list (and its filters) in sessionStorage
+ * @param ready - Whether the list is rendered tall enough to scroll back to
+ *   the saved position - positions are only saved after that, too
+ */
+export function useScrollRestoration(key: string, ready: boolean) {
+  // Captured at mount - later renders of the same list are not navigation
+  const shouldRestoreRef = useRef<boolean | null>(null);
+
+  useEffect(() => {
+    if (shouldRestoreRef.current === null) {
+      shouldRestoreRef.current = isHistoryNavigation;
+    }
+    if (!ready) return;
+
+    const storageKey = STORAGE_PREFIX + key;
+    if (shouldRestoreRef.current) {
+      shouldRestoreRef.current = false;
+      const top = Number(sessionStorage.getItem(storageKey));
+      if (top > 0) window.scrollTo({ top });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const savePosition = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        sessionStorage.setItem(storageKey, String(window.scrollY));
+      }, VIRTUAL_GRID.SAVE_POSITION_DELAY);
+    };
+
+    window.addEventListener("scroll", savePosition, { passive: true });
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("scroll", savePosition);
+    };
+  }, [key, ready]);
+}
@@ -0,0 +1,52 @@
+/**
+ * useSearchManga Hook
+ * Data fetching hook for the /search results page
+ */
+
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { mangaApi } from "@/lib/api/endpoints/manga";
+import { searchKeys } from "@/lib/api/query-keys";
+import { STALE_TIMES } from "@/lib/constants";
+import {
+  buildFilteredSearchParams,
+  buildSearchApiParams,
+  hasSearchFilters,
+  type SearchFilterValues,
+} from "@/lib/utils/search-filters";
+
+/**
+ * Fetch one page of search results
+ * Shared by the hook and the /search server page prefetch
+ */
+export function fetchSearchResults(
+  query: string,
+  filters: SearchFilterValues,
+  page: number,
+  signal?: AbortSignal
+) {
+  return hasSearchFilters(filters)
+    ? mangaApi.getList(buildFilteredSearchParams(query, filters, page), signal)
+    : mangaApi.search(buildSearchApiParams(query, page), signal);
+}
+
+/**
+ * Hook for fetching search results
+ * Disabled until the query has at least 2 characters (same as SearchBar)
+ *
+ * @param query - Search keywords
+ * @param filters - Active filters
+ * @param page - Current page number
+ */
+export function useSearchManga(
+  query: string,
+  filters: SearchFilterValues,
+  page: number
+) {
+  return useQuery({
+    queryKey: searchKeys.results(query, filters, page),
+    queryFn: ({ signal }) => fetchSearchResults(query, filters, page, signal),
+    enabled: query.length >= 2,
+    staleTime: STALE_TIMES.DEFAULT,
+    placeholderData: keepPreviousData,
+  });
+}
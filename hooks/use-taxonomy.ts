@@ -0,0 +1,60 @@
+/**
+ * useTaxonomy Hooks
+ * Data fetching hooks for artist, group and doujinshi pages
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { taxonomyApi } from "@/lib/api/endpoints/manga";
+import { taxonomyKeys } from "@/lib/api/query-keys";
+import { PAGE_SIZES, STALE_TIMES } from "@/lib/constants";
+import type { TaxonomyType } from "@/types/manga";
+
+/**
+ * Hook for fetching a paginated, searchable taxonomy index
+ */
+export function useTaxonomyList(
+  type: TaxonomyType,
+  search: string,
+  page: number
+) {
+  return useQuery({
+    queryKey: taxonomyKeys.list(type, search, page),
+    queryFn: () =>
+      taxonomyApi[type].getList({
+        search: search || undefined,
+        page,
+        per_page: PAGE_SIZES.TAXONOMY_LIST,
+      }),
+    staleTime: STALE_TIMES.LONG,
+  });
+}
+
+/**
+ * Hook for fetching a single artist/group/doujinshi
+ */
+export function useTaxonomyDetail(type: TaxonomyType, slug: string) {
+  return useQuery({
+    queryKey: taxonomyKeys.detail(type, slug),
+    queryFn: () => taxonomyApi[type].getDetail(slug),
+    staleTime: STALE_TIMES.LONG,
+  });
+}
+
+/**
+ * Hook for fetching mangas of an artist/group/doujinshi
+ */
+export function useTaxonomyMangas(
+  type: TaxonomyType,
+  slug: string,
+  page: number
+) {
+  return useQuery({
+    queryKey: taxonomyKeys.mangas(type, slug, page),
+    queryFn: () =>
+      taxonomyApi[type].getMangas(slug, {
+        page,
+        per_page: PAGE_SIZES.MANGA_GRID,
+      }),
+    staleTime: STALE_TIMES.DEFAULT,
+  });
+}
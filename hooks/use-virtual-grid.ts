@@ -0,0 +1,186 @@
+"use client";
+
+/**
+ * useVirtualGrid Hook
+ * Window-scrolled virtualization for responsive card grids - only rows near
+ * the viewport are rendered, the rest of the grid is padding
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+  type RefObject,
+} from "react";
+import { VIRTUAL_GRID } from "@/lib/constants";
+
+export interface GridColumns {
+  default?: number;
+  sm?: number;
+  md?: number;
+  lg?: number;
+  xl?: number;
+}
+
+// Tailwind's default breakpoints, smallest first
+const BREAKPOINTS = [
+  ["sm", 640],
+  ["md", 768],
+  ["lg", 1024],
+  ["xl", 1280],
+] as const;
+
+/**
+ * Column count the matching `grid-cols-*` classes give at a viewport width
+ */
+export function getColumnCount(columns: GridColumns, width: number): number {
+  let count = columns.default ?? 1;
+  for (const [breakpoint, minWidth] of BREAKPOINTS) {
+    const value = columns[breakpoint];
+    if (value && width >= minWidth) count = value;
+  }
+  return count;
+}
+
+const subscribeToResize = (onChange: () => void) => {
+  window.addEventListener("resize", onChange);
+  return () => window.removeEventListener("resize", onChange);
+};
+
+/**
+ * Current column count of a responsive grid, `columns.default` on the
+ * server and during hydration
+ *
+ * @param columns - Must be stable - define it outside the component
+ */
+export function useColumnCount(columns: GridColumns): number {
+  return useSyncExternalStore(
+    subscribeToResize,
+    () => getColumnCount(columns, window.innerWidth),
+    () => columns.default ?? 1
+  );
+}
+
+// Measured row heights by grid and column count, so a grid mounted again
+// (back navigation) lays out at the right height before measuring
+const rowHeightCache = new Map<string, number>();
+
+interface UseVirtualGridOptions {
+  containerRef: RefObject<HTMLElement | null>;
+  itemCount: number;
+  /** Must be stable - define it outside the component */
+  columns: GridColumns;
+  /** Row height (cards plus gap) until a row is measured */
+  estimateRowHeight: number;
+  /** Identifies the grid for the row height cache */
+  cacheKey?: string;
+}
+
+interface GridWindow {
+  columnCount: number;
+  firstRow: number;
+  lastRow: number;
+}
+
+/**
+ * Track which rows of a grid are near the viewport
+ *
+ * @returns Visible row range, row height for the padding above/below, and
+ *   a ref callback for measuring a rendered row
+ */
+export function useVirtualGrid({
+  containerRef,
+  itemCount,
+  columns,
+  estimateRowHeight,
+  cacheKey = "",
+}: UseVirtualGridOptions) {
+  // Until the viewport is known, render like the server did
+  const [gridWindow, setGridWindow] = useState<GridWindow>(() => ({
+    columnCount: columns.default ?? 1,
+    firstRow: 0,
+    lastRow: VIRTUAL_GRID.INITIAL_ROWS - 1,
+  }));
+  const [measured, setMeasured] = useState<Record<number, number>>({});
+
+  const { columnCount } = gridWindow;
+  const rowHeight =
+    measured[columnCount] ??
+    rowHeightCache.get(`${cacheKey}:${columnCount}`) ??
+    estimateRowHeight;
+
+  useEffect(() => {
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) return;
+
+      // Pixels of the grid scrolled above the viewport (negative: below it)
+      const scrolled = -container.getBoundingClientRect().top;
+      const next: GridWindow = {
+        columnCount: getColumnCount(columns, window.innerWidth),
+        firstRow: Math.max(
+          0,
+          Math.floor(scrolled / rowHeight) - VIRTUAL_GRID.OVERSCAN_ROWS
+        ),
+        lastRow: Math.max(
+          0,
+          Math.floor((scrolled + window.innerHeight) / rowHeight) +
+            VIRTUAL_GRID.OVERSCAN_ROWS
+        ),
+      };
+
+      setGridWindow((current) =>
+        current.columnCount === next.columnCount &&
+        current.firstRow === next.firstRow &&
+        current.lastRow === next.lastRow
+          ? current
+          : next
+      );
+    };
+
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    // Item count changes move content below the grid, so re-check then too
+    scheduleUpdate();
+    window.addEventListener("scroll", scheduleUpdate, { passive: true });
+    window.addEventListener("resize", scheduleUpdate);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", scheduleUpdate);
+      window.removeEventListener("resize", scheduleUpdate);
+    };
+  }, [containerRef, columns, rowHeight, itemCount]);
+
+  // Cards in a row share a width, so one rendered row stands for all
+  const measureRow = useCallback(
+    (row: HTMLElement | null) => {
+      if (!row) return;
+
+      const observer = new ResizeObserver(([entry]) => {
+        const height = entry.borderBoxSize[0]?.blockSize;
+        if (!height) return;
+        rowHeightCache.set(`${cacheKey}:${columnCount}`, height);
+        setMeasured((current) =>
+          current[columnCount] === height
+            ? current
+            : { ...current, [columnCount]: height }
+        );
+      });
+      observer.observe(row);
+      return () => observer.disconnect();
+    },
+    [cacheKey, columnCount]
+  );
+
+  const totalRows = Math.ceil(itemCount / columnCount);
+  const lastRow = Math.min(gridWindow.lastRow, totalRows - 1);
+  const firstRow = Math.max(0, Math.min(gridWindow.firstRow, lastRow));
+
+  return { columnCount, firstRow, lastRow, totalRows, rowHeight, measureRow };
+}
@@ -0,0 +1,137 @@
+"use client";
+
+/**
+ * useVirtualList Hook
+ * Virtualization for a scrollable element holding rows of known heights -
+ * only rows in (or near) its viewport are rendered
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type RefObject,
+} from "react";
+
+interface UseVirtualListOptions {
+  /** The element with `overflow-y: auto` */
+  scrollRef: RefObject<HTMLElement | null>;
+  /** Height of each row in px */
+  rowHeights: number[];
+  /** Extra px rendered above and below the viewport */
+  overscan?: number;
+  /** Viewport height assumed before the element is measured */
+  initialHeight?: number;
+}
+
+/**
+ * Index of the row containing `position`, given each row's top offset
+ */
+function findRow(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Track which rows of a scrollable list are visible
+ *
+ * @returns Visible row range, its offset from the top, the full height to
+ *   reserve, and a function scrolling a row into view
+ */
+export function useVirtualList({
+  scrollRef,
+  rowHeights,
+  overscan = 200,
+  initialHeight = 500,
+}: UseVirtualListOptions) {
+  const [viewport, setViewport] = useState({
+    scrollTop: 0,
+    height: initialHeight,
+  });
+
+  // Top offset of every row, plus the total height at the end
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const height of rowHeights) {
+      result.push(result[result.length - 1] + height);
+    }
+    return result;
+  }, [rowHeights]);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const next = {
+        scrollTop: element.scrollTop,
+        height: element.clientHeight,
+      };
+      setViewport((current) =>
+        current.scrollTop === next.scrollTop && current.height === next.height
+          ? current
+          : next
+      );
+    };
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    const observer = new ResizeObserver(scheduleUpdate);
+    observer.observe(element);
+    element.addEventListener("scroll", scheduleUpdate, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      element.removeEventListener("scroll", scheduleUpdate);
+    };
+  }, [scrollRef]);
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const element = scrollRef.current;
+      if (!element || index < 0 || index >= rowHeights.length) return;
+      // Keep the row clear of the top edge, with the row above in view
+      const top = offsets[Math.max(0, index - 1)];
+      element.scrollTo({ top, behavior: "smooth" });
+    },
+    [scrollRef, offsets, rowHeights.length]
+  );
+
+  const totalHeight = offsets[offsets.length - 1];
+  const rowCount = rowHeights.length;
+  const startIndex =
+    rowCount > 0
+      ? Math.min(
+          findRow(offsets, Math.max(0, viewport.scrollTop - overscan)),
+          rowCount - 1
+        )
+      : 0;
+  const endIndex =
+    rowCount > 0
+      ? Math.min(
+          findRow(offsets, viewport.scrollTop + viewport.height + overscan),
+          rowCount - 1
+        )
+      : -1;
+
+  return {
+    startIndex,
+    endIndex,
+    offsetTop: offsets[startIndex] ?? 0,
+    totalHeight,
+    scrollToIndex,
+  };
+}
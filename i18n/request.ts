@@ -1,6 +1,8 @@
+import { cookies, headers } from "next/headers";
 import { getRequestConfig } from "next-intl/server";
 
-import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { LOCALE_COOKIE, LOCALE_HEADER } from "@/lib/i18n/config";
+import { resolveLocale } from "@/lib/i18n/resolve-locale";
 
 /**
  * i18n Request Configuration
@@ -8,9 +10,11 @@ import { DEFAULT_LOCALE } from "@/lib/i18n/config";
  * This configuration is called once per request and provides the messages
  * for the current locale to Server Components.
  *
- * Default locale is configured via NEXT_PUBLIC_DEFAULT_LOCALE environment variable.
- * To add more locales in the future, replace the hardcoded locale
- * with dynamic locale detection.
+ * The locale is resolved per request (see lib/i18n/resolve-locale.ts):
+ * 1. `?lang=` query param, forwarded by middleware as the x-locale header
+ * 2. NEXT_LOCALE cookie set by the language switcher
+ * 3. Browser Accept-Language header
+ * 4. NEXT_PUBLIC_DEFAULT_LOCALE
  *
  * Usage in Server Components:
  * ```tsx
@@ -23,12 +27,13 @@ import { DEFAULT_LOCALE } from "@/lib/i18n/config";
  * ```
  */
 export default getRequestConfig(async () => {
-  // Default locale from environment configuration
-  // In the future, this can be made dynamic:
-  // - From URL parameter (e.g., /vi/home, /en/home)
-  // - From cookies (user preference)
-  // - From browser Accept-Language header
-  const locale = DEFAULT_LOCALE;
+  const [headerStore, cookieStore] = await Promise.all([headers(), cookies()]);
+
+  const locale = resolveLocale({
+    param: headerStore.get(LOCALE_HEADER),
+    cookie: cookieStore.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: headerStore.get("accept-language"),
+  });
 
   return {
     locale,
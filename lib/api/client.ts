@@ -1,38 +1,43 @@
 /**
  * API Client
- * Fetch wrapper with authentication, error handling, and retry logic
+ * Fetch wrapper with authentication, session refresh, error handling, retry
+ * logic, cancellation, GET deduplication and interceptors
  */
 
 import { useAuthStore } from "@/lib/store/authStore";
 import type { ApiResponse, ApiError } from "@/types/api";
+import type { SessionResponse } from "@/types/user";
 import {
   API_BASE_URL,
+  API_PROXY_URL,
+  AUTH_SESSION_URL,
   DEFAULT_HEADERS,
   REQUEST_TIMEOUT,
   RETRY_CONFIG,
 } from "./config";
+import {
+  runRequestInterceptors,
+  runResponseInterceptors,
+  type ApiRequest,
+} from "./interceptors";
+import { ApiClientError, parseRetryAfter, toApiClientError } from "./errors";
 
-/**
- * Custom error class for API errors
- */
-export class ApiClientError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public errors?: Record<string, string[]>
-  ) {
-    super(message);
-    this.name = "ApiClientError";
-  }
-}
+export { ApiClientError } from "./errors";
 
 /**
  * Extended fetch options
+ * `signal` is combined with the timeout, so React Query cancellation works
  */
-interface FetchOptions extends RequestInit {
+export interface FetchOptions extends RequestInit {
   skipAuth?: boolean;
   timeout?: number;
   retries?: number;
+  /** Bearer token for server-side calls (see lib/auth/session.ts) */
+  token?: string;
+  /** Override the base URL, e.g. for same-origin route handlers */
+  baseUrl?: string;
+  /** Share identical in-flight GETs in the browser (default true) */
+  dedupe?: boolean;
 }
 
 /**
@@ -64,6 +69,7 @@ const shouldRetry = (
 
 /**
  * Make fetch request with timeout
+ * Aborts on whichever comes first: the timeout or the caller's signal
  */
 async function fetchWithTimeout(
   url: string,
@@ -71,7 +77,19 @@ async function fetchWithTimeout(
   timeout: number
 ): Promise<Response> {
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const timeoutId = setTimeout(
+    () =>
+      controller.abort(new DOMException("Request timed out", "TimeoutError")),
+    timeout
+  );
+
+  const callerSignal = options.signal;
+  const onAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onAbort();
+  } else {
+    callerSignal?.addEventListener("abort", onAbort, { once: true });
+  }
 
   try {
     const response = await fetch(url, {
@@ -81,6 +99,7 @@ async function fetchWithTimeout(
     return response;
   } finally {
     clearTimeout(timeoutId);
+    callerSignal?.removeEventListener("abort", onAbort);
   }
 }
 
@@ -109,6 +128,9 @@ async function fetchWithRetry(
     await sleep(delay);
     return fetchWithRetry(url, options, attempt + 1);
   } catch (error) {
+    // Cancelled by the caller - never retry
+    if (options.signal?.aborted) throw error;
+
     // Network error or timeout
     if (
       shouldRetry(undefined, options.method || "GET", attempt) &&
@@ -124,33 +146,37 @@ async function fetchWithRetry(
 
 /**
  * Process fetch response and handle errors
+ * Failed responses throw an ApiClientError whose `kind` is derived from the
+ * status; 429s also carry `retryAfter`
  */
 async function processResponse<T>(response: Response): Promise<T> {
   const contentType = response.headers.get("content-type");
   const isJson = contentType?.includes("application/json");
 
   if (!response.ok) {
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+
     // Try to parse error response
     if (isJson) {
       const errorData: ApiError = await response.json();
-
-      // Handle 401 Unauthorized - auto logout
-      if (response.status === 401) {
-        useAuthStore.getState().logout();
-        // Note: Redirect should be handled by the component, not here
-        // This prevents SSR issues with location/window
-      }
-
       throw new ApiClientError(
         errorData.message || "API request failed",
         response.status,
-        errorData.errors
+        errorData.errors,
+        undefined,
+        retryAfter
       );
     }
 
     // Non-JSON error
     const text = await response.text();
-    throw new ApiClientError(text || response.statusText, response.status);
+    throw new ApiClientError(
+      text || response.statusText,
+      response.status,
+      undefined,
+      undefined,
+      retryAfter
+    );
   }
 
   // Parse successful response
@@ -173,28 +199,261 @@ async function processResponse<T>(response: Response): Promise<T> {
 }
 
 /**
- * Build request headers with authentication
+ * Outcome of a session refresh
+ * - refreshed: new token issued, requests can be replayed
+ * - expired: refresh token rejected, the user has been logged out
+ * - unavailable: there was no refresh token, the user has been logged out
+ * - failed: refresh couldn't be attempted (network/server error)
+ */
+export type RefreshResult = "refreshed" | "expired" | "unavailable" | "failed";
+
+/**
+ * In-flight session refresh - shared so concurrent 401s trigger one refresh
+ */
+let refreshPromise: Promise<RefreshResult> | null = null;
+
+/**
+ * Exchange the refresh cookie for a new API token via /api/auth/refresh
+ * Concurrent callers share the same refresh. A rejected or missing refresh
+ * token ends the session (the route clears its cookies) - a network error
+ * leaves the user logged in.
+ */
+export function refreshSession(): Promise<RefreshResult> {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async (): Promise<RefreshResult> => {
+    try {
+      const response = await fetchWithTimeout(
+        `${AUTH_SESSION_URL}/refresh`,
+        { method: "POST", headers: DEFAULT_HEADERS },
+        REQUEST_TIMEOUT
+      );
+
+      if (response.status === 401) {
+        useAuthStore.getState().expireSession();
+        return "expired";
+      }
+      if (response.status === 400) {
+        useAuthStore.getState().expireSession();
+        return "unavailable";
+      }
+      if (!response.ok) return "failed";
+
+      const { data }: ApiResponse<SessionResponse> = await response.json();
+      const store = useAuthStore.getState();
+      if (data?.user) {
+        store.setAuth(data.user);
+      } else {
+        store.setLastValidated(Date.now());
+      }
+      return "refreshed";
+    } catch (error) {
+      console.error("[Auth] Session refresh failed:", error);
+      return "failed";
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+}
+
+/**
+ * Whether a request rides on the browser session (auth cookie via the proxy)
+ * and can therefore be retried after a session refresh
+ */
+function usesSession(options: FetchOptions): boolean {
+  return (
+    typeof window !== "undefined" &&
+    !options.skipAuth &&
+    !options.token &&
+    !options.baseUrl &&
+    useAuthStore.getState().isAuthenticated
+  );
+}
+
+/**
+ * Identical GETs currently in flight, keyed by method and URL
+ * The shared request is only aborted once every caller has cancelled - a
+ * caller without a signal pins it until it settles
+ */
+const inFlightGets = new Map<
+  string,
+  {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+    pinned: boolean;
+  }
+>();
+
+/**
+ * Run `execute` once per key and share the result with concurrent callers
+ * Each caller's signal only cancels its own subscription
+ */
+function dedupe<T>(
+  key: string,
+  execute: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal | null
+): Promise<T> {
+  let entry = inFlightGets.get(key);
+
+  if (!entry) {
+    const controller = new AbortController();
+    const created = {
+      promise: execute(controller.signal) as Promise<unknown>,
+      controller,
+      subscribers: 0,
+      pinned: false,
+    };
+    const cleanup = () => {
+      if (inFlightGets.get(key) === created) inFlightGets.delete(key);
+    };
+    created.promise.then(cleanup, cleanup);
+    inFlightGets.set(key, created);
+    entry = created;
+  }
+
+  const shared = entry;
+  if (!signal) {
+    shared.pinned = true;
+    return shared.promise as Promise<T>;
+  }
+
+  shared.subscribers++;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.subscribers--;
+      if (shared.subscribers === 0 && !shared.pinned) {
+        if (inFlightGets.get(key) === shared) inFlightGets.delete(key);
+        shared.controller.abort(signal.reason);
+      }
+      reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    (shared.promise as Promise<T>)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Build the outgoing request and let the request interceptors adjust it
+ * Caller headers override the defaults; FormData bodies get no Content-Type
+ * so the browser can set the multipart boundary
  */
-function buildHeaders(skipAuth: boolean = false): HeadersInit {
-  const headers: HeadersInit = { ...DEFAULT_HEADERS };
+async function prepareRequest(
+  url: string,
+  init: RequestInit,
+  options: FetchOptions
+): Promise<ApiRequest> {
+  const headers = new Headers(DEFAULT_HEADERS);
+  if (init.body instanceof FormData) {
+    headers.delete("Content-Type");
+  }
+  new Headers(options.headers).forEach((value, name) => {
+    headers.set(name, value);
+  });
+
+  return runRequestInterceptors({
+    url,
+    init: { ...options, ...init, headers },
+    options,
+    startedAt: performance.now(),
+  });
+}
 
-  if (!skipAuth) {
-    const token = useAuthStore.getState().token;
-    if (token) {
-      headers.Authorization = `Bearer ${token}`;
+/**
+ * Send a request and process its response
+ * Session requests wait for an in-flight refresh before going out, and a 401
+ * triggers one refresh and a single replay. Browser GETs are deduplicated.
+ */
+async function request<T>(
+  endpoint: string,
+  init: RequestInit,
+  options: FetchOptions
+): Promise<T> {
+  const canRefresh = usesSession(options);
+
+  const execute = async (signal?: AbortSignal | null): Promise<T> => {
+    const attempt = async () => {
+      const apiRequest = await prepareRequest(
+        buildUrl(endpoint, options),
+        { ...init, signal },
+        options
+      );
+      const response = await fetchWithRetry(apiRequest.url, {
+        ...options,
+        ...apiRequest.init,
+      });
+      return runResponseInterceptors(response, apiRequest);
+    };
+
+    // Network failures and timeouts become typed errors; caller
+    // cancellation is rethrown untouched so React Query recognizes it
+    const send = () =>
+      attempt().catch((error: unknown) => {
+        if (signal?.aborted) throw error;
+        throw toApiClientError(error);
+      });
+
+    if (canRefresh && refreshPromise) {
+      await refreshPromise;
     }
+
+    let response = await send();
+
+    if (response.status === 401 && canRefresh) {
+      const result = await refreshSession();
+      if (result === "refreshed") {
+        response = await send();
+      }
+    }
+
+    return processResponse<T>(response);
+  };
+
+  const shouldDedupe =
+    init.method === "GET" &&
+    options.dedupe !== false &&
+    typeof window !== "undefined";
+
+  if (shouldDedupe) {
+    return dedupe(
+      `GET ${buildUrl(endpoint, options)}`,
+      execute,
+      options.signal
+    );
   }
 
-  return headers;
+  return execute(options.signal);
 }
 
 /**
  * Build full URL
+ * Authenticated browser requests go through the same-origin proxy so the
+ * auth cookie is attached
  */
-function buildUrl(endpoint: string): string {
+function buildUrl(endpoint: string, options: FetchOptions = {}): string {
   // Remove leading slash if present
   const cleanEndpoint = endpoint.startsWith("/") ? endpoint.slice(1) : endpoint;
-  return `${API_BASE_URL}/${cleanEndpoint}`;
+
+  if (options.baseUrl) {
+    return `${options.baseUrl}/${cleanEndpoint}`;
+  }
+
+  const useProxy =
+    typeof window !== "undefined" &&
+    !options.skipAuth &&
+    useAuthStore.getState().isAuthenticated;
+
+  return `${useProxy ? API_PROXY_URL : API_BASE_URL}/${cleanEndpoint}`;
 }
 
 /**
@@ -205,16 +464,7 @@ export const apiClient = {
    * GET request
    */
   async get<T>(endpoint: string, options: FetchOptions = {}): Promise<T> {
-    const url = buildUrl(endpoint);
-    const headers = buildHeaders(options.skipAuth);
-
-    const response = await fetchWithRetry(url, {
-      method: "GET",
-      headers,
-      ...options,
-    });
-
-    return processResponse<T>(response);
+    return request<T>(endpoint, { method: "GET" }, options);
   },
 
   /**
@@ -225,17 +475,11 @@ export const apiClient = {
     body?: unknown,
     options: FetchOptions = {}
   ): Promise<T> {
-    const url = buildUrl(endpoint);
-    const headers = buildHeaders(options.skipAuth);
-
-    const response = await fetchWithRetry(url, {
-      method: "POST",
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-      ...options,
-    });
-
-    return processResponse<T>(response);
+    return request<T>(
+      endpoint,
+      { method: "POST", body: body ? JSON.stringify(body) : undefined },
+      options
+    );
   },
 
   /**
@@ -246,33 +490,18 @@ export const apiClient = {
     body?: unknown,
     options: FetchOptions = {}
   ): Promise<T> {
-    const url = buildUrl(endpoint);
-    const headers = buildHeaders(options.skipAuth);
-
-    const response = await fetchWithRetry(url, {
-      method: "PUT",
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-      ...options,
-    });
-
-    return processResponse<T>(response);
+    return request<T>(
+      endpoint,
+      { method: "PUT", body: body ? JSON.stringify(body) : undefined },
+      options
+    );
   },
 
   /**
    * DELETE request
    */
   async delete<T>(endpoint: string, options: FetchOptions = {}): Promise<T> {
-    const url = buildUrl(endpoint);
-    const headers = buildHeaders(options.skipAuth);
-
-    const response = await fetchWithRetry(url, {
-      method: "DELETE",
-      headers,
-      ...options,
-    });
-
-    return processResponse<T>(response);
+    return request<T>(endpoint, { method: "DELETE" }, options);
   },
 
   /**
@@ -283,23 +512,7 @@ export const apiClient = {
     formData: FormData,
     options: FetchOptions = {}
   ): Promise<T> {
-    const url = buildUrl(endpoint);
-    const token = useAuthStore.getState().token;
-
-    const headers: HeadersInit = {};
-    if (token && !options.skipAuth) {
-      headers.Authorization = `Bearer ${token}`;
-    }
-    // Don't set Content-Type for FormData - browser will set it with boundary
-
-    const response = await fetchWithRetry(url, {
-      method: "POST",
-      headers,
-      body: formData,
-      ...options,
-    });
-
-    return processResponse<T>(response);
+    return request<T>(endpoint, { method: "POST", body: formData }, options);
   },
 
   /**
@@ -310,22 +523,6 @@ export const apiClient = {
     formData: FormData,
     options: FetchOptions = {}
   ): Promise<T> {
-    const url = buildUrl(endpoint);
-    const token = useAuthStore.getState().token;
-
-    const headers: HeadersInit = {};
-    if (token && !options.skipAuth) {
-      headers.Authorization = `Bearer ${token}`;
-    }
-    // Don't set Content-Type for FormData - browser will set it with boundary
-
-    const response = await fetchWithRetry(url, {
-      method: "PUT",
-      headers,
-      body: formData,
-      ...options,
-    });
-
-    return processResponse<T>(response);
+    return request<T>(endpoint, { method: "PUT", body: formData }, options);
   },
 };
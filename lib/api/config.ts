@@ -9,6 +9,40 @@
 export const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:8000/api/v1";
 
+/**
+ * Same-origin route handler that logs in/out and owns the auth cookie
+ */
+export const AUTH_SESSION_URL = "/api/auth";
+
+/**
+ * Same-origin proxy for authenticated browser requests - it attaches the
+ * bearer token from the httpOnly auth cookie
+ */
+export const API_PROXY_URL = "/api/backend";
+
+/**
+ * In-memory push API for local development (app/api/push-mock)
+ * Enabled with NEXT_PUBLIC_PUSH_MOCK=true when the backend has no push support
+ */
+export const PUSH_MOCK_URL =
+  process.env.NEXT_PUBLIC_PUSH_MOCK === "true" ? "/api/push-mock" : undefined;
+
+/**
+ * Equipping achievements and pets (PUT /user/{achievements,pets}/{id}/equip)
+ * isn't in the API yet - enable with NEXT_PUBLIC_COLLECTION_EQUIP=true once
+ * the backend has it
+ */
+export const COLLECTION_EQUIP_ENABLED =
+  process.env.NEXT_PUBLIC_COLLECTION_EQUIP === "true";
+
+/**
+ * Saving the UI language to the profile (`locale` on PUT /auth/profile)
+ * isn't in the API yet - enable with NEXT_PUBLIC_PROFILE_LOCALE=true once
+ * the backend stores it. Until then the choice stays in the locale cookie.
+ */
+export const PROFILE_LOCALE_ENABLED =
+  process.env.NEXT_PUBLIC_PROFILE_LOCALE === "true";
+
 /**
  * API version
  */
@@ -29,6 +63,11 @@ export const RETRY_CONFIG = {
   retryMethods: ["GET"], // Only retry GET requests by default
 };
 
+/**
+ * Share of browser API requests whose timing is reported to analytics
+ */
+export const API_METRICS_SAMPLE_RATE = 0.05;
+
 /**
  * Default cache configuration for Next.js fetch
  */
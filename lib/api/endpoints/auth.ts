@@ -4,9 +4,10 @@
  */
 
 import { apiClient } from "../client";
+import { AUTH_SESSION_URL } from "../config";
 import type {
   User,
-  AuthResponse,
+  SessionResponse,
   LoginCredentials,
   RegisterData,
   GoogleAuthData,
@@ -19,31 +20,34 @@ import type {
 export const authApi = {
   /**
    * Login with email and password
-   * POST /auth/login
+   * POST /api/auth/login -> POST /auth/login (sets the auth cookie)
    */
-  login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
-    return apiClient.post<AuthResponse>("/auth/login", credentials, {
+  login: async (credentials: LoginCredentials): Promise<SessionResponse> => {
+    return apiClient.post<SessionResponse>("/login", credentials, {
       skipAuth: true,
+      baseUrl: AUTH_SESSION_URL,
     });
   },
 
   /**
    * Register new user account
-   * POST /auth/register
+   * POST /api/auth/register -> POST /auth/register (sets the auth cookie)
    */
-  register: async (data: RegisterData): Promise<AuthResponse> => {
-    return apiClient.post<AuthResponse>("/auth/register", data, {
+  register: async (data: RegisterData): Promise<SessionResponse> => {
+    return apiClient.post<SessionResponse>("/register", data, {
       skipAuth: true,
+      baseUrl: AUTH_SESSION_URL,
     });
   },
 
   /**
    * Authenticate with Google OAuth
-   * POST /auth/google
+   * POST /api/auth/google -> POST /auth/google (sets the auth cookie)
    */
-  googleAuth: async (data: GoogleAuthData): Promise<AuthResponse> => {
-    return apiClient.post<AuthResponse>("/auth/google", data, {
+  googleAuth: async (data: GoogleAuthData): Promise<SessionResponse> => {
+    return apiClient.post<SessionResponse>("/google", data, {
       skipAuth: true,
+      baseUrl: AUTH_SESSION_URL,
     });
   },
 
@@ -89,10 +93,13 @@ export const authApi = {
   },
 
   /**
-   * Logout and revoke current access token
-   * POST /auth/logout
+   * Logout, revoke current access token and clear the auth cookie
+   * POST /api/auth/logout -> POST /auth/logout
    */
   logout: async (): Promise<null> => {
-    return apiClient.post<null>("/auth/logout");
+    return apiClient.post<null>("/logout", undefined, {
+      skipAuth: true,
+      baseUrl: AUTH_SESSION_URL,
+    });
   },
 };
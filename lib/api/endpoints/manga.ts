@@ -4,7 +4,9 @@
  */
 
 import { apiClient } from "../client";
+import { fetchAllPages } from "../pagination";
 import { buildQueryString } from "@/lib/utils/query-string";
+import { CHAPTER_LIST } from "@/lib/constants";
 import type { PaginatedResponse } from "@/types/api";
 import type {
   Manga,
@@ -16,6 +18,7 @@ import type {
   Artist,
   Group,
   Doujinshi,
+  TaxonomyType,
 } from "@/types/manga";
 import type { ChapterListItem, ChapterListParams } from "@/types/chapter";
 import type {
@@ -33,10 +36,13 @@ export const mangaApi = {
    * GET /mangas
    */
   getList: async (
-    params?: MangaListParams
+    params?: MangaListParams,
+    signal?: AbortSignal
   ): Promise<PaginatedResponse<MangaListItem>> => {
     const query = buildQueryString(params as Record<string, unknown>);
-    return apiClient.get<PaginatedResponse<MangaListItem>>(`/mangas${query}`);
+    return apiClient.get<PaginatedResponse<MangaListItem>>(`/mangas${query}`, {
+      signal,
+    });
   },
 
   /**
@@ -70,13 +76,15 @@ export const mangaApi = {
    * GET /mangas/search
    */
   search: async (
-    params: MangaSearchParams
+    params: MangaSearchParams,
+    signal?: AbortSignal
   ): Promise<PaginatedResponse<MangaListItem>> => {
     const query = buildQueryString(
       params as unknown as Record<string, unknown>
     );
     return apiClient.get<PaginatedResponse<MangaListItem>>(
-      `/mangas/search${query}`
+      `/mangas/search${query}`,
+      { signal }
     );
   },
 
@@ -102,6 +110,22 @@ export const mangaApi = {
     );
   },
 
+  /**
+   * Get every chapter of a manga, lowest chapter number first
+   * Fetches GET /mangas/{slug}/chapters a few pages at a time
+   */
+  getAllChapters: async (slug: string): Promise<ChapterListItem[]> => {
+    const { data } = await fetchAllPages(
+      (params) => mangaApi.getChapters(slug, { ...params, sort: "asc" }),
+      {
+        perPage: CHAPTER_LIST.PER_PAGE,
+        maxPages: CHAPTER_LIST.MAX_PAGES,
+        concurrency: CHAPTER_LIST.CONCURRENCY,
+      }
+    );
+    return data.sort((a, b) => a.chapter_number - b.chapter_number);
+  },
+
   /**
    * Get comments for a manga
    * GET /mangas/{slug}/comments
@@ -223,6 +247,7 @@ export const groupApi = {
    * GET /groups
    */
   getList: async (params?: {
+    search?: string;
     per_page?: number;
     page?: number;
   }): Promise<PaginatedResponse<Group>> => {
@@ -262,6 +287,7 @@ export const doujinshiApi = {
    * GET /doujinshis
    */
   getList: async (params?: {
+    search?: string;
     per_page?: number;
     page?: number;
   }): Promise<PaginatedResponse<Doujinshi>> => {
@@ -291,3 +317,16 @@ export const doujinshiApi = {
     );
   },
 };
+
+/**
+ * Artist / group / doujinshi APIs by route segment
+ * They share the same list, detail and mangas endpoints
+ */
+export const taxonomyApi: Record<
+  TaxonomyType,
+  typeof artistApi | typeof groupApi | typeof doujinshiApi
+> = {
+  artists: artistApi,
+  groups: groupApi,
+  doujinshis: doujinshiApi,
+};
@@ -1,11 +1,24 @@
 /**
  * User API Endpoints
- * All endpoints related to user features (favorites, history, achievements, pets)
+ * All endpoints related to user features (favorites, history, achievements, pets,
+ * push notifications, shelves)
  */
 
-import { apiClient } from "../client";
+import { apiClient, type FetchOptions } from "../client";
+import { PUSH_MOCK_URL } from "../config";
+import { ApiClientError } from "../errors";
+import { useShelfStore, type ShelfRecord } from "@/lib/store/shelfStore";
 import type { PaginatedResponse } from "@/types/api";
-import type { UserAchievements, UserPets } from "@/types/user";
+import type {
+  Achievement,
+  Pet,
+  PushPreferences,
+  PushSubscriptionRequest,
+  Shelf,
+  ShelfEntry,
+  UserAchievements,
+  UserPets,
+} from "@/types/user";
 import type {
   FavoriteManga,
   AddFavoriteRequest,
@@ -13,7 +26,7 @@ import type {
   RemoveFavoriteResponse,
   CheckFavoriteStatusResponse,
 } from "@/types/manga";
-import type { ReadingHistoryItem } from "@/types/chapter";
+import type { MangaReference, ReadingHistoryItem } from "@/types/chapter";
 
 /**
  * Build query string from params object
@@ -89,13 +102,17 @@ export const userHistoryApi = {
    * Get user's reading history with last read chapter
    * GET /user/histories
    */
-  getList: async (params?: {
-    per_page?: number;
-    page?: number;
-  }): Promise<PaginatedResponse<ReadingHistoryItem>> => {
+  getList: async (
+    params?: {
+      per_page?: number;
+      page?: number;
+    },
+    options?: Pick<FetchOptions, "token">
+  ): Promise<PaginatedResponse<ReadingHistoryItem>> => {
     const query = buildQueryString(params as Record<string, unknown>);
     return apiClient.get<PaginatedResponse<ReadingHistoryItem>>(
-      `/user/histories${query}`
+      `/user/histories${query}`,
+      options
     );
   },
 
@@ -119,6 +136,22 @@ export const userAchievementsApi = {
   get: async (): Promise<UserAchievements> => {
     return apiClient.get<UserAchievements>("/user/achievements");
   },
+
+  /**
+   * Get every achievement, including ones the user hasn't unlocked
+   * GET /achievements (not in the API docs yet - callers fall back to `get`)
+   */
+  getAll: async (): Promise<Achievement[]> => {
+    return apiClient.get<Achievement[]>("/achievements");
+  },
+
+  /**
+   * Display an unlocked achievement on the user's profile
+   * PUT /user/achievements/{id}/equip (behind COLLECTION_EQUIP_ENABLED)
+   */
+  equip: async (id: number): Promise<UserAchievements> => {
+    return apiClient.put<UserAchievements>(`/user/achievements/${id}/equip`);
+  },
 };
 
 /**
@@ -132,4 +165,263 @@ export const userPetsApi = {
   get: async (): Promise<UserPets> => {
     return apiClient.get<UserPets>("/user/pets");
   },
+
+  /**
+   * Get every pet, including ones the user doesn't own
+   * GET /pets (not in the API docs yet - callers fall back to `get`)
+   */
+  getAll: async (): Promise<Pet[]> => {
+    return apiClient.get<Pet[]>("/pets");
+  },
+
+  /**
+   * Set an owned pet as the user's current pet
+   * PUT /user/pets/{id}/equip (behind COLLECTION_EQUIP_ENABLED)
+   */
+  equip: async (id: number): Promise<UserPets> => {
+    return apiClient.put<UserPets>(`/user/pets/${id}/equip`);
+  },
+};
+
+/**
+ * Push endpoints go to the in-memory mock when PUSH_MOCK_URL is set
+ */
+const pushOptions: FetchOptions = PUSH_MOCK_URL
+  ? { baseUrl: PUSH_MOCK_URL }
+  : {};
+
+/**
+ * User Push Notifications API
+ * Not in the API docs yet - run with NEXT_PUBLIC_PUSH_MOCK=true until the
+ * backend ships these endpoints
+ */
+export const userPushApi = {
+  /**
+   * Get the VAPID public key to subscribe with
+   * GET /push/vapid-public-key
+   */
+  getPublicKey: async (): Promise<{ public_key: string }> => {
+    return apiClient.get<{ public_key: string }>(
+      "/push/vapid-public-key",
+      pushOptions
+    );
+  },
+
+  /**
+   * Register this browser's push subscription
+   * POST /user/push/subscriptions
+   */
+  subscribe: async (
+    subscription: PushSubscriptionRequest
+  ): Promise<{ endpoint: string }> => {
+    return apiClient.post<{ endpoint: string }>(
+      "/user/push/subscriptions",
+      subscription,
+      pushOptions
+    );
+  },
+
+  /**
+   * Remove a push subscription
+   * DELETE /user/push/subscriptions?endpoint={endpoint}
+   */
+  unsubscribe: async (endpoint: string): Promise<{ endpoint: string }> => {
+    const query = buildQueryString({ endpoint });
+    return apiClient.delete<{ endpoint: string }>(
+      `/user/push/subscriptions${query}`,
+      pushOptions
+    );
+  },
+
+  /**
+   * Get which bookmarks send new chapter notifications
+   * GET /user/push/preferences
+   */
+  getPreferences: async (): Promise<PushPreferences> => {
+    return apiClient.get<PushPreferences>(
+      "/user/push/preferences",
+      pushOptions
+    );
+  },
+
+  /**
+   * Update new chapter notification preferences
+   * PUT /user/push/preferences
+   */
+  updatePreferences: async (
+    preferences: PushPreferences
+  ): Promise<PushPreferences> => {
+    return apiClient.put<PushPreferences>(
+      "/user/push/preferences",
+      preferences,
+      pushOptions
+    );
+  },
+};
+
+// === Shelves (mock) ===
+// Backed by the local shelf store until the backend ships /user/shelves.
+// Methods keep the async, throw-ApiClientError contract of the real API so
+// hooks and forms won't change when they switch over.
+
+const SHELF_NAME_MAX_LENGTH = 50;
+
+function toShelf(record: ShelfRecord): Shelf {
+  return {
+    ...record,
+    manga_count: useShelfStore.getState().entries[record.id]?.length ?? 0,
+  };
+}
+
+function findShelf(id: string): ShelfRecord {
+  const shelf = useShelfStore.getState().shelves.find((item) => item.id === id);
+  if (!shelf) {
+    throw new ApiClientError("Shelf not found.", 404);
+  }
+  return shelf;
+}
+
+function validateShelfName(name: string, exceptId?: string): string {
+  const trimmed = name.trim();
+  const fail = (message: string) =>
+    new ApiClientError(message, 422, { name: [message] });
+
+  if (!trimmed) {
+    throw fail("The name field is required.");
+  }
+  if (trimmed.length > SHELF_NAME_MAX_LENGTH) {
+    throw fail(
+      `The name may not be greater than ${SHELF_NAME_MAX_LENGTH} characters.`
+    );
+  }
+  const taken = useShelfStore
+    .getState()
+    .shelves.some(
+      (shelf) =>
+        shelf.id !== exceptId &&
+        shelf.name.toLowerCase() === trimmed.toLowerCase()
+    );
+  if (taken) {
+    throw fail("A shelf with this name already exists.");
+  }
+  return trimmed;
+}
+
+/**
+ * User Shelves API
+ */
+export const userShelvesApi = {
+  /**
+   * Get the user's shelves, system shelves first
+   * GET /user/shelves
+   */
+  getList: async (): Promise<Shelf[]> => {
+    return useShelfStore.getState().shelves.map(toShelf);
+  },
+
+  /**
+   * Create a custom shelf
+   * POST /user/shelves
+   */
+  create: async (name: string): Promise<Shelf> => {
+    const valid = validateShelfName(name);
+    return toShelf(useShelfStore.getState().createShelf(valid));
+  },
+
+  /**
+   * Rename a custom shelf
+   * PUT /user/shelves/{id}
+   */
+  rename: async (id: string, name: string): Promise<Shelf> => {
+    if (findShelf(id).system) {
+      throw new ApiClientError("System shelves can't be renamed.", 403);
+    }
+    const valid = validateShelfName(name, id);
+    useShelfStore.getState().renameShelf(id, valid);
+    return toShelf(findShelf(id));
+  },
+
+  /**
+   * Delete a custom shelf and its entries
+   * DELETE /user/shelves/{id}
+   */
+  remove: async (id: string): Promise<{ id: string }> => {
+    if (findShelf(id).system) {
+      throw new ApiClientError("System shelves can't be deleted.", 403);
+    }
+    useShelfStore.getState().deleteShelf(id);
+    return { id };
+  },
+
+  /**
+   * Get the manga on a shelf in the user's order
+   * GET /user/shelves/{id}/mangas
+   */
+  getEntries: async (id: string): Promise<ShelfEntry[]> => {
+    findShelf(id);
+    return useShelfStore.getState().entries[id] ?? [];
+  },
+
+  /**
+   * Get the ids of the shelves a manga is on
+   * GET /user/mangas/{manga_id}/shelves
+   */
+  getMangaShelves: async (mangaId: number): Promise<string[]> => {
+    const { entries } = useShelfStore.getState();
+    return Object.keys(entries).filter((id) =>
+      entries[id].some((entry) => entry.manga.id === mangaId)
+    );
+  },
+
+  /**
+   * Add a manga to a shelf
+   * POST /user/shelves/{id}/mangas
+   */
+  addManga: async (
+    id: string,
+    manga: MangaReference
+  ): Promise<{ shelf_id: string; manga_id: number }> => {
+    findShelf(id);
+    useShelfStore.getState().addManga(id, manga);
+    return { shelf_id: id, manga_id: manga.id };
+  },
+
+  /**
+   * Remove a manga from a shelf
+   * DELETE /user/shelves/{id}/mangas/{manga_id}
+   */
+  removeManga: async (
+    id: string,
+    mangaId: number
+  ): Promise<{ shelf_id: string; manga_id: number }> => {
+    findShelf(id);
+    useShelfStore.getState().removeManga(id, mangaId);
+    return { shelf_id: id, manga_id: mangaId };
+  },
+
+  /**
+   * Move a manga to another shelf (or position on the same shelf)
+   * POST /user/shelves/{id}/mangas/{manga_id}/move
+   */
+  moveManga: async (
+    fromId: string,
+    toId: string,
+    mangaId: number,
+    position?: number
+  ): Promise<{ shelf_id: string; manga_id: number }> => {
+    findShelf(fromId);
+    findShelf(toId);
+    useShelfStore.getState().moveManga(mangaId, fromId, toId, position);
+    return { shelf_id: toId, manga_id: mangaId };
+  },
+
+  /**
+   * Save the order of a shelf
+   * PUT /user/shelves/{id}/order
+   */
+  reorder: async (id: string, mangaIds: number[]): Promise<ShelfEntry[]> => {
+    findShelf(id);
+    useShelfStore.getState().reorderShelf(id, mangaIds);
+    return useShelfStore.getState().entries[id] ?? [];
+  },
 };
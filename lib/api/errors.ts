@@ -0,0 +1,139 @@
+/**
+ * API Errors
+ * Typed API error kinds and helpers for turning them into UI feedback
+ */
+
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
+
+/**
+ * What went wrong, independent of the exact status code
+ * - network: request never reached the server
+ * - timeout: no response within REQUEST_TIMEOUT
+ * - validation: 422 with field `errors`
+ * - auth: 401/403
+ * - rate-limited: 429, see `retryAfter`
+ * - not-found: 404
+ * - server: 5xx
+ * - unknown: any other failure
+ */
+export type ApiErrorKind =
+  | "network"
+  | "timeout"
+  | "validation"
+  | "auth"
+  | "rate-limited"
+  | "not-found"
+  | "server"
+  | "unknown";
+
+/**
+ * Custom error class for API errors
+ */
+export class ApiClientError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public errors?: Record<string, string[]>,
+    public kind: ApiErrorKind = getErrorKind(status),
+    /** Seconds to wait before retrying, from the Retry-After header */
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ApiClientError";
+  }
+}
+
+/**
+ * Map an HTTP status to an error kind
+ */
+export function getErrorKind(status?: number): ApiErrorKind {
+  if (!status) return "unknown";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not-found";
+  if (status === 422) return "validation";
+  if (status === 429) return "rate-limited";
+  if (status >= 500) return "server";
+  return "unknown";
+}
+
+/**
+ * Parse a Retry-After header - either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Normalize anything thrown by apiClient into an ApiClientError
+ * fetch rejects with TypeError when offline and with our TimeoutError reason
+ * when the timeout fires
+ */
+export function toApiClientError(error: unknown): ApiClientError {
+  if (error instanceof ApiClientError) return error;
+
+  if (error instanceof DOMException && error.name === "TimeoutError") {
+    return new ApiClientError(error.message, undefined, undefined, "timeout");
+  }
+
+  if (error instanceof TypeError) {
+    return new ApiClientError(error.message, undefined, undefined, "network");
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new ApiClientError(message);
+}
+
+/**
+ * Message key under the `errors` namespace for each kind
+ */
+export const API_ERROR_MESSAGE_KEYS: Record<ApiErrorKind, string> = {
+  network: "network",
+  timeout: "timeout",
+  validation: "validation",
+  auth: "unauthorized",
+  "rate-limited": "rateLimited",
+  "not-found": "notFound",
+  server: "serverError",
+  unknown: "general",
+};
+
+/**
+ * Copy Laravel-style `errors` (`{ field: [messages] }`) onto react-hook-form
+ * fields. Pass `fields` to skip errors for fields the form doesn't render.
+ * Returns true if at least one field error was set.
+ *
+ * @example
+ * if (!applyFieldErrors(result.error, form.setError, ["email", "password"])) {
+ *   toast.error(getErrorMessage(result.error));
+ * }
+ */
+export function applyFieldErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields?: readonly Path<T>[]
+): boolean {
+  if (!(error instanceof ApiClientError) || !error.errors) return false;
+
+  const entries = Object.entries(error.errors).filter(
+    ([field, messages]) =>
+      messages.length > 0 &&
+      (!fields || (fields as readonly string[]).includes(field))
+  );
+
+  entries.forEach(([field, messages], index) => {
+    setError(
+      field as Path<T>,
+      { type: "server", message: messages[0] },
+      { shouldFocus: index === 0 }
+    );
+  });
+
+  return entries.length > 0;
+}
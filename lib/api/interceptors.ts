@@ -0,0 +1,152 @@
+/**
+ * API Interceptors
+ * Request/response hooks that apiClient runs around every fetch attempt
+ *
+ * Request interceptors mutate the outgoing request (headers, init) in
+ * registration order. Response interceptors see every response - including
+ * errors - and may return a replacement Response.
+ */
+
+import type { FetchOptions } from "./client";
+import { API_METRICS_SAMPLE_RATE } from "./config";
+
+/**
+ * Outgoing request as seen by interceptors
+ */
+export interface ApiRequest {
+  url: string;
+  init: RequestInit & { headers: Headers };
+  options: FetchOptions;
+  /** performance.now() when the request was prepared */
+  startedAt: number;
+}
+
+export type RequestInterceptor = (request: ApiRequest) => void | Promise<void>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  request: ApiRequest
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Adds the bearer token for server-side calls
+ * In the browser the token is in an httpOnly cookie and added by the proxy
+ */
+export const authInterceptor: RequestInterceptor = ({ init, options }) => {
+  if (!options.skipAuth && options.token) {
+    init.headers.set("Authorization", `Bearer ${options.token}`);
+  }
+};
+
+/**
+ * Sends the UI locale so the backend can localize messages
+ * Uses the <html lang> rendered by the root layout
+ */
+export const localeInterceptor: RequestInterceptor = ({ init }) => {
+  if (typeof document === "undefined" || init.headers.has("Accept-Language")) {
+    return;
+  }
+
+  const locale = document.documentElement.lang;
+  if (locale) {
+    init.headers.set("Accept-Language", locale);
+  }
+};
+
+/**
+ * Logs method, URL, status and timing in development
+ */
+export const loggingInterceptor: ResponseInterceptor = (response, request) => {
+  if (process.env.NODE_ENV !== "development") return;
+
+  const duration = Math.round(performance.now() - request.startedAt);
+  console.debug(
+    `[API] ${request.init.method ?? "GET"} ${request.url} ${response.status} ${duration}ms`
+  );
+};
+
+/**
+ * Reports a sample of browser request timings to Google Analytics
+ */
+export const metricsInterceptor: ResponseInterceptor = (response, request) => {
+  if (typeof window === "undefined" || typeof window.gtag !== "function") {
+    return;
+  }
+  if (Math.random() >= API_METRICS_SAMPLE_RATE) return;
+
+  // Strip the origin/base and query so timings group per endpoint
+  const path = new URL(request.url, window.location.origin).pathname;
+
+  window.gtag("event", "timing_complete", {
+    event_category: "api",
+    name: `${request.init.method ?? "GET"} ${path}`,
+    value: Math.round(performance.now() - request.startedAt),
+    status: response.status,
+  });
+};
+
+const requestInterceptors: RequestInterceptor[] = [
+  authInterceptor,
+  localeInterceptor,
+];
+
+const responseInterceptors: ResponseInterceptor[] = [
+  loggingInterceptor,
+  metricsInterceptor,
+];
+
+/**
+ * Register an interceptor - returns a function that removes it again
+ */
+function register<T>(list: T[], interceptor: T): () => void {
+  list.push(interceptor);
+  return () => {
+    const index = list.indexOf(interceptor);
+    if (index !== -1) list.splice(index, 1);
+  };
+}
+
+/**
+ * Interceptor registry used by apiClient
+ *
+ * @example
+ * const eject = interceptors.request.use(({ init }) => {
+ *   init.headers.set("X-Client", "web");
+ * });
+ */
+export const interceptors = {
+  request: {
+    use: (interceptor: RequestInterceptor) =>
+      register(requestInterceptors, interceptor),
+  },
+  response: {
+    use: (interceptor: ResponseInterceptor) =>
+      register(responseInterceptors, interceptor),
+  },
+};
+
+/**
+ * Run request interceptors in registration order
+ */
+export async function runRequestInterceptors(
+  request: ApiRequest
+): Promise<ApiRequest> {
+  for (const interceptor of requestInterceptors) {
+    await interceptor(request);
+  }
+  return request;
+}
+
+/**
+ * Run response interceptors in registration order
+ */
+export async function runResponseInterceptors(
+  response: Response,
+  request: ApiRequest
+): Promise<Response> {
+  let current = response;
+  for (const interceptor of responseInterceptors) {
+    current = (await interceptor(current, request)) ?? current;
+  }
+  return current;
+}
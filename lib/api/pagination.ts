@@ -0,0 +1,52 @@
+/**
+ * Pagination Helpers
+ * Collect paginated list endpoints into one response
+ */
+
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import type { PaginatedResponse } from "@/types/api";
+
+interface FetchAllPagesOptions {
+  perPage: number;
+  maxPages: number;
+  /** Pages after the first fetched in parallel, once the count is known */
+  concurrency?: number;
+}
+
+/**
+ * Fetch pages until the last one (or `maxPages`) and merge them
+ * The merged response reports a single page holding every item fetched,
+ * so cache updaters written for one page keep working on it
+ */
+export async function fetchAllPages<T>(
+  getPage: (params: {
+    page: number;
+    per_page: number;
+  }) => Promise<PaginatedResponse<T>>,
+  { perPage, maxPages, concurrency = 1 }: FetchAllPagesOptions
+): Promise<PaginatedResponse<T>> {
+  const first = await getPage({ page: 1, per_page: perPage });
+  const lastPage = Math.min(first.meta.pagination.last_page, maxPages);
+
+  const pages = Array.from({ length: lastPage - 1 }, (_, index) => index + 2);
+  const rest = await mapWithConcurrency(pages, concurrency, (page) =>
+    getPage({ page, per_page: perPage })
+  );
+  const items = [first, ...rest].flatMap((response) => response.data);
+
+  return {
+    success: true,
+    message: first.message,
+    data: items,
+    meta: {
+      pagination: {
+        current_page: 1,
+        last_page: 1,
+        per_page: Math.max(1, items.length),
+        total: items.length,
+        from: items.length > 0 ? 1 : 0,
+        to: items.length,
+      },
+    },
+  };
+}
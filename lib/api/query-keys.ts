@@ -5,19 +5,33 @@
  */
 
 import type { FilterValues } from "@/components/browse/browse-filter-bar";
+import type { GenreSortOption, TaxonomyType } from "@/types/manga";
+import type { SearchFilterValues } from "@/lib/utils/search-filters";
 
 export const mangaKeys = {
   all: ["manga"] as const,
   lists: () => [...mangaKeys.all, "list"] as const,
   list: (filters: FilterValues, page: number) =>
     [...mangaKeys.lists(), { filters, page }] as const,
+  /** Every loaded page of a filter set, for infinite scroll */
+  infiniteList: (filters: FilterValues) =>
+    [...mangaKeys.lists(), "infinite", { filters }] as const,
   details: () => [...mangaKeys.all, "detail"] as const,
   detail: (slug: string) => [...mangaKeys.details(), slug] as const,
 };
 
+export const searchKeys = {
+  all: ["search"] as const,
+  results: (query: string, filters: SearchFilterValues, page: number) =>
+    [...searchKeys.all, { query, filters, page }] as const,
+};
+
 export const genreKeys = {
   all: ["genres"] as const,
   list: () => [...genreKeys.all, "list"] as const,
+  detail: (slug: string) => [...genreKeys.all, "detail", slug] as const,
+  mangas: (slug: string, sort: GenreSortOption, page: number) =>
+    [...genreKeys.detail(slug), "mangas", { sort, page }] as const,
 };
 
 export const chapterKeys = {
@@ -26,3 +40,25 @@ export const chapterKeys = {
   detail: (chapterId: string) =>
     [...chapterKeys.all, "chapter", chapterId] as const,
 };
+
+export const taxonomyKeys = {
+  all: (type: TaxonomyType) => [type] as const,
+  list: (type: TaxonomyType, search: string, page: number) =>
+    [...taxonomyKeys.all(type), "list", { search, page }] as const,
+  detail: (type: TaxonomyType, slug: string) =>
+    [...taxonomyKeys.all(type), "detail", slug] as const,
+  mangas: (type: TaxonomyType, slug: string, page: number) =>
+    [...taxonomyKeys.detail(type, slug), "mangas", page] as const,
+};
+
+export const libraryKeys = {
+  all: ["library"] as const,
+  favorites: (params?: { page?: number; per_page?: number }) =>
+    [...libraryKeys.all, "favorites", params] as const,
+  /** Whole list, for client-side sorting/filtering */
+  favoritesAll: () => [...libraryKeys.all, "favorites", "all"] as const,
+  history: (params?: { page?: number; per_page?: number }) =>
+    [...libraryKeys.all, "history", params] as const,
+  historyAll: () => [...libraryKeys.all, "history", "all"] as const,
+  continueReading: () => [...libraryKeys.all, "continue-reading"] as const,
+};
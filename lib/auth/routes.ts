@@ -65,3 +65,23 @@ export function isProtectedRoute(pathname: string): boolean {
     return false;
   });
 }
+
+/**
+ * Validate a post-login redirect target to prevent open redirects
+ * Only same-origin absolute paths are allowed ("//evil.com" is not)
+ */
+export function getSafeRedirect(
+  redirect: string | null | undefined,
+  fallback: string = DEFAULT_LOGIN_REDIRECT
+): string {
+  if (!redirect || !redirect.startsWith("/") || redirect.startsWith("//")) {
+    return fallback;
+  }
+
+  // Backslashes are normalized to slashes by browsers ("/\evil.com")
+  if (redirect.includes("\\")) {
+    return fallback;
+  }
+
+  return redirect;
+}
@@ -0,0 +1,43 @@
+/**
+ * Auth Session Cookie
+ * The API token lives in an httpOnly cookie set by the /api/auth route handler,
+ * so middleware and server components can read it but client scripts can't
+ */
+
+/**
+ * Cookie holding the API bearer token
+ */
+export const AUTH_COOKIE = "auth-token";
+
+/**
+ * 30 days - matches the backend token lifetime
+ */
+export const AUTH_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+/**
+ * Options for setting the auth cookie from a route handler
+ */
+export function getAuthCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge: AUTH_COOKIE_MAX_AGE,
+  };
+}
+
+/**
+ * Cookie holding the refresh token - only sent to the /api/auth handler
+ */
+export const REFRESH_COOKIE = "auth-refresh-token";
+
+/**
+ * Options for setting the refresh cookie from a route handler
+ */
+export function getRefreshCookieOptions() {
+  return {
+    ...getAuthCookieOptions(),
+    path: "/api/auth",
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Server-side Session Helpers
+ * Read the auth cookie in Server Components and Route Handlers
+ *
+ * @example
+ * ```tsx
+ * const token = await getSessionToken();
+ * const history = token
+ *   ? await apiClient.get("/user/histories", { token })
+ *   : null;
+ * ```
+ */
+
+import { cookies } from "next/headers";
+import { AUTH_COOKIE } from "./session-cookie";
+
+/**
+ * Get the API token for the current request, if logged in
+ */
+export async function getSessionToken(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(AUTH_COOKIE)?.value ?? null;
+}
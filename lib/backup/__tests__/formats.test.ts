@@ -0,0 +1,117 @@
+import {
+  BackupParseError,
+  parseBackup,
+  toJsonBackup,
+  toMalXml,
+  toTachiyomiBackup,
+  type LibrarySnapshot,
+} from "../formats";
+import type { MangaReference } from "@/types/chapter";
+
+const T = Date.parse("2026-01-10T12:00:00.000Z");
+
+function manga(slug: string, name: string, nameAlt?: string): MangaReference {
+  return {
+    id: slug.length,
+    uuid: `uuid-${slug}`,
+    name,
+    name_alt: nameAlt,
+    slug,
+    cover_full_url: `/covers/${slug}.jpg`,
+  };
+}
+
+const snapshot: LibrarySnapshot = {
+  favorites: [
+    manga("one-piece", "One Piece", "Đảo Hải Tặc"),
+    manga("tricky", "Tricky ]]> <Title> & Co"),
+  ],
+  history: [],
+  progress: {
+    "one-piece": {
+      chapterSlug: "chapter-1100",
+      chapterNumber: 1100,
+      chapterName: "Chapter 1100",
+      timestamp: T,
+    },
+  },
+};
+
+describe("library backup formats", () => {
+  it("round-trips the JSON backup with slugs and progress", () => {
+    const { format, entries } = parseBackup(toJsonBackup(snapshot));
+
+    expect(format).toBe("json");
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual({
+      title: "One Piece",
+      altTitles: ["Đảo Hải Tặc"],
+      slug: "one-piece",
+      progress: snapshot.progress["one-piece"],
+    });
+  });
+
+  it("writes MAL XML that parses back, escaping awkward titles", () => {
+    const xml = toMalXml(snapshot);
+    const { format, entries } = parseBackup(xml);
+
+    expect(xml).toContain("<my_status>Reading</my_status>");
+    expect(xml).toContain("<my_status>Plan to Read</my_status>");
+    expect(format).toBe("mal");
+    expect(entries.map((entry) => entry.title)).toEqual([
+      "One Piece",
+      "Tricky ]]> <Title> & Co",
+    ]);
+    expect(entries[0].chaptersRead).toBe(1100);
+  });
+
+  it("writes a Tachiyomi legacy backup that parses back", () => {
+    const backup = JSON.parse(toTachiyomiBackup(snapshot));
+
+    expect(backup.version).toBe(2);
+    expect(backup.mangas[0].manga[0]).toBe("/manga/one-piece");
+    expect(backup.mangas[0].history).toEqual([
+      ["/manga/one-piece/chapter-1100", T],
+    ]);
+
+    const { format, entries } = parseBackup(JSON.stringify(backup));
+    expect(format).toBe("tachiyomi");
+    expect(entries[0]).toEqual({
+      title: "One Piece",
+      altTitles: [],
+      chaptersRead: 1,
+    });
+  });
+
+  it("reads protobuf-converted Tachiyomi backups", () => {
+    const { entries } = parseBackup(
+      JSON.stringify({
+        backupManga: [
+          {
+            title: "Berserk",
+            chapters: [{ read: true }, { read: true }, { read: false }],
+          },
+        ],
+      })
+    );
+
+    expect(entries).toEqual([
+      { title: "Berserk", altTitles: [], chaptersRead: 2 },
+    ]);
+  });
+
+  it.each([
+    ["unsupported", "PK\u0003\u0004binary"],
+    ["unsupported", JSON.stringify({ hello: "world" })],
+    ["invalid", "{not json"],
+    ["invalid", "<rss></rss>"],
+    ["empty", '<?xml version="1.0"?><myanimelist></myanimelist>'],
+  ])("rejects %s files", (kind, text) => {
+    expect(() => parseBackup(text)).toThrow(BackupParseError);
+    try {
+      parseBackup(text);
+    } catch (error) {
+      expect((error as BackupParseError).kind).toBe(kind);
+    }
+  });
+});
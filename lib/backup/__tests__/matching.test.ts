@@ -0,0 +1,86 @@
+import { findBestMatch, matchEntries, normalizeTitle } from "../matching";
+import type { MangaListItem } from "@/types/manga";
+
+function listItem(
+  id: number,
+  name: string,
+  nameAlt?: string,
+  slug = `manga-${id}`
+): MangaListItem {
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    name,
+    name_alt: nameAlt,
+    slug,
+    status: 1,
+    views: 0,
+    average_rating: 0,
+    is_hot: false,
+    cover_full_url: `/covers/${id}.jpg`,
+    updated_at: "2026-01-01T00:00:00.000Z",
+  } as MangaListItem;
+}
+
+describe("import title matching", () => {
+  it("normalizes case, diacritics and punctuation", () => {
+    expect(normalizeTitle("Đảo Hải Tặc: One-Piece!")).toBe(
+      "dao hai tac one piece"
+    );
+    expect(normalizeTitle("進撃の巨人、第二")).toBe("進撃の巨人 第二");
+  });
+
+  it("matches exactly on name_alt", () => {
+    const candidates = [
+      listItem(1, "One Piece Party"),
+      listItem(2, "Đảo Hải Tặc", "One Piece, ワンピース"),
+    ];
+
+    expect(
+      findBestMatch({ title: "one piece", altTitles: [] }, candidates)
+    ).toEqual({ manga: candidates[1], confidence: "exact" });
+  });
+
+  it("matches exactly on slug from this site's backups", () => {
+    const candidates = [listItem(3, "Renamed Title", undefined, "berserk")];
+
+    expect(
+      findBestMatch(
+        { title: "Berserk", altTitles: [], slug: "berserk" },
+        candidates
+      ).confidence
+    ).toBe("exact");
+  });
+
+  it("falls back to partial matches and ignores short titles", () => {
+    const candidates = [listItem(4, "Berserk of Gluttony")];
+
+    expect(
+      findBestMatch({ title: "Berserk", altTitles: [] }, candidates).confidence
+    ).toBe("partial");
+    expect(findBestMatch({ title: "Of", altTitles: [] }, candidates)).toEqual({
+      manga: null,
+      confidence: null,
+    });
+  });
+
+  it("searches alternative titles until an exact match", async () => {
+    const search = jest.fn(async (query: string) =>
+      query === "Shingeki no Kyojin"
+        ? [listItem(5, "Attack on Titan", "Shingeki no Kyojin")]
+        : [listItem(6, "Attack on Titan Junior High")]
+    );
+    const onProgress = jest.fn();
+
+    const [match] = await matchEntries(
+      [{ title: "Attack on Titan", altTitles: ["Shingeki no Kyojin"] }],
+      search,
+      { concurrency: 2, onProgress }
+    );
+
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(match.manga?.id).toBe(5);
+    expect(match.confidence).toBe("exact");
+    expect(onProgress).toHaveBeenCalledWith(1);
+  });
+});
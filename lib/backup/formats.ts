@@ -0,0 +1,342 @@
+/**
+ * Library Backup Formats
+ * Serializes the library (favorites, history, device progress) for export
+ * and parses files from this site or other readers into import entries
+ *
+ * Supported formats:
+ * - json: this site's own backup, round-trips slugs and progress
+ * - mal: MyAnimeList manga list export (XML)
+ * - tachiyomi: Tachiyomi legacy JSON backup. Current .tachibk backups are
+ *   gzipped protobuf and need converting to JSON first.
+ */
+
+import type { ReadingProgress } from "@/lib/store/readingProgressStore";
+import type { MangaReference, ReadingHistoryItem } from "@/types/chapter";
+
+export type BackupFormat = "json" | "mal" | "tachiyomi";
+
+const BACKUP_FORMAT_ID = "manga-reader-library";
+const BACKUP_VERSION = 1;
+
+/** Tachiyomi has no extension for this site - its "local" source id */
+const TACHIYOMI_SOURCE_ID = 0;
+
+/**
+ * Everything that goes into an export
+ */
+export interface LibrarySnapshot {
+  favorites: MangaReference[];
+  history: ReadingHistoryItem[];
+  /** Device progress keyed by manga slug */
+  progress: Record<string, ReadingProgress>;
+}
+
+interface BackupManga {
+  name: string;
+  name_alt?: string;
+  slug: string;
+}
+
+interface BackupHistoryEntry {
+  manga: BackupManga;
+  chapter_slug: string;
+  chapter_number: number;
+  chapter_name: string;
+  read_at: string;
+}
+
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT_ID;
+  version: number;
+  exported_at: string;
+  favorites: BackupManga[];
+  history: BackupHistoryEntry[];
+  progress: Record<string, ReadingProgress>;
+}
+
+/**
+ * One title to find on this site
+ */
+export interface ImportEntry {
+  title: string;
+  altTitles: string[];
+  /** Slug on this site - only this site's own backups have one */
+  slug?: string;
+  /** Chapters read, when the source records it */
+  chaptersRead?: number;
+  /** Device progress from this site's own backups */
+  progress?: ReadingProgress;
+}
+
+export interface ParsedBackup {
+  format: BackupFormat;
+  entries: ImportEntry[];
+}
+
+/**
+ * Why a file couldn't be imported
+ * - unsupported: not a format we know (including binary .tachibk)
+ * - invalid: a known format, but malformed
+ * - empty: parsed fine, nothing to import
+ */
+export type BackupErrorKind = "unsupported" | "invalid" | "empty";
+
+export class BackupParseError extends Error {
+  constructor(public kind: BackupErrorKind) {
+    super(`Library backup is ${kind}`);
+    this.name = "BackupParseError";
+  }
+}
+
+export const BACKUP_FILE_TYPES: Record<
+  BackupFormat,
+  { extension: string; mimeType: string }
+> = {
+  json: { extension: "json", mimeType: "application/json" },
+  mal: { extension: "xml", mimeType: "application/xml" },
+  tachiyomi: { extension: "json", mimeType: "application/json" },
+};
+
+// === Export ===
+
+function toBackupManga(manga: MangaReference): BackupManga {
+  return {
+    name: manga.name,
+    ...(manga.name_alt ? { name_alt: manga.name_alt } : {}),
+    slug: manga.slug,
+  };
+}
+
+/**
+ * Favorites plus manga only found in history, deduplicated by slug
+ */
+function collectManga(snapshot: LibrarySnapshot): MangaReference[] {
+  const bySlug = new Map<string, MangaReference>();
+  snapshot.favorites.forEach((manga) => bySlug.set(manga.slug, manga));
+  snapshot.history.forEach(({ manga }) => {
+    if (!bySlug.has(manga.slug)) bySlug.set(manga.slug, manga);
+  });
+  return [...bySlug.values()];
+}
+
+function chaptersRead(
+  snapshot: LibrarySnapshot,
+  slug: string
+): number | undefined {
+  const local = snapshot.progress[slug]?.chapterNumber;
+  const server = snapshot.history.find((item) => item.manga.slug === slug)
+    ?.last_read_chapter.chapter_number;
+  if (local === undefined && server === undefined) return undefined;
+  return Math.floor(Math.max(local ?? 0, server ?? 0));
+}
+
+export function toJsonBackup(
+  snapshot: LibrarySnapshot,
+  exportedAt = new Date()
+): string {
+  const backup: LibraryBackup = {
+    format: BACKUP_FORMAT_ID,
+    version: BACKUP_VERSION,
+    exported_at: exportedAt.toISOString(),
+    favorites: snapshot.favorites.map(toBackupManga),
+    history: snapshot.history.map((item) => ({
+      manga: toBackupManga(item.manga),
+      chapter_slug: item.last_read_chapter.slug,
+      chapter_number: item.last_read_chapter.chapter_number,
+      chapter_name: item.last_read_chapter.name,
+      read_at: item.last_read_at,
+    })),
+    progress: snapshot.progress,
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+function cdata(value: string): string {
+  // "]]>" can't appear inside CDATA - split it across two sections
+  return `<![CDATA[${value.replaceAll("]]>", "]]]]><![CDATA[>")}]]>`;
+}
+
+export function toMalXml(snapshot: LibrarySnapshot): string {
+  const manga = collectManga(snapshot).map((item) => {
+    const read = chaptersRead(snapshot, item.slug);
+    return [
+      "  <manga>",
+      "    <manga_mangadb_id>0</manga_mangadb_id>",
+      `    <manga_title>${cdata(item.name)}</manga_title>`,
+      "    <manga_volumes>0</manga_volumes>",
+      "    <manga_chapters>0</manga_chapters>",
+      "    <my_read_volumes>0</my_read_volumes>",
+      `    <my_read_chapters>${read ?? 0}</my_read_chapters>`,
+      `    <my_status>${read ? "Reading" : "Plan to Read"}</my_status>`,
+      "    <update_on_import>1</update_on_import>",
+      "  </manga>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" ?>',
+    "<myanimelist>",
+    "  <myinfo>",
+    "    <user_export_type>2</user_export_type>",
+    `    <user_total_manga>${manga.length}</user_total_manga>`,
+    "  </myinfo>",
+    ...manga,
+    "</myanimelist>",
+    "",
+  ].join("\n");
+}
+
+export function toTachiyomiBackup(snapshot: LibrarySnapshot): string {
+  const mangas = collectManga(snapshot).map((item) => {
+    const url = `/manga/${item.slug}`;
+    const last = snapshot.history.find(
+      (entry) => entry.manga.slug === item.slug
+    );
+    const local = snapshot.progress[item.slug];
+    const chapterSlug = local?.chapterSlug ?? last?.last_read_chapter.slug;
+    const readAt =
+      local?.timestamp ?? (last ? Date.parse(last.last_read_at) : undefined);
+    const chapterUrl = chapterSlug ? `${url}/${chapterSlug}` : undefined;
+
+    return {
+      // [url, title, source, viewer, chapterFlags]
+      manga: [url, item.name, TACHIYOMI_SOURCE_ID, 0, 0],
+      ...(chapterUrl
+        ? {
+            chapters: [{ u: chapterUrl, r: 1 }],
+            history: [[chapterUrl, readAt ?? 0]],
+          }
+        : {}),
+    };
+  });
+
+  return JSON.stringify({ version: 2, mangas, categories: [], extensions: [] });
+}
+
+export function serializeBackup(
+  format: BackupFormat,
+  snapshot: LibrarySnapshot
+): string {
+  switch (format) {
+    case "json":
+      return toJsonBackup(snapshot);
+    case "mal":
+      return toMalXml(snapshot);
+    case "tachiyomi":
+      return toTachiyomiBackup(snapshot);
+  }
+}
+
+// === Import ===
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function parseJsonBackup(backup: Record<string, unknown>): ImportEntry[] {
+  if (!Array.isArray(backup.favorites)) {
+    throw new BackupParseError("invalid");
+  }
+  const progress = isRecord(backup.progress)
+    ? (backup.progress as Record<string, ReadingProgress>)
+    : {};
+
+  return (backup.favorites as unknown[]).filter(isRecord).flatMap((manga) => {
+    if (typeof manga.name !== "string" || !manga.name.trim()) return [];
+    const slug = typeof manga.slug === "string" ? manga.slug : undefined;
+    return [
+      {
+        title: manga.name,
+        altTitles: typeof manga.name_alt === "string" ? [manga.name_alt] : [],
+        slug,
+        progress: slug ? progress[slug] : undefined,
+      },
+    ];
+  });
+}
+
+function parseTachiyomiBackup(backup: Record<string, unknown>): ImportEntry[] {
+  // Legacy JSON backups use `mangas`, protobuf-to-JSON conversions `backupManga`
+  const mangas = backup.mangas ?? backup.backupManga;
+  if (!Array.isArray(mangas)) {
+    throw new BackupParseError("invalid");
+  }
+
+  return mangas.filter(isRecord).flatMap((item) => {
+    const title = Array.isArray(item.manga) ? item.manga[1] : item.title;
+    if (typeof title !== "string" || !title.trim()) return [];
+
+    const chapters = Array.isArray(item.chapters)
+      ? item.chapters.filter(isRecord)
+      : [];
+    const read = chapters.filter((chapter) => chapter.r === 1 || chapter.read);
+    return [
+      {
+        title,
+        altTitles: [],
+        chaptersRead: read.length > 0 ? read.length : undefined,
+      },
+    ];
+  });
+}
+
+function parseMalXml(text: string): ImportEntry[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (
+    doc.getElementsByTagName("parsererror").length > 0 ||
+    doc.documentElement.nodeName !== "myanimelist"
+  ) {
+    throw new BackupParseError("invalid");
+  }
+
+  return Array.from(doc.getElementsByTagName("manga")).flatMap((node) => {
+    const field = (name: string) =>
+      node.getElementsByTagName(name)[0]?.textContent?.trim() ?? "";
+    const title = field("manga_title");
+    if (!title) return [];
+
+    const read = Number(field("my_read_chapters"));
+    return [
+      {
+        title,
+        altTitles: [],
+        chaptersRead: read > 0 ? read : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * Detect the format of a backup file and read its entries
+ * Throws BackupParseError when the file can't be used
+ */
+export function parseBackup(text: string): ParsedBackup {
+  const trimmed = text.trim();
+  let parsed: ParsedBackup;
+
+  if (trimmed.startsWith("<")) {
+    parsed = { format: "mal", entries: parseMalXml(trimmed) };
+  } else if (trimmed.startsWith("{")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new BackupParseError("invalid");
+    }
+    if (!isRecord(data)) throw new BackupParseError("unsupported");
+
+    if (data.format === BACKUP_FORMAT_ID) {
+      parsed = { format: "json", entries: parseJsonBackup(data) };
+    } else if ("mangas" in data || "backupManga" in data) {
+      parsed = { format: "tachiyomi", entries: parseTachiyomiBackup(data) };
+    } else {
+      throw new BackupParseError("unsupported");
+    }
+  } else {
+    throw new BackupParseError("unsupported");
+  }
+
+  if (parsed.entries.length === 0) {
+    throw new BackupParseError("empty");
+  }
+  return parsed;
+}
@@ -0,0 +1,132 @@
+/**
+ * Import Title Matching
+ * Finds manga on this site for titles from a backup file
+ *
+ * Each entry is searched by its title, then its alternative titles:
+ * - exact: slug, or a normalized name/name_alt, matches
+ * - partial: one title contains the other - shown for review, unchecked
+ * - no match: listed as unmatched
+ */
+
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import type { MangaListItem } from "@/types/manga";
+import type { ImportEntry } from "./formats";
+
+export type MatchConfidence = "exact" | "partial";
+
+export interface ImportMatch {
+  entry: ImportEntry;
+  manga: MangaListItem | null;
+  confidence: MatchConfidence | null;
+}
+
+export type TitleSearch = (
+  query: string,
+  signal?: AbortSignal
+) => Promise<MangaListItem[]>;
+
+interface MatchOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+  /** Called after each entry with the number finished so far */
+  onProgress?: (done: number) => void;
+}
+
+/** Titles shorter than this are too generic for a partial match */
+const MIN_PARTIAL_LENGTH = 4;
+
+/**
+ * Lowercase, strip diacritics and punctuation, collapse whitespace
+ */
+export function normalizeTitle(title: string): string {
+  return (
+    title
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/đ/gi, "d")
+      .toLowerCase()
+      // ASCII punctuation, general and CJK punctuation, whitespace
+      .replace(/[\s!-/:-@[-`{-~\u2000-\u206f\u3000-\u303f]+/g, " ")
+      .trim()
+  );
+}
+
+/**
+ * name_alt holds several titles separated by commas or semicolons
+ */
+function candidateTitles(manga: MangaListItem): string[] {
+  const alt = manga.name_alt?.split(/[,;|]/) ?? [];
+  return [manga.name, ...alt].map(normalizeTitle).filter(Boolean);
+}
+
+function entryTitles(entry: ImportEntry): string[] {
+  return [entry.title, ...entry.altTitles].map(normalizeTitle).filter(Boolean);
+}
+
+/**
+ * Pick the best candidate for an entry from search results
+ */
+export function findBestMatch(
+  entry: ImportEntry,
+  candidates: MangaListItem[]
+): Pick<ImportMatch, "manga" | "confidence"> {
+  const titles = entryTitles(entry);
+
+  const exact = candidates.find(
+    (manga) =>
+      (entry.slug !== undefined && manga.slug === entry.slug) ||
+      candidateTitles(manga).some((title) => titles.includes(title))
+  );
+  if (exact) return { manga: exact, confidence: "exact" };
+
+  const partial = candidates.find((manga) =>
+    candidateTitles(manga).some((candidate) =>
+      titles.some(
+        (title) =>
+          Math.min(title.length, candidate.length) >= MIN_PARTIAL_LENGTH &&
+          (candidate.includes(title) || title.includes(candidate))
+      )
+    )
+  );
+  if (partial) return { manga: partial, confidence: "partial" };
+
+  return { manga: null, confidence: null };
+}
+
+/**
+ * Search for one entry, trying alternative titles until an exact match
+ */
+async function matchEntry(
+  entry: ImportEntry,
+  search: TitleSearch,
+  signal?: AbortSignal
+): Promise<ImportMatch> {
+  let best: ImportMatch = { entry, manga: null, confidence: null };
+  const queries = [...new Set([entry.title, ...entry.altTitles])];
+
+  for (const query of queries) {
+    signal?.throwIfAborted();
+    const result = findBestMatch(entry, await search(query, signal));
+    if (result.confidence === "exact") return { entry, ...result };
+    if (result.manga && !best.manga) best = { entry, ...result };
+  }
+
+  return best;
+}
+
+/**
+ * Match every entry, a few searches at a time
+ */
+export async function matchEntries(
+  entries: ImportEntry[],
+  search: TitleSearch,
+  { concurrency, signal, onProgress }: MatchOptions
+): Promise<ImportMatch[]> {
+  let done = 0;
+
+  return mapWithConcurrency(entries, concurrency, async (entry) => {
+    const match = await matchEntry(entry, search, signal);
+    onProgress?.(++done);
+    return match;
+  });
+}
@@ -26,3 +26,97 @@ export const UI = {
   /** Search input debounce delay (ms) */
   SEARCH_DEBOUNCE_MS: 500,
 } as const;
+
+// === Page Sizes ===
+export const PAGE_SIZES = {
+  /** Artist / group / doujinshi index pages */
+  TAXONOMY_LIST: 30,
+  /** Manga grids on listing pages */
+  MANGA_GRID: 24,
+} as const;
+
+// === Reading Progress Sync ===
+export const READING_SYNC = {
+  /** Reconcile device progress with server history this often (5 minutes) */
+  INTERVAL: 5 * 60_000,
+  /** History pages fetched per sync, newest first */
+  MAX_PAGES: 5,
+  /** History items per page */
+  PER_PAGE: 50,
+  /** Device entries uploaded per sync - the rest go with the next one */
+  MAX_UPLOADS: 20,
+} as const;
+
+// === Library Import/Export ===
+export const LIBRARY_TRANSFER = {
+  /** Items per page when collecting favorites and history for export */
+  PER_PAGE: 100,
+  /** Pages collected per list - caps an export at 2,000 entries each */
+  MAX_PAGES: 20,
+  /** Entries read from one import file */
+  MAX_IMPORT_ENTRIES: 1000,
+  /** Search results considered per title */
+  SEARCH_RESULTS: 5,
+  /** Parallel title searches while matching */
+  SEARCH_CONCURRENCY: 3,
+  /** Parallel favorite requests while importing */
+  IMPORT_CONCURRENCY: 3,
+} as const;
+
+// === Library Bulk Actions ===
+export const LIBRARY_BULK = {
+  /** Items per page when loading a whole list for sorting/filtering */
+  PER_PAGE: 100,
+  /** Pages loaded per list - sorting/filtering covers the first 1,000 */
+  MAX_PAGES: 10,
+  /** Parallel remove requests */
+  REMOVE_CONCURRENCY: 4,
+  /** How long the undo toast waits before removing for real (5 seconds) */
+  UNDO_DELAY: 5_000,
+} as const;
+
+// === Infinite Scroll ===
+export const VIRTUAL_GRID = {
+  /** Rows rendered before the grid has measured the viewport */
+  INITIAL_ROWS: 4,
+  /** Extra rows rendered above and below the viewport */
+  OVERSCAN_ROWS: 2,
+  /** Load the next page once this few rows are left below the viewport */
+  LOAD_MORE_ROWS: 3,
+  /** Wait after the last scroll event before saving the position (ms) */
+  SAVE_POSITION_DELAY: 200,
+} as const;
+
+// === Chapter List ===
+export const CHAPTER_LIST = {
+  /** Chapters per request - the API's largest page */
+  PER_PAGE: 100,
+  /** Pages fetched per manga - caps the list at 10,000 chapters */
+  MAX_PAGES: 100,
+  /** Parallel page requests */
+  CONCURRENCY: 4,
+  /** Chapter numbers per collapsible range (1-100, 101-200...) */
+  GROUP_SIZE: 100,
+} as const;
+
+// === Sitemaps ===
+export const SITEMAP = {
+  /** URLs per sitemap file - under the protocol's 50,000 limit */
+  URLS_PER_FILE: 45_000,
+  /** Items per request - the API's largest page */
+  PER_PAGE: 100,
+  /** Pages walked per list - caps a list at 100,000 entries */
+  MAX_PAGES: 1_000,
+  /** List pages cached per entry - 5,000 items, under the 2MB cache limit */
+  PAGES_PER_BLOCK: 50,
+  /** Chapter pages walked per manga - caps a manga at 10,000 chapters */
+  MAX_CHAPTER_PAGES: 100,
+  /** Parallel requests while walking the catalog */
+  CONCURRENCY: 2,
+  /** Pause after each request, per worker (ms) */
+  REQUEST_DELAY: 250,
+  /** Regenerate manga and taxonomy sitemaps daily (seconds) */
+  REVALIDATE: 86_400,
+  /** Regenerate chapter sitemaps weekly (seconds) */
+  CHAPTERS_REVALIDATE: 604_800,
+} as const;
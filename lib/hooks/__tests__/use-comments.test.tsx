@@ -0,0 +1,142 @@
+import type { ReactNode } from "react";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { chapterApi } from "@/lib/api/endpoints/chapter";
+import { commentApi } from "@/lib/api/endpoints/comment";
+import { toast } from "sonner";
+import type { Comment } from "@/types/comment";
+import {
+  useChapterComments,
+  useDeleteComment,
+  useUpdateComment,
+} from "../use-comments";
+
+// jest.setup mocks React Query - these tests need the real cache
+jest.mock("@tanstack/react-query", () =>
+  jest.requireActual("@tanstack/react-query")
+);
+
+jest.mock("@/lib/api/endpoints/chapter", () => ({
+  chapterApi: { getComments: jest.fn() },
+}));
+
+jest.mock("@/lib/api/endpoints/manga", () => ({
+  mangaApi: { getComments: jest.fn() },
+}));
+
+jest.mock("@/lib/api/endpoints/comment", () => ({
+  commentApi: { update: jest.fn(), delete: jest.fn() },
+}));
+
+jest.mock("sonner", () => ({
+  toast: { success: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock("@/lib/hooks/use-refresh-user", () => ({
+  useRefreshUser: () => ({ refreshUserPartial: jest.fn() }),
+}));
+
+function comment(id: string, replies: Comment[] = []): Comment {
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    content: `Comment ${id}`,
+    commentable_type: "chapter",
+    commentable_id: "1",
+    parent_id: null,
+    created_at: "2024-01-01T00:00:00.000Z",
+    updated_at: "2024-01-01T00:00:00.000Z",
+    user: { id: 1, uuid: "user", name: "User", avatar_full_url: "" },
+    replies,
+    replies_count: replies.length,
+    can_edit: true,
+    can_delete: true,
+  };
+}
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  // Same query the chapter reader's comment tab runs
+  const reader = renderHook(
+    () =>
+      useChapterComments("manga", "chapter-1", { sort: "desc", per_page: 20 }),
+    { wrapper }
+  );
+  const update = renderHook(() => useUpdateComment(), { wrapper });
+  const remove = renderHook(() => useDeleteComment(), { wrapper });
+
+  return { reader, update, remove };
+}
+
+describe("comment mutations on the reader's comments", () => {
+  beforeEach(() => {
+    (chapterApi.getComments as jest.Mock).mockResolvedValue({
+      success: true,
+      message: "",
+      data: [comment("1", [comment("3")]), comment("2")],
+      meta: {
+        pagination: {
+          current_page: 1,
+          last_page: 1,
+          per_page: 20,
+          total: 2,
+          from: 1,
+          to: 2,
+        },
+      },
+    });
+  });
+
+  it("should edit a comment in place", async () => {
+    (commentApi.update as jest.Mock).mockReturnValue(new Promise(() => {}));
+    const { reader, update } = setup();
+    await waitFor(() => expect(reader.result.current.data).toBeDefined());
+
+    act(() => {
+      update.result.current.mutate({ id: "3", content: "Edited" });
+    });
+
+    await waitFor(() =>
+      expect(reader.result.current.data?.items[0].replies[0].content).toBe(
+        "Edited"
+      )
+    );
+    expect(update.result.current.isError).toBe(false);
+  });
+
+  it("should remove a deleted comment", async () => {
+    (commentApi.delete as jest.Mock).mockReturnValue(new Promise(() => {}));
+    const { reader, remove } = setup();
+    await waitFor(() => expect(reader.result.current.data).toBeDefined());
+
+    act(() => {
+      remove.result.current.mutate("2");
+    });
+
+    await waitFor(() =>
+      expect(reader.result.current.data?.items.map((c) => c.id)).toEqual(["1"])
+    );
+    expect(reader.result.current.data?.pagination.total).toBe(1);
+    expect(remove.result.current.isError).toBe(false);
+  });
+
+  it("should confirm a delete after the comment is gone", async () => {
+    (commentApi.delete as jest.Mock).mockResolvedValue({ id: "2" });
+    const { reader, remove } = setup();
+    await waitFor(() => expect(reader.result.current.data).toBeDefined());
+
+    act(() => {
+      remove.result.current.mutate("2");
+    });
+    // The deleted CommentItem unmounts along with its mutation observer
+    remove.unmount();
+
+    await waitFor(() => expect(toast.success).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,31 @@
+"use client";
+
+/**
+ * API Error Message Hook
+ * Turns any error thrown by apiClient into a localized, user-facing message
+ */
+
+import { useCallback } from "react";
+import { useTranslations } from "next-intl";
+import { API_ERROR_MESSAGE_KEYS, toApiClientError } from "@/lib/api/errors";
+
+/**
+ * Hook returning a formatter for API errors
+ * Messages come from the `errors` namespace, keyed by error kind
+ */
+export function useApiErrorMessage() {
+  const t = useTranslations("errors");
+
+  return useCallback(
+    (error: unknown) => {
+      const apiError = toApiClientError(error);
+
+      if (apiError.kind === "rate-limited" && apiError.retryAfter) {
+        return t("rateLimitedRetry", { seconds: apiError.retryAfter });
+      }
+
+      return t(API_ERROR_MESSAGE_KEYS[apiError.kind]);
+    },
+    [t]
+  );
+}
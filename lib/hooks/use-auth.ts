@@ -7,7 +7,11 @@
 
 import { useState, useCallback } from "react";
 import { useAuthStore } from "@/lib/store/authStore";
+import { useShelfStore } from "@/lib/store/shelfStore";
 import { authApi } from "@/lib/api/endpoints/auth";
+import { toApiClientError, type ApiClientError } from "@/lib/api/errors";
+import { postToServiceWorker } from "@/lib/offline/service-worker";
+import { unsubscribeFromPush } from "@/lib/push/subscription";
 import type {
   LoginCredentials,
   RegisterData,
@@ -16,16 +20,15 @@ import type {
 
 /**
  * Hook to get current authentication state
- * Returns user, token, and authentication status from Zustand store
+ * Returns user and authentication status from Zustand store
+ * (the token itself is in an httpOnly cookie)
  */
 export function useAuth() {
   const user = useAuthStore((state) => state.user);
-  const token = useAuthStore((state) => state.token);
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
 
   return {
     user,
-    token,
     isAuthenticated,
   };
 }
@@ -36,7 +39,7 @@ export function useAuth() {
  */
 export function useLogin() {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiClientError | null>(null);
   const setAuth = useAuthStore((state) => state.setAuth);
 
   const login = useCallback(
@@ -46,13 +49,12 @@ export function useLogin() {
 
       try {
         const response = await authApi.login(credentials);
-        setAuth(response.user, response.token);
+        setAuth(response.user);
         return { success: true, data: response };
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Login failed";
-        setError(errorMessage);
-        return { success: false, error: errorMessage };
+        const apiError = toApiClientError(err);
+        setError(apiError);
+        return { success: false, error: apiError };
       } finally {
         setIsLoading(false);
       }
@@ -81,14 +83,21 @@ export function useLogout() {
     setError(null);
 
     try {
+      // Stop new chapter notifications for this user on this browser -
+      // started while the session is still valid, but logout doesn't wait
+      void unsubscribeFromPush().catch(() => {});
       // Call logout API endpoint to revoke token on server
       await authApi.logout();
-      // Clear local auth state
+      // Clear local auth state, shelves and cached API responses
       logout();
+      useShelfStore.getState().reset();
+      postToServiceWorker({ type: "CLEAR_API_CACHE" });
       return { success: true };
     } catch (err) {
       // Even if API call fails, still logout locally
       logout();
+      useShelfStore.getState().reset();
+      postToServiceWorker({ type: "CLEAR_API_CACHE" });
       const errorMessage = err instanceof Error ? err.message : "Logout failed";
       setError(errorMessage);
       return { success: false, error: errorMessage };
@@ -110,7 +119,7 @@ export function useLogout() {
  */
 export function useRegister() {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiClientError | null>(null);
   const setAuth = useAuthStore((state) => state.setAuth);
 
   const register = useCallback(
@@ -120,13 +129,12 @@ export function useRegister() {
 
       try {
         const response = await authApi.register(data);
-        setAuth(response.user, response.token);
+        setAuth(response.user);
         return { success: true, data: response };
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Registration failed";
-        setError(errorMessage);
-        return { success: false, error: errorMessage };
+        const apiError = toApiClientError(err);
+        setError(apiError);
+        return { success: false, error: apiError };
       } finally {
         setIsLoading(false);
       }
@@ -147,7 +155,7 @@ export function useRegister() {
  */
 export function useGoogleAuth() {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiClientError | null>(null);
   const setAuth = useAuthStore((state) => state.setAuth);
 
   const googleAuth = useCallback(
@@ -157,13 +165,12 @@ export function useGoogleAuth() {
 
       try {
         const response = await authApi.googleAuth(data);
-        setAuth(response.user, response.token);
+        setAuth(response.user);
         return { success: true, data: response };
       } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "Google authentication failed";
-        setError(errorMessage);
-        return { success: false, error: errorMessage };
+        const apiError = toApiClientError(err);
+        setError(apiError);
+        return { success: false, error: apiError };
       } finally {
         setIsLoading(false);
       }
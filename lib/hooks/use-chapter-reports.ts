@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * Chapter Report Hooks
+ * Custom React Query hooks for chapter error reports
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { chapterReportApi } from "@/lib/api/endpoints/chapter";
+import { STALE_TIMES } from "@/lib/constants";
+import type { PaginatedResponse } from "@/types/api";
+import type {
+  ChapterReport,
+  CreateChapterReportRequest,
+} from "@/types/chapter";
+
+// === Query Keys ===
+/**
+ * Chapter Report Query Keys
+ * Hierarchical pattern for cache management
+ */
+export const chapterReportKeys = {
+  all: ["chapter-reports"] as const,
+  types: () => [...chapterReportKeys.all, "types"] as const,
+  mine: (params?: { page?: number; per_page?: number }) =>
+    [...chapterReportKeys.all, "mine", params] as const,
+};
+
+// === Query Hooks ===
+
+/**
+ * Hook for fetching available report types (value -> label)
+ */
+export function useChapterReportTypes(enabled = true) {
+  return useQuery({
+    queryKey: chapterReportKeys.types(),
+    queryFn: () => chapterReportApi.getTypes(),
+    staleTime: STALE_TIMES.LONG,
+    enabled,
+  });
+}
+
+/**
+ * Hook for fetching the current user's submitted reports with pagination
+ */
+export function useMyChapterReports({
+  page = 1,
+  per_page = 10,
+  enabled = true,
+}: { page?: number; per_page?: number; enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: chapterReportKeys.mine({ page, per_page }),
+    queryFn: () => chapterReportApi.getUserReports({ page, per_page }),
+    staleTime: STALE_TIMES.SHORT,
+    enabled,
+    select: (data: PaginatedResponse<ChapterReport>) => ({
+      items: data.data,
+      pagination: data.meta.pagination,
+    }),
+  });
+}
+
+// === Mutation Hooks ===
+
+/**
+ * Hook for submitting a chapter error report
+ */
+export function useCreateChapterReport(mangaSlug: string, chapterSlug: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateChapterReportRequest) =>
+      chapterReportApi.create(mangaSlug, chapterSlug, data),
+
+    onSuccess: () => {
+      // New report should show up in "My reports"
+      queryClient.invalidateQueries({
+        queryKey: [...chapterReportKeys.all, "mine"],
+      });
+    },
+  });
+}
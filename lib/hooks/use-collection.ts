@@ -0,0 +1,113 @@
+"use client";
+
+/**
+ * Collection Hooks
+ * Custom React Query hooks for the user's achievements and pets
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { userAchievementsApi, userPetsApi } from "@/lib/api/endpoints/user";
+import { useRefreshUser } from "@/lib/hooks/use-refresh-user";
+import { STALE_TIMES } from "@/lib/constants";
+
+// === Query Keys ===
+/**
+ * Collection Query Keys
+ * `catalog` holds every item, `mine` the user's unlocked/owned items
+ */
+export const collectionKeys = {
+  all: ["collection"] as const,
+  achievements: () => [...collectionKeys.all, "achievements"] as const,
+  achievementCatalog: () =>
+    [...collectionKeys.achievements(), "catalog"] as const,
+  myAchievements: () => [...collectionKeys.achievements(), "mine"] as const,
+  pets: () => [...collectionKeys.all, "pets"] as const,
+  petCatalog: () => [...collectionKeys.pets(), "catalog"] as const,
+  myPets: () => [...collectionKeys.pets(), "mine"] as const,
+};
+
+// === Query Hooks ===
+
+/**
+ * Hook for fetching every achievement
+ */
+export function useAchievementCatalog(enabled = true) {
+  return useQuery({
+    queryKey: collectionKeys.achievementCatalog(),
+    queryFn: () => userAchievementsApi.getAll(),
+    staleTime: STALE_TIMES.LONG,
+    enabled,
+  });
+}
+
+/**
+ * Hook for fetching the user's unlocked achievements and points progress
+ */
+export function useMyAchievements(enabled = true) {
+  return useQuery({
+    queryKey: collectionKeys.myAchievements(),
+    queryFn: () => userAchievementsApi.get(),
+    staleTime: STALE_TIMES.SHORT,
+    enabled,
+  });
+}
+
+/**
+ * Hook for fetching every pet
+ */
+export function usePetCatalog(enabled = true) {
+  return useQuery({
+    queryKey: collectionKeys.petCatalog(),
+    queryFn: () => userPetsApi.getAll(),
+    staleTime: STALE_TIMES.LONG,
+    enabled,
+  });
+}
+
+/**
+ * Hook for fetching the user's owned pets and points balance
+ */
+export function useMyPets(enabled = true) {
+  return useQuery({
+    queryKey: collectionKeys.myPets(),
+    queryFn: () => userPetsApi.get(),
+    staleTime: STALE_TIMES.SHORT,
+    enabled,
+  });
+}
+
+// === Mutation Hooks ===
+
+/**
+ * Hook for displaying an unlocked achievement on the profile
+ * Refreshes the user so the header and overview pick up the change
+ */
+export function useEquipAchievement() {
+  const queryClient = useQueryClient();
+  const { refreshUser } = useRefreshUser();
+
+  return useMutation({
+    mutationFn: (id: number) => userAchievementsApi.equip(id),
+    onSuccess: async (data) => {
+      queryClient.setQueryData(collectionKeys.myAchievements(), data);
+      await refreshUser();
+    },
+  });
+}
+
+/**
+ * Hook for setting the user's current pet
+ * Refreshes the user so the header and overview pick up the change
+ */
+export function useEquipPet() {
+  const queryClient = useQueryClient();
+  const { refreshUser } = useRefreshUser();
+
+  return useMutation({
+    mutationFn: (id: number) => userPetsApi.equip(id),
+    onSuccess: async (data) => {
+      queryClient.setQueryData(collectionKeys.myPets(), data);
+      await refreshUser();
+    },
+  });
+}
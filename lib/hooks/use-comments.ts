@@ -5,9 +5,18 @@
  * Custom React Query hooks for comments data
  */
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+  type QueryKey,
+} from "@tanstack/react-query";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
 import { mangaApi } from "@/lib/api/endpoints/manga";
 import { chapterApi } from "@/lib/api/endpoints/chapter";
+import { commentApi } from "@/lib/api/endpoints/comment";
 import type { PaginatedResponse } from "@/types/api";
 import type {
   Comment,
@@ -59,6 +68,68 @@ function insertReplyIntoComments(
   });
 }
 
+/**
+ * Recursively apply an update to the comment with the given id
+ */
+function updateCommentInTree(
+  comments: Comment[],
+  id: string,
+  update: (comment: Comment) => Comment,
+  depth = 0
+): Comment[] {
+  if (depth > 10) {
+    console.warn("Maximum comment depth exceeded while updating comment");
+    return comments;
+  }
+
+  return comments.map((comment) => {
+    if (comment.id === id) {
+      return update(comment);
+    }
+    if (comment.replies && comment.replies.length > 0) {
+      return {
+        ...comment,
+        replies: updateCommentInTree(comment.replies, id, update, depth + 1),
+      };
+    }
+    return comment;
+  });
+}
+
+/**
+ * Recursively remove the comment with the given id, decrementing the
+ * parent's replies_count when a reply is removed
+ */
+function removeCommentFromTree(
+  comments: Comment[],
+  id: string,
+  depth = 0
+): Comment[] {
+  if (depth > 10) {
+    console.warn("Maximum comment depth exceeded while removing comment");
+    return comments;
+  }
+
+  return comments
+    .filter((comment) => comment.id !== id)
+    .map((comment) => {
+      if (!comment.replies || comment.replies.length === 0) {
+        return comment;
+      }
+
+      const replies = removeCommentFromTree(comment.replies, id, depth + 1);
+      if (replies.length === comment.replies.length) {
+        return { ...comment, replies };
+      }
+
+      return {
+        ...comment,
+        replies,
+        replies_count: Math.max(0, comment.replies_count - 1),
+      };
+    });
+}
+
 /**
  * Generate unique temporary ID for optimistic comments
  */
@@ -82,6 +153,65 @@ export const commentKeys = {
   ) => [...commentKeys.all, "chapter", mangaSlug, chapterSlug, params] as const,
 };
 
+/**
+ * Every cached manga and chapter comment list - a comment can show up in
+ * both (manga "all" tab and the chapter it was posted on)
+ */
+const commentListKeys = [
+  [...commentKeys.all, "manga"],
+  [...commentKeys.all, "chapter"],
+] as const;
+
+type CommentListSnapshot = Array<
+  [QueryKey, PaginatedResponse<Comment> | undefined]
+>;
+
+async function snapshotCommentLists(
+  queryClient: QueryClient
+): Promise<CommentListSnapshot> {
+  await Promise.all(
+    commentListKeys.map((queryKey) =>
+      queryClient.cancelQueries({ queryKey, exact: false })
+    )
+  );
+
+  return commentListKeys.flatMap((queryKey) =>
+    queryClient.getQueriesData<PaginatedResponse<Comment>>({
+      queryKey,
+      exact: false,
+    })
+  );
+}
+
+function updateCommentLists(
+  queryClient: QueryClient,
+  updater: (old: PaginatedResponse<Comment>) => PaginatedResponse<Comment>
+) {
+  commentListKeys.forEach((queryKey) => {
+    queryClient.setQueriesData<PaginatedResponse<Comment>>(
+      { queryKey, exact: false },
+      (old) => (old ? updater(old) : old)
+    );
+  });
+}
+
+function restoreCommentLists(
+  queryClient: QueryClient,
+  snapshot?: CommentListSnapshot
+) {
+  snapshot?.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+}
+
+async function invalidateCommentLists(queryClient: QueryClient) {
+  await Promise.all(
+    commentListKeys.map((queryKey) =>
+      queryClient.invalidateQueries({ queryKey, exact: false })
+    )
+  );
+}
+
 // === Type Definitions ===
 interface UseCommentsParams {
   page?: number;
@@ -291,6 +421,85 @@ export function useAddChapterComment(mangaSlug: string, chapterSlug: string) {
   });
 }
 
+/**
+ * Hook for editing a comment
+ * Optimistically updates the content in every manga and chapter comment list.
+ * Feedback lives here, not in per-call callbacks, so it still shows if the
+ * comment unmounts first.
+ */
+export function useUpdateComment() {
+  const queryClient = useQueryClient();
+  const t = useTranslations("comment");
+
+  return useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) =>
+      commentApi.update(id, { content }),
+    onMutate: async ({ id, content }) => {
+      const previousQueries = await snapshotCommentLists(queryClient);
+      const updatedAt = new Date().toISOString();
+
+      updateCommentLists(queryClient, (old) => ({
+        ...old,
+        data: updateCommentInTree(old.data, id, (comment) => ({
+          ...comment,
+          content,
+          updated_at: updatedAt,
+        })),
+      }));
+
+      return { previousQueries };
+    },
+    onError: (_err, _variables, context) => {
+      restoreCommentLists(queryClient, context?.previousQueries);
+      toast.error(t("editError"));
+    },
+    onSettled: () => invalidateCommentLists(queryClient),
+  });
+}
+
+/**
+ * Hook for deleting a comment
+ * Optimistically removes the comment (and its replies) from every manga and
+ * chapter comment list - which unmounts it, so feedback is shown from here
+ */
+export function useDeleteComment() {
+  const queryClient = useQueryClient();
+  const t = useTranslations("comment");
+
+  return useMutation({
+    mutationFn: (id: string) => commentApi.delete(id),
+    onMutate: async (id) => {
+      const previousQueries = await snapshotCommentLists(queryClient);
+
+      updateCommentLists(queryClient, (old) => {
+        const isTopLevel = old.data.some((comment) => comment.id === id);
+        const pagination = old.meta.pagination;
+
+        return {
+          ...old,
+          data: removeCommentFromTree(old.data, id),
+          meta: {
+            ...old.meta,
+            pagination: isTopLevel
+              ? { ...pagination, total: Math.max(0, pagination.total - 1) }
+              : pagination,
+          },
+        };
+      });
+
+      return { previousQueries };
+    },
+    onSuccess: () => {
+      toast.success(t("deleteSuccess"));
+    },
+    onError: (_err, _id, context) => {
+      restoreCommentLists(queryClient, context?.previousQueries);
+      toast.error(t("deleteError"));
+    },
+    onSettled: () => invalidateCommentLists(queryClient),
+  });
+}
+
 /**
  * Hook for prefetching comments
  */
@@ -0,0 +1,68 @@
+"use client";
+
+/**
+ * Library List Controls Hook
+ * Page, sort/filter options, list mode and selection state shared by the
+ * bookmarks and history tabs
+ */
+
+import { useCallback, useState } from "react";
+import { useListMode } from "@/lib/store/listPreferencesStore";
+import {
+  DEFAULT_LIBRARY_OPTIONS,
+  isDefaultLibraryOptions,
+  type LibraryListOptions,
+} from "@/lib/utils/library-filters";
+
+export function useLibraryListControls() {
+  const [page, setPage] = useState(1);
+  const [options, setOptionsState] = useState<LibraryListOptions>(
+    DEFAULT_LIBRARY_OPTIONS
+  );
+  const [isSelecting, setIsSelectingState] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const isInfinite = useListMode() === "infinite";
+  const isCustomView = !isDefaultLibraryOptions(options);
+
+  // A new filter or sort starts again from the first page
+  const setOptions = useCallback((next: LibraryListOptions) => {
+    setOptionsState(next);
+    setPage(1);
+  }, []);
+
+  // Leaving selection mode drops the selection
+  const setIsSelecting = useCallback((selecting: boolean) => {
+    setIsSelectingState(selecting);
+    if (!selecting) setSelectedIds(new Set());
+  }, []);
+
+  const toggleSelected = useCallback((id: number, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  }, []);
+
+  return {
+    page,
+    setPage,
+    options,
+    setOptions,
+    /** Sorted or filtered */
+    isCustomView,
+    /** Scrolls through the whole list instead of paging */
+    isInfinite,
+    /** Sorted, filtered or infinite - the tab works on the whole list */
+    isWholeList: isCustomView || isInfinite,
+    isSelecting,
+    setIsSelecting,
+    selectedIds,
+    setSelectedIds,
+    toggleSelected,
+  };
+}
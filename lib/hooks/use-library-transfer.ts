@@ -0,0 +1,165 @@
+"use client";
+
+/**
+ * Library Import/Export Hooks
+ * Export favorites, history and device progress to a file, and match and
+ * bulk-add titles from another reader's backup (see lib/backup)
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { mangaApi } from "@/lib/api/endpoints/manga";
+import { userFavoritesApi, userHistoryApi } from "@/lib/api/endpoints/user";
+import { toApiClientError } from "@/lib/api/errors";
+import { fetchAllPages } from "@/lib/api/pagination";
+import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
+import { resolveProgressConflict } from "@/lib/sync/reading-progress";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import {
+  BACKUP_FILE_TYPES,
+  serializeBackup,
+  type BackupFormat,
+  type ImportEntry,
+} from "@/lib/backup/formats";
+import {
+  matchEntries,
+  type ImportMatch,
+  type TitleSearch,
+} from "@/lib/backup/matching";
+import { libraryKeys } from "@/lib/hooks/use-library";
+import { LIBRARY_TRANSFER } from "@/lib/constants";
+
+// === Type Definitions ===
+interface MatchImportVariables {
+  entries: ImportEntry[];
+  signal?: AbortSignal;
+  onProgress?: (done: number) => void;
+}
+
+export interface ImportResult {
+  added: number;
+  failed: ImportMatch[];
+}
+
+function downloadFile(content: string, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Search that waits out one rate limit instead of failing the whole import
+ */
+const searchTitles: TitleSearch = async (query, signal) => {
+  const params = { q: query, per_page: LIBRARY_TRANSFER.SEARCH_RESULTS };
+
+  try {
+    return (await mangaApi.search(params, signal)).data;
+  } catch (error) {
+    const apiError = toApiClientError(error);
+    if (apiError.kind !== "rate-limited") throw error;
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, (apiError.retryAfter ?? 2) * 1000)
+    );
+    return (await mangaApi.search(params, signal)).data;
+  }
+};
+
+// === Mutation Hooks ===
+
+/**
+ * Hook for exporting the library as a downloaded file
+ */
+export function useLibraryExport() {
+  return useMutation({
+    mutationFn: async (format: BackupFormat) => {
+      const pages = {
+        perPage: LIBRARY_TRANSFER.PER_PAGE,
+        maxPages: LIBRARY_TRANSFER.MAX_PAGES,
+      };
+      const [{ data: favorites }, { data: history }] = await Promise.all([
+        fetchAllPages(userFavoritesApi.getList, pages),
+        fetchAllPages(userHistoryApi.getList, pages),
+      ]);
+      const { progress } = useReadingProgressStore.getState();
+
+      const { extension, mimeType } = BACKUP_FILE_TYPES[format];
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(
+        serializeBackup(format, { favorites, history, progress }),
+        `library-${format}-${date}.${extension}`,
+        mimeType
+      );
+
+      return { favorites: favorites.length, history: history.length };
+    },
+  });
+}
+
+/**
+ * Hook for finding backup entries on this site
+ */
+export function useMatchImportEntries() {
+  return useMutation({
+    mutationFn: ({ entries, signal, onProgress }: MatchImportVariables) =>
+      matchEntries(entries, searchTitles, {
+        concurrency: LIBRARY_TRANSFER.SEARCH_CONCURRENCY,
+        signal,
+        onProgress,
+      }),
+  });
+}
+
+/**
+ * Hook for bookmarking the reviewed matches
+ * Progress from this site's own backups is restored when newer
+ */
+export function useImportFavorites() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (matches: ImportMatch[]): Promise<ImportResult> => {
+      const results = await mapWithConcurrency(
+        matches,
+        LIBRARY_TRANSFER.IMPORT_CONCURRENCY,
+        async (match) => {
+          if (!match.manga) return false;
+          try {
+            await userFavoritesApi.add({ manga_id: match.manga.id });
+            return true;
+          } catch {
+            return false;
+          }
+        }
+      );
+
+      const { progress, mergeProgress } = useReadingProgressStore.getState();
+      const restored = Object.fromEntries(
+        matches.flatMap(({ entry, manga }) => {
+          const imported = entry.progress;
+          if (!manga || !imported || manga.slug !== entry.slug) return [];
+          const local = progress[manga.slug];
+          return !local || resolveProgressConflict(local, imported) === "server"
+            ? [[manga.slug, imported] as const]
+            : [];
+        })
+      );
+      if (Object.keys(restored).length > 0) {
+        mergeProgress(restored);
+      }
+
+      return {
+        added: results.filter(Boolean).length,
+        failed: matches.filter((_, index) => !results[index]),
+      };
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: libraryKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["user", "favorites"] });
+    },
+  });
+}
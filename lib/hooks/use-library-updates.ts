@@ -0,0 +1,140 @@
+"use client";
+
+/**
+ * Library Updates Hooks
+ * Compares the latest chapter of each bookmark with the last chapter read on
+ * this device (readingProgressStore) to find new chapters
+ *
+ * Only manga with reading progress are tracked - a bookmark that was never
+ * opened has nothing to compare against. Marking it as read starts tracking.
+ */
+
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { userFavoritesApi } from "@/lib/api/endpoints/user";
+import { useAuthStore } from "@/lib/store/authStore";
+import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
+import { LIBRARY_STALE_TIME, libraryKeys } from "@/lib/hooks/use-library";
+import type { PaginatedResponse } from "@/types/api";
+import type { ChapterReference, FavoriteManga } from "@/types/manga";
+
+// === Constants ===
+/**
+ * Bookmarks checked for updates - one request shared by the Updates tab and
+ * the navbar badge, and the same cache entry as that favorites page
+ */
+const UPDATES_PARAMS = { page: 1, per_page: 100 };
+
+// === Type Definitions ===
+export interface LibraryUpdate {
+  manga: FavoriteManga;
+  latestChapter: ChapterReference;
+  unreadCount: number;
+}
+
+/**
+ * Chapter number of a chapter reference - older API responses only have order
+ */
+function getChapterNumber(chapter: ChapterReference): number | undefined {
+  return chapter.chapter_number ?? chapter.order;
+}
+
+/**
+ * Number of chapters after the last read one, or 0 if unknown
+ * Fractional chapters (10.5) count as one chapter
+ */
+export function getUnreadCount(
+  latestChapter: ChapterReference | undefined,
+  lastReadNumber: number | undefined
+): number {
+  if (!latestChapter || lastReadNumber === undefined) return 0;
+
+  const latestNumber = getChapterNumber(latestChapter);
+  if (latestNumber === undefined) return 0;
+
+  return Math.max(0, Math.ceil(latestNumber - lastReadNumber));
+}
+
+// === Query Hooks ===
+
+/**
+ * Bookmarks with unread chapters, newest chapter first
+ */
+export function useLibraryUpdates() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const progress = useReadingProgressStore((state) => state.progress);
+
+  const query = useQuery({
+    queryKey: libraryKeys.favorites(UPDATES_PARAMS),
+    queryFn: () => userFavoritesApi.getList(UPDATES_PARAMS),
+    staleTime: LIBRARY_STALE_TIME,
+    enabled: isAuthenticated,
+    select: (data: PaginatedResponse<FavoriteManga>) => data.data,
+  });
+
+  const updates = useMemo<LibraryUpdate[]>(() => {
+    if (!query.data) return [];
+
+    return query.data
+      .flatMap((manga) => {
+        const latestChapter = manga.latest_chapter;
+        const unreadCount = getUnreadCount(
+          latestChapter,
+          progress[manga.slug]?.chapterNumber
+        );
+        return latestChapter && unreadCount > 0
+          ? [{ manga, latestChapter, unreadCount }]
+          : [];
+      })
+      .sort(
+        (a, b) =>
+          new Date(b.latestChapter.created_at).getTime() -
+          new Date(a.latestChapter.created_at).getTime()
+      );
+  }, [query.data, progress]);
+
+  const unreadCounts = useMemo(
+    () =>
+      new Map(updates.map((update) => [update.manga.id, update.unreadCount])),
+    [updates]
+  );
+
+  return {
+    updates,
+    /** Unread chapters per manga id */
+    unreadCounts,
+    totalUnread: updates.reduce((sum, update) => sum + update.unreadCount, 0),
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+// === Action Hooks ===
+
+/**
+ * Mark bookmarks as read up to their latest chapter
+ * Moves reading progress forward, so "continue" opens the latest chapter
+ */
+export function useMarkAsRead() {
+  const setProgress = useReadingProgressStore((state) => state.setProgress);
+
+  const markAsRead = useCallback(
+    (manga: Pick<FavoriteManga, "slug" | "latest_chapter">) => {
+      const latestChapter = manga.latest_chapter;
+      const latestNumber = latestChapter && getChapterNumber(latestChapter);
+      if (!latestChapter || latestNumber === undefined) return;
+
+      setProgress(manga.slug, latestChapter.slug, latestNumber);
+    },
+    [setProgress]
+  );
+
+  const markAllAsRead = useCallback(
+    (updates: LibraryUpdate[]) => {
+      updates.forEach((update) => markAsRead(update.manga));
+    },
+    [markAsRead]
+  );
+
+  return { markAsRead, markAllAsRead };
+}
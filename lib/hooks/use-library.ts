@@ -5,28 +5,24 @@
  * Custom React Query hooks for user library data (favorites, history, etc.)
  */
 
+import { useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { userFavoritesApi, userHistoryApi } from "@/lib/api/endpoints/user";
+import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
+import { applyLocalProgress } from "@/lib/sync/reading-progress";
+import { fetchAllPages } from "@/lib/api/pagination";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { libraryKeys } from "@/lib/api/query-keys";
+import { LIBRARY_BULK } from "@/lib/constants";
 import type { PaginatedResponse } from "@/types/api";
 import type { FavoriteManga } from "@/types/manga";
 import type { ReadingHistoryItem } from "@/types/chapter";
 
 // === Constants ===
-const LIBRARY_STALE_TIME = 1000 * 60 * 5; // 5 minutes
+export const LIBRARY_STALE_TIME = 1000 * 60 * 5; // 5 minutes
 
 // === Query Keys ===
-/**
- * Library Query Keys
- * Hierarchical pattern for cache management
- */
-export const libraryKeys = {
-  all: ["library"] as const,
-  favorites: (params?: { page?: number; per_page?: number }) =>
-    [...libraryKeys.all, "favorites", params] as const,
-  history: (params?: { page?: number; per_page?: number }) =>
-    [...libraryKeys.all, "history", params] as const,
-  continueReading: () => [...libraryKeys.all, "continue-reading"] as const,
-};
+export { libraryKeys };
 
 // === Type Definitions ===
 interface UseFavoritesParams {
@@ -56,6 +52,74 @@ interface ContinueReadingData {
   hasMore: boolean;
 }
 
+export interface BulkRemoveResult {
+  removed: number[];
+  failed: number[];
+}
+
+// === Helpers ===
+
+const fullListPages = {
+  perPage: LIBRARY_BULK.PER_PAGE,
+  maxPages: LIBRARY_BULK.MAX_PAGES,
+};
+
+/**
+ * Cache updater dropping `ids` from a page, adjusting its total
+ */
+function withoutIds<T>(ids: Set<number>, getId: (item: T) => number) {
+  return (oldData: PaginatedResponse<T> | undefined) => {
+    if (!oldData) return oldData;
+    const data = oldData.data.filter((item) => !ids.has(getId(item)));
+    return {
+      ...oldData,
+      data,
+      meta: {
+        ...oldData.meta,
+        pagination: {
+          ...oldData.meta.pagination,
+          total:
+            oldData.meta.pagination.total - (oldData.data.length - data.length),
+        },
+      },
+    };
+  };
+}
+
+/**
+ * Remove each id, a few requests at a time, reporting which ones failed
+ */
+async function removeEach(
+  ids: number[],
+  remove: (id: number) => Promise<unknown>
+): Promise<BulkRemoveResult> {
+  const results = await mapWithConcurrency(
+    ids,
+    LIBRARY_BULK.REMOVE_CONCURRENCY,
+    (id) =>
+      remove(id).then(
+        () => true,
+        () => false
+      )
+  );
+  return {
+    removed: ids.filter((_, index) => results[index]),
+    failed: ids.filter((_, index) => !results[index]),
+  };
+}
+
+/**
+ * Forget device progress for removed history, or the next sync would
+ * upload it again
+ */
+function clearRemovedProgress(removed: number[], items: ReadingHistoryItem[]) {
+  const ids = new Set(removed);
+  const { clearProgress } = useReadingProgressStore.getState();
+  items
+    .filter((item) => ids.has(item.manga.id))
+    .forEach((item) => clearProgress(item.manga.slug));
+}
+
 // === Query Hooks ===
 
 /**
@@ -102,12 +166,44 @@ export function useHistory({
   });
 }
 
+/**
+ * Hook for fetching every favorite (up to LIBRARY_BULK.MAX_PAGES pages)
+ * Only enabled while the bookmarks tab is sorted or filtered
+ */
+export function useAllFavorites(enabled: boolean) {
+  return useQuery({
+    queryKey: libraryKeys.favoritesAll(),
+    queryFn: () => fetchAllPages(userFavoritesApi.getList, fullListPages),
+    staleTime: LIBRARY_STALE_TIME,
+    enabled,
+    select: (data: PaginatedResponse<FavoriteManga>) => data.data,
+  });
+}
+
+/**
+ * Hook for fetching all reading history (up to LIBRARY_BULK.MAX_PAGES pages)
+ * Only enabled while the history tab is sorted or filtered
+ */
+export function useAllHistory(enabled: boolean) {
+  return useQuery({
+    queryKey: libraryKeys.historyAll(),
+    queryFn: () => fetchAllPages(userHistoryApi.getList, fullListPages),
+    staleTime: LIBRARY_STALE_TIME,
+    enabled,
+    select: (data: PaginatedResponse<ReadingHistoryItem>) => data.data,
+  });
+}
+
 /**
  * Continue Reading: First 5 items from history
  * Used for "Continue Reading" tab preview
+ * Newer progress from this device (not synced yet) replaces the server's
+ * chapter, so it matches the manga page's "continue" button
  */
 export function useContinueReading() {
-  return useQuery({
+  const progress = useReadingProgressStore((state) => state.progress);
+
+  const query = useQuery({
     queryKey: libraryKeys.continueReading(),
     queryFn: () => userHistoryApi.getList({ per_page: 5, page: 1 }),
     staleTime: LIBRARY_STALE_TIME,
@@ -118,6 +214,23 @@ export function useContinueReading() {
       hasMore: data.meta.pagination.last_page > 1,
     }),
   });
+
+  const data = useMemo<ContinueReadingData | undefined>(
+    () =>
+      query.data && {
+        ...query.data,
+        items: query.data.items
+          .map((item) => applyLocalProgress(item, progress[item.manga.slug]))
+          .sort(
+            (a, b) =>
+              new Date(b.last_read_at).getTime() -
+              new Date(a.last_read_at).getTime()
+          ),
+      },
+    [query.data, progress]
+  );
+
+  return { ...query, data };
 }
 
 // === Mutation Hooks ===
@@ -181,6 +294,16 @@ export function useRemoveFromHistory() {
       return { previousHistoryQueries, previousContinueReading };
     },
 
+    onSuccess: (_data, mangaId, context) => {
+      // Drop device progress too, or the next sync would upload it again
+      const slug = context?.previousHistoryQueries
+        .flatMap(([, data]) => data?.data ?? [])
+        .find((item) => item.manga.id === mangaId)?.manga.slug;
+      if (slug) {
+        useReadingProgressStore.getState().clearProgress(slug);
+      }
+    },
+
     onError: (_err, _mangaId, context) => {
       // Rollback on error
       if (context?.previousHistoryQueries) {
@@ -267,6 +390,182 @@ export function useRemoveBookmark() {
   });
 }
 
+/**
+ * Hook for removing several favorites at once
+ * Optimistically drops them from every favorites cache; failures come back
+ * with the refetch
+ */
+export function useBulkRemoveBookmarks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (mangaIds: number[]) =>
+      removeEach(mangaIds, userFavoritesApi.remove),
+
+    onMutate: async (mangaIds: number[]) => {
+      await queryClient.cancelQueries({ queryKey: libraryKeys.all });
+
+      const previousQueries = queryClient.getQueriesData<
+        PaginatedResponse<FavoriteManga>
+      >({ queryKey: ["library", "favorites"] });
+
+      queryClient.setQueriesData<PaginatedResponse<FavoriteManga>>(
+        { queryKey: ["library", "favorites"] },
+        withoutIds<FavoriteManga>(new Set(mangaIds), (manga) => manga.id)
+      );
+
+      return { previousQueries };
+    },
+
+    onError: (_err, _mangaIds, context) => {
+      context?.previousQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["library", "favorites"] });
+      queryClient.invalidateQueries({ queryKey: ["user", "favorites"] });
+    },
+  });
+}
+
+/**
+ * Hook for removing several manga from reading history at once
+ */
+export function useBulkRemoveFromHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (mangaIds: number[]) =>
+      removeEach(mangaIds, userHistoryApi.remove),
+
+    onMutate: async (mangaIds: number[]) => {
+      await queryClient.cancelQueries({ queryKey: libraryKeys.all });
+
+      const previousHistoryQueries = queryClient.getQueriesData<
+        PaginatedResponse<ReadingHistoryItem>
+      >({ queryKey: ["library", "history"] });
+      const previousContinueReading = queryClient.getQueryData<
+        PaginatedResponse<ReadingHistoryItem>
+      >(libraryKeys.continueReading());
+
+      const updater = withoutIds<ReadingHistoryItem>(
+        new Set(mangaIds),
+        (item) => item.manga.id
+      );
+      queryClient.setQueriesData<PaginatedResponse<ReadingHistoryItem>>(
+        { queryKey: ["library", "history"] },
+        updater
+      );
+      queryClient.setQueryData<PaginatedResponse<ReadingHistoryItem>>(
+        libraryKeys.continueReading(),
+        updater
+      );
+
+      return { previousHistoryQueries, previousContinueReading };
+    },
+
+    onSuccess: ({ removed }, _mangaIds, context) => {
+      clearRemovedProgress(
+        removed,
+        context?.previousHistoryQueries.flatMap(
+          ([, data]) => data?.data ?? []
+        ) ?? []
+      );
+    },
+
+    onError: (_err, _mangaIds, context) => {
+      context?.previousHistoryQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      queryClient.setQueryData(
+        libraryKeys.continueReading(),
+        context?.previousContinueReading
+      );
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["library", "history"] });
+      queryClient.invalidateQueries({
+        queryKey: libraryKeys.continueReading(),
+      });
+    },
+  });
+}
+
+/**
+ * Hook for clearing the whole reading history
+ * The API removes one manga at a time, so this collects every history entry
+ * first and removes them in parallel batches
+ */
+export function useClearHistory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data } = await fetchAllPages(
+        userHistoryApi.getList,
+        fullListPages
+      );
+      const result = await removeEach(
+        data.map((item) => item.manga.id),
+        userHistoryApi.remove
+      );
+      clearRemovedProgress(result.removed, data);
+      return result;
+    },
+
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey: libraryKeys.all });
+
+      const previousHistoryQueries = queryClient.getQueriesData<
+        PaginatedResponse<ReadingHistoryItem>
+      >({ queryKey: ["library", "history"] });
+      const previousContinueReading = queryClient.getQueryData<
+        PaginatedResponse<ReadingHistoryItem>
+      >(libraryKeys.continueReading());
+
+      const clear = (oldData?: PaginatedResponse<ReadingHistoryItem>) =>
+        oldData && {
+          ...oldData,
+          data: [],
+          meta: {
+            ...oldData.meta,
+            pagination: { ...oldData.meta.pagination, last_page: 1, total: 0 },
+          },
+        };
+      queryClient.setQueriesData<PaginatedResponse<ReadingHistoryItem>>(
+        { queryKey: ["library", "history"] },
+        clear
+      );
+      queryClient.setQueryData<PaginatedResponse<ReadingHistoryItem>>(
+        libraryKeys.continueReading(),
+        clear
+      );
+
+      return { previousHistoryQueries, previousContinueReading };
+    },
+
+    onError: (_err, _variables, context) => {
+      context?.previousHistoryQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      queryClient.setQueryData(
+        libraryKeys.continueReading(),
+        context?.previousContinueReading
+      );
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["library", "history"] });
+      queryClient.invalidateQueries({
+        queryKey: libraryKeys.continueReading(),
+      });
+    },
+  });
+}
+
 // === Prefetch Hook ===
 
 /**
@@ -0,0 +1,113 @@
+"use client";
+
+/**
+ * Locale Switcher Hook
+ * Switches the UI language via the locale cookie and keeps the logged-in
+ * user's saved preference in sync
+ */
+
+import { useCallback, useEffect, useRef, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { useLocale } from "next-intl";
+import { useAuthStore } from "@/lib/store/authStore";
+import { authApi } from "@/lib/api/endpoints/auth";
+import { PROFILE_LOCALE_ENABLED } from "@/lib/api/config";
+import {
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  LOCALE_QUERY_PARAM,
+  isSupportedLocale,
+  type SupportedLocale,
+} from "@/lib/i18n/config";
+
+function writeLocaleCookie(locale: SupportedLocale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+}
+
+/**
+ * Apply a locale on this device: cookie + server re-render
+ * A `?lang=` param would override the cookie, so it's dropped from the URL
+ */
+function useApplyLocale() {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const applyLocale = useCallback(
+    (locale: SupportedLocale) => {
+      writeLocaleCookie(locale);
+
+      const url = new URL(window.location.href);
+      startTransition(() => {
+        if (url.searchParams.has(LOCALE_QUERY_PARAM)) {
+          url.searchParams.delete(LOCALE_QUERY_PARAM);
+          router.replace(`${url.pathname}${url.search}${url.hash}`);
+        } else {
+          router.refresh();
+        }
+      });
+    },
+    [router]
+  );
+
+  return { applyLocale, isPending };
+}
+
+/**
+ * Hook to read and change the current locale
+ * Logged-in users also get the choice saved to their profile, once the
+ * backend supports it (PROFILE_LOCALE_ENABLED)
+ */
+export function useLocaleSwitcher() {
+  const currentLocale = useLocale();
+  const { applyLocale, isPending } = useApplyLocale();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const updateUser = useAuthStore((state) => state.updateUser);
+
+  const switchLocale = useCallback(
+    async (locale: SupportedLocale) => {
+      if (locale === currentLocale) return;
+
+      applyLocale(locale);
+
+      if (isAuthenticated && PROFILE_LOCALE_ENABLED) {
+        updateUser({ locale });
+        try {
+          await authApi.updateProfile({ locale });
+        } catch (error) {
+          console.error("Failed to save locale preference:", error);
+        }
+      }
+    },
+    [currentLocale, applyLocale, isAuthenticated, updateUser]
+  );
+
+  return {
+    locale: currentLocale as SupportedLocale,
+    switchLocale,
+    isPending,
+  };
+}
+
+/**
+ * Apply the signed-in user's saved language once per user
+ * Mount in a single always-rendered component (the navbar switcher)
+ */
+export function useSyncUserLocale() {
+  const currentLocale = useLocale();
+  const { applyLocale } = useApplyLocale();
+  const user = useAuthStore((state) => state.user);
+  const syncedUserId = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!user || syncedUserId.current === user.id) return;
+    syncedUserId.current = user.id;
+
+    if (
+      user.locale &&
+      isSupportedLocale(user.locale) &&
+      user.locale !== currentLocale
+    ) {
+      applyLocale(user.locale);
+    }
+  }, [user, currentLocale, applyLocale]);
+}
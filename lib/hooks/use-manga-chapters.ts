@@ -0,0 +1,61 @@
+"use client";
+
+/**
+ * Manga Chapters Hook
+ * Every chapter of a manga, shared by the detail page chapter list and the
+ * reader's chapter dropdown and navigation
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { mangaApi } from "@/lib/api/endpoints/manga";
+import { chapterKeys } from "@/lib/api/query-keys";
+import { listDownloadedChapters } from "@/lib/offline/chapter-downloads";
+import { STALE_TIMES } from "@/lib/constants";
+import type { ChapterListItem } from "@/types/chapter";
+
+/**
+ * Offline: only downloaded chapters can be opened, so list those
+ */
+async function listDownloadedChapterItems(
+  mangaSlug: string
+): Promise<ChapterListItem[]> {
+  const downloaded = await listDownloadedChapters(mangaSlug);
+  return downloaded
+    .map(
+      ({ chapter: c }): ChapterListItem => ({
+        id: c.id,
+        uuid: c.uuid,
+        name: c.name,
+        slug: c.slug,
+        views: c.views,
+        order: c.order,
+        chapter_number: c.chapter_number,
+        created_at: c.created_at,
+        updated_at: c.updated_at,
+      })
+    )
+    .sort((a, b) => a.chapter_number - b.chapter_number);
+}
+
+/**
+ * Hook for fetching every chapter of a manga, lowest chapter number first
+ * Falls back to downloaded chapters when the API can't be reached
+ */
+export function useMangaChapters(mangaSlug: string, enabled = true) {
+  return useQuery({
+    queryKey: chapterKeys.list(mangaSlug),
+    queryFn: async () => {
+      try {
+        return await mangaApi.getAllChapters(mangaSlug);
+      } catch (err) {
+        const downloaded = await listDownloadedChapterItems(mangaSlug).catch(
+          () => []
+        );
+        if (downloaded.length === 0) throw err;
+        return downloaded;
+      }
+    },
+    staleTime: STALE_TIMES.LONG,
+    enabled: enabled && !!mangaSlug,
+  });
+}
@@ -0,0 +1,124 @@
+"use client";
+
+/**
+ * Offline Chapter Hooks
+ * React Query wrappers around lib/offline/chapter-downloads
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { chapterApi } from "@/lib/api/endpoints/chapter";
+import {
+  downloadChapter,
+  getStorageEstimate,
+  isOfflineStorageSupported,
+  listDownloadedChapters,
+  removeDownloadedChapter,
+  type DownloadProgress,
+} from "@/lib/offline/chapter-downloads";
+import type { ChapterWithNavigation } from "@/types/chapter";
+
+// === Query Keys ===
+export const offlineKeys = {
+  all: ["offline-chapters"] as const,
+  list: (mangaSlug?: string) =>
+    [...offlineKeys.all, "list", mangaSlug ?? "all"] as const,
+  storage: () => [...offlineKeys.all, "storage"] as const,
+};
+
+/**
+ * Fetch chapter details merged with its page images
+ * Same shape the reader caches under ["chapter", mangaSlug, chapterSlug]
+ */
+async function fetchChapterWithContent(
+  mangaSlug: string,
+  chapterSlug: string
+): Promise<ChapterWithNavigation> {
+  const [chapterData, imagesData] = await Promise.all([
+    chapterApi.getDetail(mangaSlug, chapterSlug),
+    chapterApi.getImages(mangaSlug, chapterSlug),
+  ]);
+
+  return {
+    ...chapterData,
+    content: imagesData.images,
+  } as ChapterWithNavigation;
+}
+
+// === Query Hooks ===
+
+/**
+ * Downloaded chapters, optionally limited to one manga
+ */
+export function useDownloadedChapters(mangaSlug?: string) {
+  return useQuery({
+    queryKey: offlineKeys.list(mangaSlug),
+    queryFn: () => listDownloadedChapters(mangaSlug),
+    enabled: isOfflineStorageSupported(),
+    staleTime: Infinity, // Only changes through the mutations below
+  });
+}
+
+/**
+ * Origin storage usage/quota from the Storage API
+ */
+export function useStorageEstimate() {
+  return useQuery({
+    queryKey: offlineKeys.storage(),
+    queryFn: getStorageEstimate,
+    enabled: isOfflineStorageSupported(),
+  });
+}
+
+// === Mutation Hooks ===
+
+/**
+ * Download a chapter for offline reading
+ * Accepts an already loaded chapter (reader) or a chapter slug (chapter list)
+ */
+export function useDownloadChapter(mangaSlug: string) {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: async (chapter: ChapterWithNavigation | string) => {
+      const data =
+        typeof chapter === "string"
+          ? await queryClient.fetchQuery({
+              queryKey: ["chapter", mangaSlug, chapter],
+              queryFn: () => fetchChapterWithContent(mangaSlug, chapter),
+            })
+          : chapter;
+
+      return downloadChapter(data, mangaSlug, setProgress);
+    },
+
+    onSettled: () => {
+      setProgress(null);
+      queryClient.invalidateQueries({ queryKey: offlineKeys.all });
+    },
+  });
+
+  return { ...mutation, progress };
+}
+
+/**
+ * Remove a downloaded chapter
+ */
+export function useRemoveDownloadedChapter() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      mangaSlug,
+      chapterSlug,
+    }: {
+      mangaSlug: string;
+      chapterSlug: string;
+    }) => removeDownloadedChapter(mangaSlug, chapterSlug),
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: offlineKeys.all });
+    },
+  });
+}
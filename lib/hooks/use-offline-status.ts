@@ -0,0 +1,57 @@
+"use client";
+
+/**
+ * Offline Status Hook
+ * Combines the browser's online state with service worker messages that say
+ * cached data was served because the network failed
+ */
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { isServiceWorkerMessage } from "@/sw/protocol";
+
+function subscribeOnline(callback: () => void) {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+/**
+ * Hook to track whether the app is offline and showing cached data
+ */
+export function useOfflineStatus() {
+  const isOnline = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+  const [servedFromCache, setServedFromCache] = useState(false);
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (!isServiceWorkerMessage(event.data)) return;
+      if (event.data.type === "OFFLINE_FALLBACK") setServedFromCache(true);
+      if (event.data.type === "ONLINE") setServedFromCache(false);
+    };
+
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    return () =>
+      navigator.serviceWorker.removeEventListener("message", handleMessage);
+  }, []);
+
+  // Coming back online means fresh data is on its way
+  const [wasOnline, setWasOnline] = useState(isOnline);
+  if (isOnline !== wasOnline) {
+    setWasOnline(isOnline);
+    if (isOnline) setServedFromCache(false);
+  }
+
+  return {
+    isOffline: !isOnline,
+    showingCachedData: servedFromCache,
+  };
+}
@@ -8,6 +8,7 @@
 import { useState, useCallback } from "react";
 import { useAuthStore } from "@/lib/store/authStore";
 import { authApi } from "@/lib/api/endpoints/auth";
+import { toApiClientError, type ApiClientError } from "@/lib/api/errors";
 import {
   updateProfileSchema,
   avatarFileSchema,
@@ -21,7 +22,7 @@ import type { ChangePasswordData } from "@/types/user";
  */
 export function useUpdateProfile() {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiClientError | null>(null);
   const updateUser = useAuthStore((state) => state.updateUser);
 
   const updateProfile = useCallback(
@@ -40,11 +41,10 @@ export function useUpdateProfile() {
         updateUser(updatedUser);
 
         return { success: true, data: updatedUser };
-      } catch {
-        // Sanitize error messages - don't expose raw API errors
-        const errorMessage = "user.profile.updateFailed";
-        setError(errorMessage);
-        return { success: false, error: errorMessage };
+      } catch (err) {
+        const apiError = toApiClientError(err);
+        setError(apiError);
+        return { success: false, error: apiError };
       } finally {
         setIsLoading(false);
       }
@@ -65,7 +65,7 @@ export function useUpdateProfile() {
  */
 export function useUploadAvatar() {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiClientError | null>(null);
   const updateUser = useAuthStore((state) => state.updateUser);
 
   const uploadAvatar = useCallback(
@@ -84,11 +84,10 @@ export function useUploadAvatar() {
         updateUser(updatedUser);
 
         return { success: true, data: updatedUser };
-      } catch {
-        // Sanitize error messages - don't expose raw API errors
-        const errorMessage = "user.profile.avatarUploadFailed";
-        setError(errorMessage);
-        return { success: false, error: errorMessage };
+      } catch (err) {
+        const apiError = toApiClientError(err);
+        setError(apiError);
+        return { success: false, error: apiError };
       } finally {
         setIsLoading(false);
       }
@@ -110,7 +109,7 @@ export function useUploadAvatar() {
  */
 export function useUpdatePassword() {
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiClientError | null>(null);
 
   const updatePassword = useCallback(async (data: ChangePasswordData) => {
     setIsLoading(true);
@@ -129,11 +128,10 @@ export function useUpdatePassword() {
 
       // No user data changes (only password hash on backend)
       return { success: true };
-    } catch {
-      // Sanitize error messages - don't expose raw API errors
-      const errorMessage = "user.profile.passwordUpdateFailed";
-      setError(errorMessage);
-      return { success: false, error: errorMessage };
+    } catch (err) {
+      const apiError = toApiClientError(err);
+      setError(apiError);
+      return { success: false, error: apiError };
     } finally {
       setIsLoading(false);
     }
@@ -0,0 +1,127 @@
+"use client";
+
+/**
+ * Push Notification Hooks
+ * Browser push subscription state and new chapter notification preferences
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { userPushApi } from "@/lib/api/endpoints/user";
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/lib/push/subscription";
+import { useAuthStore } from "@/lib/store/authStore";
+import { STALE_TIMES } from "@/lib/constants";
+import type { PushPreferences } from "@/types/user";
+
+// === Query Keys ===
+export const pushKeys = {
+  all: ["push"] as const,
+  subscription: () => [...pushKeys.all, "subscription"] as const,
+  preferences: () => [...pushKeys.all, "preferences"] as const,
+};
+
+// === Type Definitions ===
+interface PushSubscriptionState {
+  supported: boolean;
+  permission: NotificationPermission;
+  subscribed: boolean;
+}
+
+// === Query Hooks ===
+
+/**
+ * Whether this browser can receive push and is subscribed
+ * Permission and subscription live in the browser, not the backend
+ */
+export function usePushSubscription() {
+  return useQuery({
+    queryKey: pushKeys.subscription(),
+    queryFn: async (): Promise<PushSubscriptionState> => {
+      if (!isPushSupported()) {
+        return { supported: false, permission: "denied", subscribed: false };
+      }
+      return {
+        supported: true,
+        permission: Notification.permission,
+        subscribed: (await getPushSubscription()) !== null,
+      };
+    },
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Which bookmarks send new chapter notifications
+ */
+export function usePushPreferences() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: pushKeys.preferences(),
+    queryFn: () => userPushApi.getPreferences(),
+    staleTime: STALE_TIMES.LONG,
+    enabled: isAuthenticated,
+  });
+}
+
+// === Mutation Hooks ===
+
+/**
+ * Subscribe or unsubscribe this browser
+ * Resolves to the permission when enabling so callers can explain a denial
+ */
+export function useTogglePushSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (enable: boolean) => {
+      if (enable) return subscribeToPush();
+      await unsubscribeFromPush();
+      return Notification.permission;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: pushKeys.subscription() });
+    },
+  });
+}
+
+/**
+ * Update notification preferences
+ * Uses optimistic update so toggles respond immediately
+ */
+export function useUpdatePushPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preferences: PushPreferences) =>
+      userPushApi.updatePreferences(preferences),
+
+    onMutate: async (preferences) => {
+      await queryClient.cancelQueries({ queryKey: pushKeys.preferences() });
+
+      const previousPreferences = queryClient.getQueryData<PushPreferences>(
+        pushKeys.preferences()
+      );
+      queryClient.setQueryData(pushKeys.preferences(), preferences);
+
+      return { previousPreferences };
+    },
+
+    onError: (_err, _preferences, context) => {
+      if (context?.previousPreferences) {
+        queryClient.setQueryData(
+          pushKeys.preferences(),
+          context.previousPreferences
+        );
+      }
+    },
+
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(pushKeys.preferences(), preferences);
+    },
+  });
+}
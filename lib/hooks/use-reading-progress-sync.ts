@@ -0,0 +1,148 @@
+"use client";
+
+/**
+ * Reading Progress Sync Hook
+ * Reconciles device reading progress with server history on login and
+ * periodically while the tab is visible (see lib/sync/reading-progress.ts)
+ */
+
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { userHistoryApi } from "@/lib/api/endpoints/user";
+import { chapterApi } from "@/lib/api/endpoints/chapter";
+import { ApiClientError } from "@/lib/api/errors";
+import { useAuthStore } from "@/lib/store/authStore";
+import { useReadingProgressStore } from "@/lib/store/readingProgressStore";
+import { reconcileProgress } from "@/lib/sync/reading-progress";
+import { libraryKeys } from "@/lib/hooks/use-library";
+import { READING_SYNC } from "@/lib/constants";
+import type { HistorySyncEntry, ReadingHistoryItem } from "@/types/chapter";
+
+/**
+ * Chapters the API no longer has (404), skipped for the rest of the session
+ * so they don't take upload slots on every sync
+ */
+const missingChapters = new Set<string>();
+
+const entryKey = (entry: HistorySyncEntry) =>
+  `${entry.manga_slug}/${entry.chapter_slug}`;
+
+/**
+ * Record device progress in server history
+ * The API has no upload endpoint - an authenticated request for the
+ * chapter's images records history, so each entry costs one images request
+ * (the full image list) just to be recorded. The newest entries are
+ * requested oldest first to keep the server's order. A failing entry doesn't
+ * stop the others; the first failure other than a 404 is rethrown at the end.
+ */
+async function uploadProgress(entries: HistorySyncEntry[]): Promise<void> {
+  const newest = entries
+    .filter((entry) => !missingChapters.has(entryKey(entry)))
+    .sort((a, b) => Date.parse(b.read_at) - Date.parse(a.read_at))
+    .slice(0, READING_SYNC.MAX_UPLOADS)
+    .reverse();
+
+  let failure: unknown;
+  for (const entry of newest) {
+    try {
+      await chapterApi.getImages(entry.manga_slug, entry.chapter_slug);
+    } catch (error) {
+      if (error instanceof ApiClientError && error.status === 404) {
+        missingChapters.add(entryKey(entry));
+      } else {
+        failure ??= error;
+      }
+    }
+  }
+
+  if (failure) throw failure;
+}
+
+/**
+ * Fetch the newest history pages, reconcile and apply both directions
+ * Returns whether server history changed
+ */
+async function syncReadingProgress(): Promise<boolean> {
+  const history: ReadingHistoryItem[] = [];
+  let complete = false;
+
+  for (let page = 1; page <= READING_SYNC.MAX_PAGES; page++) {
+    const response = await userHistoryApi.getList({
+      page,
+      per_page: READING_SYNC.PER_PAGE,
+    });
+    history.push(...response.data);
+
+    if (page >= response.meta.pagination.last_page) {
+      complete = true;
+      break;
+    }
+  }
+
+  const { progress, mergeProgress } = useReadingProgressStore.getState();
+  const { toLocal, toServer } = reconcileProgress(progress, history, complete);
+
+  if (Object.keys(toLocal).length > 0) {
+    mergeProgress(toLocal);
+  }
+
+  if (toServer.length > 0) {
+    await uploadProgress(toServer);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Hook to keep device progress and server history in agreement
+ * Mount once, in an always-rendered component
+ */
+export function useReadingProgressSync() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let running = false;
+    let lastSynced = 0;
+
+    const sync = async () => {
+      if (running || document.visibilityState !== "visible") return;
+      running = true;
+
+      try {
+        const serverChanged = await syncReadingProgress();
+        if (serverChanged) {
+          queryClient.invalidateQueries({ queryKey: ["library", "history"] });
+          queryClient.invalidateQueries({
+            queryKey: libraryKeys.continueReading(),
+          });
+        }
+      } catch (error) {
+        // Retried after the next interval, not on every visibility change
+        console.error("Failed to sync reading progress:", error);
+      } finally {
+        lastSynced = Date.now();
+        running = false;
+      }
+    };
+
+    const syncIfStale = () => {
+      if (Date.now() - lastSynced >= READING_SYNC.INTERVAL) {
+        void sync();
+      }
+    };
+
+    // Runs right after login, so anonymous reading is uploaded
+    void sync();
+    const timer = setInterval(syncIfStale, READING_SYNC.INTERVAL);
+    document.addEventListener("visibilitychange", syncIfStale);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", syncIfStale);
+    };
+  }, [isAuthenticated, queryClient]);
+}
@@ -15,24 +15,24 @@ import { authApi } from "@/lib/api/endpoints/auth";
 export function useRefreshUser() {
   const setAuth = useAuthStore((state) => state.setAuth);
   const updateUser = useAuthStore((state) => state.updateUser);
-  const token = useAuthStore((state) => state.token);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
 
   const refreshUser = useCallback(async () => {
-    if (!token) return null;
+    if (!isAuthenticated) return null;
 
     try {
       const user = await authApi.getProfile();
       // Update the entire user object in the store
-      setAuth(user, token);
+      setAuth(user);
       return user;
     } catch (error) {
       console.error("Failed to refresh user data:", error);
       return null;
     }
-  }, [token, setAuth]);
+  }, [isAuthenticated, setAuth]);
 
   const refreshUserPartial = useCallback(async () => {
-    if (!token) return null;
+    if (!isAuthenticated) return null;
 
     try {
       const user = await authApi.getProfile();
@@ -48,7 +48,7 @@ export function useRefreshUser() {
       console.error("Failed to refresh user data partially:", error);
       return null;
     }
-  }, [token, updateUser]);
+  }, [isAuthenticated, updateUser]);
 
   return {
     refreshUser,
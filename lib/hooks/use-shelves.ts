@@ -0,0 +1,206 @@
+"use client";
+
+/**
+ * Shelf Hooks
+ * React Query hooks for named reading lists (Reading, Plan to read, custom...)
+ * Backed by the mock userShelvesApi until the backend ships shelves
+ */
+
+import { useCallback } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslations } from "next-intl";
+import { userShelvesApi } from "@/lib/api/endpoints/user";
+import { useAuthStore } from "@/lib/store/authStore";
+import type { MangaReference } from "@/types/chapter";
+import type { Shelf, ShelfEntry } from "@/types/user";
+
+// === Query Keys ===
+export const shelfKeys = {
+  all: ["shelves"] as const,
+  list: () => [...shelfKeys.all, "list"] as const,
+  entries: (shelfId: string) => [...shelfKeys.all, "entries", shelfId] as const,
+  manga: (mangaId: number) => [...shelfKeys.all, "manga", mangaId] as const,
+};
+
+// === Type Definitions ===
+interface ToggleShelfMangaVariables {
+  shelfId: string;
+  manga: MangaReference;
+  add: boolean;
+}
+
+interface MoveShelfMangaVariables {
+  fromId: string;
+  toId: string;
+  mangaId: number;
+  position?: number;
+}
+
+// === Query Hooks ===
+
+/**
+ * Hook for fetching the user's shelves with manga counts
+ */
+export function useShelves() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: shelfKeys.list(),
+    queryFn: () => userShelvesApi.getList(),
+    enabled: isAuthenticated,
+  });
+}
+
+/**
+ * Hook for fetching the manga on one shelf
+ */
+export function useShelfEntries(shelfId: string | null) {
+  return useQuery({
+    queryKey: shelfKeys.entries(shelfId ?? ""),
+    queryFn: () => userShelvesApi.getEntries(shelfId!),
+    enabled: !!shelfId,
+  });
+}
+
+/**
+ * Hook for fetching which shelves a manga is on
+ */
+export function useMangaShelves(mangaId: number) {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: shelfKeys.manga(mangaId),
+    queryFn: () => userShelvesApi.getMangaShelves(mangaId),
+    enabled: isAuthenticated,
+  });
+}
+
+// === Mutation Hooks ===
+
+export function useCreateShelf() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => userShelvesApi.create(name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shelfKeys.list() });
+    },
+  });
+}
+
+export function useRenameShelf() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) =>
+      userShelvesApi.rename(id, name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shelfKeys.list() });
+    },
+  });
+}
+
+export function useDeleteShelf() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => userShelvesApi.remove(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: shelfKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for putting a manga on a shelf or taking it off
+ */
+export function useToggleShelfManga() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ shelfId, manga, add }: ToggleShelfMangaVariables) =>
+      add
+        ? userShelvesApi.addManga(shelfId, manga)
+        : userShelvesApi.removeManga(shelfId, manga.id),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: shelfKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook for moving a manga between shelves (drag and drop)
+ * Uses optimistic update so the card lands immediately
+ */
+export function useMoveShelfManga() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      fromId,
+      toId,
+      mangaId,
+      position,
+    }: MoveShelfMangaVariables) =>
+      userShelvesApi.moveManga(fromId, toId, mangaId, position),
+
+    onMutate: async ({ fromId, toId, mangaId, position }) => {
+      await queryClient.cancelQueries({ queryKey: shelfKeys.all });
+
+      const previousFrom = queryClient.getQueryData<ShelfEntry[]>(
+        shelfKeys.entries(fromId)
+      );
+      const previousTo = queryClient.getQueryData<ShelfEntry[]>(
+        shelfKeys.entries(toId)
+      );
+
+      const entry = previousFrom?.find((item) => item.manga.id === mangaId);
+      if (entry) {
+        const remaining = previousFrom!.filter(
+          (item) => item.manga.id !== mangaId
+        );
+        const target =
+          fromId === toId
+            ? remaining
+            : (previousTo ?? []).filter((item) => item.manga.id !== mangaId);
+        const moved = [...target];
+        moved.splice(position ?? moved.length, 0, entry);
+
+        if (fromId !== toId) {
+          queryClient.setQueryData(shelfKeys.entries(fromId), remaining);
+        }
+        queryClient.setQueryData(shelfKeys.entries(toId), moved);
+      }
+
+      return { previousFrom, previousTo };
+    },
+
+    onError: (_err, { fromId, toId }, context) => {
+      queryClient.setQueryData(
+        shelfKeys.entries(fromId),
+        context?.previousFrom
+      );
+      queryClient.setQueryData(shelfKeys.entries(toId), context?.previousTo);
+    },
+
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: shelfKeys.all });
+    },
+  });
+}
+
+// === Display Helpers ===
+
+/**
+ * Hook returning a formatter for shelf names
+ * System shelves are stored without a name and translated here
+ */
+export function useShelfLabel() {
+  const t = useTranslations("user.library.shelves.system");
+
+  return useCallback(
+    (shelf: Pick<Shelf, "name" | "system">) =>
+      shelf.system ? t(shelf.system) : shelf.name,
+    [t]
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+/**
+ * Undoable Removal Hook
+ * Hides items straight away and shows a toast with an Undo action; the
+ * removal is only sent once the toast closes. Pending removals are sent
+ * right away if the component unmounts (e.g. switching library tabs).
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { LIBRARY_BULK } from "@/lib/constants";
+
+interface UndoableRemovalOptions {
+  /** Send the removal - called once per batch unless undone */
+  commit: (ids: number[]) => void;
+}
+
+export function useUndoableRemoval({ commit }: UndoableRemovalOptions) {
+  const t = useTranslations("common");
+  const [pendingIds, setPendingIds] = useState<Set<number>>(new Set());
+
+  // Batches not yet committed or undone, flushed on unmount
+  const batchesRef = useRef(new Map<string | number, number[]>());
+  const commitRef = useRef(commit);
+  useEffect(() => {
+    commitRef.current = commit;
+  }, [commit]);
+
+  const settle = useCallback((toastId: string | number, undo: boolean) => {
+    const ids = batchesRef.current.get(toastId);
+    if (!ids) return;
+    batchesRef.current.delete(toastId);
+
+    if (!undo) commitRef.current(ids);
+    setPendingIds((current) => {
+      const next = new Set(current);
+      ids.forEach((id) => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const batches = batchesRef.current;
+    return () => {
+      const pending = [...batches];
+      // Clear first so the dismiss callbacks don't commit a second time
+      batches.clear();
+      pending.forEach(([toastId, ids]) => {
+        commitRef.current(ids);
+        toast.dismiss(toastId);
+      });
+    };
+  }, []);
+
+  const remove = useCallback(
+    (ids: number[], message: string) => {
+      if (ids.length === 0) return;
+
+      setPendingIds((current) => new Set([...current, ...ids]));
+      const toastId = toast(message, {
+        duration: LIBRARY_BULK.UNDO_DELAY,
+        action: {
+          label: t("undo"),
+          onClick: () => settle(toastId, true),
+        },
+        onAutoClose: () => settle(toastId, false),
+        onDismiss: () => settle(toastId, false),
+      });
+      batchesRef.current.set(toastId, ids);
+    },
+    [settle, t]
+  );
+
+  return { pendingIds, remove };
+}
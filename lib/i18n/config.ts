@@ -18,6 +18,44 @@ export const SUPPORTED_LOCALES = ["vi", "en"] as const;
 
 export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number];
 
+/**
+ * Native display names for the language switcher (not translated on purpose)
+ */
+export const LOCALE_NAMES: Record<SupportedLocale, string> = {
+  vi: "Tiếng Việt",
+  en: "English",
+};
+
+/**
+ * Open Graph locale codes
+ */
+export const OPEN_GRAPH_LOCALES: Record<SupportedLocale, string> = {
+  vi: "vi_VN",
+  en: "en_US",
+};
+
+/**
+ * Cookie storing the user's chosen locale (same name next-intl uses)
+ */
+export const LOCALE_COOKIE = "NEXT_LOCALE";
+
+/**
+ * One year - the choice should outlive the session
+ */
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Query parameter that forces a locale, used by hreflang alternate URLs
+ * (e.g. /browse?lang=en) so crawlers without cookies can reach each language
+ */
+export const LOCALE_QUERY_PARAM = "lang";
+
+/**
+ * Request header the middleware uses to hand the query param locale to
+ * i18n/request.ts, which can't read search params itself
+ */
+export const LOCALE_HEADER = "x-locale";
+
 /**
  * Validates and returns a supported locale
  * Falls back to "vi" if invalid
@@ -0,0 +1,65 @@
+/**
+ * Per-request locale resolution
+ *
+ * Order: explicit `?lang=` param (forwarded by middleware) -> locale cookie
+ * -> Accept-Language header -> DEFAULT_LOCALE
+ *
+ * @module lib/i18n/resolve-locale
+ */
+
+import {
+  DEFAULT_LOCALE,
+  isSupportedLocale,
+  type SupportedLocale,
+} from "./config";
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ *
+ * @example
+ * ```typescript
+ * matchAcceptLanguage("en-US,en;q=0.9,vi;q=0.8"); // "en"
+ * matchAcceptLanguage("fr-FR"); // null
+ * ```
+ */
+export function matchAcceptLanguage(
+  header: string | null | undefined
+): SupportedLocale | null {
+  if (!header) return null;
+
+  const candidates = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const qParam = params.find((p) => p.trim().startsWith("q="));
+      const quality = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+      return {
+        language: tag.toLowerCase().split("-")[0],
+        quality: Number.isNaN(quality) ? 0 : quality,
+      };
+    })
+    .filter((c) => c.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  const match = candidates.find((c) => isSupportedLocale(c.language));
+  return match ? (match.language as SupportedLocale) : null;
+}
+
+/**
+ * Resolve the locale for a request from its sources, most explicit first
+ */
+export function resolveLocale(sources: {
+  param?: string | null;
+  cookie?: string | null;
+  acceptLanguage?: string | null;
+}): SupportedLocale {
+  if (sources.param && isSupportedLocale(sources.param)) {
+    return sources.param;
+  }
+
+  if (sources.cookie && isSupportedLocale(sources.cookie)) {
+    return sources.cookie;
+  }
+
+  return matchAcceptLanguage(sources.acceptLanguage) ?? DEFAULT_LOCALE;
+}
@@ -0,0 +1,239 @@
+/**
+ * Offline Chapter Downloads
+ * Chapter metadata lives in IndexedDB, page images in a dedicated Cache Storage
+ * bucket that the service worker (sw/sw.ts) serves images from.
+ */
+
+import type { ChapterWithNavigation } from "@/types/chapter";
+import { OFFLINE_CHAPTERS_CACHE } from "@/sw/protocol";
+
+const DB_NAME = "manga-reader-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "chapters";
+
+/** Parallel image downloads per chapter */
+const DOWNLOAD_CONCURRENCY = 4;
+
+/**
+ * Downloaded chapter record
+ */
+export interface DownloadedChapter {
+  /** `${mangaSlug}/${chapterSlug}` */
+  key: string;
+  mangaSlug: string;
+  chapterSlug: string;
+  chapter: ChapterWithNavigation;
+  /** Bytes of images whose size is readable (opaque responses count as 0) */
+  bytes: number;
+  downloadedAt: number;
+}
+
+export interface DownloadProgress {
+  completed: number;
+  total: number;
+}
+
+const chapterKey = (mangaSlug: string, chapterSlug: string) =>
+  `${mangaSlug}/${chapterSlug}`;
+
+/**
+ * Check whether offline storage APIs are available (client-side only)
+ */
+export function isOfflineStorageSupported(): boolean {
+  return (
+    typeof window !== "undefined" && "indexedDB" in window && "caches" in window
+  );
+}
+
+// === IndexedDB helpers ===
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "key" });
+        store.createIndex("mangaSlug", "mangaSlug");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// === Image cache helpers ===
+
+/**
+ * Fetch an image for caching - CORS first so size is readable,
+ * falling back to an opaque response for CDNs without CORS headers
+ */
+async function fetchImage(src: string): Promise<Response> {
+  try {
+    const response = await fetch(src, { mode: "cors" });
+    if (!response.ok) {
+      throw new Error(`Failed to download image (${response.status})`);
+    }
+    return response;
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error;
+    return fetch(src, { mode: "no-cors" });
+  }
+}
+
+async function cacheImages(
+  images: string[],
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<number> {
+  const cache = await caches.open(OFFLINE_CHAPTERS_CACHE);
+  let completed = 0;
+  let bytes = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < images.length) {
+      const src = images[next++];
+
+      if (!(await cache.match(src))) {
+        const response = await fetchImage(src);
+        const size = (await response.clone().blob()).size;
+        await cache.put(src, response);
+        bytes += size;
+      }
+
+      completed += 1;
+      onProgress?.({ completed, total: images.length });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, images.length) }, () =>
+      worker()
+    )
+  );
+
+  return bytes;
+}
+
+// === Public API ===
+
+/**
+ * Download chapter metadata and all page images for offline reading
+ */
+export async function downloadChapter(
+  chapter: ChapterWithNavigation,
+  mangaSlug: string,
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<DownloadedChapter> {
+  const images = chapter.content || [];
+  onProgress?.({ completed: 0, total: images.length });
+
+  const bytes = await cacheImages(images, onProgress);
+
+  const record: DownloadedChapter = {
+    key: chapterKey(mangaSlug, chapter.slug),
+    mangaSlug,
+    chapterSlug: chapter.slug,
+    chapter,
+    bytes,
+    downloadedAt: Date.now(),
+  };
+
+  await withStore("readwrite", (store) => store.put(record));
+  return record;
+}
+
+/**
+ * Get a downloaded chapter, or null if not stored
+ */
+export async function getDownloadedChapter(
+  mangaSlug: string,
+  chapterSlug: string
+): Promise<DownloadedChapter | null> {
+  if (!isOfflineStorageSupported()) return null;
+
+  const record = await withStore<DownloadedChapter | undefined>(
+    "readonly",
+    (store) => store.get(chapterKey(mangaSlug, chapterSlug))
+  );
+  return record ?? null;
+}
+
+/**
+ * List downloaded chapters, optionally for a single manga
+ * Newest downloads first
+ */
+export async function listDownloadedChapters(
+  mangaSlug?: string
+): Promise<DownloadedChapter[]> {
+  if (!isOfflineStorageSupported()) return [];
+
+  const records = await withStore<DownloadedChapter[]>("readonly", (store) =>
+    mangaSlug ? store.index("mangaSlug").getAll(mangaSlug) : store.getAll()
+  );
+  return records.sort((a, b) => b.downloadedAt - a.downloadedAt);
+}
+
+/**
+ * Remove a downloaded chapter and its cached images
+ * Images still referenced by another downloaded chapter are kept
+ */
+export async function removeDownloadedChapter(
+  mangaSlug: string,
+  chapterSlug: string
+): Promise<void> {
+  const key = chapterKey(mangaSlug, chapterSlug);
+  const all = await listDownloadedChapters();
+  const target = all.find((record) => record.key === key);
+  if (!target) return;
+
+  const stillUsed = new Set(
+    all
+      .filter((record) => record.key !== key)
+      .flatMap((record) => record.chapter.content || [])
+  );
+
+  const cache = await caches.open(OFFLINE_CHAPTERS_CACHE);
+  await Promise.all(
+    (target.chapter.content || [])
+      .filter((src) => !stillUsed.has(src))
+      .map((src) => cache.delete(src))
+  );
+
+  await withStore("readwrite", (store) => store.delete(key));
+}
+
+/**
+ * Estimate storage used by the whole origin (includes downloads)
+ */
+export async function getStorageEstimate(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
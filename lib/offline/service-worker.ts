@@ -0,0 +1,17 @@
+/**
+ * Service Worker Messaging
+ * Sends commands to the active service worker (see sw/protocol.ts)
+ */
+
+import type { ServiceWorkerCommand } from "@/sw/protocol";
+
+/**
+ * Post a command to the worker controlling this page, if there is one
+ */
+export function postToServiceWorker(command: ServiceWorkerCommand) {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return;
+  }
+
+  navigator.serviceWorker.controller?.postMessage(command);
+}
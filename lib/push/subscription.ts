@@ -0,0 +1,108 @@
+/**
+ * Push Subscription
+ * Browser side of web push: permission, subscribing through the service
+ * worker registered by SwRegister, and keeping the backend in sync
+ */
+
+import { userPushApi } from "@/lib/api/endpoints/user";
+import type { PushSubscriptionRequest } from "@/types/user";
+
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+/**
+ * Decode a base64url VAPID key into the bytes PushManager expects
+ */
+function decodeServerKey(base64Url: string): Uint8Array<ArrayBuffer> {
+  const base64 = (base64Url + "=".repeat((4 - (base64Url.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function toRequest(subscription: PushSubscription): PushSubscriptionRequest {
+  const { endpoint, keys } = subscription.toJSON();
+  return {
+    endpoint: endpoint ?? subscription.endpoint,
+    keys: { p256dh: keys?.p256dh ?? "", auth: keys?.auth ?? "" },
+  };
+}
+
+/**
+ * The worker registered by SwRegister, if any
+ * `serviceWorker.ready` never settles without a registration (dev builds,
+ * failed installs), so it's looked up instead of awaited
+ */
+async function getRegistration(): Promise<ServiceWorkerRegistration | null> {
+  return (await navigator.serviceWorker.getRegistration()) ?? null;
+}
+
+/**
+ * Current subscription of this browser, if any
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for permission, subscribe and register the subscription with the
+ * backend. Resolves to the resulting permission - only "granted" subscribes.
+ */
+export async function subscribeToPush(): Promise<NotificationPermission> {
+  if (!isPushSupported()) return "denied";
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return permission;
+
+  const registration = await getRegistration();
+  if (!registration) {
+    throw new Error("Service worker is not registered");
+  }
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeServerKey(
+        (await userPushApi.getPublicKey()).public_key
+      ),
+    }));
+
+  await userPushApi.subscribe(toRequest(subscription));
+  return permission;
+}
+
+/**
+ * Unsubscribe this browser and remove it from the backend
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await userPushApi.unsubscribe(subscription.endpoint);
+  await subscription.unsubscribe();
+}
+
+/**
+ * Re-send the current subscription, e.g. after the worker resubscribed
+ * on pushsubscriptionchange
+ */
+export async function syncPushSubscription(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (subscription) {
+    await userPushApi.subscribe(toRequest(subscription));
+  }
+}
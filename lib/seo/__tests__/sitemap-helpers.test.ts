@@ -0,0 +1,121 @@
+import {
+  getChapterSitemapFiles,
+  getSitemapChunk,
+  getSitemapFileCount,
+  parseSitemapFile,
+  renderSitemap,
+} from "../sitemap-helpers";
+import { mangaApi } from "@/lib/api/endpoints/manga";
+import { SITEMAP } from "@/lib/constants";
+
+jest.mock("next/cache", () => ({
+  unstable_cache: <T>(fn: T) => fn,
+}));
+
+jest.mock("@/lib/api/endpoints/manga", () => ({
+  mangaApi: { getList: jest.fn(), getChapters: jest.fn() },
+  taxonomyApi: {},
+}));
+
+jest.mock("@/lib/constants", () => {
+  const actual = jest.requireActual("@/lib/constants");
+  return {
+    ...actual,
+    SITEMAP: { ...actual.SITEMAP, URLS_PER_FILE: 10, REQUEST_DELAY: 0 },
+  };
+});
+
+function paginated<T>(data: T[], total: number) {
+  return {
+    success: true,
+    message: "",
+    data,
+    meta: {
+      pagination: {
+        current_page: 1,
+        last_page: 1,
+        per_page: data.length,
+        total,
+        from: 1,
+        to: data.length,
+      },
+    },
+  };
+}
+
+describe("parseSitemapFile", () => {
+  it("should read the file number from the segment", () => {
+    expect(parseSitemapFile("1.xml")).toBe(1);
+    expect(parseSitemapFile("12.xml")).toBe(12);
+  });
+
+  it("should reject anything else", () => {
+    expect(parseSitemapFile("0.xml")).toBeNull();
+    expect(parseSitemapFile("1")).toBeNull();
+    expect(parseSitemapFile("-1.xml")).toBeNull();
+    expect(parseSitemapFile("one.xml")).toBeNull();
+  });
+});
+
+describe("sitemap files", () => {
+  const items = Array.from({ length: SITEMAP.URLS_PER_FILE + 10 }, (_, i) => i);
+
+  it("should split items into files under the URL limit", () => {
+    expect(getSitemapFileCount(items.length)).toBe(2);
+    expect(getSitemapChunk(items, 1)).toHaveLength(SITEMAP.URLS_PER_FILE);
+    expect(getSitemapChunk(items, 2)).toEqual(items.slice(-10));
+    expect(getSitemapChunk(items, 3)).toEqual([]);
+  });
+
+  it("should always count at least one file", () => {
+    expect(getSitemapFileCount(0)).toBe(1);
+  });
+});
+
+describe("renderSitemap", () => {
+  it("should escape URLs", () => {
+    const xml = renderSitemap([
+      {
+        url: "https://example.com/manga/a&b",
+        lastModified: "2024-01-01T00:00:00.000Z",
+        changeFrequency: "weekly",
+        priority: 0.8,
+      },
+    ]);
+
+    expect(xml).toContain("<loc>https://example.com/manga/a&amp;b</loc>");
+    expect(xml).toContain("<changefreq>weekly</changefreq>");
+  });
+});
+
+describe("getChapterSitemapFiles", () => {
+  const mangas = [{ slug: "a" }, { slug: "b" }, { slug: "c" }];
+  const chapterCounts: Record<string, number> = { a: 6, b: 6, c: 3 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mangaApi.getList as jest.Mock).mockImplementation(({ per_page }) =>
+      Promise.resolve(paginated(mangas.slice(0, per_page), mangas.length))
+    );
+    (mangaApi.getChapters as jest.Mock).mockImplementation((slug: string) =>
+      Promise.resolve(paginated([], chapterCounts[slug]))
+    );
+  });
+
+  it("should group whole mangas by chapter count", async () => {
+    expect(await getChapterSitemapFiles()).toEqual([
+      [{ block: 0, start: 0, end: 1 }],
+      [{ block: 0, start: 1, end: 3 }],
+    ]);
+  });
+
+  it("should count chapters without walking them", async () => {
+    await getChapterSitemapFiles();
+
+    expect(mangaApi.getChapters).toHaveBeenCalledTimes(mangas.length);
+    expect(mangaApi.getChapters).toHaveBeenCalledWith("a", {
+      page: 1,
+      per_page: 1,
+    });
+  });
+});
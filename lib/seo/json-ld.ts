@@ -404,6 +404,82 @@ export function generatePersonSchema(person: {
   };
 }
 
+/**
+ * Generate Organization schema for translation groups
+ *
+ * @example
+ * ```tsx
+ * const group = await fetchGroup(params.slug);
+ * <script
+ *   type="application/ld+json"
+ *   dangerouslySetInnerHTML={{
+ *     __html: safeJsonLdStringify(generateGroupSchema(group)),
+ *   }}
+ * />
+ * ```
+ */
+export function generateGroupSchema(group: {
+  name: string;
+  slug: string;
+  description?: string;
+}) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Organization",
+    name: group.name,
+    description: group.description,
+    url: buildUrl(`/groups/${group.slug}`),
+  };
+}
+
+/**
+ * Generate CollectionPage schema
+ *
+ * For listing pages grouping manga under a category (doujinshi, genre...).
+ *
+ * @example
+ * ```tsx
+ * const schema = generateCollectionPageSchema({
+ *   name: doujinshi.name,
+ *   url: `/doujinshis/${doujinshi.slug}`,
+ *   items: mangas.map((manga) => ({ name: manga.name, url: `/manga/${manga.slug}` })),
+ * });
+ * ```
+ */
+export function generateCollectionPageSchema(params: {
+  name: string;
+  description?: string;
+  url: string;
+  items?: Array<{ name: string; url: string; image?: string }>;
+}) {
+  const schema: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": "CollectionPage",
+    name: params.name,
+    description: params.description,
+    url: buildUrl(params.url),
+  };
+
+  if (params.items && params.items.length > 0) {
+    schema.mainEntity = {
+      "@type": "ItemList",
+      numberOfItems: params.items.length,
+      itemListElement: params.items.map((item, index) => ({
+        "@type": "ListItem",
+        position: index + 1,
+        item: {
+          "@type": "Book",
+          name: item.name,
+          url: buildUrl(item.url),
+          image: item.image ? buildImageUrl(item.image) : undefined,
+        },
+      })),
+    };
+  }
+
+  return schema;
+}
+
 /**
  * Helper: Combine multiple schemas
  *
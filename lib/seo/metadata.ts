@@ -1,6 +1,13 @@
 import type { Metadata } from "next";
-import { getTranslations } from "next-intl/server";
+import { getLocale, getTranslations } from "next-intl/server";
 import { siteConfig, buildUrl, buildImageUrl } from "./config";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_QUERY_PARAM,
+  OPEN_GRAPH_LOCALES,
+  SUPPORTED_LOCALES,
+  isSupportedLocale,
+} from "@/lib/i18n/config";
 
 /**
  * Metadata Generators
@@ -22,6 +29,32 @@ interface PageMetadataParams {
   noindex?: boolean;
 }
 
+/**
+ * Build the URL of a page in a given locale
+ * The default locale uses the bare URL, others add the `?lang=` override
+ */
+function buildLocalizedUrl(url: string, locale: string): string {
+  if (locale === DEFAULT_LOCALE) return url;
+
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${LOCALE_QUERY_PARAM}=${locale}`;
+}
+
+/**
+ * hreflang alternates for every supported locale, plus x-default
+ */
+function buildLanguageAlternates(url: string): Record<string, string> {
+  return {
+    ...Object.fromEntries(
+      SUPPORTED_LOCALES.map((locale) => [
+        locale,
+        buildLocalizedUrl(url, locale),
+      ])
+    ),
+    "x-default": url,
+  };
+}
+
 /**
  * Generate metadata for a generic page
  */
@@ -34,7 +67,13 @@ export async function generatePageMetadata({
   type = "website",
   noindex = false,
 }: PageMetadataParams): Promise<Metadata> {
-  const t = await getTranslations("seo");
+  const [t, requestLocale] = await Promise.all([
+    getTranslations("seo"),
+    getLocale(),
+  ]);
+  const locale = isSupportedLocale(requestLocale)
+    ? requestLocale
+    : DEFAULT_LOCALE;
   const url = buildUrl(path);
   const ogImage = image
     ? buildImageUrl(image)
@@ -63,9 +102,10 @@ export async function generatePageMetadata({
     description: finalDescription,
     keywords: allKeywords,
 
-    // Canonical URL
+    // Canonical URL (self-referencing per language) and hreflang alternates
     alternates: {
-      canonical: url,
+      canonical: buildLocalizedUrl(url, locale),
+      languages: buildLanguageAlternates(url),
     },
 
     // Robots
@@ -93,7 +133,10 @@ export async function generatePageMetadata({
           alt: ogTitle,
         },
       ],
-      locale: "vi_VN", // This could also be dynamic if needed
+      locale: OPEN_GRAPH_LOCALES[locale],
+      alternateLocale: SUPPORTED_LOCALES.filter((l) => l !== locale).map(
+        (l) => OPEN_GRAPH_LOCALES[l]
+      ),
       type,
     },
 
@@ -331,6 +374,51 @@ export async function generateArtistMetadata(artist: {
   });
 }
 
+/**
+ * Generate metadata for translation group pages
+ */
+export async function generateGroupMetadata(group: {
+  name: string;
+  slug: string;
+  description?: string;
+}): Promise<Metadata> {
+  const t = await getTranslations("seo");
+
+  const title = t("group.title", { name: group.name });
+  const description =
+    group.description || t("group.description", { name: group.name });
+
+  return generatePageMetadata({
+    title,
+    description,
+    path: `/groups/${group.slug}`,
+    keywords: [group.name, t("group.keywords.group"), "manga"],
+  });
+}
+
+/**
+ * Generate metadata for doujinshi category pages
+ */
+export async function generateDoujinshiMetadata(doujinshi: {
+  name: string;
+  slug: string;
+  description?: string;
+}): Promise<Metadata> {
+  const t = await getTranslations("seo");
+
+  const title = t("doujinshi.title", { name: doujinshi.name });
+  const description =
+    doujinshi.description ||
+    t("doujinshi.description", { name: doujinshi.name });
+
+  return generatePageMetadata({
+    title,
+    description,
+    path: `/doujinshis/${doujinshi.slug}`,
+    keywords: [doujinshi.name, "doujinshi", "manga"],
+  });
+}
+
 /**
  * Helper: Strip HTML tags from string
  */
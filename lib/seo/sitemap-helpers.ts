@@ -0,0 +1,380 @@
+/**
+ * Sitemap Helpers
+ * Walks the catalog for the sitemap routes and splits the URLs into
+ * numbered files. Requests run a few at a time with a pause after each, and
+ * results are cached in blocks with revalidation so crawlers reading the
+ * sitemaps don't turn into a crawl of the API.
+ */
+
+import { unstable_cache } from "next/cache";
+import { mangaApi, taxonomyApi } from "@/lib/api/endpoints/manga";
+import { fetchAllPages } from "@/lib/api/pagination";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { SITEMAP } from "@/lib/constants";
+import type { TaxonomyType } from "@/types/manga";
+import type { PaginatedResponse } from "@/types/api";
+
+export interface SitemapEntry {
+  url: string;
+  lastModified: string;
+  changeFrequency: string;
+  priority: number;
+}
+
+/** What a sitemap needs to know about a manga, or a chapter or taxonomy */
+export interface SitemapItem {
+  slug: string;
+  updated_at?: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wrap a request so each one is followed by a pause
+ */
+function throttle<P, R>(
+  request: (params: P) => Promise<R>
+): (params: P) => Promise<R> {
+  return async (params) => {
+    const response = await request(params);
+    await sleep(SITEMAP.REQUEST_DELAY);
+    return response;
+  };
+}
+
+/** Taxonomies listed in the taxonomy sitemaps, in order */
+export const SITEMAP_TAXONOMY_TYPES: TaxonomyType[] = [
+  "artists",
+  "groups",
+  "doujinshis",
+];
+
+/** Lists the sitemaps walk - mangas sorted by name, or a taxonomy */
+export type SitemapList = "mangas" | TaxonomyType;
+
+/** Items in one cached block of list pages */
+const BLOCK_SIZE = SITEMAP.PER_PAGE * SITEMAP.PAGES_PER_BLOCK;
+
+/** A manga and how many chapter URLs it adds */
+export interface SitemapMangaChapters extends SitemapItem {
+  chapterCount: number;
+}
+
+/** Mangas `start` to `end` (exclusive) of one block */
+export interface ChapterSitemapSlice {
+  block: number;
+  start: number;
+  end: number;
+}
+
+function getListPage(
+  list: SitemapList,
+  params: { page: number; per_page: number }
+): Promise<PaginatedResponse<SitemapItem>> {
+  // Mangas are sorted by name so pages stay put while walking them
+  return list === "mangas"
+    ? mangaApi.getList({ ...params, sort: "name" })
+    : taxonomyApi[list].getList(params);
+}
+
+/**
+ * Items of a paginated list from `firstPage` on, keeping only what
+ * sitemaps use
+ */
+async function fetchSitemapItems(
+  getPage: (params: {
+    page: number;
+    per_page: number;
+  }) => Promise<PaginatedResponse<SitemapItem>>,
+  {
+    firstPage = 1,
+    maxPages = SITEMAP.MAX_PAGES,
+    concurrency = SITEMAP.CONCURRENCY,
+  }: { firstPage?: number; maxPages?: number; concurrency?: number } = {}
+): Promise<SitemapItem[]> {
+  const offset = firstPage - 1;
+  const response = await fetchAllPages(
+    throttle(async ({ page, per_page }) => {
+      const result = await getPage({ page: page + offset, per_page });
+      const { last_page } = result.meta.pagination;
+      return {
+        ...result,
+        meta: {
+          pagination: {
+            ...result.meta.pagination,
+            last_page: Math.max(1, last_page - offset),
+          },
+        },
+      };
+    }),
+    { perPage: SITEMAP.PER_PAGE, maxPages, concurrency }
+  );
+
+  // Items shifting between pages mid-walk can show up twice
+  const bySlug = new Map<string, SitemapItem>();
+  for (const { slug, updated_at } of response.data) {
+    bySlug.set(slug, { slug, updated_at });
+  }
+  return [...bySlug.values()];
+}
+
+/**
+ * Number of items in a list, from a one-item page
+ */
+export const getSitemapListTotal = unstable_cache(
+  async (list: SitemapList): Promise<number> => {
+    const response = await getListPage(list, { page: 1, per_page: 1 });
+    return Math.min(
+      response.meta.pagination.total,
+      SITEMAP.MAX_PAGES * SITEMAP.PER_PAGE
+    );
+  },
+  ["sitemap", "list-total"],
+  { revalidate: SITEMAP.REVALIDATE }
+);
+
+/**
+ * One block of `PAGES_PER_BLOCK` list pages (0-based) - cached per block
+ * so no cache entry holds a whole catalog
+ */
+const getSitemapBlock = unstable_cache(
+  (list: SitemapList, block: number) =>
+    fetchSitemapItems((params) => getListPage(list, params), {
+      firstPage: block * SITEMAP.PAGES_PER_BLOCK + 1,
+      maxPages: SITEMAP.PAGES_PER_BLOCK,
+    }),
+  ["sitemap", "list-block"],
+  { revalidate: SITEMAP.REVALIDATE }
+);
+
+/**
+ * Number of cached blocks a list of `total` items spans
+ */
+function getBlockCount(total: number): number {
+  return Math.ceil(total / BLOCK_SIZE);
+}
+
+/**
+ * Items in the nth (1-based) sitemap file of a list, read from the blocks
+ * covering it
+ */
+export async function getSitemapListFile(
+  list: SitemapList,
+  file: number
+): Promise<SitemapItem[]> {
+  const start = (file - 1) * SITEMAP.URLS_PER_FILE;
+  const end = start + SITEMAP.URLS_PER_FILE;
+  const firstBlock = Math.floor(start / BLOCK_SIZE);
+  const lastBlock = Math.min(
+    Math.ceil(end / BLOCK_SIZE),
+    getBlockCount(await getSitemapListTotal(list))
+  );
+
+  const items: SitemapItem[] = [];
+  for (let block = firstBlock; block < lastBlock; block++) {
+    items.push(...(await getSitemapBlock(list, block)));
+  }
+  const skipped = firstBlock * BLOCK_SIZE;
+  return items.slice(start - skipped, end - skipped);
+}
+
+/**
+ * Every chapter of a manga, cached per manga and `updated_at` so only
+ * mangas that changed are walked again
+ */
+const getSitemapChapters = unstable_cache(
+  (manga: SitemapItem) =>
+    fetchSitemapItems(
+      (params) => mangaApi.getChapters(manga.slug, { ...params, sort: "asc" }),
+      // The workers are already spread across mangas
+      { maxPages: SITEMAP.MAX_CHAPTER_PAGES, concurrency: 1 }
+    ),
+  ["sitemap", "manga-chapters"],
+  { revalidate: SITEMAP.CHAPTERS_REVALIDATE }
+);
+
+/**
+ * Every artist, group or doujinshi category
+ * Far fewer than mangas, so each list is cached whole
+ */
+export const getSitemapTaxonomies = unstable_cache(
+  (type: TaxonomyType) =>
+    fetchSitemapItems((params) => taxonomyApi[type].getList(params)),
+  ["sitemap", "taxonomies"],
+  { revalidate: SITEMAP.REVALIDATE }
+);
+
+/**
+ * Chapter counts of the mangas in one block, read from one-chapter pages
+ * instead of walking every chapter
+ */
+const getSitemapChapterCounts = unstable_cache(
+  async (block: number): Promise<SitemapMangaChapters[]> => {
+    const mangas = await getSitemapBlock("mangas", block);
+    const countChapters = throttle((manga: SitemapItem) =>
+      mangaApi.getChapters(manga.slug, { page: 1, per_page: 1 })
+    );
+
+    return mapWithConcurrency(mangas, SITEMAP.CONCURRENCY, async (manga) => {
+      const { total } = (await countChapters(manga)).meta.pagination;
+      return {
+        ...manga,
+        chapterCount: Math.min(
+          total,
+          SITEMAP.MAX_CHAPTER_PAGES * SITEMAP.PER_PAGE
+        ),
+      };
+    });
+  },
+  ["sitemap", "chapter-counts"],
+  { revalidate: SITEMAP.CHAPTERS_REVALIDATE }
+);
+
+/**
+ * Manga ranges of each chapter sitemap file - each file holds whole mangas
+ * and stays under `URLS_PER_FILE` chapters
+ */
+export const getChapterSitemapFiles = unstable_cache(
+  async (): Promise<ChapterSitemapSlice[][]> => {
+    const blocks = getBlockCount(await getSitemapListTotal("mangas"));
+
+    const files: ChapterSitemapSlice[][] = [];
+    let current: ChapterSitemapSlice[] = [];
+    let currentMangas = 0;
+    let currentCount = 0;
+
+    for (let block = 0; block < blocks; block++) {
+      const mangas = await getSitemapChapterCounts(block);
+      let start = 0;
+
+      mangas.forEach((manga, index) => {
+        if (
+          currentMangas > 0 &&
+          currentCount + manga.chapterCount > SITEMAP.URLS_PER_FILE
+        ) {
+          if (index > start) current.push({ block, start, end: index });
+          files.push(current);
+          current = [];
+          currentMangas = 0;
+          currentCount = 0;
+          start = index;
+        }
+        currentMangas++;
+        currentCount += manga.chapterCount;
+      });
+
+      if (mangas.length > start) {
+        current.push({ block, start, end: mangas.length });
+      }
+    }
+    if (current.length > 0) files.push(current);
+
+    return files;
+  },
+  ["sitemap", "chapter-files"],
+  { revalidate: SITEMAP.CHAPTERS_REVALIDATE }
+);
+
+/**
+ * Chapters of the mangas in one chapter sitemap file
+ */
+export async function getSitemapChaptersFor(
+  slices: ChapterSitemapSlice[]
+): Promise<Array<{ manga: SitemapItem; chapters: SitemapItem[] }>> {
+  const mangas: SitemapItem[] = [];
+  for (const { block, start, end } of slices) {
+    const counts = await getSitemapChapterCounts(block);
+    mangas.push(
+      ...counts.slice(start, end).map(({ slug, updated_at }) => ({
+        slug,
+        updated_at,
+      }))
+    );
+  }
+
+  return mapWithConcurrency(mangas, SITEMAP.CONCURRENCY, async (manga) => ({
+    manga,
+    chapters: await getSitemapChapters(manga),
+  }));
+}
+
+/**
+ * Items in the nth (1-based) sitemap file of a list
+ */
+export function getSitemapChunk<T>(items: T[], file: number): T[] {
+  const start = (file - 1) * SITEMAP.URLS_PER_FILE;
+  return items.slice(start, start + SITEMAP.URLS_PER_FILE);
+}
+
+/**
+ * Number of sitemap files a list is split into - at least one, so the
+ * index never points at nothing
+ */
+export function getSitemapFileCount(itemCount: number): number {
+  return Math.max(1, Math.ceil(itemCount / SITEMAP.URLS_PER_FILE));
+}
+
+/**
+ * File number from a `[file]` route segment like "2.xml"
+ * Returns null for anything else
+ */
+export function parseSitemapFile(segment: string): number | null {
+  const match = /^(\d+)\.xml$/.exec(segment);
+  if (!match) return null;
+  const file = Number(match[1]);
+  return file >= 1 ? file : null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Sitemap XML for a list of URLs
+ */
+export function renderSitemap(entries: SitemapEntry[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${entries
+  .map(
+    (entry) => `  <url>
+    <loc>${escapeXml(entry.url)}</loc>
+    <lastmod>${entry.lastModified}</lastmod>
+    <changefreq>${entry.changeFrequency}</changefreq>
+    <priority>${entry.priority}</priority>
+  </url>`
+  )
+  .join("\n")}
+</urlset>`;
+}
+
+/**
+ * XML response for a sitemap, cached by CDNs for `maxAge` seconds
+ */
+export function sitemapResponse(
+  entries: SitemapEntry[],
+  maxAge: number
+): Response {
+  return new Response(renderSitemap(entries), {
+    headers: {
+      "Content-Type": "application/xml",
+      "Cache-Control": `public, s-maxage=${maxAge}, stale-while-revalidate`,
+    },
+  });
+}
+
+/**
+ * Parse ISO date string to Date object
+ * Fallback to current date if invalid
+ */
+export function parseDate(dateString: string | undefined): Date {
+  if (!dateString) return new Date();
+
+  const date = new Date(dateString);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
@@ -1,6 +1,9 @@
 /**
  * Authentication Store
  * Zustand store for managing authentication state with localStorage persistence
+ *
+ * The API token itself is never stored here - it lives in an httpOnly cookie
+ * set by the /api/auth route handler. This store only caches the user profile.
  */
 
 import { create } from "zustand";
@@ -51,19 +54,20 @@ const customStorage = () => {
  */
 interface AuthState {
   user: User | null;
-  token: string | null;
   isAuthenticated: boolean;
   lastValidated: number | null; // Timestamp of last token validation
+  sessionExpired: boolean; // Session ended on its own - prompt to log in again
 }
 
 /**
  * Authentication actions interface
  */
 interface AuthActions {
-  setAuth: (user: User, token: string) => void;
+  setAuth: (user: User) => void;
   updateUser: (user: Partial<User>) => void;
   logout: () => void;
-  getToken: () => string | null;
+  expireSession: () => void;
+  dismissSessionExpired: () => void;
   setLastValidated: (timestamp: number) => void;
 }
 
@@ -77,9 +81,9 @@ type AuthStore = AuthState & AuthActions;
  */
 const initialState: AuthState = {
   user: null,
-  token: null,
   isAuthenticated: false,
   lastValidated: null,
+  sessionExpired: false,
 };
 
 /**
@@ -87,18 +91,18 @@ const initialState: AuthState = {
  */
 export const useAuthStore = create<AuthStore>()(
   persist(
-    (set, get) => ({
+    (set) => ({
       ...initialState,
 
       /**
        * Set authentication (after login/register)
        */
-      setAuth: (user, token) =>
+      setAuth: (user) =>
         set({
           user,
-          token,
           isAuthenticated: true,
           lastValidated: Date.now(),
+          sessionExpired: false,
         }),
 
       /**
@@ -115,9 +119,14 @@ export const useAuthStore = create<AuthStore>()(
       logout: () => set(initialState),
 
       /**
-       * Get current token (helper method)
+       * Clear authentication after the session could not be refreshed
        */
-      getToken: () => get().token,
+      expireSession: () => set({ ...initialState, sessionExpired: true }),
+
+      /**
+       * Hide the session expired prompt
+       */
+      dismissSessionExpired: () => set({ sessionExpired: false }),
 
       /**
        * Update last validation timestamp
@@ -130,10 +139,13 @@ export const useAuthStore = create<AuthStore>()(
     {
       name: "auth-storage", // localStorage key
       storage: createJSONStorage(customStorage),
+      // v0 persisted the token in localStorage - drop it and require a fresh
+      // login so the token ends up in the httpOnly cookie instead
+      version: 1,
+      migrate: () => initialState,
       // Only persist these fields
       partialize: (state) => ({
         user: state.user,
-        token: state.token,
         isAuthenticated: state.isAuthenticated,
         lastValidated: state.lastValidated,
       }),
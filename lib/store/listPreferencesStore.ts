@@ -0,0 +1,47 @@
+import { useSyncExternalStore } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * How manga lists (browse, library tabs) move past their first page
+ * - paged: page numbers, one page at a time
+ * - infinite: more items load while scrolling
+ */
+export type ListMode = "paged" | "infinite";
+
+const DEFAULT_LIST_MODE: ListMode = "paged";
+
+interface ListPreferencesStore {
+  listMode: ListMode;
+  setListMode: (mode: ListMode) => void;
+}
+
+/**
+ * Store for list display preferences
+ * Persists to localStorage with key "list-preferences"
+ */
+export const useListPreferencesStore = create<ListPreferencesStore>()(
+  persist(
+    (set) => ({
+      listMode: DEFAULT_LIST_MODE,
+      setListMode: (listMode) => set({ listMode }),
+    }),
+    { name: "list-preferences" }
+  )
+);
+
+const subscribeNever = () => () => {};
+
+/**
+ * Current list mode, rendering the default until hydrated - the server
+ * can't see the saved preference, so the first client render must match it
+ */
+export function useListMode(): ListMode {
+  const listMode = useListPreferencesStore((state) => state.listMode);
+  const isHydrated = useSyncExternalStore(
+    subscribeNever,
+    () => true,
+    () => false
+  );
+  return isHydrated ? listMode : DEFAULT_LIST_MODE;
+}
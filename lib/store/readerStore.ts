@@ -1,9 +1,14 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 
+export type ReadingMode = "long-strip" | "single" | "double";
+export type ReadingDirection = "ltr" | "rtl";
+
 interface ReaderPreferences {
   disableSpacebarNav: boolean;
 
+  readingMode: ReadingMode;
+  readingDirection: ReadingDirection;
   backgroundColor: string;
   imageSpacing: number;
   zoom: number;
@@ -21,6 +26,8 @@ interface ReaderStore {
 const defaultPreferences: ReaderPreferences = {
   disableSpacebarNav: true, // Default to disabled
 
+  readingMode: "long-strip",
+  readingDirection: "ltr",
   backgroundColor: "#000000",
   imageSpacing: 0,
   zoom: 100,
@@ -39,6 +46,15 @@ export const useReaderStore = create<ReaderStore>()(
     {
       name: "reader-preferences",
       partialize: (state) => state.preferences,
+      // Persisted value is the flat preferences object (see partialize),
+      // so nest it back under `preferences` and fill in newly added keys
+      merge: (persisted, current) => ({
+        ...current,
+        preferences: {
+          ...defaultPreferences,
+          ...(persisted as Partial<ReaderPreferences>),
+        },
+      }),
     }
   )
 );
@@ -3,43 +3,121 @@ import { persist } from "zustand/middleware";
 
 /**
  * Reading progress data for a manga
+ * chapterName is missing for progress saved before it was recorded
  */
-interface ReadingProgress {
+export interface ReadingProgress {
   chapterSlug: string;
   chapterNumber: number;
+  chapterName?: string;
   timestamp: number;
 }
 
+/**
+ * Last visible page within a chapter
+ * pageOffset is the fraction (0-1) of the page scrolled past the viewport center
+ */
+export interface PagePosition {
+  pageIndex: number;
+  pageOffset: number;
+  timestamp: number;
+}
+
+/** Oldest chapter positions are dropped beyond this many entries */
+const MAX_PAGE_POSITIONS = 200;
+
+const positionKey = (mangaSlug: string, chapterSlug: string) =>
+  `${mangaSlug}/${chapterSlug}`;
+
+/** Read chapters are kept for the most recently read manga only */
+const MAX_READ_MANGAS = 100;
+/** Oldest read chapters of a manga are dropped beyond this many */
+const MAX_READ_CHAPTERS = 300;
+
+/**
+ * Record a read chapter - the manga moves to the end, so the ones dropped
+ * past `MAX_READ_MANGAS` are the least recently read
+ */
+function withReadChapter(
+  readChapters: Record<string, string[]>,
+  mangaSlug: string,
+  chapterSlug: string
+): Record<string, string[]> {
+  const current = readChapters[mangaSlug] ?? [];
+  if (current.includes(chapterSlug)) return readChapters;
+
+  const others = Object.entries(readChapters).filter(
+    ([slug]) => slug !== mangaSlug
+  );
+  return Object.fromEntries([
+    ...others.slice(-(MAX_READ_MANGAS - 1)),
+    [mangaSlug, [...current, chapterSlug].slice(-MAX_READ_CHAPTERS)],
+  ]);
+}
+
 /**
  * Store for tracking reading progress per manga
  * Persists to localStorage with key "reading-progress"
  */
 interface ReadingProgressStore {
   progress: Record<string, ReadingProgress>; // key: mangaSlug
+  positions: Record<string, PagePosition>; // key: mangaSlug/chapterSlug
+  /** Chapters opened on this device or last read per history */
+  readChapters: Record<string, string[]>; // key: mangaSlug
   setProgress: (
     mangaSlug: string,
     chapterSlug: string,
-    chapterNumber: number
+    chapterNumber: number,
+    chapterName?: string
   ) => void;
+  /** Replace entries wholesale, keeping their timestamps (history sync) */
+  mergeProgress: (entries: Record<string, ReadingProgress>) => void;
   getProgress: (mangaSlug: string) => ReadingProgress | null;
   clearProgress: (mangaSlug: string) => void;
+  setPagePosition: (
+    mangaSlug: string,
+    chapterSlug: string,
+    pageIndex: number,
+    pageOffset?: number
+  ) => void;
+  getPagePosition: (
+    mangaSlug: string,
+    chapterSlug: string
+  ) => PagePosition | null;
 }
 
 export const useReadingProgressStore = create<ReadingProgressStore>()(
   persist(
     (set, get) => ({
       progress: {},
+      positions: {},
+      readChapters: {},
 
-      setProgress: (mangaSlug, chapterSlug, chapterNumber) =>
+      setProgress: (mangaSlug, chapterSlug, chapterNumber, chapterName) =>
         set((state) => ({
           progress: {
             ...state.progress,
             [mangaSlug]: {
               chapterSlug,
               chapterNumber,
+              chapterName,
               timestamp: Date.now(),
             },
           },
+          readChapters: withReadChapter(
+            state.readChapters,
+            mangaSlug,
+            chapterSlug
+          ),
+        })),
+
+      mergeProgress: (entries) =>
+        set((state) => ({
+          progress: { ...state.progress, ...entries },
+          readChapters: Object.entries(entries).reduce(
+            (readChapters, [mangaSlug, entry]) =>
+              withReadChapter(readChapters, mangaSlug, entry.chapterSlug),
+            state.readChapters
+          ),
         })),
 
       getProgress: (mangaSlug) => get().progress[mangaSlug] || null,
@@ -47,9 +125,41 @@ export const useReadingProgressStore = create<ReadingProgressStore>()(
       clearProgress: (mangaSlug) =>
         set((state) => {
           const { [mangaSlug]: _removed, ...rest } = state.progress;
+          const { [mangaSlug]: _read, ...readChapters } = state.readChapters;
           void _removed; // Suppress unused variable warning
-          return { progress: rest };
+          void _read;
+          const positions = Object.fromEntries(
+            Object.entries(state.positions).filter(
+              ([key]) => !key.startsWith(`${mangaSlug}/`)
+            )
+          );
+          return { progress: rest, positions, readChapters };
+        }),
+
+      setPagePosition: (mangaSlug, chapterSlug, pageIndex, pageOffset = 0) =>
+        set((state) => {
+          const positions: Record<string, PagePosition> = {
+            ...state.positions,
+            [positionKey(mangaSlug, chapterSlug)]: {
+              pageIndex,
+              pageOffset,
+              timestamp: Date.now(),
+            },
+          };
+
+          const keys = Object.keys(positions);
+          if (keys.length > MAX_PAGE_POSITIONS) {
+            keys
+              .sort((a, b) => positions[a].timestamp - positions[b].timestamp)
+              .slice(0, keys.length - MAX_PAGE_POSITIONS)
+              .forEach((key) => delete positions[key]);
+          }
+
+          return { positions };
         }),
+
+      getPagePosition: (mangaSlug, chapterSlug) =>
+        get().positions[positionKey(mangaSlug, chapterSlug)] || null,
     }),
     { name: "reading-progress" }
   )
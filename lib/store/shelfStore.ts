@@ -0,0 +1,185 @@
+/**
+ * Shelf Store
+ * Zustand store backing the mock shelves API (userShelvesApi) until the
+ * backend ships shelves. Persists to localStorage with key "library-shelves"
+ * and is cleared on logout, like server data of the next user would be.
+ *
+ * Components should go through the React Query hooks in use-shelves, not
+ * this store, so switching to the real API doesn't touch them.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { MangaReference } from "@/types/chapter";
+import type { ShelfEntry, SystemShelf } from "@/types/user";
+
+export interface ShelfRecord {
+  id: string;
+  name: string;
+  system?: SystemShelf;
+  created_at: string;
+}
+
+const SYSTEM_SHELVES: SystemShelf[] = [
+  "reading",
+  "plan_to_read",
+  "completed",
+  "dropped",
+];
+
+const createdAt = new Date(0).toISOString();
+
+interface ShelfState {
+  shelves: ShelfRecord[];
+  entries: Record<string, ShelfEntry[]>; // key: shelf id
+}
+
+interface ShelfActions {
+  createShelf: (name: string) => ShelfRecord;
+  renameShelf: (id: string, name: string) => void;
+  deleteShelf: (id: string) => void;
+  addManga: (shelfId: string, manga: MangaReference) => void;
+  removeManga: (shelfId: string, mangaId: number) => void;
+  /** Move to another shelf, at `index` or the end */
+  moveManga: (
+    mangaId: number,
+    fromId: string,
+    toId: string,
+    index?: number
+  ) => void;
+  /** Reorder a shelf - ids not on the shelf are ignored */
+  reorderShelf: (shelfId: string, mangaIds: number[]) => void;
+  /** Drop every shelf and entry, back to the empty system shelves */
+  reset: () => void;
+}
+
+const initialState: ShelfState = {
+  // System shelves use their key as id and are named by the UI
+  shelves: SYSTEM_SHELVES.map((system) => ({
+    id: system,
+    name: "",
+    system,
+    created_at: createdAt,
+  })),
+  entries: {},
+};
+
+function insertAt<T>(list: T[], item: T, index?: number): T[] {
+  const next = [...list];
+  next.splice(index ?? next.length, 0, item);
+  return next;
+}
+
+export const useShelfStore = create<ShelfState & ShelfActions>()(
+  persist(
+    (set) => ({
+      ...initialState,
+
+      createShelf: (name) => {
+        const shelf: ShelfRecord = {
+          id: crypto.randomUUID(),
+          name,
+          created_at: new Date().toISOString(),
+        };
+        set((state) => ({ shelves: [...state.shelves, shelf] }));
+        return shelf;
+      },
+
+      renameShelf: (id, name) =>
+        set((state) => ({
+          shelves: state.shelves.map((shelf) =>
+            shelf.id === id && !shelf.system ? { ...shelf, name } : shelf
+          ),
+        })),
+
+      deleteShelf: (id) =>
+        set((state) => {
+          const { [id]: _removed, ...entries } = state.entries;
+          void _removed; // Suppress unused variable warning
+          return {
+            shelves: state.shelves.filter(
+              (shelf) => shelf.id !== id || shelf.system
+            ),
+            entries,
+          };
+        }),
+
+      addManga: (shelfId, manga) =>
+        set((state) => {
+          const current = state.entries[shelfId] ?? [];
+          if (current.some((entry) => entry.manga.id === manga.id)) {
+            return state;
+          }
+          return {
+            entries: {
+              ...state.entries,
+              [shelfId]: [
+                ...current,
+                { manga, added_at: new Date().toISOString() },
+              ],
+            },
+          };
+        }),
+
+      removeManga: (shelfId, mangaId) =>
+        set((state) => ({
+          entries: {
+            ...state.entries,
+            [shelfId]: (state.entries[shelfId] ?? []).filter(
+              (entry) => entry.manga.id !== mangaId
+            ),
+          },
+        })),
+
+      moveManga: (mangaId, fromId, toId, index) =>
+        set((state) => {
+          const from = state.entries[fromId] ?? [];
+          const entry = from.find((item) => item.manga.id === mangaId);
+          if (!entry) return state;
+
+          const remaining = from.filter((item) => item.manga.id !== mangaId);
+          if (fromId === toId) {
+            return {
+              entries: {
+                ...state.entries,
+                [fromId]: insertAt(remaining, entry, index),
+              },
+            };
+          }
+
+          // Already on the target shelf - just take it off the source
+          const to = (state.entries[toId] ?? []).filter(
+            (item) => item.manga.id !== mangaId
+          );
+          return {
+            entries: {
+              ...state.entries,
+              [fromId]: remaining,
+              [toId]: insertAt(to, entry, index),
+            },
+          };
+        }),
+
+      reorderShelf: (shelfId, mangaIds) =>
+        set((state) => {
+          const current = state.entries[shelfId] ?? [];
+          const byId = new Map(current.map((entry) => [entry.manga.id, entry]));
+          const ordered = mangaIds.flatMap((id) => {
+            const entry = byId.get(id);
+            byId.delete(id);
+            return entry ? [entry] : [];
+          });
+          return {
+            entries: {
+              ...state.entries,
+              // Anything missing from mangaIds keeps its place at the end
+              [shelfId]: [...ordered, ...byId.values()],
+            },
+          };
+        }),
+
+      reset: () => set(initialState),
+    }),
+    { name: "library-shelves" }
+  )
+);
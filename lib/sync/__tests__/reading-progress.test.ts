@@ -0,0 +1,157 @@
+import {
+  applyLocalProgress,
+  reconcileProgress,
+  resolveProgressConflict,
+} from "../reading-progress";
+import type { ReadingProgress } from "@/lib/store/readingProgressStore";
+import type { ReadingHistoryItem } from "@/types/chapter";
+
+const T = Date.parse("2026-01-10T12:00:00.000Z");
+
+function historyItem(
+  slug: string,
+  chapterNumber: number,
+  readAt: number
+): ReadingHistoryItem {
+  return {
+    manga: {
+      id: chapterNumber,
+      uuid: `uuid-${slug}`,
+      name: slug,
+      slug,
+      cover_full_url: `/covers/${slug}.jpg`,
+    },
+    last_read_chapter: {
+      id: chapterNumber,
+      uuid: `uuid-${slug}-${chapterNumber}`,
+      name: `Chapter ${chapterNumber}`,
+      slug: `chapter-${chapterNumber}`,
+      views: 0,
+      order: chapterNumber,
+      chapter_number: chapterNumber,
+      created_at: "2026-01-01T00:00:00.000Z",
+      updated_at: "2026-01-01T00:00:00.000Z",
+    },
+    last_read_at: new Date(readAt).toISOString(),
+  };
+}
+
+function progress(chapterNumber: number, timestamp: number): ReadingProgress {
+  return {
+    chapterSlug: `chapter-${chapterNumber}`,
+    chapterNumber,
+    timestamp,
+  };
+}
+
+describe("resolveProgressConflict", () => {
+  it("prefers the more recent read", () => {
+    expect(resolveProgressConflict(progress(3, T + 5000), progress(9, T))).toBe(
+      "local"
+    );
+    expect(resolveProgressConflict(progress(9, T), progress(3, T + 5000))).toBe(
+      "server"
+    );
+  });
+
+  it("breaks same-second ties by chapter number, then the server", () => {
+    expect(resolveProgressConflict(progress(5, T + 400), progress(4, T))).toBe(
+      "local"
+    );
+    expect(resolveProgressConflict(progress(4, T + 400), progress(5, T))).toBe(
+      "server"
+    );
+    expect(resolveProgressConflict(progress(5, T + 400), progress(5, T))).toBe(
+      "server"
+    );
+  });
+});
+
+describe("reconcileProgress", () => {
+  it("downloads server-only history and uploads device-only progress", () => {
+    const { toLocal, toServer } = reconcileProgress(
+      { local: progress(2, T) },
+      [historyItem("remote", 7, T - 1000)],
+      true
+    );
+
+    expect(toLocal.remote).toMatchObject({
+      chapterSlug: "chapter-7",
+      chapterNumber: 7,
+      chapterName: "Chapter 7",
+    });
+    expect(toServer).toEqual([
+      {
+        manga_slug: "local",
+        chapter_slug: "chapter-2",
+        read_at: new Date(T).toISOString(),
+      },
+    ]);
+  });
+
+  it("resolves conflicts per manga", () => {
+    const { toLocal, toServer } = reconcileProgress(
+      {
+        newerOnDevice: progress(10, T + 60_000),
+        newerOnServer: progress(4, T),
+      },
+      [
+        historyItem("newerOnDevice", 8, T),
+        historyItem("newerOnServer", 6, T + 60_000),
+      ],
+      true
+    );
+
+    expect(Object.keys(toLocal)).toEqual(["newerOnServer"]);
+    expect(toServer.map((entry) => entry.manga_slug)).toEqual([
+      "newerOnDevice",
+    ]);
+  });
+
+  it("does nothing once both sides agree", () => {
+    const { toLocal, toServer } = reconcileProgress(
+      { synced: progress(3, T) },
+      [historyItem("synced", 3, T)],
+      true
+    );
+
+    expect(toLocal).toEqual({});
+    expect(toServer).toEqual([]);
+  });
+
+  it("leaves device progress older than a partial history window alone", () => {
+    const { toServer } = reconcileProgress(
+      {
+        old: progress(1, T - 60_000),
+        recent: progress(1, T + 60_000),
+      },
+      [historyItem("other", 2, T)],
+      false
+    );
+
+    expect(toServer.map((entry) => entry.manga_slug)).toEqual(["recent"]);
+  });
+});
+
+describe("applyLocalProgress", () => {
+  it("shows newer device progress on the server item", () => {
+    const item = historyItem("manga", 3, T);
+    const result = applyLocalProgress(item, {
+      ...progress(4, T + 60_000),
+      chapterName: "Chapter 4",
+    });
+
+    expect(result.last_read_chapter).toMatchObject({
+      slug: "chapter-4",
+      chapter_number: 4,
+      name: "Chapter 4",
+    });
+    expect(result.last_read_at).toBe(new Date(T + 60_000).toISOString());
+  });
+
+  it("keeps the server item when it is newer", () => {
+    const item = historyItem("manga", 3, T);
+    expect(applyLocalProgress(item, progress(1, T - 60_000))).toBe(item);
+    expect(applyLocalProgress(item, undefined)).toBe(item);
+  });
+});
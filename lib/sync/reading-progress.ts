@@ -0,0 +1,150 @@
+/**
+ * Reading Progress Sync
+ * Reconciles device progress (readingProgressStore) with server history
+ * (userHistoryApi) so every screen agrees on where to continue reading
+ *
+ * Conflicts are resolved per manga, the same way on every device:
+ * 1. The more recent read wins
+ * 2. Same timestamp (to the second): the higher chapter number wins
+ * 3. Still tied: the server entry wins
+ */
+
+import type { ReadingProgress } from "@/lib/store/readingProgressStore";
+import type { HistorySyncEntry, ReadingHistoryItem } from "@/types/chapter";
+
+export interface ReconcileResult {
+  /** Server entries that should replace device progress */
+  toLocal: Record<string, ReadingProgress>;
+  /** Device progress the server doesn't have yet */
+  toServer: HistorySyncEntry[];
+}
+
+/**
+ * Server timestamps have second precision - compare at that resolution so a
+ * read that was synced once doesn't look newer on the device forever
+ */
+const toSeconds = (timestamp: number) => Math.floor(timestamp / 1000);
+
+export function historyItemToProgress(
+  item: ReadingHistoryItem
+): ReadingProgress {
+  return {
+    chapterSlug: item.last_read_chapter.slug,
+    chapterNumber: item.last_read_chapter.chapter_number,
+    chapterName: item.last_read_chapter.name,
+    timestamp: Date.parse(item.last_read_at),
+  };
+}
+
+function toSyncEntry(
+  mangaSlug: string,
+  progress: ReadingProgress
+): HistorySyncEntry {
+  return {
+    manga_slug: mangaSlug,
+    chapter_slug: progress.chapterSlug,
+    read_at: new Date(progress.timestamp).toISOString(),
+  };
+}
+
+/**
+ * Pick the winner between device and server progress for one manga
+ */
+export function resolveProgressConflict(
+  local: ReadingProgress,
+  server: ReadingProgress
+): "local" | "server" {
+  const localSeconds = toSeconds(local.timestamp);
+  const serverSeconds = toSeconds(server.timestamp);
+
+  if (localSeconds !== serverSeconds) {
+    return localSeconds > serverSeconds ? "local" : "server";
+  }
+  if (local.chapterNumber !== server.chapterNumber) {
+    return local.chapterNumber > server.chapterNumber ? "local" : "server";
+  }
+  return "server";
+}
+
+/**
+ * Work out what each side needs from the other
+ *
+ * `history` is the newest-first window fetched from the server. Unless
+ * `complete`, manga missing from it may still have older server entries, so
+ * device progress older than the window is left alone rather than uploaded.
+ */
+export function reconcileProgress(
+  local: Record<string, ReadingProgress>,
+  history: ReadingHistoryItem[],
+  complete: boolean
+): ReconcileResult {
+  const toLocal: Record<string, ReadingProgress> = {};
+  const toServer: HistorySyncEntry[] = [];
+  const seen = new Set<string>();
+
+  history.forEach((item) => {
+    const slug = item.manga.slug;
+    const server = historyItemToProgress(item);
+    const device = local[slug];
+    seen.add(slug);
+
+    if (!device) {
+      toLocal[slug] = server;
+      return;
+    }
+
+    if (resolveProgressConflict(device, server) === "server") {
+      // Skip entries that already match to avoid needless store writes
+      if (
+        device.chapterSlug !== server.chapterSlug ||
+        device.timestamp !== server.timestamp
+      ) {
+        toLocal[slug] = server;
+      }
+    } else if (device.chapterSlug !== server.chapterSlug) {
+      toServer.push(toSyncEntry(slug, device));
+    }
+  });
+
+  const oldestServerRead = history.reduce(
+    (oldest, item) => Math.min(oldest, Date.parse(item.last_read_at)),
+    Infinity
+  );
+
+  Object.entries(local).forEach(([slug, device]) => {
+    if (seen.has(slug)) return;
+    if (complete || device.timestamp > oldestServerRead) {
+      toServer.push(toSyncEntry(slug, device));
+    }
+  });
+
+  return { toLocal, toServer };
+}
+
+/**
+ * Show newer device progress on a server history item
+ * Covers reads since the last sync, which the server list doesn't have yet
+ */
+export function applyLocalProgress(
+  item: ReadingHistoryItem,
+  local: ReadingProgress | undefined
+): ReadingHistoryItem {
+  if (
+    !local ||
+    local.chapterSlug === item.last_read_chapter.slug ||
+    resolveProgressConflict(local, historyItemToProgress(item)) === "server"
+  ) {
+    return item;
+  }
+
+  return {
+    ...item,
+    last_read_chapter: {
+      ...item.last_read_chapter,
+      slug: local.chapterSlug,
+      chapter_number: local.chapterNumber,
+      name: local.chapterName ?? "",
+    },
+    last_read_at: new Date(local.timestamp).toISOString(),
+  };
+}
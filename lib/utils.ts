@@ -26,3 +26,24 @@ export function formatNumber(num: number): string {
   }
   return num.toString();
 }
+
+/**
+ * Format byte size for display
+ *
+ * @example
+ * formatBytes(512) // "512 B"
+ * formatBytes(1536) // "1.5 KB"
+ * formatBytes(5242880) // "5.0 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return (bytes / 1024 / 1024 / 1024).toFixed(1) + " GB";
+  }
+  if (bytes >= 1024 * 1024) {
+    return (bytes / 1024 / 1024).toFixed(1) + " MB";
+  }
+  if (bytes >= 1024) {
+    return (bytes / 1024).toFixed(1) + " KB";
+  }
+  return `${bytes} B`;
+}
@@ -0,0 +1,59 @@
+import {
+  findChapterByNumber,
+  getChapterGroupIndex,
+  groupChapters,
+} from "../chapter-groups";
+
+const chapters = (...numbers: number[]) =>
+  numbers.map((chapter_number) => ({ chapter_number }));
+
+describe("getChapterGroupIndex", () => {
+  it("should put range boundaries in the lower range", () => {
+    expect(getChapterGroupIndex(1, 100)).toBe(0);
+    expect(getChapterGroupIndex(100, 100)).toBe(0);
+    expect(getChapterGroupIndex(101, 100)).toBe(1);
+  });
+
+  it("should keep chapter 0 and half chapters in range", () => {
+    expect(getChapterGroupIndex(0, 100)).toBe(0);
+    expect(getChapterGroupIndex(100.5, 100)).toBe(1);
+  });
+});
+
+describe("groupChapters", () => {
+  it("should group chapters in their original order", () => {
+    const groups = groupChapters(chapters(250, 120, 101, 99, 1), 100);
+
+    expect(groups.map((g) => [g.start, g.end])).toEqual([
+      [201, 300],
+      [101, 200],
+      [1, 100],
+    ]);
+    expect(groups[1].chapters).toEqual(chapters(120, 101));
+  });
+
+  it("should return no groups for no chapters", () => {
+    expect(groupChapters([], 100)).toEqual([]);
+  });
+});
+
+describe("findChapterByNumber", () => {
+  it("should find the exact chapter", () => {
+    expect(findChapterByNumber(chapters(1, 2, 3), 2)).toEqual({
+      chapter_number: 2,
+    });
+  });
+
+  it("should fall back to the closest chapter, the lower on a tie", () => {
+    expect(findChapterByNumber(chapters(1, 5, 9), 8)).toEqual({
+      chapter_number: 9,
+    });
+    expect(findChapterByNumber(chapters(9, 5, 1), 7)).toEqual({
+      chapter_number: 5,
+    });
+  });
+
+  it("should return undefined for no chapters", () => {
+    expect(findChapterByNumber([], 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  applyLibraryOptions,
+  DEFAULT_LIBRARY_OPTIONS,
+  isDefaultLibraryOptions,
+  paginateItems,
+} from "../library-filters";
+import type { MangaReference } from "@/types/chapter";
+import { MangaStatus } from "@/types/manga";
+
+function manga(
+  id: number,
+  name: string,
+  status = MangaStatus.ONGOING,
+  nameAlt?: string
+): MangaReference {
+  return {
+    id,
+    uuid: `uuid-${id}`,
+    name,
+    name_alt: nameAlt,
+    slug: `manga-${id}`,
+    cover_full_url: `/covers/${id}.jpg`,
+    status,
+  };
+}
+
+const items = [
+  manga(1, "Tokyo Ghoul", MangaStatus.COMPLETED),
+  manga(2, "Bleach", MangaStatus.COMPLETED, "Sứ Giả Thần Chết"),
+  manga(3, "One Piece"),
+];
+
+const accessors = { manga: (item: MangaReference) => item };
+
+describe("isDefaultLibraryOptions", () => {
+  it("treats a whitespace-only query as default", () => {
+    expect(
+      isDefaultLibraryOptions({ ...DEFAULT_LIBRARY_OPTIONS, query: "  " })
+    ).toBe(true);
+    expect(
+      isDefaultLibraryOptions({ ...DEFAULT_LIBRARY_OPTIONS, sort: "title" })
+    ).toBe(false);
+  });
+});
+
+describe("applyLibraryOptions", () => {
+  it("filters by title, alternative title and status", () => {
+    const byAltTitle = applyLibraryOptions(
+      items,
+      { ...DEFAULT_LIBRARY_OPTIONS, query: "su gia" },
+      accessors
+    );
+    expect(byAltTitle.map((item) => item.id)).toEqual([2]);
+
+    const ongoing = applyLibraryOptions(
+      items,
+      { ...DEFAULT_LIBRARY_OPTIONS, status: String(MangaStatus.ONGOING) },
+      accessors
+    );
+    expect(ongoing.map((item) => item.id)).toEqual([3]);
+  });
+
+  it("sorts without mutating the input", () => {
+    const byTitle = applyLibraryOptions(
+      items,
+      { ...DEFAULT_LIBRARY_OPTIONS, sort: "title" },
+      accessors
+    );
+    expect(byTitle.map((item) => item.id)).toEqual([2, 3, 1]);
+
+    const oldest = applyLibraryOptions(
+      items,
+      { ...DEFAULT_LIBRARY_OPTIONS, sort: "oldest" },
+      accessors
+    );
+    expect(oldest.map((item) => item.id)).toEqual([3, 2, 1]);
+    expect(items.map((item) => item.id)).toEqual([1, 2, 3]);
+  });
+
+  it("puts never-read items last when sorting by last read", () => {
+    const readAt: Record<number, number> = { 1: 100, 3: 200 };
+    const sorted = applyLibraryOptions(
+      items,
+      { ...DEFAULT_LIBRARY_OPTIONS, sort: "last_read" },
+      { ...accessors, lastReadAt: (item) => readAt[item.id] }
+    );
+    expect(sorted.map((item) => item.id)).toEqual([3, 1, 2]);
+  });
+});
+
+describe("paginateItems", () => {
+  it("clamps the page to the last one", () => {
+    const { items: page, pagination } = paginateItems([1, 2, 3, 4, 5], 9, 2);
+    expect(page).toEqual([5]);
+    expect(pagination).toMatchObject({
+      current_page: 3,
+      last_page: 3,
+      total: 5,
+      from: 5,
+      to: 5,
+    });
+  });
+
+  it("reports an empty list as a single empty page", () => {
+    expect(paginateItems([], 1, 20).pagination).toMatchObject({
+      current_page: 1,
+      last_page: 1,
+      from: 0,
+      to: 0,
+    });
+  });
+});
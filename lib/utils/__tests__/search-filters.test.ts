@@ -0,0 +1,49 @@
+import {
+  buildFilteredSearchParams,
+  buildSearchApiParams,
+  DEFAULT_SEARCH_FILTERS,
+  hasSearchFilters,
+  parseSearchUrlParams,
+} from "../search-filters";
+
+describe("parseSearchUrlParams", () => {
+  it("should keep a known sort", () => {
+    expect(parseSearchUrlParams({ sort: "-views" }).filters.sort).toBe(
+      "-views"
+    );
+  });
+
+  it("should fall back to relevance for an unknown sort", () => {
+    expect(parseSearchUrlParams({ sort: "-id" }).filters.sort).toBe(
+      "relevance"
+    );
+  });
+});
+
+describe("search api params", () => {
+  it("should only send the query and page to /mangas/search", () => {
+    expect(hasSearchFilters(DEFAULT_SEARCH_FILTERS)).toBe(false);
+    expect(buildSearchApiParams("one piece", 2)).toEqual({
+      q: "one piece",
+      page: 2,
+      per_page: 24,
+    });
+  });
+
+  it("should send filters and sort to /mangas", () => {
+    const filters = {
+      ...DEFAULT_SEARCH_FILTERS,
+      status: "2",
+      genres: [3, 7],
+      sort: "-views" as const,
+    };
+
+    expect(hasSearchFilters(filters)).toBe(true);
+    expect(buildFilteredSearchParams("one piece", filters, 1)).toMatchObject({
+      "filter[name]": "one piece",
+      "filter[status]": 2,
+      "filter[accept_genres]": "3,7",
+      sort: "-views",
+    });
+  });
+});
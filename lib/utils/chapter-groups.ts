@@ -0,0 +1,80 @@
+/**
+ * Chapter list helpers
+ * Ranges of chapter numbers (1-100, 101-200...) for long chapter lists,
+ * and looking a chapter up by number
+ */
+
+import { CHAPTER_LIST } from "@/lib/constants";
+import type { ChapterListItem } from "@/types/chapter";
+
+export interface ChapterGroup<T> {
+  /** Index of the range - 0 for 1-100, 1 for 101-200... */
+  index: number;
+  /** First and last chapter number the range covers */
+  start: number;
+  end: number;
+  chapters: T[];
+}
+
+/**
+ * Range a chapter number falls in (chapter 0 and prologues join the first)
+ */
+export function getChapterGroupIndex(
+  chapterNumber: number,
+  size: number = CHAPTER_LIST.GROUP_SIZE
+): number {
+  return Math.max(0, Math.floor((Math.ceil(chapterNumber) - 1) / size));
+}
+
+/**
+ * Split chapters into ranges, keeping their order - sorted chapters give
+ * sorted ranges, in the same direction
+ */
+export function groupChapters<
+  T extends Pick<ChapterListItem, "chapter_number">,
+>(chapters: T[], size: number = CHAPTER_LIST.GROUP_SIZE): ChapterGroup<T>[] {
+  const groups: ChapterGroup<T>[] = [];
+  const byIndex = new Map<number, ChapterGroup<T>>();
+
+  for (const chapter of chapters) {
+    const index = getChapterGroupIndex(chapter.chapter_number, size);
+    let group = byIndex.get(index);
+    if (!group) {
+      group = {
+        index,
+        start: index * size + 1,
+        end: (index + 1) * size,
+        chapters: [],
+      };
+      byIndex.set(index, group);
+      groups.push(group);
+    }
+    group.chapters.push(chapter);
+  }
+
+  return groups;
+}
+
+/**
+ * Chapter with this number, or the closest one (the lower on a tie)
+ */
+export function findChapterByNumber<
+  T extends Pick<ChapterListItem, "chapter_number">,
+>(chapters: T[], chapterNumber: number): T | undefined {
+  let closest: T | undefined;
+  for (const chapter of chapters) {
+    const distance = Math.abs(chapter.chapter_number - chapterNumber);
+    const closestDistance = closest
+      ? Math.abs(closest.chapter_number - chapterNumber)
+      : Infinity;
+    if (
+      distance < closestDistance ||
+      (distance === closestDistance &&
+        closest &&
+        chapter.chapter_number < closest.chapter_number)
+    ) {
+      closest = chapter;
+    }
+  }
+  return closest;
+}
@@ -0,0 +1,28 @@
+/**
+ * Concurrency Utilities
+ */
+
+/**
+ * Map over `items` running at most `limit` workers at a time
+ * Results keep the input order. Rejects with the first worker error.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, run)
+  );
+  return results;
+}
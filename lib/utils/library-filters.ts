@@ -0,0 +1,104 @@
+/**
+ * Library list helpers
+ * Title/status filtering and sorting for the bookmarks and history tabs.
+ * The API only pages these lists in its own order, so anything but the
+ * default view is computed client-side over the whole list.
+ */
+
+import { normalizeTitle } from "@/lib/backup/matching";
+import type { MangaReference } from "@/types/chapter";
+
+/**
+ * - recent: API order (newest bookmark / most recent read first)
+ * - oldest: API order reversed
+ * - title: A-Z
+ * - last_read: most recently read on this device or account first
+ */
+export type LibrarySortOption = "recent" | "oldest" | "title" | "last_read";
+
+export interface LibraryListOptions {
+  query: string;
+  status: string; // "all" | "1" | "2"
+  sort: LibrarySortOption;
+}
+
+export const DEFAULT_LIBRARY_OPTIONS: LibraryListOptions = {
+  query: "",
+  status: "all",
+  sort: "recent",
+};
+
+export function isDefaultLibraryOptions(options: LibraryListOptions) {
+  return (
+    !options.query.trim() &&
+    options.status === DEFAULT_LIBRARY_OPTIONS.status &&
+    options.sort === DEFAULT_LIBRARY_OPTIONS.sort
+  );
+}
+
+interface LibraryItemAccessors<T> {
+  manga: (item: T) => MangaReference;
+  /** Last read time in ms, when known */
+  lastReadAt?: (item: T) => number | undefined;
+}
+
+/**
+ * Filter and sort library items, keeping API order as the tie-breaker
+ */
+export function applyLibraryOptions<T>(
+  items: T[],
+  options: LibraryListOptions,
+  { manga, lastReadAt }: LibraryItemAccessors<T>
+): T[] {
+  const query = normalizeTitle(options.query);
+
+  const filtered = items.filter((item) => {
+    const { name, name_alt, status } = manga(item);
+    if (options.status !== "all" && String(status) !== options.status) {
+      return false;
+    }
+    return (
+      !query ||
+      normalizeTitle(name).includes(query) ||
+      (!!name_alt && normalizeTitle(name_alt).includes(query))
+    );
+  });
+
+  switch (options.sort) {
+    case "recent":
+      return filtered;
+    case "oldest":
+      return filtered.reverse();
+    case "title":
+      return filtered.sort((a, b) =>
+        manga(a).name.localeCompare(manga(b).name)
+      );
+    case "last_read":
+      // Never-read items go last
+      return filtered.sort(
+        (a, b) => (lastReadAt?.(b) ?? -1) - (lastReadAt?.(a) ?? -1)
+      );
+  }
+}
+
+/**
+ * Slice one page out of a client-side list, in the useFavorites/useHistory
+ * shape
+ */
+export function paginateItems<T>(items: T[], page: number, perPage: number) {
+  const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+  const currentPage = Math.min(page, lastPage);
+  const from = (currentPage - 1) * perPage;
+
+  return {
+    items: items.slice(from, from + perPage),
+    pagination: {
+      current_page: currentPage,
+      last_page: lastPage,
+      per_page: perPage,
+      total: items.length,
+      from: items.length > 0 ? from + 1 : 0,
+      to: Math.min(from + perPage, items.length),
+    },
+  };
+}
@@ -17,3 +17,26 @@ export function buildQueryString(params?: unknown): string {
   const queryString = searchParams.toString();
   return queryString ? `?${queryString}` : "";
 }
+
+/**
+ * Parse a comma-separated id list from a URL param ("1,2,3")
+ * Invalid entries are dropped, result is sorted and de-duplicated
+ */
+export function parseIdList(value?: string | null): number[] {
+  if (!value) return [];
+
+  const ids = value
+    .split(",")
+    .map((id) => parseInt(id, 10))
+    .filter((id) => !Number.isNaN(id));
+
+  return Array.from(new Set(ids)).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a 1-based page number from a URL param
+ * Missing or invalid values fall back to the first page
+ */
+export function parsePageParam(value?: string | null): number {
+  return Math.max(1, parseInt(value || "1", 10) || 1);
+}
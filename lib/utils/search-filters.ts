@@ -0,0 +1,162 @@
+/**
+ * Search page filter helpers
+ * Shared by the /search server page (prefetch) and client content (URL sync)
+ */
+
+import type { SortOption } from "@/components/browse/sort-select";
+import type { MangaListParams, MangaSearchParams } from "@/types/manga";
+import { parseIdList } from "./query-string";
+
+/** "relevance" leaves ordering to the search backend */
+export type SearchSortOption = "relevance" | SortOption;
+
+export const SEARCH_SORT_OPTIONS: SearchSortOption[] = [
+  "relevance",
+  "-updated_at",
+  "-views",
+  "-rating",
+  "name",
+];
+
+export const SEARCH_PER_PAGE = 24;
+
+/**
+ * Filters offered on the search page
+ * No rating range - GET /mangas only filters by name, status and genre
+ * (see docs/API_DOCUMENTATION.md), so ratings are only a sort option
+ */
+export interface SearchFilterValues {
+  status: string; // "all" | "1" | "2"
+  genres: number[];
+  sort: SearchSortOption;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilterValues = {
+  status: "all",
+  genres: [],
+  sort: "relevance",
+};
+
+/**
+ * URL search params of the /search page
+ */
+export interface SearchUrlParams {
+  q?: string;
+  page?: string;
+  status?: string;
+  genres?: string;
+  sort?: string;
+}
+
+function isSearchSortOption(value?: string): value is SearchSortOption {
+  return SEARCH_SORT_OPTIONS.includes(value as SearchSortOption);
+}
+
+/**
+ * Parse URL search params into query, filters and page
+ */
+export function parseSearchUrlParams(params: SearchUrlParams): {
+  query: string;
+  filters: SearchFilterValues;
+  page: number;
+} {
+  return {
+    query: (params.q || "").trim(),
+    filters: {
+      status: params.status || DEFAULT_SEARCH_FILTERS.status,
+      genres: parseIdList(params.genres),
+      sort: isSearchSortOption(params.sort)
+        ? params.sort
+        : DEFAULT_SEARCH_FILTERS.sort,
+    },
+    page: Math.max(1, parseInt(params.page || "1", 10) || 1),
+  };
+}
+
+/**
+ * Build /search URL from query, filters and page
+ * Default values are omitted to keep URLs short
+ */
+export function buildSearchUrl(
+  query: string,
+  filters: SearchFilterValues,
+  page = 1
+): string {
+  const params = new URLSearchParams();
+
+  if (query) {
+    params.set("q", query);
+  }
+
+  if (filters.status !== "all") {
+    params.set("status", filters.status);
+  }
+
+  if (filters.genres.length > 0) {
+    params.set("genres", filters.genres.join(","));
+  }
+
+  if (filters.sort !== DEFAULT_SEARCH_FILTERS.sort) {
+    params.set("sort", filters.sort);
+  }
+
+  if (page > 1) {
+    params.set("page", String(page));
+  }
+
+  const queryString = params.toString();
+  return queryString ? `/search?${queryString}` : "/search";
+}
+
+/**
+ * Whether any filter is set - /mangas/search only takes a query, so
+ * filtered searches go through the /mangas list instead
+ */
+export function hasSearchFilters(filters: SearchFilterValues): boolean {
+  return (
+    filters.status !== DEFAULT_SEARCH_FILTERS.status ||
+    filters.genres.length > 0 ||
+    filters.sort !== DEFAULT_SEARCH_FILTERS.sort
+  );
+}
+
+/**
+ * Build mangaApi.search params from query and page
+ */
+export function buildSearchApiParams(
+  query: string,
+  page: number
+): MangaSearchParams {
+  return { q: query, page, per_page: SEARCH_PER_PAGE };
+}
+
+/**
+ * Build mangaApi.getList params for a filtered search, matching the query
+ * against manga names
+ */
+export function buildFilteredSearchParams(
+  query: string,
+  filters: SearchFilterValues,
+  page: number
+): MangaListParams {
+  const params: MangaListParams = {
+    "filter[name]": query,
+    page,
+    per_page: SEARCH_PER_PAGE,
+    include: "genres,artist,latest_chapter",
+  };
+
+  if (filters.sort !== "relevance") {
+    params.sort = filters.sort;
+  }
+
+  if (filters.status !== "all") {
+    params["filter[status]"] = parseInt(filters.status, 10) as 1 | 2;
+  }
+
+  if (filters.genres.length > 0) {
+    params["filter[accept_genres]"] = filters.genres.join(",");
+  }
+
+  return params;
+}
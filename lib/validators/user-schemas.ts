@@ -80,6 +80,19 @@ export const avatarFileSchema = z
 /**
  * Type inference from schemas (optional, for TypeScript autocomplete)
  */
+/**
+ * Shelf Name Schema
+ * Validates creating or renaming a custom library shelf
+ */
+export const shelfNameSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "user.library.shelves.nameRequired")
+    .max(50, "user.library.shelves.nameMaxChars"),
+});
+
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type AvatarFileInput = z.infer<typeof avatarFileSchema>;
+export type ShelfNameInput = z.infer<typeof shelfNameSchema>;
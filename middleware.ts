@@ -1,13 +1,51 @@
 /**
  * Next.js Middleware
- * Handles route protection and authentication redirects
+ * Handles route protection, authentication redirects and `?lang=` locale overrides
  *
- * Note: Currently using localStorage-based auth — middleware passes all requests through.
- * For server-side token validation, migrate to httpOnly cookies.
+ * Auth state comes from the httpOnly auth cookie set by /api/auth. The cookie
+ * is only checked for presence here - the backend still validates the token.
+ * When it's rejected, /api/auth/refresh renews it or clears the cookie.
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import {
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  LOCALE_HEADER,
+  LOCALE_QUERY_PARAM,
+  isSupportedLocale,
+} from "@/lib/i18n/config";
+import {
+  DEFAULT_UNAUTHENTICATED_REDIRECT,
+  getSafeRedirect,
+  isAuthRoute,
+  isProtectedRoute,
+} from "@/lib/auth/routes";
+import { AUTH_COOKIE } from "@/lib/auth/session-cookie";
+
+/**
+ * Honor an explicit `?lang=` locale: forward it to i18n/request.ts via a
+ * request header and remember it in the locale cookie for later navigation
+ */
+function applyLocaleParam(request: NextRequest): NextResponse | null {
+  const lang = request.nextUrl.searchParams.get(LOCALE_QUERY_PARAM);
+  if (!lang || !isSupportedLocale(lang)) {
+    return null;
+  }
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(LOCALE_HEADER, lang);
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.cookies.set(LOCALE_COOKIE, lang, {
+    path: "/",
+    maxAge: LOCALE_COOKIE_MAX_AGE,
+    sameSite: "lax",
+  });
+
+  return response;
+}
 
 /**
  * Middleware function
@@ -30,14 +68,27 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // Get auth token from cookie (if you migrate to cookie-based auth)
-  // const token = request.cookies.get("auth-token")?.value;
+  const isLoggedIn = request.cookies.has(AUTH_COOKIE);
 
-  // Since we're using localStorage, we'll rely on client-side protection
-  // This middleware just sets up proper headers and allows the request through
-  // The actual auth checking happens in client components
+  // Protected pages: send guests to login, then back to where they were
+  if (isProtectedRoute(pathname) && !isLoggedIn) {
+    const loginUrl = new URL(DEFAULT_UNAUTHENTICATED_REDIRECT, request.url);
+    loginUrl.searchParams.set(
+      "redirect",
+      `${pathname}${request.nextUrl.search}`
+    );
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Login/register: logged-in users go to their redirect target or home
+  if (isAuthRoute(pathname) && isLoggedIn) {
+    const target = getSafeRedirect(
+      request.nextUrl.searchParams.get("redirect")
+    );
+    return NextResponse.redirect(new URL(target, request.url));
+  }
 
-  return NextResponse.next();
+  return applyLocaleParam(request) ?? NextResponse.next();
 }
 
 /**
@@ -35,6 +35,14 @@ const nextConfig: NextConfig = {
   // Security and performance headers
   async headers() {
     return [
+      {
+        // Worker lives in /sw/ but controls the whole site; always revalidate
+        source: "/sw/:path*",
+        headers: [
+          { key: "Service-Worker-Allowed", value: "/" },
+          { key: "Cache-Control", value: "no-cache" },
+        ],
+      },
       {
         source: "/(.*)",
         headers: [
@@ -0,0 +1,85 @@
+import { ByteLruIndex } from "../lru.ts";
+import { getApiCacheRoute } from "../config.ts";
+
+describe("ByteLruIndex", () => {
+  it("tracks total bytes across set, replace and delete", () => {
+    const index = new ByteLruIndex();
+    index.set("a", 100);
+    index.set("b", 50);
+    expect(index.totalBytes).toBe(150);
+
+    index.set("a", 30);
+    expect(index.totalBytes).toBe(80);
+    expect(index.size).toBe(2);
+
+    index.delete("b");
+    index.delete("missing");
+    expect(index.totalBytes).toBe(30);
+    expect(index.has("b")).toBe(false);
+  });
+
+  it("evicts least recently used entries until under budget", () => {
+    const index = new ByteLruIndex();
+    index.set("a", 40);
+    index.set("b", 40);
+    index.set("c", 40);
+
+    expect(index.evict(80)).toEqual(["a"]);
+    expect(index.totalBytes).toBe(80);
+    expect(index.has("a")).toBe(false);
+  });
+
+  it("keeps recently touched entries", () => {
+    const index = new ByteLruIndex();
+    index.set("a", 40);
+    index.set("b", 40);
+    index.set("c", 40);
+    index.touch("a");
+
+    expect(index.evict(40)).toEqual(["b", "c"]);
+    expect(index.has("a")).toBe(true);
+  });
+
+  it("evicts by bytes rather than entry count", () => {
+    const index = new ByteLruIndex();
+    index.set("large", 1000);
+    index.set("small-1", 10);
+    index.set("small-2", 10);
+
+    expect(index.evict(100)).toEqual(["large"]);
+    expect(index.size).toBe(2);
+  });
+
+  it("evicts nothing when within budget", () => {
+    const index = new ByteLruIndex();
+    index.set("a", 10);
+
+    expect(index.evict(100)).toEqual([]);
+  });
+});
+
+describe("getApiCacheRoute", () => {
+  it.each([
+    ["/api/v1/mangas", "manga-list"],
+    ["/api/v1/mangas/recent", "manga-list"],
+    ["/api/v1/mangas/hot", "manga-list"],
+    ["/api/v1/mangas/one-piece", "manga-detail"],
+    ["/api/v1/genres", "genres"],
+    ["/api/v1/genres/action", "genres"],
+    ["/api/v1/genres/action/mangas", "genre-mangas"],
+  ])("matches %s to %s", (pathname, name) => {
+    expect(getApiCacheRoute(pathname)?.name).toBe(name);
+  });
+
+  it.each([
+    "/api/v1/mangas/one-piece/chapters",
+    "/api/v1/mangas/one-piece/comments",
+    "/api/v1/mangas/search",
+    "/api/backend/mangas/one-piece",
+    "/api/v1/auth/profile",
+    "/api/v1/user/histories",
+    "/mangas",
+  ])("does not cache %s", (pathname) => {
+    expect(getApiCacheRoute(pathname)).toBeUndefined();
+  });
+});
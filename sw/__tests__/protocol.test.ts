@@ -0,0 +1,38 @@
+import { getChapterUrl, isPushPayload, type PushPayload } from "../protocol.ts";
+
+const payload: PushPayload = {
+  type: "NEW_CHAPTER",
+  manga: { id: 1, slug: "one-piece", name: "One Piece" },
+  chapter: { slug: "chapter-1100", name: "Chapter 1100" },
+};
+
+describe("isPushPayload", () => {
+  it("accepts new chapter payloads", () => {
+    expect(isPushPayload(payload)).toBe(true);
+  });
+
+  it.each([
+    null,
+    "NEW_CHAPTER",
+    { type: "NEW_COMMENT", manga: payload.manga, chapter: payload.chapter },
+    { type: "NEW_CHAPTER", manga: payload.manga },
+    { type: "NEW_CHAPTER", manga: { id: 1 }, chapter: payload.chapter },
+  ])("rejects %p", (data) => {
+    expect(isPushPayload(data)).toBe(false);
+  });
+});
+
+describe("getChapterUrl", () => {
+  it("links to the reader", () => {
+    expect(getChapterUrl(payload)).toBe("/manga/one-piece/chapter-1100");
+  });
+
+  it("encodes slugs", () => {
+    expect(
+      getChapterUrl({
+        ...payload,
+        chapter: { slug: "chapter 1/2", name: "Chapter 1.5" },
+      })
+    ).toBe("/manga/one-piece/chapter%201%2F2");
+  });
+});
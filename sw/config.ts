@@ -0,0 +1,98 @@
+/**
+ * Service Worker Configuration
+ * Cache names, size budgets and the API routes served stale-while-revalidate
+ */
+
+/**
+ * Bump when the app shell or cache layout changes - old caches are deleted
+ * on activate
+ */
+export const SW_VERSION = "v3";
+
+export const PRECACHE = `precache-${SW_VERSION}`;
+export const STATIC_CACHE = `static-${SW_VERSION}`;
+export const API_CACHE = `api-${SW_VERSION}`;
+
+/**
+ * App shell cached on install so the home page opens offline
+ */
+export const PRECACHE_URLS = [
+  "/",
+  "/manifest.webmanifest",
+  "/icons/icon-192x192.png",
+  "/icons/icon-512x512.png",
+];
+
+/**
+ * Byte budgets - least recently used entries are evicted beyond these
+ */
+export const STATIC_CACHE_MAX_BYTES = 30 * 1024 * 1024; // 30 MB
+export const API_CACHE_MAX_BYTES = 10 * 1024 * 1024; // 10 MB
+
+/**
+ * Hashed Next.js build output and fonts - safe to serve cache-first
+ */
+export const STATIC_PATTERNS = [
+  /\/_next\/static\/.*\.(js|css)$/,
+  /\/_next\/static\/chunks\/.*/,
+  /\/_next\/static\/css\/.*/,
+  /\.woff2?(\?.*)?$/,
+  /\.ttf(\?.*)?$/,
+];
+
+/**
+ * Anonymous API requests hit the backend directly (/api/v1). Logged-in
+ * requests go through the same-origin proxy (/api/backend) and carry
+ * per-user data, so they're never cached.
+ */
+export const API_PATH_PREFIX = "/api/v1";
+
+export interface ApiCacheRoute {
+  name: string;
+  /** Matched against the path after the API prefix */
+  pattern: RegExp;
+  /** Cached responses younger than this are served without waiting (ms) */
+  maxAge: number;
+}
+
+/**
+ * API routes cached stale-while-revalidate - first match wins, anything else
+ * (chapters, auth, user data, comments) goes straight to the network
+ */
+export const API_CACHE_ROUTES: ApiCacheRoute[] = [
+  {
+    name: "manga-list",
+    pattern: /^\/mangas(\/(recent|hot))?$/,
+    maxAge: 5 * 60 * 1000, // 5 minutes
+  },
+  {
+    name: "manga-detail",
+    // Any slug but the search endpoint, which isn't cached
+    pattern: /^\/mangas\/(?!search$)[a-z0-9-]+$/,
+    maxAge: 10 * 60 * 1000, // 10 minutes
+  },
+  {
+    name: "genre-mangas",
+    pattern: /^\/genres\/[a-z0-9-]+\/mangas$/,
+    maxAge: 5 * 60 * 1000, // 5 minutes
+  },
+  {
+    name: "genres",
+    pattern: /^\/genres(\/[a-z0-9-]+)?$/,
+    maxAge: 30 * 60 * 1000, // 30 minutes - rarely changes
+  },
+];
+
+/**
+ * Find the cache route for a request path, if it's a cacheable API call
+ */
+export function getApiCacheRoute(pathname: string): ApiCacheRoute | undefined {
+  if (!pathname.startsWith(`${API_PATH_PREFIX}/`)) return undefined;
+
+  const path = pathname.slice(API_PATH_PREFIX.length);
+  return API_CACHE_ROUTES.find((route) => route.pattern.test(path));
+}
+
+export function isStaticAsset(pathname: string): boolean {
+  return STATIC_PATTERNS.some((pattern) => pattern.test(pathname));
+}
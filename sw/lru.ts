@@ -0,0 +1,159 @@
+/**
+ * Byte-size LRU Cache
+ * Wraps a Cache Storage bucket and evicts least recently used entries once
+ * the stored bytes exceed a budget
+ */
+
+/** Header added to cached responses: when they were stored (epoch ms) */
+export const CACHED_AT_HEADER = "x-sw-cached-at";
+
+/** Header added to cached responses: body size in bytes */
+export const SIZE_HEADER = "x-sw-size";
+
+/**
+ * In-memory recency index - Map iteration order is insertion order, so the
+ * first key is always the least recently used
+ */
+export class ByteLruIndex {
+  private entries = new Map<string, number>();
+  private bytes = 0;
+
+  get totalBytes(): number {
+    return this.bytes;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Record an entry (or replace its size) as the most recently used
+   */
+  set(key: string, bytes: number): void {
+    this.delete(key);
+    this.entries.set(key, bytes);
+    this.bytes += bytes;
+  }
+
+  /**
+   * Mark an entry as the most recently used
+   */
+  touch(key: string): void {
+    const bytes = this.entries.get(key);
+    if (bytes === undefined) return;
+    this.entries.delete(key);
+    this.entries.set(key, bytes);
+  }
+
+  delete(key: string): void {
+    const bytes = this.entries.get(key);
+    if (bytes === undefined) return;
+    this.entries.delete(key);
+    this.bytes -= bytes;
+  }
+
+  /**
+   * Drop least recently used entries until the total fits `maxBytes`
+   * Returns the evicted keys, oldest first
+   */
+  evict(maxBytes: number): string[] {
+    const evicted: string[] = [];
+
+    for (const [key, bytes] of this.entries) {
+      if (this.bytes <= maxBytes) break;
+      this.entries.delete(key);
+      this.bytes -= bytes;
+      evicted.push(key);
+    }
+
+    return evicted;
+  }
+}
+
+/**
+ * When a cached response was stored, or null if it wasn't stored by us
+ */
+export function getCachedAt(response: Response): number | null {
+  const value = Number(response.headers.get(CACHED_AT_HEADER));
+  return value > 0 ? value : null;
+}
+
+export interface LruCache {
+  match(request: Request): Promise<Response | undefined>;
+  put(request: Request, response: Response): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Create an LRU cache over the Cache Storage bucket `name`
+ * The recency index is rebuilt from the stored headers (by age) the first
+ * time it's needed after the worker starts
+ */
+export function createLruCache(name: string, maxBytes: number): LruCache {
+  let indexPromise: Promise<ByteLruIndex> | null = null;
+
+  const loadIndex = () => {
+    indexPromise ??= (async () => {
+      const cache = await caches.open(name);
+      const requests = await cache.keys();
+      const entries = await Promise.all(
+        requests.map(async (request) => {
+          const response = await cache.match(request);
+          return {
+            key: request.url,
+            bytes: Number(response?.headers.get(SIZE_HEADER)) || 0,
+            cachedAt: (response && getCachedAt(response)) ?? 0,
+          };
+        })
+      );
+
+      const index = new ByteLruIndex();
+      entries
+        .sort((a, b) => a.cachedAt - b.cachedAt)
+        .forEach((entry) => index.set(entry.key, entry.bytes));
+      return index;
+    })();
+    return indexPromise;
+  };
+
+  return {
+    async match(request) {
+      const cache = await caches.open(name);
+      const response = await cache.match(request);
+      if (response) {
+        (await loadIndex()).touch(request.url);
+      }
+      return response;
+    },
+
+    async put(request, response) {
+      const body = await response.blob();
+      const headers = new Headers(response.headers);
+      headers.set(CACHED_AT_HEADER, String(Date.now()));
+      headers.set(SIZE_HEADER, String(body.size));
+
+      const cache = await caches.open(name);
+      await cache.put(
+        request,
+        new Response(body, {
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+        })
+      );
+
+      const index = await loadIndex();
+      index.set(request.url, body.size);
+      await Promise.all(index.evict(maxBytes).map((key) => cache.delete(key)));
+    },
+
+    async clear() {
+      indexPromise = null;
+      await caches.delete(name);
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Service Worker Protocol
+ * Shared between the service worker (sw/) and the app: cache names the app
+ * writes to directly, and the postMessage messages in both directions.
+ * Keep this file free of DOM/WebWorker-only APIs.
+ */
+
+/**
+ * Chapters downloaded for offline reading - written by the app, never trimmed
+ */
+export const OFFLINE_CHAPTERS_CACHE = "offline-chapters-v1";
+
+/**
+ * Compiled worker script, built by `pnpm build:sw` into public/sw/
+ */
+export const SERVICE_WORKER_URL = "/sw/sw.js";
+
+/**
+ * Messages the service worker posts to open pages
+ * - OFFLINE_FALLBACK: the network failed and cached data was served instead
+ * - ONLINE: the network is reachable again after a fallback
+ * - PUSH_SUBSCRIPTION_CHANGED: the browser rotated the push subscription and
+ *   the new one must be sent to the server
+ */
+export type ServiceWorkerMessage =
+  | { type: "OFFLINE_FALLBACK"; url: string; cachedAt: number | null }
+  | { type: "ONLINE" }
+  | { type: "PUSH_SUBSCRIPTION_CHANGED" };
+
+/**
+ * Messages pages post to the service worker
+ * - SKIP_WAITING: activate a waiting update now
+ * - CLEAR_CACHE: drop every cache except offline downloads and the app shell
+ * - CLEAR_API_CACHE: drop cached API responses (e.g. on logout)
+ * - SIMULATE_PUSH: handle a payload as if it arrived by push (development)
+ */
+export type ServiceWorkerCommand =
+  | { type: "SKIP_WAITING" }
+  | { type: "CLEAR_CACHE" }
+  | { type: "CLEAR_API_CACHE" }
+  | { type: "SIMULATE_PUSH"; payload: PushPayload };
+
+export function isServiceWorkerMessage(
+  data: unknown
+): data is ServiceWorkerMessage {
+  const type = (data as { type?: unknown } | null)?.type;
+  return (
+    type === "OFFLINE_FALLBACK" ||
+    type === "ONLINE" ||
+    type === "PUSH_SUBSCRIPTION_CHANGED"
+  );
+}
+
+/**
+ * Payload the backend sends through the push service
+ * - NEW_CHAPTER: a chapter was published for a manga the user follows
+ */
+export interface PushPayload {
+  type: "NEW_CHAPTER";
+  manga: { id: number; slug: string; name: string; cover_url?: string };
+  chapter: { slug: string; name: string };
+}
+
+export function isPushPayload(data: unknown): data is PushPayload {
+  const payload = data as Partial<PushPayload> | null;
+  return (
+    payload?.type === "NEW_CHAPTER" &&
+    typeof payload.manga?.slug === "string" &&
+    typeof payload.chapter?.slug === "string"
+  );
+}
+
+/**
+ * Reader URL a new chapter notification opens
+ */
+export function getChapterUrl({ manga, chapter }: PushPayload): string {
+  return `/manga/${encodeURIComponent(manga.slug)}/${encodeURIComponent(chapter.slug)}`;
+}
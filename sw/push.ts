@@ -0,0 +1,60 @@
+/**
+ * Push Notifications
+ * Turns push payloads into notifications and opens the reader on click
+ */
+
+import { getChapterUrl, type PushPayload } from "./protocol.ts";
+
+const NOTIFICATION_ICON = "/icons/icon-192x192.png";
+
+/**
+ * Show a new chapter notification
+ * Tagged per manga so a burst of uploads replaces rather than stacks
+ */
+export function showChapterNotification(
+  registration: ServiceWorkerRegistration,
+  payload: PushPayload
+): Promise<void> {
+  return registration.showNotification(payload.manga.name, {
+    body: payload.chapter.name,
+    icon: payload.manga.cover_url ?? NOTIFICATION_ICON,
+    badge: NOTIFICATION_ICON,
+    tag: `manga-${payload.manga.id}`,
+    data: { url: getChapterUrl(payload) },
+  });
+}
+
+/**
+ * Focus an open tab and navigate it to `url`, or open a new one
+ * Prefers a tab that is already showing the same manga
+ */
+export async function openNotificationUrl(
+  clients: Clients,
+  url: string
+): Promise<void> {
+  const target = new URL(url, self.location.origin);
+  const windows = await clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+
+  const mangaPath = target.pathname.split("/").slice(0, 3).join("/");
+  const existing =
+    windows.find(
+      (client) => new URL(client.url).pathname === target.pathname
+    ) ??
+    windows.find((client) =>
+      new URL(client.url).pathname.startsWith(mangaPath)
+    ) ??
+    windows[0];
+
+  if (existing) {
+    const focused = await existing.focus();
+    if (new URL(focused.url).pathname !== target.pathname) {
+      await focused.navigate(target.href);
+    }
+    return;
+  }
+
+  await clients.openWindow(target.href);
+}
@@ -0,0 +1,118 @@
+/**
+ * Caching Strategies
+ * Each strategy resolves a fetch event to a Response; the worker passes in
+ * the caches and hooks it needs so they can be tested in isolation
+ */
+
+import { getCachedAt, type LruCache } from "./lru.ts";
+
+export interface StrategyContext {
+  /** Keep the worker alive for background work (FetchEvent.waitUntil) */
+  waitUntil(promise: Promise<unknown>): void;
+  /**
+   * Called after each network attempt - `fallback` is the cached response
+   * served because the network failed
+   */
+  reportNetwork(online: boolean, fallback?: Response): void;
+}
+
+/**
+ * Fetch and store successful responses
+ */
+async function fetchAndCache(
+  request: Request,
+  cache: LruCache
+): Promise<Response> {
+  const response = await fetch(request);
+
+  if (response.status === 200) {
+    await cache.put(request, response.clone());
+  }
+
+  return response;
+}
+
+function isFresh(response: Response, maxAge: number): boolean {
+  const cachedAt = getCachedAt(response);
+  return cachedAt !== null && Date.now() - cachedAt < maxAge;
+}
+
+/**
+ * Cache-First Strategy
+ * Best for static immutable assets
+ */
+export async function cacheFirst(
+  request: Request,
+  cache: LruCache
+): Promise<Response> {
+  const cached = await cache.match(request);
+  return cached ?? fetchAndCache(request, cache);
+}
+
+/**
+ * Stale-While-Revalidate Strategy
+ * Fresh cache (younger than `maxAge`) is served immediately and refreshed in
+ * the background. Older cache waits for the network, and is only served when
+ * the network fails.
+ */
+export async function staleWhileRevalidate(
+  request: Request,
+  cache: LruCache,
+  maxAge: number,
+  context: StrategyContext
+): Promise<Response> {
+  const cached = await cache.match(request);
+
+  const network = fetchAndCache(request, cache).then(
+    (response) => {
+      context.reportNetwork(true);
+      return response;
+    },
+    (error: unknown) => {
+      context.reportNetwork(false, cached);
+      throw error;
+    }
+  );
+
+  if (cached && isFresh(cached, maxAge)) {
+    context.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+
+  try {
+    return await network;
+  } catch (error) {
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Offline-First Strategy
+ * Serves downloaded chapter images, otherwise plain network (no caching)
+ */
+export async function offlineFirst(
+  request: Request,
+  cacheName: string
+): Promise<Response> {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request.url);
+  return cached ?? fetch(request);
+}
+
+/**
+ * Network-First for page navigations, falling back to the precached app shell
+ */
+export async function networkWithShellFallback(
+  request: Request,
+  precacheName: string
+): Promise<Response> {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(precacheName);
+    const shell = await cache.match(request);
+    if (shell) return shell;
+    throw error;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Service Worker for Manga Reader
+ * Built with `pnpm build:sw` (tsc -p sw) into public/sw/ and registered as a
+ * module worker by components/service-worker/sw-register.tsx
+ */
+
+import {
+  API_CACHE,
+  API_CACHE_MAX_BYTES,
+  PRECACHE,
+  PRECACHE_URLS,
+  STATIC_CACHE,
+  STATIC_CACHE_MAX_BYTES,
+  getApiCacheRoute,
+  isStaticAsset,
+} from "./config.ts";
+import { createLruCache, getCachedAt } from "./lru.ts";
+import {
+  OFFLINE_CHAPTERS_CACHE,
+  isPushPayload,
+  type ServiceWorkerCommand,
+  type ServiceWorkerMessage,
+} from "./protocol.ts";
+import { openNotificationUrl, showChapterNotification } from "./push.ts";
+import {
+  cacheFirst,
+  networkWithShellFallback,
+  offlineFirst,
+  staleWhileRevalidate,
+  type StrategyContext,
+} from "./strategies.ts";
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Debug mode (set to false in production)
+const DEBUG = false;
+
+const staticCache = createLruCache(STATIC_CACHE, STATIC_CACHE_MAX_BYTES);
+const apiCache = createLruCache(API_CACHE, API_CACHE_MAX_BYTES);
+
+/** Caches that survive activation and CLEAR_CACHE */
+const KEPT_CACHES = [PRECACHE, OFFLINE_CHAPTERS_CACHE];
+
+// ============ CLIENT MESSAGING ============
+
+async function broadcast(message: ServiceWorkerMessage) {
+  const clients = await self.clients.matchAll({ type: "window" });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+/** Whether the last network failure was answered from cache */
+let servingFallback = false;
+
+function createContext(event: FetchEvent): StrategyContext {
+  return {
+    waitUntil: (promise) => event.waitUntil(promise),
+    reportNetwork(online, fallback) {
+      if (online) {
+        if (servingFallback) {
+          servingFallback = false;
+          void broadcast({ type: "ONLINE" });
+        }
+        return;
+      }
+
+      if (fallback) {
+        servingFallback = true;
+        void broadcast({
+          type: "OFFLINE_FALLBACK",
+          url: event.request.url,
+          cachedAt: getCachedAt(fallback),
+        });
+      }
+    },
+  };
+}
+
+// ============ LIFECYCLE EVENTS ============
+
+self.addEventListener("install", (event) => {
+  if (DEBUG) console.log("[SW] Install", PRECACHE);
+  event.waitUntil(
+    caches
+      .open(PRECACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  if (DEBUG) console.log("[SW] Activate");
+  const current = [...KEPT_CACHES, STATIC_CACHE, API_CACHE];
+
+  event.waitUntil(
+    Promise.all([
+      // Clear caches from previous versions
+      caches.keys().then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => !current.includes(key))
+            .map((key) => {
+              if (DEBUG) console.log("[SW] Deleting old cache:", key);
+              return caches.delete(key);
+            })
+        )
+      ),
+      // Take control of all clients
+      self.clients.claim(),
+    ])
+  );
+});
+
+// ============ FETCH HANDLER ============
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+
+  // Only GET requests
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  // Skip non-http
+  if (!url.protocol.startsWith("http")) return;
+
+  // Downloaded chapter images: Cache-First from the offline cache
+  if (request.destination === "image" && !url.pathname.startsWith("/_next/")) {
+    event.respondWith(offlineFirst(request, OFFLINE_CHAPTERS_CACHE));
+    return;
+  }
+
+  // Page loads: network, with the precached shell when offline
+  if (request.mode === "navigate") {
+    event.respondWith(networkWithShellFallback(request, PRECACHE));
+    return;
+  }
+
+  // Static assets: Cache-First
+  if (isStaticAsset(url.pathname)) {
+    event.respondWith(cacheFirst(request, staticCache));
+    return;
+  }
+
+  // API: Stale-While-Revalidate for public manga/genre data
+  const route = getApiCacheRoute(url.pathname);
+  if (route) {
+    event.respondWith(
+      staleWhileRevalidate(
+        request,
+        apiCache,
+        route.maxAge,
+        createContext(event)
+      )
+    );
+  }
+});
+
+// ============ PUSH NOTIFICATIONS ============
+
+self.addEventListener("push", (event) => {
+  let payload: unknown = null;
+  try {
+    payload = event.data?.json();
+  } catch {
+    // Not JSON - nothing we know how to show
+  }
+
+  if (!isPushPayload(payload)) {
+    if (DEBUG) console.log("[SW] Ignoring unknown push payload", payload);
+    return;
+  }
+
+  event.waitUntil(showChapterNotification(self.registration, payload));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+
+  const url = (event.notification.data as { url?: string } | null)?.url;
+  if (url) {
+    event.waitUntil(openNotificationUrl(self.clients, url));
+  }
+});
+
+// The push service rotated or expired the subscription - resubscribe with
+// the same server key and let open pages send the new one to the backend
+self.addEventListener("pushsubscriptionchange", (event) => {
+  const { oldSubscription } = event as Event & {
+    oldSubscription?: PushSubscription | null;
+  };
+  const applicationServerKey = oldSubscription?.options.applicationServerKey;
+  if (!applicationServerKey) return;
+
+  (event as ExtendableEvent).waitUntil(
+    self.registration.pushManager
+      .subscribe({ userVisibleOnly: true, applicationServerKey })
+      .then(() => broadcast({ type: "PUSH_SUBSCRIPTION_CHANGED" }))
+  );
+});
+
+// ============ MESSAGE HANDLER ============
+
+self.addEventListener("message", (event) => {
+  const data = event.data as ServiceWorkerCommand | string | null;
+  const type = typeof data === "string" ? data : data?.type;
+
+  if (type === "SKIP_WAITING") {
+    if (DEBUG) console.log("[SW] Skipping waiting - activating now");
+    void self.skipWaiting();
+  }
+
+  if (type === "CLEAR_CACHE") {
+    if (DEBUG) console.log("[SW] Clearing caches (keeping shell + downloads)");
+    event.waitUntil(
+      Promise.all([staticCache.clear(), apiCache.clear()]).then(() =>
+        caches
+          .keys()
+          .then((keys) =>
+            Promise.all(
+              keys
+                .filter((key) => !KEPT_CACHES.includes(key))
+                .map((key) => caches.delete(key))
+            )
+          )
+      )
+    );
+  }
+
+  if (type === "CLEAR_API_CACHE") {
+    if (DEBUG) console.log("[SW] Clearing API cache");
+    event.waitUntil(apiCache.clear());
+  }
+
+  if (type === "SIMULATE_PUSH" && typeof data === "object") {
+    const { payload } = data as Extract<
+      ServiceWorkerCommand,
+      { type: "SIMULATE_PUSH" }
+    >;
+    if (isPushPayload(payload)) {
+      event.waitUntil(showChapterNotification(self.registration, payload));
+    }
+  }
+});
@@ -4,6 +4,7 @@
  */
 
 import type { ListParams } from "./api";
+import type { MangaStatus } from "./manga";
 
 /**
  * Chapter entity (list view)
@@ -30,6 +31,8 @@ export interface MangaReference {
   name_alt?: string;
   slug: string;
   cover_full_url: string;
+  /** Included by user history responses */
+  status?: MangaStatus;
 }
 
 /**
@@ -116,6 +119,16 @@ export interface ReadingHistoryItem {
   last_read_at: string;
 }
 
+/**
+ * Reading progress recorded on a device that server history doesn't have
+ * yet - uploaded by requesting the chapter while logged in
+ */
+export interface HistorySyncEntry {
+  manga_slug: string;
+  chapter_slug: string;
+  read_at: string; // ISO 8601
+}
+
 /**
  * Chapter report types
  */
@@ -133,6 +146,8 @@ export type ChapterReportType =
 export interface CreateChapterReportRequest {
   report_type: ChapterReportType;
   description?: string;
+  /** 1-based page numbers affected (for image problems) */
+  page_numbers?: number[];
 }
 
 /**
@@ -146,6 +161,7 @@ export interface ChapterReport {
   report_type: ChapterReportType;
   report_type_label: string;
   description: string;
+  page_numbers?: number[] | null;
   created_at: string;
   updated_at: string;
   user?: {
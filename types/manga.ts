@@ -71,6 +71,12 @@ export interface Doujinshi {
   mangas_count?: number;
 }
 
+/**
+ * Artist, translation group and doujinshi share the same shape and endpoints
+ * Values match their route segments (/artists, /groups, /doujinshis)
+ */
+export type TaxonomyType = "artists" | "groups" | "doujinshis";
+
 /**
  * Chapter reference (for latest/first chapter in manga)
  */
@@ -81,6 +87,7 @@ export interface ChapterReference {
   slug: string;
   views?: number;
   order?: number;
+  chapter_number?: number;
   created_at: string;
 }
 
@@ -108,6 +115,7 @@ export interface Manga {
   genres?: Genre[];
   artist?: Artist;
   group?: Group;
+  doujinshi?: Doujinshi;
   latest_chapter?: ChapterReference;
   first_chapter?: ChapterReference;
 }
@@ -142,7 +150,8 @@ export interface MangaListParams extends ListParams {
   sort?: "-updated_at" | "-views" | "-rating" | "name";
   "filter[name]"?: string;
   "filter[status]"?: MangaStatus;
-  "filter[accept_genres]"?: number; // genres id
+  "filter[accept_genres]"?: string; // comma-separated genre ids (all required)
+  "filter[reject_genres]"?: string; // comma-separated genre ids (none allowed)
   include?: string; // e.g., "genres,artist,latest_chapter,group"
 }
 
@@ -153,11 +162,23 @@ export interface MangaSearchParams extends ListParams {
   q: string;
 }
 
+/**
+ * Sort options for genre manga listings
+ */
+export type GenreSortOption = "-updated_at" | "views" | "rating" | "name";
+
+export const GENRE_SORT_OPTIONS: GenreSortOption[] = [
+  "-updated_at",
+  "views",
+  "rating",
+  "name",
+];
+
 /**
  * Genre mangas query parameters
  */
 export interface GenreMangasParams extends ListParams {
-  sort?: "-updated_at" | "views" | "rating" | "name";
+  sort?: GenreSortOption;
 }
 
 /**
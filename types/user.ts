@@ -3,6 +3,9 @@
  * All types related to users, authentication, pets, and achievements
  */
 
+import type { SupportedLocale } from "@/lib/i18n/config";
+import type { MangaReference } from "./chapter";
+
 /**
  * Pet entity
  */
@@ -46,6 +49,7 @@ export interface User {
   achievements_points?: number; // Made optional to handle backend inconsistencies
   limit_pet_points?: number;
   limit_achievement_points?: number;
+  locale?: SupportedLocale | null; // Preferred UI language - not in the API yet, see PROFILE_LOCALE_ENABLED
   created_at: string;
   updated_at: string;
   pet?: Pet | null;
@@ -69,8 +73,16 @@ export interface AuthResponse {
   user: User;
   token: string;
   token_type: string;
+  /** Long-lived token for POST /auth/refresh, when the backend issues one */
+  refresh_token?: string;
 }
 
+/**
+ * Session response from the /api/auth route handler
+ * Same as AuthResponse minus the tokens, which are kept in httpOnly cookies
+ */
+export type SessionResponse = Omit<AuthResponse, "token" | "refresh_token">;
+
 /**
  * Login credentials
  */
@@ -105,6 +117,7 @@ export interface UpdateProfileData {
   password?: string;
   password_confirmation?: string;
   avatar?: File;
+  locale?: SupportedLocale; // Not in the API yet, see PROFILE_LOCALE_ENABLED
 }
 
 /**
@@ -138,3 +151,48 @@ export interface UserPets {
   available_points: number;
   limit_pet_points: number;
 }
+
+/**
+ * New chapter push notification preferences
+ * - all_bookmarks: notify for every bookmarked manga
+ * - manga_ids: bookmarked manga to notify for when all_bookmarks is off
+ */
+export interface PushPreferences {
+  all_bookmarks: boolean;
+  manga_ids: number[];
+}
+
+/**
+ * Browser push subscription as sent to the backend (PushSubscription.toJSON)
+ */
+export interface PushSubscriptionRequest {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * Built-in shelves every user has
+ */
+export type SystemShelf = "plan_to_read" | "reading" | "completed" | "dropped";
+
+/**
+ * Named reading list - system shelves have no editable name
+ */
+export interface Shelf {
+  id: string;
+  name: string;
+  system?: SystemShelf;
+  manga_count: number;
+  created_at: string;
+}
+
+/**
+ * Manga on a shelf, in the user's order
+ */
+export interface ShelfEntry {
+  manga: MangaReference;
+  added_at: string;
+}